@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { BodyMeasurements } from "@shared/api";
+import {
+  cmToFeetInches,
+  cmToInches,
+  feetInchesToCm,
+  inchesToCm,
+  kgToLb,
+  lbToKg,
+} from "@shared/anthropometrics";
+
+type LengthUnit = "cm" | "ft-in";
+type WeightUnit = "kg" | "lb";
+
+interface BodyMeasurementsStepProps {
+  value: BodyMeasurements;
+  onChange: (field: keyof BodyMeasurements, value: number | undefined) => void;
+}
+
+const parse = (text: string) => {
+  const number = parseFloat(text);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+const show = (number: number | undefined) =>
+  number === undefined ? "" : String(number);
+
+/**
+ * Optional height, weight, waist and body-fat entry. Values are kept in metric;
+ * imperial entries are converted as they are typed.
+ */
+export default function BodyMeasurementsStep({
+  value,
+  onChange,
+}: BodyMeasurementsStepProps) {
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>("cm");
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>("kg");
+
+  // Text as typed, so converting back from metric never rewrites a half-typed number
+  const [text, setText] = useState<Record<string, string>>(() => ({
+    heightCm: show(value.heightCm),
+    weightKg: show(value.weightKg),
+    waistCm: show(value.waistCm),
+    bodyFatPercent: show(value.bodyFatPercent),
+  }));
+
+  const feetInches = value.heightCm ? cmToFeetInches(value.heightCm) : null;
+
+  const switchLengthUnit = (unit: LengthUnit) => {
+    if (!unit) return;
+    setLengthUnit(unit);
+    setText((prev) => ({
+      ...prev,
+      feet: show(feetInches?.feet),
+      inches: show(feetInches?.inches),
+      heightCm: show(value.heightCm),
+      waistCm: show(value.waistCm),
+      waistIn: value.waistCm ? show(cmToInches(value.waistCm)) : "",
+    }));
+  };
+
+  const switchWeightUnit = (unit: WeightUnit) => {
+    if (!unit) return;
+    setWeightUnit(unit);
+    setText((prev) => ({
+      ...prev,
+      weightKg: show(value.weightKg),
+      weightLb: value.weightKg ? show(kgToLb(value.weightKg)) : "",
+    }));
+  };
+
+  const update = (
+    key: string,
+    input: string,
+    field: keyof BodyMeasurements,
+    toMetric: (number: number) => number,
+  ) => {
+    setText((prev) => ({ ...prev, [key]: input }));
+    const number = parse(input);
+    onChange(field, number === undefined ? undefined : toMetric(number));
+  };
+
+  const updateFeetInches = (key: "feet" | "inches", input: string) => {
+    const next = { ...text, [key]: input };
+    setText(next);
+    const feet = parse(next.feet);
+    onChange(
+      "heightCm",
+      feet === undefined
+        ? undefined
+        : feetInchesToCm(feet, parse(next.inches) || 0),
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4 justify-center">
+        <ToggleGroup
+          type="single"
+          value={lengthUnit}
+          onValueChange={(unit) => switchLengthUnit(unit as LengthUnit)}
+        >
+          <ToggleGroupItem value="cm">cm</ToggleGroupItem>
+          <ToggleGroupItem value="ft-in">ft / in</ToggleGroupItem>
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          value={weightUnit}
+          onValueChange={(unit) => switchWeightUnit(unit as WeightUnit)}
+        >
+          <ToggleGroupItem value="kg">kg</ToggleGroupItem>
+          <ToggleGroupItem value="lb">lb</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div>
+        <Label htmlFor="heightCm">Height</Label>
+        {lengthUnit === "cm" ? (
+          <Input
+            id="heightCm"
+            type="number"
+            inputMode="decimal"
+            placeholder="e.g. 165 cm"
+            value={text.heightCm || ""}
+            onChange={(e) =>
+              update("heightCm", e.target.value, "heightCm", (cm) => cm)
+            }
+          />
+        ) : (
+          <div className="flex gap-2">
+            <Input
+              id="heightCm"
+              type="number"
+              inputMode="numeric"
+              placeholder="ft"
+              value={text.feet || ""}
+              onChange={(e) => updateFeetInches("feet", e.target.value)}
+            />
+            <Input
+              type="number"
+              inputMode="numeric"
+              placeholder="in"
+              value={text.inches || ""}
+              onChange={(e) => updateFeetInches("inches", e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="weightKg">Weight</Label>
+        {weightUnit === "kg" ? (
+          <Input
+            id="weightKg"
+            type="number"
+            inputMode="decimal"
+            placeholder="e.g. 62 kg"
+            value={text.weightKg || ""}
+            onChange={(e) =>
+              update("weightKg", e.target.value, "weightKg", (kg) => kg)
+            }
+          />
+        ) : (
+          <Input
+            id="weightKg"
+            type="number"
+            inputMode="decimal"
+            placeholder="e.g. 137 lb"
+            value={text.weightLb || ""}
+            onChange={(e) =>
+              update("weightLb", e.target.value, "weightKg", lbToKg)
+            }
+          />
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="waistCm">Waist circumference (at the navel)</Label>
+        {lengthUnit === "cm" ? (
+          <Input
+            id="waistCm"
+            type="number"
+            inputMode="decimal"
+            placeholder="e.g. 80 cm"
+            value={text.waistCm || ""}
+            onChange={(e) =>
+              update("waistCm", e.target.value, "waistCm", (cm) => cm)
+            }
+          />
+        ) : (
+          <Input
+            id="waistCm"
+            type="number"
+            inputMode="decimal"
+            placeholder="e.g. 32 in"
+            value={text.waistIn || ""}
+            onChange={(e) =>
+              update("waistIn", e.target.value, "waistCm", inchesToCm)
+            }
+          />
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="bodyFatPercent">
+          Body fat % (from a scale or DEXA scan)
+        </Label>
+        <Input
+          id="bodyFatPercent"
+          type="number"
+          inputMode="decimal"
+          placeholder="e.g. 24"
+          value={text.bodyFatPercent || ""}
+          onChange={(e) =>
+            update(
+              "bodyFatPercent",
+              e.target.value,
+              "bodyFatPercent",
+              (percent) => percent,
+            )
+          }
+        />
+      </div>
+
+      <p className="text-xs sm:text-sm text-gray-500 text-center">
+        All optional - skip anything you don't know and we'll estimate it.
+      </p>
+    </div>
+  );
+}
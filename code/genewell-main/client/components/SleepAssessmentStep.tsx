@@ -0,0 +1,48 @@
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { SleepAssessmentAnswers } from "@shared/api";
+import { SLEEP_INSTRUMENTS, SleepInstrument } from "@shared/sleep-assessment";
+
+interface SleepAssessmentStepProps {
+  instrument: SleepInstrument;
+  value: SleepAssessmentAnswers;
+  onChange: (questionId: string, optionIndex: number) => void;
+}
+
+/**
+ * One part of the extended sleep assessment, every question on one page. Answers are kept
+ * as option indexes; shared/sleep-assessment.ts scores them.
+ */
+export default function SleepAssessmentStep({
+  instrument,
+  value,
+  onChange,
+}: SleepAssessmentStepProps) {
+  return (
+    <div className="space-y-6">
+      {SLEEP_INSTRUMENTS[instrument].questions.map((question) => (
+        <div key={question.id} className="space-y-2">
+          <p className="font-semibold text-gray-900">{question.text}</p>
+          <RadioGroup
+            value={
+              value[question.id] === undefined ? "" : String(value[question.id])
+            }
+            onValueChange={(index) => onChange(question.id, Number(index))}
+          >
+            {question.options.map((option, index) => (
+              <div key={option.label} className="flex items-center gap-2">
+                <RadioGroupItem
+                  value={String(index)}
+                  id={`${question.id}-${index}`}
+                />
+                <Label htmlFor={`${question.id}-${index}`}>
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      ))}
+    </div>
+  );
+}
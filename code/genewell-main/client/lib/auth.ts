@@ -0,0 +1,58 @@
+import { AuthResponse } from "@shared/api";
+
+const ACCESS_TOKEN_KEY = "auth_token";
+const REFRESH_TOKEN_KEY = "refresh_token";
+
+export const getAccessToken = () => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export function storeSession(data: AuthResponse) {
+  if (data.token) localStorage.setItem(ACCESS_TOKEN_KEY, data.token);
+  if (data.refreshToken)
+    localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
+  if (data.user) localStorage.setItem("user", JSON.stringify(data.user));
+}
+
+export function clearSession() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem("user");
+}
+
+async function refreshSession(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+
+  const response = await fetch("/api/auth/refresh", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  const data: AuthResponse = await response.json();
+
+  if (!data.success) {
+    clearSession();
+    return false;
+  }
+  storeSession(data);
+  return true;
+}
+
+/**
+ * fetch() with the access token attached. On a 401 the session is refreshed
+ * once and the request retried. Streaming bodies can't be replayed, so callers
+ * uploading files should pass a File/Blob (which can).
+ */
+export async function authFetch(
+  input: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const send = () =>
+    fetch(input, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${getAccessToken()}` },
+    });
+
+  const response = await send();
+  if (response.status !== 401 || !(await refreshSession())) return response;
+  return send();
+}
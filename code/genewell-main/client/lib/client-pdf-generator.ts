@@ -1,51 +1,20 @@
 import jsPDF from "jspdf";
-
-export interface PersonalizationProfile {
-  name: string;
-  email: string;
-  age: number;
-  gender: string;
-  estimatedHeightCm: number;
-  estimatedWeightKg: number;
-  estimatedBMR: number;
-  estimatedTDEE: number;
-  proteinGrams: number;
-  carbsGrams: number;
-  fatsGrams: number;
-  stressScore: number;
-  sleepScore: number;
-  activityScore: number;
-  energyScore: number;
-  medicalConditions: string[];
-  digestiveIssues: string[];
-  foodIntolerances: string[];
-  skinConcerns: string[];
-  dietaryPreference: string;
-  exercisePreference: string[];
-  workSchedule: string;
-  region: string;
-  recommendedTests: string[];
-  supplementPriority: string[];
-  exerciseIntensity: string;
-  mealFrequency: number;
-  dnaConsent: boolean;
-}
-
-export interface PersonalizationInsights {
-  metabolicInsight: string;
-  recommendedMealTimes: string[];
-  calorieRange: { min: number; max: number };
-  macroRatios: { protein: number; carbs: number; fats: number };
-  supplementStack: Array<{ name: string; reason: string; dosage: string }>;
-  workoutStrategy: string;
-  sleepStrategy: string;
-  stressStrategy: string;
-}
-
-export interface PersonalizationData {
-  profile: PersonalizationProfile;
-  insights: PersonalizationInsights;
-}
+import type { PersonalizationData } from "@shared/personalization-engine";
+import { formatSchedule } from "@shared/circadian-schedule";
+import { describeSleepAssessment } from "@shared/sleep-assessment";
+import {
+  formatGroceryAmount,
+  formatMeal,
+  generateMealPlan,
+} from "@shared/meal-planner";
+import {
+  formatPrescription,
+  generateTrainingProgram,
+  programProgression,
+  weekExercises,
+} from "@shared/training-program";
+
+export type { PersonalizationData } from "@shared/personalization-engine";
 
 export interface PDFGenerationOptions {
   tier: "free" | "essential" | "premium" | "coaching";
@@ -191,7 +160,7 @@ export async function generatePersonalizedPDFClient(
   pdf.text(`Age: ${profile.age} | Gender: ${profile.gender}`, margin, yPosition);
   yPosition += 5;
   pdf.text(
-    `Height: ${profile.estimatedHeightCm}cm | Weight: ${profile.estimatedWeightKg}kg`,
+    `Height: ${profile.estimatedHeightCm}cm${profile.metricSources?.height === "measured" ? "" : " (est.)"} | Weight: ${profile.estimatedWeightKg}kg${profile.metricSources?.weight === "measured" ? "" : " (est.)"}${profile.bmi ? ` | BMI: ${profile.bmi} (${profile.bmiCategory})` : ""}`,
     margin,
     yPosition
   );
@@ -235,7 +204,7 @@ export async function generatePersonalizedPDFClient(
   pdf.setTextColor(17, 24, 39);
   pdf.setFont("helvetica", "normal");
   const action1Lines = pdf.splitTextToSize(
-    `Wake at ${insights.recommendedMealTimes[0]?.split(" ")[0] || "7:00"} AM every day (including weekends) for 30 days. This single action resets your circadian rhythm and improves sleep quality within days.`,
+    `Wake at ${insights.sleepWakePlan?.schedule.wakeTime || "7:00 AM"} every day (including weekends) for 30 days. This single action resets your circadian rhythm and improves sleep quality within days.`,
     contentWidth
   );
   pdf.text(action1Lines, margin, yPosition);
@@ -287,6 +256,9 @@ export async function generatePersonalizedPDFClient(
   addHeaderSection("Executive Summary", `${profile.name}'s Personalized Wellness Analysis`);
 
   addText(insights.metabolicInsight, 10);
+  if (insights.bodyCompositionInsight) {
+    addText(insights.bodyCompositionInsight, 10);
+  }
 
   addSubSection("Your Wellness Baseline");
   addText(`Energy Level: ${profile.energyScore}/100`, 9);
@@ -300,6 +272,30 @@ export async function generatePersonalizedPDFClient(
     addBulletPoint(test, 8);
   });
 
+  // === MEDICAL CONDITIONS ===
+  if (insights.conditionGuidance?.length) {
+    addNewPage();
+    addHeaderSection(
+      "Your Health Conditions",
+      "How your plan adapts - review it with your doctor"
+    );
+
+    insights.conditionGuidance.forEach((guidance) => {
+      addSubSection(guidance.title);
+      guidance.nutritionGuidance.forEach((line) => addBulletPoint(line, 8));
+
+      addText("Tests to track:", 9, [45, 55, 72], true);
+      guidance.bloodTests.forEach((test) => addBulletPoint(test, 8));
+
+      if (guidance.supplementCautions.length > 0) {
+        addText("Supplement cautions:", 9, [185, 28, 28], true);
+        guidance.supplementCautions.forEach(({ supplement, caution }) =>
+          addBulletPoint(`${supplement}: ${caution}`, 8)
+        );
+      }
+    });
+  }
+
   // === PREMIUM INSIGHTS ===
   if (tier === "premium" || tier === "coaching") {
     addNewPage();
@@ -436,33 +432,47 @@ export async function generatePersonalizedPDFClient(
     addBulletPoint("Vegetable (minimum 2 cups, variety of colors)", 8);
     addBulletPoint("Healthy fat (olive oil, ghee, nuts, avocado)", 8);
 
+    const foods = insights.foodRecommendations;
+    if (foods?.bestFoods.length) {
+      addSubSection("Your Best Everyday Foods");
+      foods.bestFoods.forEach((food) => addBulletPoint(food, 8));
+    }
+    if (foods?.worstFoods.length) {
+      addSubSection("Foods to Limit");
+      foods.worstFoods.forEach((food) => addBulletPoint(food, 8));
+    }
+
     if (tier === "premium" || tier === "coaching") {
       addNewPage();
 
-      addSubSection("7-Day Meal Plan Framework");
-      addText("Use this as a template. Mix and match based on your preferences:", 9);
+      const mealPlan = generateMealPlan(personalizationData);
+      const { targets } = mealPlan;
 
-      const sampleMeals = [
-        "Breakfast: 2-3 eggs + oats with banana + 1 tsp ghee",
-        "Mid-morning: Greek yogurt + berries + almonds",
-        "Lunch: Grilled chicken + brown rice + roasted broccoli + olive oil",
-        "Afternoon: Apple + peanut butter",
-        "Dinner: Lentil dal + roti + spinach curry",
-        "Optional evening: Casein (Greek yogurt) if hungry after 8 PM",
-      ];
-
-      sampleMeals.forEach((meal) => {
-        addBulletPoint(meal, 8);
+      addSubSection("Your 7-Day Meal Plan");
+      addText(
+        `Portions are sized to your daily targets: ${targets.kcal} kcal, ${targets.proteinG}g protein, ${targets.carbsG}g carbs, ${targets.fatG}g fat.`,
+        9
+      );
+      mealPlan.days.forEach((day) => {
+        addText(
+          `${day.day} - ${day.totals.kcal} kcal, ${day.totals.proteinG}g protein, ${day.totals.carbsG}g carbs, ${day.totals.fatG}g fat`,
+          9,
+          [17, 24, 39],
+          true
+        );
+        day.meals.forEach((meal) => addBulletPoint(formatMeal(meal), 8));
       });
 
-      addSubSection("Indian Grocery Shopping List");
-      addText("Proteins: Chicken breast, Fish, Paneer, Moong/Arhar dal, Eggs", 8);
-      addText(
-        "Vegetables: Spinach, Broccoli, Bell peppers, Carrots, Cauliflower, Tomatoes",
-        8
+      addNewPage();
+      addSubSection("Your Weekly Grocery List");
+      [...new Set(mealPlan.groceryList.map((item) => item.aisle))].forEach(
+        (aisle) => {
+          const items = mealPlan.groceryList
+            .filter((item) => item.aisle === aisle)
+            .map((item) => `${item.name} ${formatGroceryAmount(item)}`);
+          addText(`${aisle}: ${items.join(", ")}`, 8);
+        }
       );
-      addText("Grains: Brown rice, Whole wheat roti, Oats, Quinoa, Millets", 8);
-      addText("Healthy Fats: Olive oil, Ghee, Almonds, Peanuts, Sesame oil", 8);
 
       addSubSection("Hydration Protocol (Science-Based)");
       addBulletPoint("Upon waking: 500ml water (rehydrates after 8-hour fast)", 8);
@@ -483,18 +493,45 @@ export async function generatePersonalizedPDFClient(
 
   addText(insights.sleepStrategy, 9);
 
+  if (insights.sleepAssessment) {
+    addSubSection("Your Sleep Assessment");
+    describeSleepAssessment(insights.sleepAssessment).forEach((line) =>
+      addBulletPoint(line, 8)
+    );
+  }
+
+  // Older saved analyses have no plan
+  const sleepWakePlan = insights.sleepWakePlan;
+  if (sleepWakePlan) {
+    addSubSection("Your Sleep-Wake Schedule");
+    [sleepWakePlan.schedule, sleepWakePlan.nightShift]
+      .filter(Boolean)
+      .forEach((schedule) => {
+        addText(schedule.label, 9, [124, 58, 237], true);
+        formatSchedule(schedule).forEach((line) => addBulletPoint(line, 8));
+      });
+    sleepWakePlan.transitions.forEach((transition) => {
+      addText(transition.label, 9, [17, 24, 39], true);
+      transition.steps.forEach((step) => addBulletPoint(step, 8));
+    });
+    sleepWakePlan.notes.forEach((note) => addBulletPoint(note, 8));
+  }
+
   addSubSection("Sleep Hygiene Checklist");
   addBulletPoint("Consistent sleep-wake time (even weekends) ← Most important", 8);
   addBulletPoint("Dark room: <5 lux (blackout curtains or eye mask)", 8);
   addBulletPoint("Cool temperature: 65-68°F (18-20°C)", 8);
   addBulletPoint("Quiet environment: <30 dB (earplugs or white noise)", 8);
   addBulletPoint("No blue light 60-90 min before bed", 8);
-  addBulletPoint("No caffeine after 2 PM (5-6 hour half-life)", 8);
+  addBulletPoint(
+    `No caffeine after ${sleepWakePlan?.schedule.caffeineCutoff || "2 PM"} (5-6 hour half-life)`,
+    8
+  );
   addBulletPoint("Warm bath/tea 90 min before bed (triggers melatonin)", 8);
 
   if (tier !== "free") {
     addSubSection("Sleep Supplements (If Protocol Alone Isn't Enough)");
-    addBulletPoint("Magnesium Glycinate: 300-400mg, 60 min before bed", 8);
+    addBulletPoint("Magnesium Glycinate: 200-350mg, 60 min before bed", 8);
     addBulletPoint("L-Theanine: 100-200mg, optional with magnesium", 8);
     addBulletPoint("Herbal tea: Chamomile or passionflower (traditional)", 8);
     addText(
@@ -515,55 +552,39 @@ export async function generatePersonalizedPDFClient(
 
     addText(insights.workoutStrategy, 9);
 
-    const workoutType =
-      tier === "essential"
-        ? "3-Day Beginner"
-        : tier === "premium"
-          ? "5-Day Intermediate"
-          : "6-Day Advanced";
-
-    addSubSection(`${workoutType} Weekly Schedule`);
-
-    if (tier === "essential") {
-      addText("Monday: Full Body Strength (30 min)", 9);
-      addBulletPoint("Push-ups or chest press: 3 sets x 8-12 reps", 8);
-      addBulletPoint("Squats or leg press: 3 sets x 12-15 reps", 8);
-      addBulletPoint("Plank or core: 3 sets x 30-60 seconds", 8);
+    const program = generateTrainingProgram(profile);
+    const [firstWeek] = program.weeks;
 
-      addText("Wednesday: Zone 2 Cardio (30 min, conversational pace)", 9);
-      addBulletPoint("Brisk walk, jog, or cycle at easy pace", 8);
-
-      addText("Friday: Flexibility & Recovery (20 min)", 9);
-      addBulletPoint("Yoga, stretching, deep breathing", 8);
-    } else if (tier === "premium") {
-      addText("Monday: Lower Body Strength (45 min)", 9);
-      addBulletPoint("Focus: Squat, deadlift variations", 8);
-
-      addText("Tuesday: Upper Body Push (45 min)", 9);
-      addBulletPoint("Focus: Chest, shoulders, triceps", 8);
-
-      addText("Wednesday: Active Recovery (30 min)", 9);
-      addBulletPoint("Walk, yoga, or light mobility", 8);
-
-      addText("Thursday: Upper Body Pull (45 min)", 9);
-      addBulletPoint("Focus: Back, biceps, rear delts", 8);
-
-      addText("Friday: Full Body Power (45 min)", 9);
-      addBulletPoint("Focus: Olympic lift patterns, explosive movements", 8);
+    addSubSection(`Your ${program.daysPerWeek}-Day Weekly Schedule (Week 1)`);
+    firstWeek.sessions.forEach((session) => {
+      addText(`${session.day}: ${session.title} (${session.durationMin} min)`, 9);
+      session.exercises.forEach((exercise) =>
+        addBulletPoint(formatPrescription(exercise), 8)
+      );
+    });
 
-      addText("Sat-Sun: Optional light activity or complete rest", 9);
-    } else {
-      addText("6-day periodized program with progressive overload", 9);
+    addSubSection("12-Week Progression");
+    programProgression(program).forEach((week) => {
       addText(
-        "Phases: Strength (weeks 1-4) → Hypertrophy (weeks 5-8) → Power (weeks 9-12)",
-        9
+        `Week ${week.week} - ${week.phase}${week.deload ? " (deload)" : ""}: ${week.sets} sets x ${week.reps} @ RPE ${week.rpe}`,
+        8
       );
-    }
+    });
+    addText(
+      "RPE 7 means you could have done about 3 more reps. Add weight or reps when the last set feels easier than the target RPE. Deload weeks cut the sets to let your body absorb the training.",
+      8,
+      [107, 114, 128]
+    );
 
-    addSubSection("Progressive Overload Formula");
-    addText("Weeks 1-4: Master form with moderate weight", 8);
-    addText("Weeks 5-8: Increase weight or reps by 5-10%", 8);
-    addText("Weeks 9-12: New variations or higher intensity", 8);
+    if (tier === "premium" || tier === "coaching") {
+      addSubSection("Exercise Guide");
+      weekExercises(firstWeek).forEach((exercise) => {
+        addBulletPoint(
+          `${exercise.name}: ${exercise.cues.join(". ")}.${exercise.substitute ? ` Swap: ${exercise.substitute}.` : ""}`,
+          8
+        );
+      });
+    }
 
     addNewPage();
   }
@@ -618,6 +639,24 @@ export async function generatePersonalizedPDFClient(
       addText(`${idx + 1}. ${supp}`, 9);
     });
 
+    if (insights.supplementWarnings?.length) {
+      addSubSection("Safety Checks");
+      insights.supplementWarnings.forEach((warning) => {
+        addText(
+          `${warning.supplement} (${warning.severity})`,
+          9,
+          warning.severity === "info" ? [74, 85, 104] : [185, 28, 28],
+          true
+        );
+        addBulletPoint(
+          warning.alternative
+            ? `${warning.message}. Try instead: ${warning.alternative}`
+            : warning.message,
+          8
+        );
+      });
+    }
+
     addSubSection("Supplement Timing Protocol");
     addText("Morning (with breakfast):", 9, [17, 24, 39], true);
     addBulletPoint(
@@ -1,19 +1,12 @@
-// Plan ID Mapping (from specification)
-export const PLAN_IDS = {
-  FREE: "free_blueprint",
-  ESSENTIAL: "essential_blueprint",
-  PREMIUM: "premium_blueprint",
-  COACHING: "coaching_blueprint",
-} as const;
-
-export const ADDON_IDS = {
-  DNA: "addon_dna",
-  SUPPLEMENT: "addon_supplement",
-  ATHLETE: "addon_athlete",
-  FAMILY: "addon_family",
-  WOMEN_HORMONE: "addon_women_hormone",
-  MEN_FITNESS: "addon_men_fitness",
-} as const;
+import {
+  ADDON_CATALOG,
+  ADDON_IDS,
+  PLAN_CATALOG,
+  PLAN_IDS,
+} from "../../shared/catalog";
+
+// Plan and add-on ids, names and prices come from the shared catalog, which the server prices checkouts from
+export { ADDON_IDS, PLAN_IDS };
 
 export interface Product {
   id: string;
@@ -51,7 +44,7 @@ export interface PlanConfiguration {
 export const FREE_BLUEPRINT: Product = {
   id: "free-blueprint",
   planId: PLAN_IDS.FREE,
-  name: "Free Blueprint",
+  name: PLAN_CATALOG[PLAN_IDS.FREE].name,
   description: "Sleep & circadian rhythm assessment. Stress and energy evaluation. 5 daily habit recommendations. Hydration & movement guidelines. 90-day quick-start checklist. Approx. 6-page PDF, personalized for your profile.",
   details: [
     "Sleep & circadian rhythm assessment",
@@ -60,7 +53,7 @@ export const FREE_BLUEPRINT: Product = {
     "Hydration & movement guidelines",
     "90-day quick-start checklist",
   ],
-  price: 0,
+  price: PLAN_CATALOG[PLAN_IDS.FREE].price,
   color: "gray",
   icon: "gift",
   link: "/view-sample-report",
@@ -311,9 +304,9 @@ Choose what fits your goals and budget. All start with your quiz data—no repet
 export const ESSENTIAL_BLUEPRINT: Product = {
   id: "essential-blueprint",
   planId: PLAN_IDS.ESSENTIAL,
-  name: "Essential Blueprint",
+  name: PLAN_CATALOG[PLAN_IDS.ESSENTIAL].name,
   description: "Personalized meal timing and macro framework. Daily movement and beginner training plan. 7-day meal structure with Indian examples. Basic supplement guidance. Weekly accountability checklist. Approx. 10-page PDF, personalized for {{userName}}.",
-  price: 599,
+  price: PLAN_CATALOG[PLAN_IDS.ESSENTIAL].price,
   color: "blue",
   icon: "star",
   link: "/buy-essential",
@@ -331,9 +324,9 @@ export const ESSENTIAL_BLUEPRINT: Product = {
 export const PREMIUM_BLUEPRINT: Product = {
   id: "premium-blueprint",
   planId: PLAN_IDS.PREMIUM,
-  name: "Premium Blueprint",
+  name: PLAN_CATALOG[PLAN_IDS.PREMIUM].name,
   description: "Calories & macro optimization for your goal. Customized 7-day meal plan with recipes and Indian grocery list. Goal-aligned training and recovery program (5+ days/week). Full supplement strategy with timing. Mental and cognitive performance section. Approx. 12-page PDF, personalized for {{userName}}.",
-  price: 1499,
+  price: PLAN_CATALOG[PLAN_IDS.PREMIUM].price,
   color: "green",
   icon: "zap",
   link: "/buy-premium",
@@ -353,9 +346,9 @@ export const PREMIUM_BLUEPRINT: Product = {
 export const COMPLETE_COACHING: Product = {
   id: "complete-coaching",
   planId: PLAN_IDS.COACHING,
-  name: "Complete Coaching",
+  name: PLAN_CATALOG[PLAN_IDS.COACHING].name,
   description: "Everything in Premium plus: Strategy session and form review. Weekly accountability + form checks (first 8–12 weeks). WhatsApp messaging support. Habit and behavior change coaching. Periodic reassessment and re-programming. Approx. 14–16-page PDF, personalized for {{userName}}.",
-  price: 9999,
+  price: PLAN_CATALOG[PLAN_IDS.COACHING].price,
   color: "orange",
   icon: "heart",
   link: "/buy-coaching",
@@ -392,9 +385,9 @@ export const getProductByPlanId = (planId: string): Product | undefined => {
 export const addOns: AddOn[] = [
   {
     id: ADDON_IDS.DNA,
-    name: "DNA Analysis Add-on",
+    name: ADDON_CATALOG[ADDON_IDS.DNA].name,
     description: "Genetic insight into nutrient absorption, caffeine sensitivity, and exercise response",
-    price: 1499,
+    price: ADDON_CATALOG[ADDON_IDS.DNA].price,
     icon: "dna",
     pageCountAddition: 3,
     features: [
@@ -408,9 +401,9 @@ export const addOns: AddOn[] = [
   },
   {
     id: ADDON_IDS.SUPPLEMENT,
-    name: "Advanced Supplement Stack",
+    name: ADDON_CATALOG[ADDON_IDS.SUPPLEMENT].name,
     description: "Lab-backed supplement protocol specific to your deficiencies and goals",
-    price: 2999,
+    price: ADDON_CATALOG[ADDON_IDS.SUPPLEMENT].price,
     icon: "pill",
     pageCountAddition: 3,
     features: [
@@ -424,9 +417,9 @@ export const addOns: AddOn[] = [
   },
   {
     id: ADDON_IDS.ATHLETE,
-    name: "Athletic Performance Add-on",
+    name: ADDON_CATALOG[ADDON_IDS.ATHLETE].name,
     description: "Sport-specific training, energy systems, and fuel-timing strategy",
-    price: 1999,
+    price: ADDON_CATALOG[ADDON_IDS.ATHLETE].price,
     icon: "target",
     pageCountAddition: 2,
     features: [
@@ -440,9 +433,9 @@ export const addOns: AddOn[] = [
   },
   {
     id: ADDON_IDS.FAMILY,
-    name: "Family Nutrition Plan",
+    name: ADDON_CATALOG[ADDON_IDS.FAMILY].name,
     description: "Extend your plan to up to 4 family members with customized blueprints",
-    price: 3499,
+    price: ADDON_CATALOG[ADDON_IDS.FAMILY].price,
     icon: "users",
     pageCountAddition: 4,
     features: [
@@ -456,9 +449,9 @@ export const addOns: AddOn[] = [
   },
   {
     id: ADDON_IDS.WOMEN_HORMONE,
-    name: "Women's Hormonal Health Add-on",
+    name: ADDON_CATALOG[ADDON_IDS.WOMEN_HORMONE].name,
     description: "Menstrual cycle nutrition, PCOS/thyroid support, and hormone-aware training",
-    price: 1799,
+    price: ADDON_CATALOG[ADDON_IDS.WOMEN_HORMONE].price,
     icon: "heart",
     pageCountAddition: 2,
     features: [
@@ -472,9 +465,9 @@ export const addOns: AddOn[] = [
   },
   {
     id: ADDON_IDS.MEN_FITNESS,
-    name: "Men's Fitness Optimization Add-on",
+    name: ADDON_CATALOG[ADDON_IDS.MEN_FITNESS].name,
     description: "Muscle-building framework, testosterone-supporting habits, and strength progressions",
-    price: 1799,
+    price: ADDON_CATALOG[ADDON_IDS.MEN_FITNESS].price,
     icon: "zap",
     pageCountAddition: 2,
     features: [
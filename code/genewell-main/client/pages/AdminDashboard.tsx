@@ -30,8 +30,8 @@ interface DashboardStats {
 }
 
 interface RecentPurchase {
-  id: number;
-  user_id: number;
+  id: string;
+  user_id: string;
   total_price: number;
   payment_status: string;
   created_at: string;
@@ -40,7 +40,7 @@ interface RecentPurchase {
 }
 
 interface AdminUser {
-  id: number;
+  id: string;
   email: string;
   name: string;
   age?: number;
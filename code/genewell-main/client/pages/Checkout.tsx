@@ -9,6 +9,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Sparkles,
@@ -29,16 +30,90 @@ import {
   PlanConfiguration,
 } from "@/lib/products";
 import LegalFooter from "@/components/LegalFooter";
+import { authFetch, getAccessToken } from "@/lib/auth";
+import {
+  CheckoutCompleteResponse,
+  CheckoutQuote,
+  CheckoutQuoteResponse,
+  LAUNCH_OFFER_CODE,
+  PaymentGatewayId,
+  PaymentGatewayOption,
+  PaymentGatewaysResponse,
+} from "@shared/api";
+import { GST_STATES } from "@shared/gst";
 
 export default function Checkout() {
   const navigate = useNavigate();
   const location = useLocation();
   const [isProcessing, setIsProcessing] = useState(false);
+  const [gateways, setGateways] = useState<PaymentGatewayOption[]>([]);
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+  const [promoCode, setPromoCode] = useState(""); // Applied to the quote
+  const [promoInput, setPromoInput] = useState("");
+  const [promoError, setPromoError] = useState<string | null>(null);
+  // For the GST invoice - the state decides CGST + SGST or IGST
+  const [billingState, setBillingState] = useState("");
+  const [gstin, setGstin] = useState("");
+  const [businessName, setBusinessName] = useState("");
+
+  // Gateways besides Instamojo's direct link, as configured on the server
+  useEffect(() => {
+    fetch("/api/payments/gateways")
+      .then((response) => response.json())
+      .then((data: PaymentGatewaysResponse) =>
+        setGateways(
+          (data.gateways || []).filter((gateway) => gateway.id !== "instamojo")
+        )
+      )
+      .catch(() => setGateways([]));
+  }, []);
 
   const configuration: PlanConfiguration | null =
     location.state?.configuration ||
     JSON.parse(localStorage.getItem("planConfiguration") || "null");
 
+  // The server prices the order - the stored configuration only says what was picked
+  const requestQuote = async (code = promoCode): Promise<CheckoutQuote> => {
+    const quizData = JSON.parse(localStorage.getItem("quizData") || "{}");
+    const response = await authFetch("/api/checkout/quote", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        planId: configuration.planId,
+        addOns: configuration.selectedAddOns,
+        promoCode: code || undefined,
+        email: quizData.userEmail || undefined,
+      }),
+    });
+    const data: CheckoutQuoteResponse = await response.json();
+    if (!data.success) {
+      throw new Error(data.message || "Failed to price your order");
+    }
+    return data.quote;
+  };
+
+  useEffect(() => {
+    if (!configuration) return;
+    requestQuote()
+      .then(setQuote)
+      .catch(() => setQuote(null));
+  }, [configuration?.planId, configuration?.selectedAddOns.join(","), promoCode]);
+
+  const applyPromoCode = async (code: string): Promise<CheckoutQuote | null> => {
+    try {
+      const promoted = await requestQuote(code);
+      setQuote(promoted);
+      setPromoCode(code);
+      setPromoError(null);
+      return promoted;
+    } catch (err) {
+      setPromoError(err instanceof Error ? err.message : "Invalid promotion code");
+      return null;
+    }
+  };
+
   if (!configuration) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center p-4">
@@ -68,6 +143,27 @@ export default function Checkout() {
     .map((id) => getAddOnById(id))
     .filter(Boolean);
 
+  const totalPrice = quote ? quote.total : configuration.totalPrice;
+
+  // A fresh quote for each attempt, as quotes expire while the page sits open
+  const paymentRequestBody = async (
+    analysisId: string,
+    quizData: any,
+    code = promoCode
+  ) => ({
+    email: quizData.userEmail || "noemail@genewell.local",
+    name: quizData.userName || "User",
+    phone: quizData.phone || "9999999999",
+    age: parseInt(quizData.age) || null,
+    gender: quizData.gender || null,
+    analysisId,
+    quoteId: (await requestQuote(code)).quoteId,
+    billingState: billingState || undefined,
+    gstin: gstin.trim() || undefined,
+    businessName: businessName.trim() || undefined,
+    quizData,
+  });
+
   const handlePayWithInstamojo = async () => {
     setIsProcessing(true);
 
@@ -86,24 +182,12 @@ export default function Checkout() {
       );
 
       // Create direct payment link
-      const response = await fetch("/api/payments/create-direct-payment-link", {
+      const response = await authFetch("/api/payments/create-direct-payment-link", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          email: quizData.userEmail || "noemail@genewell.local",
-          name: quizData.userName || "User",
-          phone: quizData.phone || "9999999999",
-          age: parseInt(quizData.age) || null,
-          gender: quizData.gender || null,
-          analysisId,
-          planId: configuration.planId,
-          addOns: configuration.selectedAddOns,
-          amount: configuration.totalPrice,
-          quizData,
-          personalizationData: JSON.parse(localStorage.getItem("personalizationData") || "{}"),
-        }),
+        body: JSON.stringify(await paymentRequestBody(analysisId, quizData)),
       });
 
       if (!response.ok) {
@@ -111,14 +195,15 @@ export default function Checkout() {
         throw new Error(error.message || "Failed to create payment link");
       }
 
-      const { paymentUrl } = await response.json();
+      const { paymentUrl, purchaseId } = await response.json();
+      localStorage.setItem("lastPurchaseId", String(purchaseId));
 
       // Open Instamojo payment in new tab/window
       window.open(paymentUrl, '_blank');
 
-      // After payment, user can access download page
+      // The download page waits for the payment to complete before it serves the report
       setTimeout(() => {
-        navigate("/download", { state: { planId: configuration.planId, addOns: configuration.selectedAddOns } });
+        navigate("/download", { state: { planId: configuration.planId, addOns: configuration.selectedAddOns, purchaseId } });
       }, 1000);
     } catch (err) {
       console.error("Payment error:", err);
@@ -128,7 +213,8 @@ export default function Checkout() {
     }
   };
 
-  const handleLaunchOfferBypass = async () => {
+  // Hosted checkouts send the buyer back to /payment-success, which verifies the payment
+  const handlePayWithGateway = async (gateway: PaymentGatewayId) => {
     setIsProcessing(true);
 
     try {
@@ -145,14 +231,77 @@ export default function Checkout() {
         JSON.stringify(configuration)
       );
 
-      // Store launch offer expiry date (45 days from now)
-      const expiryDate = new Date();
-      expiryDate.setDate(expiryDate.getDate() + 45);
-      localStorage.setItem("launchOfferExpiry", expiryDate.toISOString());
-      localStorage.setItem("purchaseMethod", "launch-offer");
+      const response = await authFetch("/api/payments/create-payment-request", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...(await paymentRequestBody(analysisId, quizData)),
+          gateway,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to create payment request");
+      }
+
+      const { paymentUrl } = await response.json();
+      window.location.href = paymentUrl;
+    } catch (err) {
+      console.error("Payment error:", err);
+      alert(err instanceof Error ? err.message : "Payment failed");
+      setIsProcessing(false);
+    }
+  };
+
+  // Orders that come to ₹0 - the free plan, or a promotion covering everything - are completed
+  // by the server, without a gateway
+  const completeFreeOrder = async (
+    analysisId: string,
+    quizData: any,
+    code = promoCode
+  ): Promise<string> => {
+    const response = await authFetch("/api/checkout/complete", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(await paymentRequestBody(analysisId, quizData, code)),
+    });
+    const data: CheckoutCompleteResponse = await response.json();
+    if (!data.success) {
+      throw new Error(data.message || "Failed to complete your order");
+    }
+    localStorage.setItem("lastPurchaseId", data.purchaseId);
+    return data.purchaseId;
+  };
+
+  // The launch offer is a promotion code like any other - the server checks and records it
+  const handleLaunchOffer = async () => {
+    setIsProcessing(true);
+
+    try {
+      const analysisId = localStorage.getItem("analysisId");
+      const quizData = JSON.parse(localStorage.getItem("quizData") || "{}");
+
+      if (!analysisId) {
+        throw new Error("Analysis ID not found. Please complete the quiz first.");
+      }
 
-      // Redirect to download page
-      navigate("/download", { state: { planId: configuration.planId, addOns: configuration.selectedAddOns } });
+      // When the offer doesn't cover everything, the summary now shows what is left to pay
+      const offer = await applyPromoCode(LAUNCH_OFFER_CODE);
+      if (!offer || offer.total > 0) return;
+
+      // Store configuration for download page
+      localStorage.setItem(
+        "activeConfiguration",
+        JSON.stringify(configuration)
+      );
+
+      const purchaseId = await completeFreeOrder(analysisId, quizData, LAUNCH_OFFER_CODE);
+      navigate("/download", { state: { planId: configuration.planId, addOns: configuration.selectedAddOns, purchaseId } });
     } catch (err) {
       console.error("Launch offer error:", err);
       alert(err instanceof Error ? err.message : "Failed to process launch offer");
@@ -179,8 +328,9 @@ export default function Checkout() {
       );
 
       // For free plan, skip payment and go directly to download
-      if (configuration.totalPrice === 0) {
-        navigate("/download", { state: { planId: configuration.planId, addOns: configuration.selectedAddOns } });
+      if (totalPrice === 0) {
+        const purchaseId = await completeFreeOrder(analysisId, quizData);
+        navigate("/download", { state: { planId: configuration.planId, addOns: configuration.selectedAddOns, purchaseId } });
       } else {
         // Default to Instamojo payment
         await handlePayWithInstamojo();
@@ -245,7 +395,7 @@ export default function Checkout() {
       <div className="flex-1 py-12">
         <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
           {/* Launch Offer Banner */}
-          {configuration.totalPrice > 0 && (
+          {totalPrice > 0 && (
             <div className="mb-8 bg-gradient-to-r from-purple-50 via-pink-50 to-red-50 border-2 border-purple-300 rounded-lg p-6">
               <div className="flex items-start space-x-4">
                 <div className="flex-shrink-0">
@@ -391,16 +541,92 @@ export default function Checkout() {
                   </div>
                 ))}
 
+                {quote?.discounts.map((discount) => (
+                  <div
+                    key={discount.code || discount.label}
+                    className="flex justify-between text-green-700"
+                  >
+                    <span>
+                      {discount.label}
+                      {discount.code && ` (${discount.code})`}
+                    </span>
+                    <span className="font-semibold">
+                      −₹{discount.amount.toLocaleString("en-IN")}
+                    </span>
+                  </div>
+                ))}
+
                 <div className="border-t border-slate-200 pt-3">
                   <div className="flex justify-between items-center">
                     <span className="font-semibold text-lg text-slate-900">
                       Total
                     </span>
                     <span className="text-3xl font-bold text-blue-600">
-                      ₹{configuration.totalPrice.toLocaleString("en-IN")}
+                      ₹{totalPrice.toLocaleString("en-IN")}
                     </span>
                   </div>
+                  {quote && quote.gst > 0 && (
+                    <p className="text-xs text-slate-500 text-right mt-1">
+                      Includes ₹{quote.gst.toLocaleString("en-IN")} GST (
+                      {Math.round(quote.gstRate * 100)}%)
+                    </p>
+                  )}
                 </div>
+
+                {plan.price > 0 && (
+                  <div className="pt-2">
+                    <div className="flex gap-2">
+                      <Input
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value)}
+                        placeholder="Promotion code"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => applyPromoCode(promoInput.trim())}
+                        disabled={!promoInput.trim() || isProcessing}
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                    {promoError && (
+                      <p className="text-sm text-red-600 mt-2">{promoError}</p>
+                    )}
+                  </div>
+                )}
+
+                {plan.price > 0 && (
+                  <div className="pt-2 space-y-2">
+                    <p className="text-sm font-semibold text-slate-700">
+                      Billing details for your GST invoice
+                    </p>
+                    <select
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                      value={billingState}
+                      onChange={(e) => setBillingState(e.target.value)}
+                    >
+                      <option value="">State (optional)</option>
+                      {Object.entries(GST_STATES).map(([code, name]) => (
+                        <option key={code} value={code}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      value={gstin}
+                      onChange={(e) => setGstin(e.target.value.toUpperCase())}
+                      placeholder="GSTIN, for business purchases (optional)"
+                      maxLength={15}
+                    />
+                    {gstin.trim() && (
+                      <Input
+                        value={businessName}
+                        onChange={(e) => setBusinessName(e.target.value)}
+                        placeholder="Registered business name"
+                      />
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
@@ -415,7 +641,7 @@ export default function Checkout() {
                 </div>
               </div>
 
-              {configuration.totalPrice === 0 ? (
+              {totalPrice === 0 ? (
                 <Button
                   onClick={handleCompleteCheckout}
                   disabled={isProcessing}
@@ -428,7 +654,9 @@ export default function Checkout() {
                     </>
                   ) : (
                     <>
-                      Get My Free Blueprint
+                      {quote?.discount > 0
+                        ? "Claim My Blueprint"
+                        : "Get My Free Blueprint"}
                       <ChevronRight className="ml-2 h-5 w-5" />
                     </>
                   )}
@@ -454,8 +682,22 @@ export default function Checkout() {
                     )}
                   </Button>
 
+                  {gateways.map((gateway) => (
+                    <Button
+                      key={gateway.id}
+                      onClick={() => handlePayWithGateway(gateway.id)}
+                      disabled={isProcessing}
+                      variant="outline"
+                      className="w-full border-2 border-blue-300 text-blue-700 hover:bg-blue-50 font-semibold py-3 text-lg flex items-center justify-center"
+                    >
+                      <CreditCard className="mr-2 h-5 w-5" />
+                      Pay with {gateway.label}
+                      <ChevronRight className="ml-2 h-5 w-5" />
+                    </Button>
+                  ))}
+
                   <Button
-                    onClick={handleLaunchOfferBypass}
+                    onClick={handleLaunchOffer}
                     disabled={isProcessing}
                     variant="outline"
                     className="w-full border-2 border-purple-400 text-purple-700 hover:bg-purple-50 font-semibold py-3 text-lg flex items-center justify-center"
@@ -473,6 +715,15 @@ export default function Checkout() {
                       </>
                     )}
                   </Button>
+                  {!getAccessToken() && (
+                    <p className="text-xs text-slate-500 text-center">
+                      The launch offer is one per account -{" "}
+                      <Link to="/login" className="text-purple-700 underline">
+                        sign in
+                      </Link>{" "}
+                      to claim it.
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -39,6 +39,7 @@ import {
   PersonalizedRecommendations,
   User as UserType,
 } from "@shared/api";
+import { authFetch, clearSession, getAccessToken } from "@/lib/auth";
 
 export default function Dashboard() {
   const navigate = useNavigate();
@@ -54,8 +55,7 @@ export default function Dashboard() {
 
   useEffect(() => {
     // Check authentication
-    const token = localStorage.getItem("auth_token");
-    if (!token) {
+    if (!getAccessToken()) {
       navigate("/login");
       return;
     }
@@ -65,12 +65,7 @@ export default function Dashboard() {
 
   const fetchDashboardData = async () => {
     try {
-      const token = localStorage.getItem("auth_token");
-      const response = await fetch("/api/dashboard", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await authFetch("/api/dashboard");
 
       const data = await response.json();
 
@@ -90,19 +85,13 @@ export default function Dashboard() {
   };
 
   const handleLogout = () => {
-    localStorage.removeItem("auth_token");
-    localStorage.removeItem("user");
+    clearSession();
     navigate("/");
   };
 
   const downloadReport = async () => {
     try {
-      const token = localStorage.getItem("auth_token");
-      const response = await fetch("/api/dna/report", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await authFetch("/api/dna/report");
 
       const data = await response.json();
       if (data.success) {
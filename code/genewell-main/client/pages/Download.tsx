@@ -27,13 +27,6 @@ import {
   getAddOnById,
   PlanConfiguration,
 } from "@/lib/products";
-import {
-  generatePersonalizedPDFClient,
-  downloadPDF,
-  type PersonalizationData,
-} from "@/lib/client-pdf-generator";
-import { analyzeQuizData } from "@/lib/quiz-analysis";
-
 interface PDFData {
   pdfRecordId: string;
   orderId: string;
@@ -42,9 +35,12 @@ interface PDFData {
   generatedAt: string;
   expiresAt: string;
   downloadUrl: string;
-  pageCount: number;
+  pageCount?: number; // Known when the report was generated for this request
 }
 
+// The signed link /api/wellness/purchase hands back lasts a day
+const LINK_TTL_MS = 24 * 60 * 60 * 1000;
+
 export default function Download() {
   const navigate = useNavigate();
   const location = useLocation();
@@ -52,6 +48,7 @@ export default function Download() {
   const [isLoading, setIsLoading] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [error, setError] = useState("");
+  const [paymentPending, setPaymentPending] = useState(false);
   const [showInfo, setShowInfo] = useState(true);
 
   const quizData = JSON.parse(localStorage.getItem("quizData") || "{}");
@@ -83,14 +80,18 @@ export default function Download() {
     }
   }, [location.state, analysisId]);
 
+  // The server only builds the report for a completed order - the plan comes from the order
+
   const generatePDF = async (config: PlanConfiguration) => {
     setIsLoading(true);
     setError("");
+    setPaymentPending(false);
     setShowInfo(true);
 
     try {
       const freshAnalysisId = localStorage.getItem("analysisId");
-      const savedQuizData = localStorage.getItem("quizData");
+      const purchaseId =
+        location.state?.purchaseId || localStorage.getItem("lastPurchaseId");
 
       if (!freshAnalysisId) {
         throw new Error(
@@ -98,119 +99,54 @@ export default function Download() {
         );
       }
 
-      if (!savedQuizData) {
-        throw new Error("Quiz data not found. Please complete the quiz first.");
+      if (!purchaseId) {
+        throw new Error(
+          "No order found. Please complete checkout to get your blueprint."
+        );
       }
 
-      const planTier = config.planId.replace("_blueprint", "");
-
-      console.log("Generating client-side PDF...", {
-        freshAnalysisId,
-        planTier,
-        addOns: config.selectedAddOns,
+      const response = await fetch("/api/wellness/purchase", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          purchaseId,
+          analysisId: freshAnalysisId,
+          language: localStorage.getItem("language") || "en",
+        }),
       });
+      const data = await response.json();
 
-      let parsedQuizData;
-      try {
-        parsedQuizData = JSON.parse(savedQuizData);
-      } catch (parseErr) {
-        console.error("Failed to parse quiz data:", parseErr);
-        throw new Error("Invalid quiz data format");
+      // 402: the order exists but the gateway hasn't confirmed the payment yet
+      if (response.status === 402) {
+        setPaymentPending(true);
+        return;
       }
-
-      console.log("Quiz data parsed successfully:", parsedQuizData);
-
-      // Analyze quiz data to create personalization data with user's real information
-      let personalizationData: PersonalizationData;
-      try {
-        personalizationData = analyzeQuizData(
-          parsedQuizData,
-          parsedQuizData.userName,
-          parsedQuizData.userEmail
-        );
-        console.log("Personalization data created:", personalizationData);
-      } catch (analysisErr) {
-        console.error("Failed to analyze quiz data:", analysisErr);
-        throw new Error(`Failed to analyze quiz data: ${analysisErr instanceof Error ? analysisErr.message : "Unknown error"}`);
+      if (!data.success) {
+        throw new Error(data.message || "Failed to generate your blueprint");
       }
 
-      // Generate PDF in browser
-      let blob: Blob;
-      let filename: string;
-      try {
-        const pdfResult = await generatePersonalizedPDFClient(
-          personalizationData,
-          {
-            tier: planTier as any,
-            addOns: config.selectedAddOns,
-            orderId: freshAnalysisId,
-            timestamp: new Date().toISOString(),
-            language: (localStorage.getItem("language") || "en") as "en" | "hi",
-          }
-        );
-        blob = pdfResult.blob;
-        filename = pdfResult.filename;
-        console.log("PDF generated successfully:", { filename, size: blob.size });
-      } catch (pdfErr) {
-        console.error("Failed to generate PDF:", pdfErr);
-        throw new Error(`Failed to generate PDF: ${pdfErr instanceof Error ? pdfErr.message : "Unknown error"}`);
-      }
-
-      // Estimate page count based on tier and add-ons
-      let pageCount = 1; // Cover page
-      pageCount += 1; // Top 3 actions
-      pageCount += 1; // Executive summary
-      if (planTier === "premium" || planTier === "coaching") pageCount += 1; // Latest science
-      if (planTier !== "free") pageCount += 1; // Metabolic profile
-      if (
-        planTier === "essential" ||
-        planTier === "premium" ||
-        planTier === "coaching"
-      ) {
-        pageCount += 1; // Nutrition plan
-        if (planTier === "premium" || planTier === "coaching") pageCount += 1; // Meal plan details
-      }
-      pageCount += 1; // Sleep optimization
-      if (
-        planTier === "essential" ||
-        planTier === "premium" ||
-        planTier === "coaching"
-      )
-        pageCount += 1; // Movement & fitness
-      pageCount += 1; // Stress management
-      if (planTier === "premium" || planTier === "coaching") pageCount += 1; // Supplements
-      pageCount += 1; // Progress tracking
-      pageCount += 1; // Action plan
-
-      console.log("PDF generated successfully:", filename);
-
       setPdfData({
-        pdfRecordId: `pdf_${freshAnalysisId}`,
-        orderId: freshAnalysisId,
+        pdfRecordId: data.pdfRecordId,
+        orderId: data.orderId,
         planTier: config.planId,
-        userName: parsedQuizData.userName || "User",
-        generatedAt: new Date().toISOString(),
-        expiresAt: new Date(
-          Date.now() + 30 * 24 * 60 * 60 * 1000
-        ).toISOString(),
-        downloadUrl: URL.createObjectURL(blob),
-        pageCount: pageCount,
+        userName: quizData.userName || "User",
+        generatedAt: data.generatedAt,
+        expiresAt: new Date(Date.now() + LINK_TTL_MS).toISOString(),
+        downloadUrl: data.downloadUrl,
+        pageCount: data.pageCount,
       });
 
       // Store for potential later use
       localStorage.setItem(
         "lastPDFData",
         JSON.stringify({
-          pdfRecordId: `pdf_${freshAnalysisId}`,
-          orderId: freshAnalysisId,
-          pageCount: pageCount,
-          filename: filename,
+          pdfRecordId: data.pdfRecordId,
+          orderId: data.orderId,
+          pageCount: data.pageCount,
         })
       );
-
-      // Store the blob reference for download (note: Blobs can't be stored in sessionStorage)
-      // Instead, we keep the blob in memory via pdfData state
-      console.log("PDF ready for download");
     } catch (err) {
       console.error("PDF generation error:", err);
       const errorMessage = err instanceof Error ? err.message : String(err);
@@ -227,7 +163,6 @@ export default function Download() {
     try {
       console.log("Starting download...");
 
-      // Create object URL from the blob URL stored in pdfData
       const link = document.createElement("a");
       link.href = pdfData.downloadUrl;
       link.download = `${(quizData.userName || "blueprint").replace(/\s+/g, "-")}_${pdfData.planTier}.pdf`;
@@ -366,6 +301,24 @@ export default function Download() {
             </Alert>
           )}
 
+          {paymentPending && configuration && (
+            <Alert className="mb-4 sm:mb-6 border-amber-200 bg-amber-50">
+              <Loader className="h-4 w-4" />
+              <AlertDescription className="text-amber-800 ml-2 text-sm sm:text-base">
+                We're waiting for your payment to be confirmed. Once it completes, your blueprint is
+                ready to download.
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => generatePDF(configuration)}
+                  className="mt-3 block text-xs sm:text-sm"
+                >
+                  Check again
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Configuration Summary */}
           {plan && (
             <Card className="mb-4 sm:mb-6 border-2 border-green-200 bg-green-50/30">
@@ -426,7 +379,7 @@ export default function Download() {
                         <div className="bg-white/60 p-2 sm:p-3 rounded-lg">
                           <p className="text-xs text-slate-600">Total Pages</p>
                           <p className="text-xl sm:text-2xl font-bold text-green-600 mt-1">
-                            {pdfData.pageCount}
+                            {pdfData.pageCount || plan.pageCount}
                           </p>
                         </div>
                         <div className="bg-white/60 p-2 sm:p-3 rounded-lg">
@@ -464,7 +417,7 @@ export default function Download() {
                     ) : (
                       <>
                         <DownloadIcon className="mr-2 h-4 w-4 sm:h-5 sm:w-5" />
-                        Download PDF ({pdfData.pageCount} pages)
+                        Download PDF{pdfData.pageCount ? ` (${pdfData.pageCount} pages)` : ""}
                       </>
                     )}
                   </Button>
@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge";
 import { Link } from "react-router-dom";
 import QuizGateModal from "@/components/QuizGateModal";
 import { products } from "@/lib/products";
+import { planSleepWake } from "@shared/circadian-schedule";
 import {
   generatePersonalizedPDFClient,
   downloadPDF,
@@ -57,6 +58,12 @@ export default function Index() {
 
   const handleSampleReport = async () => {
     try {
+      const sampleSleepWakePlan = planSleepWake({
+        age: 30,
+        wakeUpTime: "6-8",
+        sleepHours: "7-8",
+        workSchedule: "9-to-5",
+      });
       const sampleData: PersonalizationData = {
         profile: {
           name: "Sample User",
@@ -67,6 +74,10 @@ export default function Index() {
           estimatedWeightKg: 75,
           estimatedBMR: 1750,
           estimatedTDEE: 2400,
+          bmrFormula: "mifflin-st-jeor",
+          metricSources: { height: "measured", weight: "measured" },
+          bmi: 24.5,
+          bmiCategory: "overweight",
           proteinGrams: 135,
           carbsGrams: 300,
           fatsGrams: 80,
@@ -78,8 +89,9 @@ export default function Index() {
           digestiveIssues: [],
           foodIntolerances: [],
           skinConcerns: [],
-          dietaryPreference: "omnivore",
+          dietaryPreference: "non-veg",
           exercisePreference: ["gym", "cardio"],
+          exerciseEquipment: "gym",
           workSchedule: "9-to-5",
           region: "India",
           recommendedTests: [
@@ -95,7 +107,7 @@ export default function Index() {
           supplementPriority: [
             "Vitamin D3 2000-4000 IU daily",
             "Omega-3 (fish oil) 2-3g EPA+DHA daily",
-            "Magnesium Glycinate 300-400mg before bed",
+            "Magnesium Glycinate 200-350mg before bed",
           ],
           exerciseIntensity: "moderate",
           mealFrequency: 3,
@@ -104,7 +116,12 @@ export default function Index() {
         insights: {
           metabolicInsight:
             "Your moderate metabolism and 9-to-5 schedule suggest optimal results with structured meal timing and consistent strength training 3-4x per week.",
-          recommendedMealTimes: ["8:00 AM", "1:00 PM", "7:00 PM"],
+          bodyCompositionInsight:
+            "Your BMI is 24.5 (overweight). Asian Indians face metabolic risk at lower BMIs than the WHO ranges assume, so we use the Indian consensus cut-offs: below 18.5 underweight, 18.5-22.9 normal, 23-24.9 overweight, 25 and above obese.",
+          recommendedMealTimes: sampleSleepWakePlan.schedule.meals.map(
+            (meal) => meal.window,
+          ),
+          sleepWakePlan: sampleSleepWakePlan,
           calorieRange: { min: 2100, max: 2700 },
           macroRatios: { protein: 22.5, carbs: 50, fats: 27.5 },
           supplementStack: [
@@ -130,6 +147,9 @@ export default function Index() {
             "Target 7-8 hours nightly with consistent 10:30 PM bedtime and 6:30 AM wake time. Dark, cool room with minimal screen time 1 hour before sleep.",
           stressStrategy:
             "5-10 minute daily breathing exercises, 30 min walks 3x weekly, and regular strength training which naturally reduces cortisol and anxiety.",
+          supplementWarnings: [],
+          conditionGuidance: [],
+          foodRecommendations: { bestFoods: [], worstFoods: [] },
         },
       };
 
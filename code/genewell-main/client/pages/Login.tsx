@@ -24,6 +24,7 @@ import {
   Calendar,
 } from "lucide-react";
 import { AuthLogin, AuthRegister, AuthResponse } from "@shared/api";
+import { storeSession } from "@/lib/auth";
 
 export default function Login() {
   const navigate = useNavigate();
@@ -67,8 +68,7 @@ export default function Login() {
       const data: AuthResponse = await response.json();
 
       if (data.success && data.token) {
-        localStorage.setItem("auth_token", data.token);
-        localStorage.setItem("user", JSON.stringify(data.user));
+        storeSession(data);
         setSuccess("Login successful! Redirecting...");
         setTimeout(() => navigate("/dashboard"), 1500);
       } else {
@@ -110,8 +110,7 @@ export default function Login() {
       const data: AuthResponse = await response.json();
 
       if (data.success && data.token) {
-        localStorage.setItem("auth_token", data.token);
-        localStorage.setItem("user", JSON.stringify(data.user));
+        storeSession(data);
         setSuccess("Account created successfully! Redirecting...");
         setTimeout(() => navigate("/dashboard"), 1500);
       } else {
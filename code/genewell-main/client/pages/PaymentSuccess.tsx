@@ -61,6 +61,7 @@ export default function PaymentSuccess() {
             state: {
               planId: configuration.planId,
               addOns: configuration.selectedAddOns,
+              purchaseId,
             },
           });
         }, 2000);
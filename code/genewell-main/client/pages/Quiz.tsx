@@ -34,10 +34,22 @@ import {
   Bed,
   AlertCircle,
   Globe,
+  Dumbbell,
 } from "lucide-react";
-import { WellnessQuiz } from "@shared/api";
+import {
+  BodyMeasurementsSchema,
+  SleepAssessmentAnswers,
+  WellnessQuiz,
+} from "@shared/api";
 import LegalFooter from "@/components/LegalFooter";
-import { analyzeQuizData } from "@/lib/quiz-analysis";
+import BodyMeasurementsStep from "@/components/BodyMeasurementsStep";
+import SleepAssessmentStep from "@/components/SleepAssessmentStep";
+import { analyzeQuizData } from "@shared/personalization-engine";
+import {
+  isInstrumentComplete,
+  SLEEP_INSTRUMENTS,
+} from "@shared/sleep-assessment";
+import { generateTrainingProgram } from "@shared/training-program";
 
 // Quiz Questions Configuration
 const quizQuestions = [
@@ -71,6 +83,14 @@ const quizQuestions = [
       { value: "prefer-not-to-say", label: "Prefer not to say", emoji: "💜" },
     ],
   },
+  {
+    id: "bodyMeasurements",
+    title: "Your body measurements",
+    subtitle: "Optional - real numbers make your calorie and macro targets accurate",
+    icon: Scale,
+    type: "measurements" as const,
+    options: [],
+  },
   {
     id: "wakeUpTime",
     title: "What time do you usually wake up?",
@@ -176,6 +196,51 @@ const quizQuestions = [
       { value: "more-than-8", label: "More than 8 hours", emoji: "😌" },
     ],
   },
+  {
+    id: "sleepAssessmentOptIn",
+    title: "Want an advanced sleep assessment?",
+    subtitle:
+      "Optional: 19 questions from validated sleep questionnaires give a more precise sleep score and your body-clock type",
+    icon: Bed,
+    type: "select" as const,
+    options: [
+      { value: "yes", label: "Yes, assess my sleep in depth", emoji: "🔬" },
+      { value: "no", label: "No, skip it", emoji: "⏭️" },
+    ],
+  },
+  {
+    id: "sleepAssessmentMorningness",
+    title: SLEEP_INSTRUMENTS.morningness.title,
+    subtitle: `Based on ${SLEEP_INSTRUMENTS.morningness.basedOn}`,
+    icon: Moon,
+    type: "sleep-assessment" as const,
+    instrument: "morningness" as const,
+    showIf: (answers: Partial<WellnessQuiz>) =>
+      (answers as any).sleepAssessmentOptIn === "yes",
+    options: [],
+  },
+  {
+    id: "sleepAssessmentQuality",
+    title: SLEEP_INSTRUMENTS.sleepQuality.title,
+    subtitle: `Based on ${SLEEP_INSTRUMENTS.sleepQuality.basedOn}`,
+    icon: Moon,
+    type: "sleep-assessment" as const,
+    instrument: "sleepQuality" as const,
+    showIf: (answers: Partial<WellnessQuiz>) =>
+      (answers as any).sleepAssessmentOptIn === "yes",
+    options: [],
+  },
+  {
+    id: "sleepAssessmentInsomnia",
+    title: SLEEP_INSTRUMENTS.insomnia.title,
+    subtitle: `Based on ${SLEEP_INSTRUMENTS.insomnia.basedOn}`,
+    icon: Moon,
+    type: "sleep-assessment" as const,
+    instrument: "insomnia" as const,
+    showIf: (answers: Partial<WellnessQuiz>) =>
+      (answers as any).sleepAssessmentOptIn === "yes",
+    options: [],
+  },
   {
     id: "activityLevel",
     title: "How physically active are you daily?",
@@ -286,6 +351,15 @@ const quizQuestions = [
       { value: "prefer-not-to-say", label: "Prefer not to disclose", emoji: "🤐" },
     ],
   },
+  {
+    id: "medications",
+    title: "Do you take any medicines regularly?",
+    subtitle: "Optional - we check your supplements against them",
+    icon: Heart,
+    type: "text" as const,
+    placeholder: "e.g. thyronorm, metformin, telmisartan",
+    options: [],
+  },
   {
     id: "eatingOut",
     title: "How often do you eat out or order food?",
@@ -316,6 +390,18 @@ const quizQuestions = [
       { value: "none", label: "Getting started (no routine yet)", emoji: "🛋️" },
     ],
   },
+  {
+    id: "exerciseEquipment",
+    title: "What can you train with?",
+    subtitle: "Every exercise in your program will work with what you have",
+    icon: Dumbbell,
+    type: "select" as const,
+    options: [
+      { value: "none", label: "Just my body weight", emoji: "🤸" },
+      { value: "home-basics", label: "Dumbbells or resistance bands at home", emoji: "🏠" },
+      { value: "gym", label: "A gym", emoji: "🏋️" },
+    ],
+  },
   {
     id: "workSchedule",
     title: "What's your work schedule like?",
@@ -331,6 +417,20 @@ const quizQuestions = [
       { value: "homemaker", label: "Homemaker", emoji: "🏠" },
     ],
   },
+  {
+    id: "shiftType",
+    title: "Which shifts do you work?",
+    subtitle: "We'll plan your sleep, light and meals around them",
+    icon: Clock,
+    type: "select" as const,
+    showIf: (answers: Partial<WellnessQuiz>) =>
+      answers.workSchedule === "shift-work",
+    options: [
+      { value: "night", label: "Night shifts (around 10 PM-6 AM)", emoji: "🌙" },
+      { value: "evening", label: "Evening shifts (around 2-10 PM)", emoji: "🌆" },
+      { value: "rotating", label: "Rotating day and night shifts", emoji: "🔄" },
+    ],
+  },
   {
     id: "dnaUpload",
     title: "DNA Report for Deeper Analysis?",
@@ -381,6 +481,21 @@ const quizQuestions = [
       { value: "stable", label: "Stable", emoji: "🙂" },
     ],
   },
+  {
+    id: "dietaryPreference",
+    title: "How do you eat?",
+    subtitle: "Picks foods that fit your diet",
+    icon: Utensils,
+    type: "select" as const,
+    options: [
+      { value: "non-veg", label: "Non-vegetarian", emoji: "🍗" },
+      { value: "pescatarian", label: "Pescatarian (fish, no meat)", emoji: "🐟" },
+      { value: "eggetarian", label: "Eggetarian", emoji: "🥚" },
+      { value: "vegetarian", label: "Vegetarian", emoji: "🧀" },
+      { value: "jain", label: "Jain (no root vegetables)", emoji: "🙏" },
+      { value: "vegan", label: "Vegan", emoji: "🌱" },
+    ],
+  },
   {
     id: "foodIntolerances",
     title: "Any food intolerances?",
@@ -428,8 +543,12 @@ export default function Quiz() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
 
-  const currentQuestion = quizQuestions[currentStep];
-  const progress = ((currentStep + 1) / quizQuestions.length) * 100;
+  // Follow-up questions only show for the answers they follow up on
+  const visibleQuestions = quizQuestions.filter(
+    (question) => !question.showIf || question.showIf(quizData),
+  );
+  const currentQuestion = visibleQuestions[currentStep];
+  const progress = ((currentStep + 1) / visibleQuestions.length) * 100;
   const Icon = currentQuestion.icon;
 
   useEffect(() => {
@@ -440,7 +559,10 @@ export default function Quiz() {
     }
   }, [currentStep]);
 
-  const handleAnswer = (questionId: string, value: string | string[]) => {
+  const handleAnswer = (
+    questionId: string,
+    value: string | string[] | number | SleepAssessmentAnswers | undefined,
+  ) => {
     setQuizData((prev) => ({
       ...prev,
       [questionId]: value,
@@ -452,6 +574,19 @@ export default function Quiz() {
     if (currentQuestion.type === "checkbox") {
       return Array.isArray(currentAnswer) && currentAnswer.length > 0;
     }
+    if (currentQuestion.type === "measurements") {
+      // Optional, but anything entered must be plausible
+      return BodyMeasurementsSchema.safeParse(quizData).success;
+    }
+    if (currentQuestion.type === "sleep-assessment") {
+      return isInstrumentComplete(
+        currentQuestion.instrument,
+        quizData.sleepAssessment,
+      );
+    }
+    if (currentQuestion.type === "text") {
+      return true; // Optional
+    }
     if ((currentQuestion as any).type === "form") {
       return Boolean((quizData as any).userName) && /.+@.+\..+/.test((quizData as any).userEmail || "");
     }
@@ -459,7 +594,7 @@ export default function Quiz() {
   };
 
   const handleNext = () => {
-    if (currentStep < quizQuestions.length - 1) {
+    if (currentStep < visibleQuestions.length - 1) {
       setCurrentStep(currentStep + 1);
     } else {
       submitQuiz();
@@ -526,19 +661,29 @@ export default function Quiz() {
         digestiveIssues: normalizedDigestive || "none",
         medicalConditions: normalizedMedical || "none",
         exercisePreference: normalizedExercise || "walking",
+        exerciseEquipment: rest.exerciseEquipment || "none",
         skinConcerns: skinConcernsArray,
         foodIntolerances: foodIntolerancesArray,
         // Add default values for missing optional fields
         energyLevels: rest.energyLevels || "moderate",
         moodPatterns: rest.moodPatterns || "stable",
         hydrationHabits: rest.hydrationHabits || "6-8-glasses",
+        dietaryPreference: rest.dietaryPreference || "non-veg",
         supplementUsage: rest.supplementUsage || "none",
+        medications: rest.medications?.trim() || undefined,
         workSchedule: rest.workSchedule || "9-to-5",
+        shiftType:
+          rest.workSchedule === "shift-work"
+            ? rest.shiftType || "rotating"
+            : undefined,
+        sleepAssessment:
+          rest.sleepAssessmentOptIn === "yes" ? rest.sleepAssessment : undefined,
       };
 
       // Perform client-side analysis instead of server call
       console.log("Analyzing quiz data on client...");
       const personalizationData = analyzeQuizData(finalQuizData, userName, userEmail);
+      const trainingProgram = generateTrainingProgram(personalizationData.profile);
 
       // Generate analysis ID client-side
       const analysisId = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -555,8 +700,8 @@ export default function Quiz() {
           ],
         },
         nutritionPlan: {
-          bestFoods: ["Lean proteins", "Whole grains", "Fresh vegetables", "Healthy fats"],
-          worstFoods: ["Processed foods", "Refined sugars", "Trans fats"],
+          bestFoods: personalizationData.insights.foodRecommendations.bestFoods,
+          worstFoods: personalizationData.insights.foodRecommendations.worstFoods,
           mealTiming: {
             breakfast: personalizationData.insights.recommendedMealTimes[0],
             lunch: personalizationData.insights.recommendedMealTimes[1],
@@ -566,8 +711,8 @@ export default function Quiz() {
         },
         fitnessRoutine: {
           workoutType: personalizationData.profile.exercisePreference,
-          frequency: personalizationData.profile.mealFrequency,
-          duration: personalizationData.profile.exerciseIntensity === "low" ? 20 : 30,
+          frequency: trainingProgram.daysPerWeek,
+          duration: trainingProgram.sessionMinutes,
         },
       };
 
@@ -610,8 +755,8 @@ export default function Quiz() {
 
             <div className="flex items-center gap-1 sm:gap-4">
               <Badge className="bg-purple-100 text-purple-700 text-xs sm:text-sm py-1">
-                <span className="hidden sm:inline">Question {currentStep + 1} of {quizQuestions.length}</span>
-                <span className="sm:hidden">{currentStep + 1}/{quizQuestions.length}</span>
+                <span className="hidden sm:inline">Question {currentStep + 1} of {visibleQuestions.length}</span>
+                <span className="sm:hidden">{currentStep + 1}/{visibleQuestions.length}</span>
               </Badge>
               <Button
                 variant="ghost"
@@ -642,8 +787,8 @@ export default function Quiz() {
               </h1>
               <p className="text-gray-600 text-xs sm:text-sm">
                 {language === "en"
-                  ? `Step ${currentStep + 1} of ${quizQuestions.length}`
-                  : `चरण ${currentStep + 1} का ${quizQuestions.length}`}
+                  ? `Step ${currentStep + 1} of ${visibleQuestions.length}`
+                  : `चरण ${currentStep + 1} का ${visibleQuestions.length}`}
               </p>
             </div>
             <Badge className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-2 sm:px-3 py-1 text-xs sm:text-sm">
@@ -737,6 +882,35 @@ export default function Quiz() {
               </div>
             )}
 
+            {/* Body Measurements Step */}
+            {currentQuestion.type === "measurements" && (
+              <BodyMeasurementsStep value={quizData} onChange={handleAnswer} />
+            )}
+
+            {/* Extended Sleep Assessment Steps */}
+            {currentQuestion.type === "sleep-assessment" && (
+              <SleepAssessmentStep
+                instrument={currentQuestion.instrument}
+                value={quizData.sleepAssessment || {}}
+                onChange={(questionId, optionIndex) =>
+                  handleAnswer("sleepAssessment", {
+                    ...quizData.sleepAssessment,
+                    [questionId]: optionIndex,
+                  })
+                }
+              />
+            )}
+
+            {/* Free Text Step */}
+            {currentQuestion.type === "text" && (
+              <Input
+                id={currentQuestion.id}
+                placeholder={currentQuestion.placeholder}
+                value={(currentAnswer as string) || ""}
+                onChange={(e) => handleAnswer(currentQuestion.id, e.target.value)}
+              />
+            )}
+
             {/* User Info Step */}
             {currentQuestion.type === "form" && (
               <div className="space-y-4">
@@ -814,7 +988,7 @@ export default function Quiz() {
                   ) : (
                     "योजना बनाई जा रही है..."
                   )
-                ) : currentStep === quizQuestions.length - 1 ? (
+                ) : currentStep === visibleQuestions.length - 1 ? (
                   <>
                     <CheckCircle className="mr-2 h-5 w-5" />
                     {language === "en" ? "Get My Blueprint" : "मेरी योजना पाएं"}
@@ -881,7 +1055,7 @@ export default function Quiz() {
           >
             {isSubmitting ? (
               <span className="text-xs">Creating...</span>
-            ) : currentStep === quizQuestions.length - 1 ? (
+            ) : currentStep === visibleQuestions.length - 1 ? (
               <>
                 <CheckCircle className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
                 <span className="hidden sm:inline">{language === "en" ? "Get Blueprint" : "पाएं"}</span>
@@ -27,7 +27,22 @@ import {
   Eye,
   Download,
 } from "lucide-react";
-import { DNAUpload, DNAProcessingResponse } from "@shared/api";
+import {
+  DNAUpload,
+  DNAProcessingResponse,
+  DNAJobStatusResponse,
+} from "@shared/api";
+import { authFetch, getAccessToken } from "@/lib/auth";
+
+const JOB_POLL_INTERVAL_MS = 1500;
+
+const JOB_STAGE_LABELS = {
+  queued: "Waiting in queue...",
+  parsing: "Reading your genotype file...",
+  interpreting: "Interpreting genetic variants...",
+  complete: "Analysis complete",
+  failed: "Processing failed",
+};
 
 interface UploadedFile {
   file: File;
@@ -35,6 +50,7 @@ interface UploadedFile {
   progress: number;
   status: "uploading" | "processing" | "complete" | "error";
   processingId?: string;
+  stage?: string;
 }
 
 export default function UploadPage() {
@@ -51,8 +67,7 @@ export default function UploadPage() {
 
   useEffect(() => {
     // Check if user is authenticated
-    const token = localStorage.getItem("auth_token");
-    setIsAuthenticated(!!token);
+    setIsAuthenticated(!!getAccessToken());
   }, []);
 
   const validateFile = (file: File): { valid: boolean; error?: string } => {
@@ -198,7 +213,6 @@ export default function UploadPage() {
     );
 
     try {
-      const token = localStorage.getItem("auth_token");
       const uploadData: DNAUpload = {
         fileName: uploadedFile.file.name,
         fileSize: uploadedFile.file.size,
@@ -207,45 +221,23 @@ export default function UploadPage() {
         deleteAfterProcessing,
       };
 
-      const response = await fetch("/api/dna/upload", {
+      // The file itself is streamed as the request body; upload details ride in a header
+      const response = await authFetch("/api/dna/upload", {
         method: "POST",
         headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
+          "Content-Type": "text/plain",
+          "X-DNA-Upload": encodeURIComponent(JSON.stringify(uploadData)),
         },
-        body: JSON.stringify(uploadData),
+        body: uploadedFile.file,
       });
 
       const data: DNAProcessingResponse = await response.json();
 
       if (data.success) {
         setUploadedFile((prev) =>
-          prev
-            ? {
-                ...prev,
-                status: "complete",
-                processingId: data.processingId,
-              }
-            : null,
-        );
-
-        setSuccess(
-          `File uploaded successfully! Analysis will be ready in approximately ${Math.floor(data.estimatedTime / 60)} minutes.`,
+          prev ? { ...prev, processingId: data.processingId } : null,
         );
-
-        // Simulate progress updates
-        let progress = 0;
-        const progressInterval = setInterval(() => {
-          progress += Math.random() * 15;
-          if (progress >= 100) {
-            progress = 100;
-            clearInterval(progressInterval);
-            setTimeout(() => {
-              navigate("/dashboard");
-            }, 2000);
-          }
-          setUploadedFile((prev) => (prev ? { ...prev, progress } : null));
-        }, 1000);
+        await pollJob(data.processingId);
       } else {
         setError(data.message || "Upload failed");
         setUploadedFile((prev) => (prev ? { ...prev, status: "error" } : null));
@@ -256,6 +248,55 @@ export default function UploadPage() {
     }
   };
 
+  // Polls the processing job until it completes or fails
+  const pollJob = async (processingId: string) => {
+    while (true) {
+      const response = await authFetch(`/api/dna/jobs/${processingId}`);
+      const data: DNAJobStatusResponse = await response.json();
+
+      if (!data.success || !data.job) {
+        setError(data.message || "Could not fetch processing status");
+        setUploadedFile((prev) => (prev ? { ...prev, status: "error" } : null));
+        return;
+      }
+
+      const { job } = data;
+      setUploadedFile((prev) =>
+        prev
+          ? {
+              ...prev,
+              progress: job.progress,
+              stage: JOB_STAGE_LABELS[job.status],
+            }
+          : null,
+      );
+
+      if (job.status === "failed") {
+        setError(job.error?.message || "DNA processing failed");
+        setUploadedFile((prev) => (prev ? { ...prev, status: "error" } : null));
+        return;
+      }
+
+      if (job.status === "complete") {
+        const report = job.parseReport;
+        setUploadedFile((prev) =>
+          prev ? { ...prev, status: "complete", progress: 100 } : null,
+        );
+        setSuccess(
+          report
+            ? `Analysis complete! Read ${report.variantCount.toLocaleString()} variants (${report.build}, ${(report.callRate * 100).toFixed(1)}% call rate${report.malformedCount > 0 ? `, ${report.malformedCount} unreadable lines skipped` : ""}).`
+            : "Analysis complete!",
+        );
+        setTimeout(() => {
+          navigate("/dashboard");
+        }, 2000);
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  };
+
   const removeFile = () => {
     setUploadedFile(null);
     setError("");
@@ -466,7 +507,7 @@ export default function UploadPage() {
                   {uploadedFile.status === "processing" && (
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
-                        <span>Processing...</span>
+                        <span>{uploadedFile.stage || "Uploading..."}</span>
                         <span>{Math.floor(uploadedFile.progress)}%</span>
                       </div>
                       <Progress value={uploadedFile.progress} className="h-2" />
@@ -476,7 +517,7 @@ export default function UploadPage() {
                   {uploadedFile.status === "complete" && (
                     <div className="flex items-center space-x-2 text-wellness-600">
                       <CheckCircle className="h-5 w-5" />
-                      <span className="font-medium">Upload Complete</span>
+                      <span className="font-medium">Analysis Complete</span>
                     </div>
                   )}
                 </div>
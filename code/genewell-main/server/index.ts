@@ -1,18 +1,27 @@
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
-import { handleRegister, handleLogin, handleGetProfile } from "./routes/auth";
+import {
+  handleRegister,
+  handleLogin,
+  handleRefreshToken,
+  handleGetProfile,
+  identifyUser,
+  requireUser,
+} from "./routes/auth";
 import {
   handleDNAUpload,
   handleGetAnalysisResults,
   handleGenerateReport,
+  handleGetDNAJob,
+  handleGetRetentionReport,
+  recoverDNAJobs,
+  startGeneticDataRetentionJob,
 } from "./routes/dna";
 import { handleSubmitQuiz, handleGetQuizResults } from "./routes/quiz";
 import { handleGetDashboard, handleGetProgressStats } from "./routes/dashboard";
 import {
   handleWellnessQuizSubmission,
-  handleWellnessPayment,
-  handleWellnessDownload,
   handleProductDownload,
   handleWellnessPurchase,
   handlePDFDownload,
@@ -21,15 +30,25 @@ import {
   handleUserDashboard,
   handleStorageStats,
   handleSamplePDF,
+  handleSupplementCheck,
+  handleMealPlan,
 } from "./routes/wellness";
 import {
   handleCreatePaymentRequest,
   handleCreateDirectPaymentLink,
   handleVerifyPayment,
+  handleGetInvoice,
   handlePaymentWebhook,
+  handleListPaymentGateways,
+  handleMockCheckoutPage,
+  handleMockCheckoutSubmit,
   handleGetUserPurchases,
   handleSendReportEmail,
 } from "./routes/payments";
+import {
+  handleCreateCheckoutQuote,
+  handleCompleteFreeCheckout,
+} from "./routes/checkout";
 import {
   requireAdmin,
   handleGetAllUsers,
@@ -39,10 +58,15 @@ import {
   handleGetQuizResponses,
   handleGetEmailLogs,
   handleExportUsersCSV,
+  handleRefundPurchase,
+  handleListPromotions,
+  handleCreatePromotion,
+  handleUpdatePromotion,
 } from "./routes/admin";
 import { initializeDatabase } from "./lib/db";
 import { initializeEmailService } from "./lib/email-service";
 import { startCleanupJob } from "./lib/storage";
+import { ensureLaunchOffer } from "./lib/promotions";
 
 // Initialize services
 async function initializeServices() {
@@ -51,10 +75,19 @@ async function initializeServices() {
     if (process.env.DATABASE_URL) {
       await initializeDatabase();
       console.log("Database initialized");
+
+      // Resume DNA jobs interrupted by the last shutdown
+      const recovered = await recoverDNAJobs();
+      if (recovered > 0) {
+        console.log(`Recovered ${recovered} unfinished DNA jobs`);
+      }
     }
 
     // Initialize email service
     await initializeEmailService();
+
+    // Create the launch offer code on first start
+    await ensureLaunchOffer();
   } catch (error) {
     console.error("Error initializing services:", error);
     // Continue even if services fail to initialize
@@ -70,10 +103,21 @@ export function createServer() {
   // Start cleanup job for expired PDFs
   startCleanupJob();
 
+  // Purge genetic data past its retention period
+  startGeneticDataRetentionJob();
+
   // Middleware
   app.use(cors());
-  app.use(express.json({ limit: '50mb' }));
-  app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+
+  // Gateways sign the body as posted, so webhooks take it raw, ahead of the parsers
+  app.post(
+    "/api/payments/webhook/:gateway?",
+    express.raw({ type: () => true, limit: "1mb" }),
+    handlePaymentWebhook,
+  );
+
+  app.use(express.json({ limit: "1mb" }));
+  app.use(express.urlencoded({ extended: true, limit: "1mb" }));
 
   // Example API routes
   app.get("/api/ping", (_req, res) => {
@@ -85,43 +129,61 @@ export function createServer() {
   // Authentication routes
   app.post("/api/auth/register", handleRegister);
   app.post("/api/auth/login", handleLogin);
-  app.get("/api/auth/profile", handleGetProfile);
+  app.post("/api/auth/refresh", handleRefreshToken);
+  app.get("/api/auth/profile", requireUser, handleGetProfile);
 
   // DNA processing routes
-  app.post("/api/dna/upload", handleDNAUpload);
-  app.get("/api/dna/results", handleGetAnalysisResults);
-  app.get("/api/dna/report", handleGenerateReport);
+  app.post("/api/dna/upload", requireUser, handleDNAUpload);
+  app.get("/api/dna/results", requireUser, handleGetAnalysisResults);
+  app.get("/api/dna/report", requireUser, handleGenerateReport);
+  app.get("/api/dna/jobs/:processingId", requireUser, handleGetDNAJob);
+  app.get("/api/dna/retention-report", requireUser, handleGetRetentionReport);
 
   // Quiz routes
-  app.post("/api/quiz/submit", handleSubmitQuiz);
-  app.get("/api/quiz/results", handleGetQuizResults);
+  app.post("/api/quiz/submit", requireUser, handleSubmitQuiz);
+  app.get("/api/quiz/results", requireUser, handleGetQuizResults);
 
   // Dashboard routes
-  app.get("/api/dashboard", handleGetDashboard);
-  app.get("/api/dashboard/progress", handleGetProgressStats);
+  app.get("/api/dashboard", requireUser, handleGetDashboard);
+  app.get("/api/dashboard/progress", requireUser, handleGetProgressStats);
 
   // Wellness quiz routes - NEW PERSONALIZATION SYSTEM
   app.post("/api/wellness/quiz", handleWellnessQuizSubmission);
+  app.post("/api/wellness/supplement-check", handleSupplementCheck);
+  app.get("/api/wellness/meal-plan/:analysisId", handleMealPlan);
   app.post("/api/wellness/purchase", handleWellnessPurchase);
   app.get("/api/wellness/download-pdf/:pdfRecordId", handlePDFDownload);
-  app.get("/api/wellness/download-pdf-base64/:pdfRecordId", handlePDFDownloadBase64);
-  app.get("/api/wellness/pdfs", handleListUserPDFs);
-  app.get("/api/wellness/dashboard/:userId", handleUserDashboard);
+  app.get(
+    "/api/wellness/download-pdf-base64/:pdfRecordId",
+    handlePDFDownloadBase64,
+  );
+  app.get("/api/wellness/pdfs", requireUser, handleListUserPDFs);
+  app.get("/api/wellness/dashboard/:userId", requireUser, handleUserDashboard);
   app.get("/api/wellness/stats", handleStorageStats);
   app.get("/api/wellness/sample-pdf", handleSamplePDF);
 
-  // Legacy wellness routes (for backward compatibility)
-  app.post("/api/wellness/payment", handleWellnessPayment);
-  app.get("/api/wellness/download/:analysisId", handleWellnessDownload);
-
   // Product download routes (legacy)
   app.get("/api/products/download/:productId", handleProductDownload);
 
   // Payment routes
-  app.post("/api/payments/create-payment-request", handleCreatePaymentRequest);
-  app.post("/api/payments/create-direct-payment-link", handleCreateDirectPaymentLink);
+  // A signed-in buyer's promotion caps count against their account
+  app.post("/api/checkout/quote", identifyUser, handleCreateCheckoutQuote);
+  app.post("/api/checkout/complete", identifyUser, handleCompleteFreeCheckout);
+  app.post(
+    "/api/payments/create-payment-request",
+    identifyUser,
+    handleCreatePaymentRequest,
+  );
+  app.post(
+    "/api/payments/create-direct-payment-link",
+    identifyUser,
+    handleCreateDirectPaymentLink,
+  );
   app.get("/api/payments/verify/:purchaseId", handleVerifyPayment);
-  app.post("/api/payments/webhook", handlePaymentWebhook);
+  app.get("/api/payments/:purchaseId/invoice", requireUser, handleGetInvoice);
+  app.get("/api/payments/gateways", handleListPaymentGateways);
+  app.get("/api/payments/mock/checkout/:intentId", handleMockCheckoutPage);
+  app.post("/api/payments/mock/checkout/:intentId", handleMockCheckoutSubmit);
   app.get("/api/payments/user/:email", handleGetUserPurchases);
   app.post("/api/payments/send-report-email", handleSendReportEmail);
 
@@ -130,6 +192,18 @@ export function createServer() {
   app.get("/api/admin/users/:userId", requireAdmin, handleGetUserDetails);
   app.get("/api/admin/dashboard", requireAdmin, handleAdminDashboard);
   app.get("/api/admin/purchases", requireAdmin, handleGetAllPurchases);
+  app.post(
+    "/api/admin/purchases/:purchaseId/refund",
+    requireAdmin,
+    handleRefundPurchase,
+  );
+  app.get("/api/admin/promotions", requireAdmin, handleListPromotions);
+  app.post("/api/admin/promotions", requireAdmin, handleCreatePromotion);
+  app.patch(
+    "/api/admin/promotions/:promotionId",
+    requireAdmin,
+    handleUpdatePromotion,
+  );
   app.get("/api/admin/quiz-responses", requireAdmin, handleGetQuizResponses);
   app.get("/api/admin/email-logs", requireAdmin, handleGetEmailLogs);
   app.get("/api/admin/export/users-csv", requireAdmin, handleExportUsersCSV);
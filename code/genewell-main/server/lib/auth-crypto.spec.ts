@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  hashPassword,
+  verifyPassword,
+  signToken,
+  verifyToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+} from "./auth-crypto";
+
+describe("password hashing", () => {
+  it("should verify the original password only", async () => {
+    const hash = await hashPassword("correct horse");
+
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse", hash)).toBe(false);
+  });
+
+  it("should salt each hash", async () => {
+    expect(await hashPassword("same")).not.toBe(await hashPassword("same"));
+  });
+
+  it("should reject legacy or malformed hashes", async () => {
+    expect(await verifyPassword("secret", "hashed_secret")).toBe(false);
+  });
+});
+
+describe("signed tokens", () => {
+  it("should round-trip the user id", () => {
+    const token = signToken("user_1", "access");
+    expect(verifyToken(token, "access")?.sub).toBe("user_1");
+  });
+
+  it("should reject tampered tokens", () => {
+    const [payload, signature] = signToken("user_1", "access").split(".");
+    const forged = Buffer.from(
+      JSON.stringify({
+        ...JSON.parse(Buffer.from(payload, "base64url").toString()),
+        sub: "admin",
+      }),
+    ).toString("base64url");
+
+    expect(verifyToken(`${forged}.${signature}`, "access")).toBeNull();
+  });
+
+  it("should reject expired tokens and the wrong token type", () => {
+    const issuedAt = Date.now();
+    const token = signToken("user_1", "access", issuedAt);
+
+    expect(verifyToken(token, "refresh", issuedAt)).toBeNull();
+    expect(
+      verifyToken(token, "access", issuedAt + ACCESS_TOKEN_TTL_SECONDS * 1000),
+    ).toBeNull();
+  });
+});
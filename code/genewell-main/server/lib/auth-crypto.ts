@@ -0,0 +1,152 @@
+// Password hashing and session tokens - Node's crypto only, no external auth service
+// Passwords: salted scrypt. Tokens: base64url(payload).base64url(HMAC-SHA256(payload)).
+
+import crypto from "crypto";
+
+// ==========================================
+// PASSWORD HASHING
+// ==========================================
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+const scrypt = (
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number },
+) =>
+  new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      SCRYPT_KEY_LENGTH,
+      { ...params, maxmem: 64 * 1024 * 1024 },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+
+/**
+ * Hashes a password as `scrypt$N$r$p$salt$hash` so parameters can be raised later
+ * without invalidating existing hashes
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return [
+    "scrypt",
+    N,
+    r,
+    p,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$");
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+}
+
+// ==========================================
+// SIGNED TOKENS
+// ==========================================
+
+export type TokenType = "access" | "refresh";
+
+export interface TokenPayload {
+  sub: string; // User id
+  typ: TokenType;
+  iat: number; // Seconds since epoch
+  exp: number;
+}
+
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+const TOKEN_SECRET =
+  process.env.AUTH_TOKEN_SECRET ||
+  (() => {
+    console.warn(
+      "⚠️  AUTH_TOKEN_SECRET not configured - using a random secret, sessions will not survive a restart",
+    );
+    return crypto.randomBytes(32).toString("hex");
+  })();
+
+const sign = (data: string) =>
+  crypto.createHmac("sha256", TOKEN_SECRET).update(data).digest("base64url");
+
+export function signToken(
+  userId: string,
+  type: TokenType,
+  now = Date.now(),
+): string {
+  const iat = Math.floor(now / 1000);
+  const payload: TokenPayload = {
+    sub: userId,
+    typ: type,
+    iat,
+    exp:
+      iat +
+      (type === "access"
+        ? ACCESS_TOKEN_TTL_SECONDS
+        : REFRESH_TOKEN_TTL_SECONDS),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Returns the payload for a valid, unexpired token of the expected type, otherwise null
+ */
+export function verifyToken(
+  token: string,
+  type: TokenType,
+  now = Date.now(),
+): TokenPayload | null {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload: TokenPayload = JSON.parse(
+      Buffer.from(encoded, "base64url").toString(),
+    );
+    if (payload.typ !== type || payload.exp <= Math.floor(now / 1000))
+      return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function issueSessionTokens(userId: string) {
+  return {
+    token: signToken(userId, "access"),
+    refreshToken: signToken(userId, "refresh"),
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
@@ -0,0 +1,270 @@
+// Blob storage for generated files
+// Local filesystem by default; BLOB_STORE_DRIVER=s3 uses any S3-compatible service
+// (AWS S3, MinIO, Cloudflare R2) so files survive restarts and serverless cold starts.
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface BlobStore {
+  put(key: string, body: Buffer, contentType?: string): Promise<void>;
+  /** Resolves null when no blob exists for `key` */
+  get(key: string): Promise<Buffer | null>;
+  /** Streams the blob, or part of it, without buffering. Resolves null when it doesn't exist. */
+  getStream(key: string, range?: ByteRange): Promise<Readable | null>;
+  /** Deleting a missing blob is not an error */
+  delete(key: string): Promise<void>;
+}
+
+// ==========================================
+// LOCAL FILESYSTEM
+// ==========================================
+
+export function createLocalBlobStore(root: string): BlobStore {
+  const resolvedRoot = path.resolve(root);
+
+  // Keys are relative paths under the root - never let one climb out of it
+  const resolveKey = (key: string) => {
+    const filepath = path.resolve(resolvedRoot, key);
+    if (!filepath.startsWith(resolvedRoot + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filepath;
+  };
+
+  return {
+    async put(key, body) {
+      const filepath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filepath), { recursive: true });
+      await fs.promises.writeFile(filepath, body);
+    },
+    async get(key) {
+      try {
+        return await fs.promises.readFile(resolveKey(key));
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async getStream(key, range) {
+      const filepath = resolveKey(key);
+      try {
+        await fs.promises.access(filepath);
+      } catch {
+        return null;
+      }
+      return fs.createReadStream(filepath, range);
+    },
+    async delete(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+// ==========================================
+// S3-COMPATIBLE
+// ==========================================
+
+export interface S3BlobStoreOptions {
+  endpoint: string; // e.g. https://s3.ap-south-1.amazonaws.com or http://localhost:9000
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256Hex = (data: string | Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+// RFC 3986 encoding, which is stricter than encodeURIComponent
+const encodeRFC3986 = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+/**
+ * AWS Signature Version 4 headers for an S3 request without a query string.
+ * Returns the headers to send, including Authorization.
+ */
+export function signS3Request(
+  {
+    method,
+    url,
+    headers = {},
+    payloadHash,
+  }: {
+    method: string;
+    url: string;
+    headers?: Record<string, string>;
+    payloadHash: string;
+  },
+  {
+    region,
+    accessKeyId,
+    secretAccessKey,
+  }: Pick<S3BlobStoreOptions, "region" | "accessKeyId" | "secretAccessKey">,
+  now = new Date(),
+): Record<string, string> {
+  const { host, pathname } = new URL(url);
+  const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, "");
+  const scope = `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`;
+
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value.trim(),
+      ]),
+    ),
+    host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const names = Object.keys(signed).sort();
+  const signedHeaders = names.join(";");
+
+  const canonicalRequest = [
+    method,
+    pathname,
+    "",
+    ...names.map((name) => `${name}:${signed[name]}`),
+    "",
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const dateKey = hmac(`AWS4${secretAccessKey}`, amzDate.slice(0, 8));
+  const signingKey = hmac(hmac(hmac(dateKey, region), "s3"), "aws4_request");
+  const signature = crypto
+    .createHmac("sha256", signingKey)
+    .update(stringToSign)
+    .digest("hex");
+
+  const { host: _host, ...sent } = signed;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Path-style requests (endpoint/bucket/key), which MinIO and other
+ * self-hosted stand-ins support without DNS setup.
+ */
+export function createS3BlobStore(options: S3BlobStoreOptions): BlobStore {
+  const endpoint = options.endpoint.replace(/\/+$/, "");
+  const objectUrl = (key: string) =>
+    `${endpoint}/${options.bucket}/${key.split("/").map(encodeRFC3986).join("/")}`;
+
+  const send = async (
+    method: "PUT" | "GET" | "DELETE",
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+  ) => {
+    const url = objectUrl(key);
+    const headers = signS3Request(
+      {
+        method,
+        url,
+        headers: extraHeaders,
+        payloadHash: sha256Hex(body ?? ""),
+      },
+      options,
+    );
+    return fetch(url, { method, headers, body });
+  };
+
+  const fail = async (response: Response, action: string, key: string) => {
+    const detail = await response.text().catch(() => "");
+    throw new Error(
+      `S3 ${action} ${key} failed with ${response.status}: ${detail.slice(0, 200)}`,
+    );
+  };
+
+  return {
+    async put(key, body, contentType = "application/octet-stream") {
+      const response = await send("PUT", key, body, {
+        "content-type": contentType,
+      });
+      if (!response.ok) await fail(response, "PUT", key);
+    },
+    async get(key) {
+      const response = await send("GET", key);
+      if (response.status === 404) return null;
+      if (!response.ok) await fail(response, "GET", key);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async getStream(key, range) {
+      const response = await send(
+        "GET",
+        key,
+        undefined,
+        range ? { range: `bytes=${range.start}-${range.end}` } : {},
+      );
+      if (response.status === 404) return null;
+      if (!response.ok) await fail(response, "GET", key);
+      return Readable.fromWeb(response.body as any);
+    },
+    async delete(key) {
+      const response = await send("DELETE", key);
+      if (!response.ok && response.status !== 404) {
+        await fail(response, "DELETE", key);
+      }
+    },
+  };
+}
+
+// ==========================================
+// CONFIGURED STORE
+// ==========================================
+
+// Under the app's own directory rather than the OS temp dir, which is cleared on reboot and
+// isn't shared between a host's instances. Point BLOB_STORE_ROOT at a mounted volume in production.
+export const DEFAULT_BLOB_STORE_ROOT = path.resolve("data", "blobs");
+
+function createConfiguredBlobStore(): BlobStore {
+  if (process.env.BLOB_STORE_DRIVER !== "s3") {
+    return createLocalBlobStore(
+      process.env.BLOB_STORE_ROOT || DEFAULT_BLOB_STORE_ROOT,
+    );
+  }
+
+  const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } =
+    process.env;
+  if (
+    !S3_ENDPOINT ||
+    !S3_BUCKET ||
+    !S3_ACCESS_KEY_ID ||
+    !S3_SECRET_ACCESS_KEY
+  ) {
+    throw new Error(
+      "BLOB_STORE_DRIVER=s3 needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY",
+    );
+  }
+  return createS3BlobStore({
+    endpoint: S3_ENDPOINT,
+    bucket: S3_BUCKET,
+    region: process.env.S3_REGION || "us-east-1",
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+  });
+}
+
+export const blobStore = createConfiguredBlobStore();
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { PLAN_IDS, priceCheckout } from "../../shared/catalog";
+import { createQuote, QUOTE_TTL_SECONDS, redeemQuote } from "./checkout-quotes";
+
+const NOW = Date.parse("2026-03-01T00:00:00.000Z");
+
+describe("checkout quotes", () => {
+  const { price } = priceCheckout(PLAN_IDS.PREMIUM);
+
+  it("should redeem a quote for the price it was issued at", () => {
+    const quote = createQuote(price, NOW);
+
+    expect(quote.expiresAt).toBe("2026-03-01T00:30:00.000Z");
+    expect(redeemQuote(quote.quoteId, NOW + 60 * 1000)).toEqual({ quote });
+  });
+
+  it("should refuse quotes that were edited or have expired", () => {
+    const { quoteId } = createQuote(price, NOW);
+    const [encoded, signature] = quoteId.split(".");
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString());
+    payload.price.total = 1;
+    const edited = `${Buffer.from(JSON.stringify(payload)).toString("base64url")}.${signature}`;
+
+    expect(redeemQuote(edited, NOW).reason).toBe("invalid_signature");
+    expect(redeemQuote("not-a-quote", NOW).reason).toBe("invalid_signature");
+    expect(redeemQuote(undefined, NOW).reason).toBe("missing_quote");
+    expect(redeemQuote(quoteId, NOW + QUOTE_TTL_SECONDS * 1000).reason).toBe(
+      "expired",
+    );
+  });
+});
@@ -0,0 +1,89 @@
+// Signed checkout quotes
+// A quote is the server's price for a plan and its add-ons, from shared/catalog.ts. Its id carries the
+// price itself, signed like download links: base64url(payload).base64url(HMAC-SHA256(payload)).
+// Payment creation charges what the quote says, so nothing is stored and nothing the buyer sends is trusted.
+
+import crypto from "crypto";
+import { CheckoutQuote } from "../../shared/api";
+import { CheckoutPrice } from "../../shared/catalog";
+
+export interface QuotePayload {
+  jti: string; // Quote id, for tracing a payment back to its quote
+  exp: number; // Seconds since epoch
+  price: CheckoutPrice;
+}
+
+export type QuoteRejection = "missing_quote" | "invalid_signature" | "expired";
+
+// Long enough to fill in details and pick a gateway; the checkout page asks again after that
+export const QUOTE_TTL_SECONDS = 30 * 60;
+
+const QUOTE_SECRET =
+  process.env.QUOTE_SECRET ||
+  (() => {
+    console.warn(
+      "⚠️  QUOTE_SECRET not configured - using a random secret, checkout quotes will not survive a restart",
+    );
+    return crypto.randomBytes(32).toString("hex");
+  })();
+
+const sign = (data: string) =>
+  crypto.createHmac("sha256", QUOTE_SECRET).update(data).digest("base64url");
+
+export function createQuote(
+  price: CheckoutPrice,
+  now = Date.now(),
+): CheckoutQuote {
+  const payload: QuotePayload = {
+    jti: crypto.randomBytes(12).toString("base64url"),
+    exp: Math.floor(now / 1000) + QUOTE_TTL_SECONDS,
+    price,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+  return {
+    ...price,
+    quoteId: `${encoded}.${sign(encoded)}`,
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * The quote behind a quote id, when it was issued here and hasn't expired
+ */
+export function redeemQuote(
+  quoteId: string | undefined,
+  now = Date.now(),
+): { quote?: CheckoutQuote; reason?: QuoteRejection } {
+  if (!quoteId || typeof quoteId !== "string") {
+    return { reason: "missing_quote" };
+  }
+
+  const [encoded, signature] = quoteId.split(".");
+  if (!encoded || !signature) return { reason: "invalid_signature" };
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return { reason: "invalid_signature" };
+  }
+
+  let payload: QuotePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString());
+  } catch {
+    return { reason: "invalid_signature" };
+  }
+  if (payload.exp <= Math.floor(now / 1000)) return { reason: "expired" };
+
+  return {
+    quote: {
+      ...payload.price,
+      quoteId,
+      expiresAt: new Date(payload.exp * 1000).toISOString(),
+    },
+  };
+}
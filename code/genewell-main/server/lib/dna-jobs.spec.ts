@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  createDNAJobQueue,
+  createMemoryJobStore,
+  DNAJobResults,
+} from "./dna-jobs";
+
+const job = (processingId: string) => ({
+  processingId,
+  userKey: "user@example.com",
+  fileName: `${processingId}.txt`,
+  privacyLevel: "enhanced" as const,
+  deleteAfterProcessing: true,
+});
+
+describe("createDNAJobQueue", () => {
+  it("should move a job through each status to complete", async () => {
+    const statuses: string[] = [];
+    const queue = createDNAJobQueue({
+      store: createMemoryJobStore(),
+      processor: async (current, context) => {
+        statuses.push(current.status);
+        await context.update("parsing", 20);
+        statuses.push((await queue.get(current.processingId))!.status);
+        await context.update("interpreting", 70);
+        statuses.push((await queue.get(current.processingId))!.status);
+      },
+    });
+
+    await queue.enqueue(job("proc_1"));
+    await queue.onIdle();
+
+    const finished = await queue.get("proc_1");
+    expect(statuses).toEqual(["queued", "parsing", "interpreting"]);
+    expect(finished).toMatchObject({ status: "complete", progress: 100 });
+    expect(finished?.completedAt).toBeDefined();
+  });
+
+  it("should never run more jobs than the concurrency limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const queue = createDNAJobQueue({
+      store: createMemoryJobStore(),
+      concurrency: 2,
+      processor: async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      },
+    });
+
+    await Promise.all(
+      ["a", "b", "c", "d", "e"].map((id) => queue.enqueue(job(id))),
+    );
+    await queue.onIdle();
+
+    expect(peak).toBe(2);
+    expect((await queue.get("e"))?.status).toBe("complete");
+  });
+
+  it("should record the error when processing fails", async () => {
+    const queue = createDNAJobQueue({
+      store: createMemoryJobStore(),
+      processor: async () => {
+        throw Object.assign(new Error("No genotype rows"), {
+          code: "NO_VARIANTS",
+        });
+      },
+    });
+
+    await queue.enqueue(job("proc_bad"));
+    await queue.onIdle();
+
+    expect(await queue.get("proc_bad")).toMatchObject({
+      status: "failed",
+      error: { code: "NO_VARIANTS", message: "No genotype rows" },
+    });
+  });
+
+  it("should keep a finished job's results and find the user's newest", async () => {
+    const results = (processingDate: string) =>
+      ({ confidence: 80, processingDate }) as DNAJobResults;
+    const queue = createDNAJobQueue({
+      store: createMemoryJobStore(),
+      processor: async (current, context) => {
+        await context.update("interpreting", 95, {
+          results: results(current.processingId),
+        });
+      },
+    });
+
+    await queue.enqueue(job("proc_old"));
+    await queue.onIdle();
+    await new Promise((resolve) => setTimeout(resolve, 5)); // Completes later
+    await queue.enqueue(job("proc_new"));
+    await queue.onIdle();
+    await queue.enqueue({ ...job("proc_other"), userKey: "other@example.com" });
+    await queue.onIdle();
+
+    const latest = await queue.latestWithResults("user@example.com");
+    expect(latest).toMatchObject({
+      processingId: "proc_new",
+      status: "complete",
+      results: { processingDate: "proc_new" },
+    });
+    expect((await queue.listWithResults()).length).toBe(3);
+
+    await queue.remove("proc_new");
+    expect(
+      (await queue.latestWithResults("user@example.com"))?.processingId,
+    ).toBe("proc_old");
+  });
+
+  it("should resume or fail jobs left unfinished by a restart", async () => {
+    const store = createMemoryJobStore();
+    const now = new Date().toISOString();
+    for (const id of ["resumable", "lost"]) {
+      await store.save({
+        ...job(id),
+        status: "parsing",
+        progress: 30,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    const queue = createDNAJobQueue({ store, processor: async () => {} });
+    expect(await queue.recover((j) => j.processingId === "resumable")).toBe(2);
+    await queue.onIdle();
+
+    expect((await store.get("resumable"))?.status).toBe("complete");
+    expect(await store.get("lost")).toMatchObject({
+      status: "failed",
+      error: { code: "INTERRUPTED" },
+    });
+  });
+});
@@ -0,0 +1,417 @@
+// DNA processing job queue
+// Each upload becomes a job (queued -> parsing -> interpreting -> complete/failed).
+// Job state, and the results a finished job keeps, live in Postgres when DATABASE_URL is set,
+// otherwise in memory.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  DNAJob,
+  DNAJobStatus,
+  GeneticMarkers,
+  PersonalizedRecommendations,
+  PrivacyLevel,
+  TraitInterpretation,
+} from "../../shared/api";
+import { isDatabaseConfigured, query } from "./db";
+
+// What a job's interpretation leaves behind, already cut down to its privacy level
+export interface DNAJobResults {
+  geneticMarkers: GeneticMarkers;
+  recommendations: PersonalizedRecommendations;
+  traitInterpretations: TraitInterpretation[];
+  confidence: number;
+  processingDate: string;
+  expiresAt: string; // When these derived results are deleted
+  genotypeTableExpiresAt?: string; // Set while the parsed genotypes are kept in the blob store
+}
+
+export interface DNAJobRecord extends DNAJob {
+  userKey: string;
+  privacyLevel: PrivacyLevel;
+  deleteAfterProcessing: boolean;
+  results?: DNAJobResults;
+}
+
+export interface DNAJobStore {
+  save(job: DNAJobRecord): Promise<void>;
+  get(processingId: string): Promise<DNAJobRecord | undefined>;
+  listUnfinished(): Promise<DNAJobRecord[]>;
+  /** Completed jobs that still hold results, newest first - optionally only the user's */
+  listWithResults(userKey?: string): Promise<DNAJobRecord[]>;
+  delete(processingId: string): Promise<void>;
+}
+
+export interface DNAJobContext {
+  // Persists a status/progress change for the running job
+  update(
+    status: DNAJobStatus,
+    progress: number,
+    patch?: Partial<Pick<DNAJobRecord, "parseReport" | "results">>,
+  ): Promise<void>;
+}
+
+export type DNAJobProcessor = (
+  job: DNAJobRecord,
+  context: DNAJobContext,
+) => Promise<void>;
+
+export const DEFAULT_DNA_JOB_CONCURRENCY = 2;
+const UNFINISHED_STATUSES: DNAJobStatus[] = [
+  "queued",
+  "parsing",
+  "interpreting",
+];
+
+// Raw uploads wait here until a worker picks them up
+export const DNA_SPOOL_PATH = path.join(os.tmpdir(), "genewell-dna");
+
+// Parsed genotypes a user chose to keep are a blob of [rsid, call] pairs
+export const getGenotypeBlobKey = (processingId: string) =>
+  `genotypes/${processingId}.json`;
+
+const newestCompletedFirst = (a: DNAJobRecord, b: DNAJobRecord) =>
+  (b.completedAt || "").localeCompare(a.completedAt || "");
+
+// ==========================================
+// STORES
+// ==========================================
+
+export function createMemoryJobStore(): DNAJobStore {
+  const jobs = new Map<string, DNAJobRecord>();
+  return {
+    async save(job) {
+      jobs.set(job.processingId, { ...job });
+    },
+    async get(processingId) {
+      const job = jobs.get(processingId);
+      return job ? { ...job } : undefined;
+    },
+    async listUnfinished() {
+      return Array.from(jobs.values()).filter((j) =>
+        UNFINISHED_STATUSES.includes(j.status),
+      );
+    },
+    async listWithResults(userKey) {
+      return Array.from(jobs.values())
+        .filter(
+          (j) =>
+            j.status === "complete" &&
+            j.results &&
+            (userKey === undefined || j.userKey === userKey),
+        )
+        .sort(newestCompletedFirst)
+        .map((j) => ({ ...j }));
+    },
+    async delete(processingId) {
+      jobs.delete(processingId);
+    },
+  };
+}
+
+const rowToJob = (row: any): DNAJobRecord => ({
+  processingId: row.processing_id,
+  userKey: row.user_key,
+  fileName: row.file_name,
+  privacyLevel: row.privacy_level,
+  deleteAfterProcessing: row.delete_after_processing,
+  status: row.status,
+  progress: row.progress,
+  error: row.error_code
+    ? { code: row.error_code, message: row.error_message }
+    : undefined,
+  parseReport: row.parse_report || undefined,
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString(),
+  completedAt: row.completed_at
+    ? new Date(row.completed_at).toISOString()
+    : undefined,
+  results: row.results || undefined,
+});
+
+export function createPostgresJobStore(): DNAJobStore {
+  return {
+    async save(job) {
+      await query(
+        `INSERT INTO dna_jobs (processing_id, user_key, file_name, status, progress, error_code, error_message, parse_report, created_at, updated_at, completed_at, privacy_level, delete_after_processing, results)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         ON CONFLICT (processing_id) DO UPDATE SET
+           status = EXCLUDED.status, progress = EXCLUDED.progress,
+           error_code = EXCLUDED.error_code, error_message = EXCLUDED.error_message,
+           parse_report = EXCLUDED.parse_report, updated_at = EXCLUDED.updated_at,
+           completed_at = EXCLUDED.completed_at, results = EXCLUDED.results`,
+        [
+          job.processingId,
+          job.userKey,
+          job.fileName,
+          job.status,
+          job.progress,
+          job.error?.code ?? null,
+          job.error?.message ?? null,
+          job.parseReport ? JSON.stringify(job.parseReport) : null,
+          job.createdAt,
+          job.updatedAt,
+          job.completedAt ?? null,
+          job.privacyLevel,
+          job.deleteAfterProcessing,
+          job.results ? JSON.stringify(job.results) : null,
+        ],
+      );
+    },
+    async get(processingId) {
+      const result = await query(
+        "SELECT * FROM dna_jobs WHERE processing_id = $1",
+        [processingId],
+      );
+      return result.rows[0] ? rowToJob(result.rows[0]) : undefined;
+    },
+    async listUnfinished() {
+      const result = await query(
+        "SELECT * FROM dna_jobs WHERE status = ANY($1) ORDER BY created_at",
+        [UNFINISHED_STATUSES],
+      );
+      return result.rows.map(rowToJob);
+    },
+    async listWithResults(userKey) {
+      const result = await query(
+        `SELECT * FROM dna_jobs
+         WHERE status = 'complete' AND results IS NOT NULL AND ($1::text IS NULL OR user_key = $1)
+         ORDER BY completed_at DESC`,
+        [userKey ?? null],
+      );
+      return result.rows.map(rowToJob);
+    },
+    async delete(processingId) {
+      await query("DELETE FROM dna_jobs WHERE processing_id = $1", [
+        processingId,
+      ]);
+    },
+  };
+}
+
+// ==========================================
+// QUEUE
+// ==========================================
+
+/**
+ * Creates a job queue that runs at most `concurrency` jobs at once.
+ * Errors thrown by the processor mark the job failed; `code` is kept when present.
+ */
+export function createDNAJobQueue(options: {
+  store: DNAJobStore;
+  concurrency?: number;
+  processor?: DNAJobProcessor;
+}) {
+  const { store } = options;
+  const concurrency = Math.max(
+    1,
+    options.concurrency ?? DEFAULT_DNA_JOB_CONCURRENCY,
+  );
+  let processor = options.processor;
+  const pending: string[] = [];
+  const idle: Array<() => void> = [];
+  let running = 0;
+
+  const patchJob = async (
+    processingId: string,
+    patch: Partial<DNAJobRecord>,
+  ) => {
+    const job = await store.get(processingId);
+    if (!job) return undefined;
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+    await store.save(updated);
+    return updated;
+  };
+
+  const runJob = async (processingId: string) => {
+    const job = await store.get(processingId);
+    if (!job || !processor) return;
+
+    try {
+      await processor(job, {
+        update: async (status, progress, patch = {}) => {
+          await patchJob(processingId, { ...patch, status, progress });
+        },
+      });
+      await patchJob(processingId, {
+        status: "complete",
+        progress: 100,
+        completedAt: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      console.error(`[DNA Jobs] Job ${processingId} failed:`, error);
+      await patchJob(processingId, {
+        status: "failed",
+        error: {
+          code: error?.code || "PROCESSING_FAILED",
+          message: error?.message || "DNA processing failed",
+        },
+        completedAt: new Date().toISOString(),
+      });
+    }
+  };
+
+  const drain = () => {
+    while (running < concurrency && pending.length > 0) {
+      const processingId = pending.shift()!;
+      running++;
+      runJob(processingId)
+        .catch((error) =>
+          console.error(
+            `[DNA Jobs] Could not update job ${processingId}:`,
+            error,
+          ),
+        )
+        .finally(() => {
+          running--;
+          drain();
+        });
+    }
+    if (running === 0 && pending.length === 0) {
+      idle.splice(0).forEach((resolve) => resolve());
+    }
+  };
+
+  return {
+    concurrency,
+
+    setProcessor(fn: DNAJobProcessor) {
+      processor = fn;
+    },
+
+    async enqueue(
+      job: Pick<
+        DNAJobRecord,
+        | "processingId"
+        | "userKey"
+        | "fileName"
+        | "privacyLevel"
+        | "deleteAfterProcessing"
+      >,
+    ) {
+      const now = new Date().toISOString();
+      const record: DNAJobRecord = {
+        ...job,
+        status: "queued",
+        progress: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await store.save(record);
+      pending.push(job.processingId);
+      drain();
+      return record;
+    },
+
+    get(processingId: string) {
+      return store.get(processingId);
+    },
+
+    remove(processingId: string) {
+      return store.delete(processingId);
+    },
+
+    // The user's newest completed job that still holds results
+    async latestWithResults(userKey: string) {
+      return (await store.listWithResults(userKey))[0];
+    },
+
+    listWithResults() {
+      return store.listWithResults();
+    },
+
+    async saveResults(processingId: string, results: DNAJobResults) {
+      await patchJob(processingId, { results });
+    },
+
+    /**
+     * Picks up jobs interrupted by a restart. Jobs that can't be resumed
+     * (e.g. their spooled upload is gone) are marked failed.
+     */
+    async recover(canResume: (job: DNAJobRecord) => boolean) {
+      const unfinished = await store.listUnfinished();
+      for (const job of unfinished) {
+        if (pending.includes(job.processingId)) continue;
+        if (canResume(job)) {
+          await patchJob(job.processingId, { status: "queued", progress: 0 });
+          pending.push(job.processingId);
+        } else {
+          await patchJob(job.processingId, {
+            status: "failed",
+            error: {
+              code: "INTERRUPTED",
+              message:
+                "Processing was interrupted by a server restart. Please upload your file again.",
+            },
+            completedAt: new Date().toISOString(),
+          });
+        }
+      }
+      drain();
+      return unfinished.length;
+    },
+
+    // Resolves once nothing is queued or running
+    onIdle() {
+      if (running === 0 && pending.length === 0) return Promise.resolve();
+      return new Promise<void>((resolve) => idle.push(resolve));
+    },
+  };
+}
+
+export type DNAJobQueue = ReturnType<typeof createDNAJobQueue>;
+
+// Shared queue used by the DNA routes. DNA_JOB_CONCURRENCY caps parallel jobs.
+export const dnaJobQueue = createDNAJobQueue({
+  store: isDatabaseConfigured()
+    ? createPostgresJobStore()
+    : createMemoryJobStore(),
+  concurrency:
+    parseInt(process.env.DNA_JOB_CONCURRENCY || "", 10) ||
+    DEFAULT_DNA_JOB_CONCURRENCY,
+});
+
+// ==========================================
+// UPLOAD SPOOLING
+// ==========================================
+
+export const getSpoolPath = (processingId: string) =>
+  path.join(DNA_SPOOL_PATH, `${processingId}.txt`);
+
+/**
+ * Writes an upload stream to the spool directory, aborting once maxBytes is exceeded.
+ * Returns the number of bytes written.
+ */
+export async function spoolUpload(
+  input: NodeJS.ReadableStream,
+  processingId: string,
+  maxBytes: number,
+  onTooLarge: () => Error,
+): Promise<number> {
+  fs.mkdirSync(DNA_SPOOL_PATH, { recursive: true });
+  const filepath = getSpoolPath(processingId);
+  let bytes = 0;
+
+  const limiter = new Transform({
+    transform(chunk, _encoding, callback) {
+      bytes += chunk.length;
+      if (bytes > maxBytes) return callback(onTooLarge());
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(input, limiter, fs.createWriteStream(filepath));
+    return bytes;
+  } catch (error) {
+    removeSpooledUpload(processingId);
+    throw error;
+  }
+}
+
+export function removeSpooledUpload(processingId: string) {
+  fs.rmSync(getSpoolPath(processingId), { force: true });
+}
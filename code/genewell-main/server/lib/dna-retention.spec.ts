@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { parseGenotypeText } from "./genotype-parser";
+import { interpretGenotypes } from "./snp-interpretation";
+import {
+  listDeletions,
+  recordDeletion,
+  restrictGeneticMarkers,
+  restrictTraitInterpretations,
+} from "./dna-retention";
+
+const { geneticMarkers, interpretations } = interpretGenotypes(
+  parseGenotypeText(
+    [
+      "# rsid\tchromosome\tposition\tgenotype",
+      "rs9939609\t16\t53820527\tAT",
+      "rs1801133\t1\t11856378\tAA",
+    ].join("\n"),
+  ).table,
+);
+
+describe("privacy level subsets", () => {
+  it("should keep variant detail only for basic", () => {
+    const basic = restrictTraitInterpretations(interpretations, "basic");
+    const folate = basic.find((i) => i.trait === "vitaminDeficiencies.folate")!;
+    expect(folate.drivers[0]).toMatchObject({
+      rsid: "rs1801133",
+      genotype: "AA",
+    });
+  });
+
+  it("should strip genotypes but keep genes for enhanced", () => {
+    const enhanced = restrictTraitInterpretations(interpretations, "enhanced");
+    const drivers = enhanced.flatMap((i) => i.drivers);
+
+    expect(drivers.map((d) => d.gene)).toContain("MTHFR");
+    drivers.forEach((driver) => {
+      expect(driver.genotype).toBeUndefined();
+      expect(driver.rsid).toBeUndefined();
+    });
+    expect(enhanced.every((i) => i.missingVariants.length === 0)).toBe(true);
+  });
+
+  it("should keep only the trait summary for maximum", () => {
+    expect(restrictTraitInterpretations(interpretations, "maximum")).toEqual(
+      [],
+    );
+
+    const markers = restrictGeneticMarkers(geneticMarkers, "maximum");
+    expect(markers.metabolism.genes).toEqual([]);
+    expect(markers.vitaminDeficiencies).toEqual(
+      geneticMarkers.vitaminDeficiencies,
+    );
+  });
+});
+
+describe("retention audit log", () => {
+  it("should append deletions per user without exposing other users", async () => {
+    await recordDeletion("alice@example.com", {
+      processingId: "proc_a",
+      item: "genotype_table",
+      reason: "delete_after_processing",
+    });
+    await recordDeletion("bob@example.com", {
+      processingId: "proc_b",
+      item: "analysis_results",
+      reason: "retention_expired",
+    });
+
+    const entries = await listDeletions("alice@example.com");
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      processingId: "proc_a",
+      item: "genotype_table",
+    });
+  });
+});
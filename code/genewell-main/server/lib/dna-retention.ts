@@ -0,0 +1,188 @@
+// Genetic data retention
+// Decides what derived data each privacy level keeps, for how long, and keeps an
+// append-only audit log of every deletion (Postgres when configured, else memory).
+
+import {
+  GenotypeParseReport,
+  GeneticMarkers,
+  PrivacyLevel,
+  RetentionAuditEntry,
+  RetentionPolicySummary,
+  TraitInterpretation,
+} from "../../shared/api";
+import { isDatabaseConfigured, query } from "./db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// POLICIES
+// ==========================================
+
+export interface RetentionPolicy extends RetentionPolicySummary {
+  // How much per-trait detail survives: variants > genes > none
+  traitDetail: "variants" | "genes" | "none";
+  // "maximum" never keeps the genotype table, even if the user opted to
+  forceDeleteAfterProcessing: boolean;
+}
+
+export const PRIVACY_RETENTION_POLICIES: Record<PrivacyLevel, RetentionPolicy> =
+  {
+    basic: {
+      privacyLevel: "basic",
+      description:
+        "Keeps every derived marker together with the variants and genotypes behind it.",
+      keeps: [
+        "Trait-level genetic markers",
+        "Genes, variant ids and genotypes behind each trait",
+        "File parsing report including unreadable line samples",
+        "Personalized recommendations",
+      ],
+      rawGenotypeDays: 30,
+      derivedDataDays: 365,
+      traitDetail: "variants",
+      forceDeleteAfterProcessing: false,
+    },
+    enhanced: {
+      privacyLevel: "enhanced",
+      description:
+        "Keeps trait-level markers and which genes drove them, but none of your genotypes.",
+      keeps: [
+        "Trait-level genetic markers",
+        "Genes behind each trait (no variant ids or genotypes)",
+        "File parsing summary counts",
+        "Personalized recommendations",
+      ],
+      rawGenotypeDays: 7,
+      derivedDataDays: 180,
+      traitDetail: "genes",
+      forceDeleteAfterProcessing: false,
+    },
+    maximum: {
+      privacyLevel: "maximum",
+      description:
+        "Keeps only the trait-level summary needed for your recommendations.",
+      keeps: [
+        "Trait-level genetic markers (no genes, variants or genotypes)",
+        "File parsing summary counts",
+        "Personalized recommendations",
+      ],
+      rawGenotypeDays: 0,
+      derivedDataDays: 90,
+      traitDetail: "none",
+      forceDeleteAfterProcessing: true,
+    },
+  };
+
+export const summarizePolicy = ({
+  traitDetail,
+  forceDeleteAfterProcessing,
+  ...summary
+}: RetentionPolicy): RetentionPolicySummary => summary;
+
+export const addDays = (iso: string, days: number) =>
+  new Date(new Date(iso).getTime() + days * DAY_MS).toISOString();
+
+/**
+ * Reduces trait interpretations to the detail allowed by the privacy level
+ */
+export function restrictTraitInterpretations(
+  interpretations: TraitInterpretation[],
+  level: PrivacyLevel,
+): TraitInterpretation[] {
+  const { traitDetail } = PRIVACY_RETENTION_POLICIES[level];
+  if (traitDetail === "variants") return interpretations;
+  if (traitDetail === "none") return [];
+
+  return interpretations.map((interpretation) => ({
+    ...interpretation,
+    missingVariants: [],
+    drivers: interpretation.drivers.map(
+      ({ rsid, genotype, effectAlleleCount, ...driver }) => driver,
+    ),
+  }));
+}
+
+export function restrictGeneticMarkers(
+  markers: GeneticMarkers,
+  level: PrivacyLevel,
+): GeneticMarkers {
+  if (PRIVACY_RETENTION_POLICIES[level].traitDetail !== "none") return markers;
+  return { ...markers, metabolism: { ...markers.metabolism, genes: [] } };
+}
+
+// Malformed line samples are verbatim file content, so only "basic" keeps them
+export function restrictParseReport(
+  report: GenotypeParseReport,
+  level: PrivacyLevel,
+): GenotypeParseReport {
+  if (PRIVACY_RETENTION_POLICIES[level].traitDetail === "variants")
+    return report;
+  return { ...report, malformedSamples: [] };
+}
+
+// ==========================================
+// AUDIT LOG (append-only)
+// ==========================================
+
+const memoryAuditLog: Array<
+  Readonly<RetentionAuditEntry & { userKey: string }>
+> = [];
+
+/**
+ * Appends a deletion to the audit log. Entries are never updated or removed.
+ */
+export async function recordDeletion(
+  userKey: string,
+  entry: Omit<RetentionAuditEntry, "id" | "deletedAt">,
+): Promise<RetentionAuditEntry> {
+  const record: RetentionAuditEntry = {
+    id: `del_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    deletedAt: new Date().toISOString(),
+    ...entry,
+  };
+
+  if (isDatabaseConfigured()) {
+    await query(
+      "INSERT INTO dna_retention_audit (id, user_key, processing_id, item, reason, detail, deleted_at) VALUES ($1, $2, $3, $4, $5, $6, $7)",
+      [
+        record.id,
+        userKey,
+        record.processingId,
+        record.item,
+        record.reason,
+        record.detail ?? null,
+        record.deletedAt,
+      ],
+    );
+  } else {
+    memoryAuditLog.push(Object.freeze({ ...record, userKey }));
+  }
+
+  console.log(
+    `[Retention] Deleted ${record.item} for ${record.processingId} (${record.reason})`,
+  );
+  return record;
+}
+
+export async function listDeletions(
+  userKey: string,
+): Promise<RetentionAuditEntry[]> {
+  if (isDatabaseConfigured()) {
+    const result = await query(
+      "SELECT * FROM dna_retention_audit WHERE user_key = $1 ORDER BY deleted_at",
+      [userKey],
+    );
+    return result.rows.map((row) => ({
+      id: row.id,
+      processingId: row.processing_id,
+      item: row.item,
+      reason: row.reason,
+      detail: row.detail ?? undefined,
+      deletedAt: new Date(row.deleted_at).toISOString(),
+    }));
+  }
+
+  return memoryAuditLog
+    .filter((entry) => entry.userKey === userKey)
+    .map(({ userKey: _owner, ...entry }) => entry);
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  authorizeDownload,
+  createSignedDownloadUrl,
+  GrantedDownloadOutcome,
+  recordGrantedDownload,
+  signDownloadLink,
+} from "./download-links";
+import {
+  createMemoryRepository,
+  Repository,
+  StoredPDFRecord,
+} from "./repository";
+
+const NOW = Date.parse("2026-03-01T00:00:00.000Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+const pdfRecord: StoredPDFRecord = {
+  pdfRecordId: "pdf_1",
+  orderId: "1",
+  analysisId: "analysis_1",
+  userId: "7",
+  filename: "blueprint.pdf",
+  planTier: "premium",
+  addOns: [],
+  userName: "Asha",
+  fileSize: 1024,
+  generatedAt: "2026-03-01T00:00:00.000Z",
+  expiresAt: "2026-03-31T00:00:00.000Z",
+};
+
+describe("signed download links", () => {
+  let downloads: Repository["pdfDownloads"];
+
+  beforeEach(() => {
+    downloads = createMemoryRepository().pdfDownloads;
+  });
+
+  const attempt = (token: string | undefined, at = NOW, record = pdfRecord) =>
+    authorizeDownload(
+      { pdfRecordId: "pdf_1", pdfRecord: record, token, ipAddress: "10.0.0.1" },
+      downloads,
+      at,
+    );
+
+  // Authorizes the request and logs how it was answered, as the download route does
+  const download = async (
+    token: string,
+    outcome: GrantedDownloadOutcome = "granted",
+  ) => {
+    const authorization = await attempt(token);
+    if (authorization.granted) {
+      await recordGrantedDownload(
+        {
+          pdfRecordId: "pdf_1",
+          link: authorization.link!,
+          outcome,
+          ipAddress: "10.0.0.1",
+        },
+        downloads,
+      );
+    }
+    return authorization;
+  };
+
+  it("should grant the owner's link until it expires", async () => {
+    const token = signDownloadLink(pdfRecord, { ttlSeconds: 3600 }, NOW);
+
+    expect(await attempt(token, NOW + HOUR_MS - 1000)).toMatchObject({
+      granted: true,
+      link: { pdf: "pdf_1", sub: "7" },
+    });
+    expect(await attempt(token, NOW + HOUR_MS)).toMatchObject({
+      granted: false,
+      reason: "expired",
+    });
+  });
+
+  it("should never outlive the report", async () => {
+    const token = signDownloadLink(pdfRecord, { ttlSeconds: 90 * 86400 }, NOW);
+
+    expect((await attempt(token, Date.parse(pdfRecord.expiresAt))).reason).toBe(
+      "expired",
+    );
+  });
+
+  it("should refuse missing, tampered and mismatched links", async () => {
+    const token = signDownloadLink(pdfRecord, {}, NOW);
+    const [payload, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({
+        ...JSON.parse(Buffer.from(payload, "base64url").toString()),
+        pdf: "pdf_2",
+      }),
+    ).toString("base64url");
+    const otherRecord = signDownloadLink(
+      { ...pdfRecord, pdfRecordId: "pdf_2" },
+      {},
+      NOW,
+    );
+
+    expect((await attempt(undefined)).reason).toBe("missing_token");
+    expect((await attempt(`${forged}.${signature}`)).reason).toBe(
+      "invalid_signature",
+    );
+    expect((await attempt(otherRecord)).reason).toBe("wrong_record");
+    expect(
+      (await attempt(token, NOW, { ...pdfRecord, userId: "8" })).reason,
+    ).toBe("not_owner");
+    expect(
+      (
+        await authorizeDownload(
+          { pdfRecordId: "pdf_1", pdfRecord: undefined, token },
+          downloads,
+          NOW,
+        )
+      ).reason,
+    ).toBe("not_found");
+  });
+
+  it("should enforce download limits per link", async () => {
+    const singleUse = signDownloadLink(pdfRecord, { maxDownloads: 1 }, NOW);
+    const another = signDownloadLink(pdfRecord, { maxDownloads: 1 }, NOW);
+
+    expect((await download(singleUse)).granted).toBe(true);
+    expect((await download(singleUse)).reason).toBe("limit_reached");
+    expect((await download(another)).granted).toBe(true);
+  });
+
+  it("should count only whole files towards a link's limit", async () => {
+    const singleUse = signDownloadLink(pdfRecord, { maxDownloads: 1 }, NOW);
+    const viewing = signDownloadLink(
+      pdfRecord,
+      { linkId: "link_1", maxDownloads: 1 },
+      NOW,
+    );
+
+    // A viewer seeking through the PDF, then fetching an inline link to it
+    for (let i = 0; i < 5; i++) {
+      expect((await download(singleUse, "partial")).granted).toBe(true);
+    }
+    expect((await download(singleUse, "link_issued")).granted).toBe(true);
+    expect((await download(singleUse)).granted).toBe(true);
+    expect((await download(singleUse, "partial")).reason).toBe("limit_reached");
+
+    // Links sharing an id share the limit
+    await download(viewing);
+    expect(
+      (
+        await download(
+          signDownloadLink(
+            pdfRecord,
+            { linkId: "link_1", maxDownloads: 1 },
+            NOW,
+          ),
+        )
+      ).reason,
+    ).toBe("limit_reached");
+  });
+
+  it("should log every attempt", async () => {
+    const token = signDownloadLink(pdfRecord, {}, NOW);
+    await download(token);
+    await attempt("garbage");
+
+    const [refused, granted] = await downloads.listByPDF("pdf_1");
+    expect(granted).toMatchObject({
+      outcome: "granted",
+      userId: "7",
+      ipAddress: "10.0.0.1",
+    });
+    expect(refused).toMatchObject({ outcome: "invalid_signature" });
+    expect(refused.userId).toBeUndefined();
+  });
+
+  it("should build URLs for the download endpoint", () => {
+    expect(createSignedDownloadUrl(pdfRecord, {}, NOW)).toMatch(
+      /^\/api\/wellness\/download-pdf\/pdf_1\?token=[\w-]+\.[\w-]+$/,
+    );
+  });
+});
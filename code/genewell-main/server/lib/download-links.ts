@@ -0,0 +1,191 @@
+// Signed, expiring download links for generated PDFs
+// Tokens have the same shape as session tokens: base64url(payload).base64url(HMAC-SHA256(payload)).
+// The payload names the record, its owner and the expiry, so a known pdfRecordId is useless on its own.
+
+import crypto from "crypto";
+import { Repository, StoredPDFRecord, repository } from "./repository";
+
+export interface DownloadLinkPayload {
+  jti: string; // Link id - download limits are counted per link
+  pdf: string; // pdfRecordId
+  sub: string; // Owner's user id
+  exp: number; // Seconds since epoch
+  max?: number; // Downloads allowed, unlimited when unset
+}
+
+export interface DownloadLinkOptions {
+  ttlSeconds?: number; // Defaults to the record's own expiry
+  maxDownloads?: number; // 1 for a single-use link
+  linkId?: string; // Reuse another link's id, so downloads through either count against one limit
+}
+
+export type DownloadDenial =
+  | "missing_token"
+  | "invalid_signature"
+  | "wrong_record"
+  | "expired"
+  | "not_found"
+  | "not_owner"
+  | "limit_reached";
+
+export interface DownloadAuthorization {
+  granted: boolean;
+  reason?: DownloadDenial; // Set when refused
+  link?: DownloadLinkPayload; // Set when the signature is valid
+}
+
+// How a granted request was answered. Only "granted" - the whole file - counts towards a
+// link's limit; "partial" is a Range, revalidation, HEAD or interrupted response, and
+// "link_issued" a short-lived link handed out for viewing.
+export type GrantedDownloadOutcome = "granted" | "partial" | "link_issued";
+
+// Links handed back straight after purchase - emailed links last as long as the report
+export const PURCHASE_LINK_TTL_SECONDS = 24 * 60 * 60; // 1 day
+
+// Links for viewing a report in the browser, fetched right before use
+export const INLINE_LINK_TTL_SECONDS = 5 * 60;
+
+const LINK_SECRET =
+  process.env.DOWNLOAD_LINK_SECRET ||
+  (() => {
+    console.warn(
+      "⚠️  DOWNLOAD_LINK_SECRET not configured - using a random secret, download links will not survive a restart",
+    );
+    return crypto.randomBytes(32).toString("hex");
+  })();
+
+const sign = (data: string) =>
+  crypto.createHmac("sha256", LINK_SECRET).update(data).digest("base64url");
+
+export function signDownloadLink(
+  pdfRecord: Pick<StoredPDFRecord, "pdfRecordId" | "userId" | "expiresAt">,
+  { ttlSeconds, maxDownloads, linkId }: DownloadLinkOptions = {},
+  now = Date.now(),
+): string {
+  const recordExpiry = Math.floor(
+    new Date(pdfRecord.expiresAt).getTime() / 1000,
+  );
+  const payload: DownloadLinkPayload = {
+    jti: linkId || crypto.randomBytes(12).toString("base64url"),
+    pdf: pdfRecord.pdfRecordId,
+    sub: pdfRecord.userId,
+    exp: ttlSeconds
+      ? Math.min(recordExpiry, Math.floor(now / 1000) + ttlSeconds)
+      : recordExpiry,
+    ...(maxDownloads ? { max: maxDownloads } : {}),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Relative URL for the PDF download endpoint - prefix with the server's origin for emails
+ */
+export function createSignedDownloadUrl(
+  pdfRecord: Pick<StoredPDFRecord, "pdfRecordId" | "userId" | "expiresAt">,
+  options: DownloadLinkOptions = {},
+  now = Date.now(),
+): string {
+  const token = signDownloadLink(pdfRecord, options, now);
+  return `/api/wellness/download-pdf/${encodeURIComponent(pdfRecord.pdfRecordId)}?token=${token}`;
+}
+
+/**
+ * Returns the payload when the signature is valid, otherwise null. Expiry is checked separately
+ * so refusals can be logged with the link they came from.
+ */
+export function decodeDownloadLink(token: string): DownloadLinkPayload | null {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(encoded, "base64url").toString());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a download request against its link. Refusals are logged here; a granted request is
+ * logged with recordGrantedDownload once answered, as only a whole file uses up the link.
+ */
+export async function authorizeDownload(
+  {
+    pdfRecordId,
+    pdfRecord,
+    token,
+    ipAddress,
+    userAgent,
+  }: {
+    pdfRecordId: string;
+    pdfRecord?: StoredPDFRecord;
+    token?: string;
+    ipAddress?: string;
+    userAgent?: string;
+  },
+  downloads: Repository["pdfDownloads"] = repository.pdfDownloads,
+  now = Date.now(),
+): Promise<DownloadAuthorization> {
+  const link = token ? decodeDownloadLink(token) : null;
+
+  const check = async (): Promise<DownloadDenial | null> => {
+    if (!token) return "missing_token";
+    if (!link) return "invalid_signature";
+    if (link.pdf !== pdfRecordId) return "wrong_record";
+    if (link.exp <= Math.floor(now / 1000)) return "expired";
+    if (!pdfRecord) return "not_found";
+    if (pdfRecord.userId !== link.sub) return "not_owner";
+    if (link.max && (await downloads.countGranted(link.jti)) >= link.max) {
+      return "limit_reached";
+    }
+    return null;
+  };
+
+  const denial = await check();
+  if (!denial) return { granted: true, link: link! };
+
+  await downloads.record({
+    pdfRecordId,
+    linkId: link?.jti,
+    userId: link?.sub,
+    outcome: denial,
+    ipAddress,
+    userAgent,
+  });
+  return { granted: false, reason: denial, link: link || undefined };
+}
+
+export async function recordGrantedDownload(
+  {
+    pdfRecordId,
+    link,
+    outcome,
+    ipAddress,
+    userAgent,
+  }: {
+    pdfRecordId: string;
+    link: DownloadLinkPayload;
+    outcome: GrantedDownloadOutcome;
+    ipAddress?: string;
+    userAgent?: string;
+  },
+  downloads: Repository["pdfDownloads"] = repository.pdfDownloads,
+): Promise<void> {
+  await downloads.record({
+    pdfRecordId,
+    linkId: link.jti,
+    userId: link.sub,
+    outcome,
+    ipAddress,
+    userAgent,
+  });
+}
@@ -1,5 +1,7 @@
 import nodemailer from 'nodemailer';
-import { logEmail, updateEmailLogStatus } from './db';
+import { repository, EmailLogRecord, StoredPDFRecord } from './repository';
+import { createSignedDownloadUrl } from './download-links';
+import { InvoiceAttachment } from './invoices';
 
 // Email transporter configuration
 let transporter: nodemailer.Transporter | null = null;
@@ -24,12 +26,12 @@ export async function initializeEmailService() {
 }
 
 export async function sendConfirmationEmail(
-  userId: number,
+  userId: string,
   recipientEmail: string,
   userName: string,
   productName: string,
-  downloadLink: string,
-  purchaseId?: number
+  pdfRecord: StoredPDFRecord,
+  purchaseId?: string
 ): Promise<boolean> {
   if (!transporter) {
     console.warn('Email transporter not initialized');
@@ -37,10 +39,19 @@ export async function sendConfirmationEmail(
   }
 
   const subject = `Your ${productName} Report is Ready to Download`;
-  
+  // Signed for the report's owner and valid until the report itself expires
+  const downloadLink = `${process.env.SERVER_URL || 'http://localhost:8080'}${createSignedDownloadUrl(pdfRecord)}`;
+  let emailLog: EmailLogRecord | undefined;
+
   try {
-    // Log email attempt in database
-    const emailLog = await logEmail(userId, purchaseId || null, 'confirmation', recipientEmail, subject);
+    // Log email attempt
+    emailLog = await repository.emailLogs.create({
+      userId,
+      orderId: purchaseId,
+      emailType: 'confirmation',
+      recipientEmail,
+      subject,
+    });
 
     const htmlContent = `
       <!DOCTYPE html>
@@ -117,28 +128,28 @@ Questions? Reply to this email or visit our support page.
     });
 
     // Update email log with success
-    await updateEmailLogStatus(emailLog.id, 'sent');
+    await repository.emailLogs.updateStatus(emailLog.id, 'sent');
     console.log('Email sent successfully:', info.messageId);
     return true;
   } catch (error) {
     console.error('Error sending email:', error);
     // Update email log with error
-    if (await logEmail(userId, purchaseId || null, 'confirmation', recipientEmail, subject)) {
-      const emailLog = await logEmail(userId, purchaseId || null, 'confirmation', recipientEmail, subject);
-      await updateEmailLogStatus(emailLog.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    if (emailLog) {
+      await repository.emailLogs.updateStatus(emailLog.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
     }
     return false;
   }
 }
 
 export async function sendPaymentConfirmationEmail(
-  userId: number,
+  userId: string,
   recipientEmail: string,
   userName: string,
   planName: string,
   amount: number,
   transactionId: string,
-  purchaseId?: number
+  purchaseId?: string,
+  invoice?: InvoiceAttachment
 ): Promise<boolean> {
   if (!transporter) {
     console.warn('Email transporter not initialized');
@@ -146,9 +157,16 @@ export async function sendPaymentConfirmationEmail(
   }
 
   const subject = `Payment Confirmation - ${planName}`;
+  let emailLog: EmailLogRecord | undefined;
 
   try {
-    const emailLog = await logEmail(userId, purchaseId || null, 'payment_confirmation', recipientEmail, subject);
+    emailLog = await repository.emailLogs.create({
+      userId,
+      orderId: purchaseId,
+      emailType: 'payment_confirmation',
+      recipientEmail,
+      subject,
+    });
 
     const htmlContent = `
       <!DOCTYPE html>
@@ -191,6 +209,8 @@ export async function sendPaymentConfirmationEmail(
                 </div>
               </div>
               
+              ${invoice ? '<p style="margin-top: 20px;">Your GST tax invoice is attached.</p>' : ''}
+
               <p style="margin-top: 20px;">Your personalized report will be ready shortly. You'll receive another email with the download link.</p>
               
               <center>
@@ -216,7 +236,7 @@ Thank you for your purchase! Your payment has been successfully processed.
 Plan: ${planName}
 Amount Paid: ₹${amount.toFixed(2)}
 Transaction ID: ${transactionId}
-
+${invoice ? '\nYour GST tax invoice is attached.\n' : ''}
 Your personalized report will be ready shortly. You'll receive another email with the download link.
 
 Need help? Contact our support team at support@genewell.com
@@ -230,15 +250,19 @@ Need help? Contact our support team at support@genewell.com
       subject,
       text: textContent,
       html: htmlContent,
+      attachments: invoice
+        ? [{ filename: invoice.filename, content: invoice.content, contentType: 'application/pdf' }]
+        : undefined,
     });
 
-    await updateEmailLogStatus(emailLog.id, 'sent');
+    await repository.emailLogs.updateStatus(emailLog.id, 'sent');
     console.log('Payment confirmation email sent:', info.messageId);
     return true;
   } catch (error) {
     console.error('Error sending payment confirmation email:', error);
-    const emailLog = await logEmail(userId, purchaseId || null, 'payment_confirmation', recipientEmail, subject);
-    await updateEmailLogStatus(emailLog.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    if (emailLog) {
+      await repository.emailLogs.updateStatus(emailLog.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    }
     return false;
   }
 }
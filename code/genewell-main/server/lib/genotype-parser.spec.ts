@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseGenotypeText,
+  parseGenotypeStream,
+  getGenotype,
+  GenotypeParseError,
+} from "./genotype-parser";
+
+const TWENTY_THREE_AND_ME = [
+  "# This data file generated by 23andMe at: Mon Jan 01 00:00:00 2024",
+  "# We are using reference human assembly build 37 (also known as Annotation Release 104).",
+  "# rsid\tchromosome\tposition\tgenotype",
+  "rs9939609\t16\t53820527\tAT",
+  "rs1801133\t1\t11856378\tGG",
+  "rs4988235\t2\t136608646\t--",
+  "i3000001\tMT\t3106\tC",
+].join("\n");
+
+const ANCESTRY = [
+  "#AncestryDNA raw data download",
+  "#Genotypes are presented on the GRCh37/hg19 assembly",
+  "rsid\tchromosome\tposition\tallele1\tallele2",
+  "rs9939609\t16\t53820527\tA\tT",
+  "rs762551\t15\t75041917\t0\t0",
+  "rs5030\t23\t1234\tA\tA",
+].join("\r\n");
+
+const MY_HERITAGE = [
+  "# MyHeritage DNA raw data.",
+  "RSID,CHROMOSOME,POSITION,RESULT",
+  '"rs9939609","16","53786615","TT"',
+  '"rs1801133","1","11796321","AG"',
+].join("\n");
+
+const FTDNA_NO_BANNER = [
+  "RSID,CHROMOSOME,POSITION,RESULT",
+  '"rs9939609","16","53820527","AA"',
+  '"rs1801133","1","11856378","GA"',
+].join("\n");
+
+// Current FTDNA exports quote the header as well as the rows
+const FTDNA_QUOTED_HEADER = [
+  '"RSID","CHROMOSOME","POSITION","RESULT"',
+  '"rs9939609","16","53786615","AT"',
+].join("\n");
+
+describe("parseGenotypeText", () => {
+  it("should parse a 23andMe export", () => {
+    const { table, report } = parseGenotypeText(TWENTY_THREE_AND_ME);
+
+    expect(report.provider).toBe("23andme");
+    expect(report.build).toBe("GRCh37");
+    expect(report.buildSource).toBe("header");
+    expect(report.variantCount).toBe(4);
+    expect(report.noCallCount).toBe(1);
+    expect(report.callRate).toBe(0.75);
+    expect(table.get("rs9939609")).toEqual({
+      rsid: "rs9939609",
+      chromosome: "16",
+      position: 53820527,
+      genotype: "AT",
+    });
+    expect(getGenotype(table, "rs4988235")).toBeUndefined();
+  });
+
+  it("should merge AncestryDNA allele columns and map numeric chromosomes", () => {
+    const { table, report } = parseGenotypeText(ANCESTRY);
+
+    expect(report.provider).toBe("ancestrydna");
+    expect(report.build).toBe("GRCh37");
+    expect(getGenotype(table, "rs9939609")).toBe("AT");
+    expect(table.get("rs762551")?.genotype).toBe("--");
+    expect(table.get("rs5030")?.chromosome).toBe("X");
+  });
+
+  it("should infer the build from marker positions when the header is silent", () => {
+    expect(parseGenotypeText(MY_HERITAGE).report).toMatchObject({
+      provider: "myheritage",
+      build: "GRCh38",
+      buildSource: "positions",
+    });
+    expect(parseGenotypeText(FTDNA_NO_BANNER).report).toMatchObject({
+      provider: "ftdna",
+      build: "GRCh37",
+    });
+    expect(parseGenotypeText(FTDNA_QUOTED_HEADER).report).toMatchObject({
+      provider: "ftdna",
+      build: "GRCh38",
+    });
+  });
+
+  it("should count malformed lines without aborting", () => {
+    const { report } = parseGenotypeText(
+      [
+        TWENTY_THREE_AND_ME,
+        "rs123\t1\tnot-a-number\tAA",
+        "garbage line",
+        "rs456\t99\t100\tAA",
+        "rs789\t1\t100\tXZ",
+      ].join("\n"),
+    );
+
+    expect(report.variantCount).toBe(4);
+    expect(report.malformedCount).toBe(4);
+    expect(report.malformedSamples.map((m) => m.lineNumber)).toEqual([
+      8, 9, 10, 11,
+    ]);
+  });
+
+  it("should reject files without any genotype rows", () => {
+    expect(() => parseGenotypeText("hello\nworld")).toThrow(GenotypeParseError);
+  });
+});
+
+describe("parseGenotypeStream", () => {
+  it("should handle lines split across chunks", async () => {
+    const text = TWENTY_THREE_AND_ME;
+    const chunks = [text.slice(0, 50), text.slice(50, 51), text.slice(51)].map(
+      (c) => Buffer.from(c),
+    );
+
+    const { report } = await parseGenotypeStream(chunks);
+    expect(report.variantCount).toBe(4);
+    expect(report.bytesRead).toBe(Buffer.byteLength(text));
+  });
+
+  it("should stop once the size limit is exceeded", async () => {
+    await expect(
+      parseGenotypeStream([Buffer.from(TWENTY_THREE_AND_ME)], { maxBytes: 10 }),
+    ).rejects.toMatchObject({ code: "FILE_TOO_LARGE" });
+  });
+});
@@ -0,0 +1,364 @@
+// Raw genotype parser for consumer DNA exports (23andMe, AncestryDNA, MyHeritage, FTDNA)
+// Streams the uploaded file line by line and builds a normalized in-memory genotype table
+
+import { StringDecoder } from "string_decoder";
+import {
+  GenotypeProvider,
+  GenomeBuild,
+  GenotypeParseReport,
+  MalformedGenotypeLine,
+} from "../../shared/api";
+
+export const MAX_GENOTYPE_FILE_BYTES = 50 * 1024 * 1024; // Matches the 50MB limit in Upload.tsx
+export const NO_CALL = "--";
+
+export interface GenotypeCall {
+  rsid: string;
+  chromosome: string;
+  position: number;
+  genotype: string; // Normalized alleles, e.g. "AG", "A" (haploid) or "--" (no-call)
+}
+
+export type GenotypeTable = Map<string, GenotypeCall>;
+
+export interface GenotypeParseResult {
+  table: GenotypeTable;
+  report: GenotypeParseReport;
+}
+
+export interface GenotypeParseOptions {
+  maxBytes?: number;
+  maxMalformedSamples?: number;
+}
+
+export class GenotypeParseError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | "FILE_TOO_LARGE"
+      | "UNRECOGNIZED_FORMAT"
+      | "NO_VARIANTS",
+  ) {
+    super(message);
+    this.name = "GenotypeParseError";
+  }
+}
+
+// Ancestry encodes sex chromosomes and mitochondria numerically
+const CHROMOSOME_ALIASES: Record<string, string> = {
+  "23": "X",
+  "24": "Y",
+  "25": "X", // Pseudo-autosomal region
+  "26": "MT",
+  XY: "X",
+  M: "MT",
+};
+
+const VALID_CHROMOSOMES = new Set([
+  ...Array.from({ length: 22 }, (_, i) => String(i + 1)),
+  "X",
+  "Y",
+  "MT",
+]);
+
+const NO_CALL_VALUES = new Set(["--", "00", "0", "-", "", "NN", "??"]);
+const RSID_PATTERN = /^(rs|i)\d+$/i;
+const ALLELE_PATTERN = /^[ACGTDI]{1,2}$/;
+
+// Well-characterised markers whose coordinates differ between assemblies.
+// Used to infer the build when the file header doesn't state it.
+const BUILD_ANCHORS: Record<string, { GRCh37: number; GRCh38: number }> = {
+  rs9939609: { GRCh37: 53820527, GRCh38: 53786615 }, // FTO
+  rs1801133: { GRCh37: 11856378, GRCh38: 11796321 }, // MTHFR C677T
+  rs4988235: { GRCh37: 136608646, GRCh38: 135851076 }, // LCT/MCM6
+  rs762551: { GRCh37: 75041917, GRCh38: 74749576 }, // CYP1A2
+};
+
+/**
+ * Detects the provider from the comment/header lines at the top of the file
+ */
+export function detectGenotypeFormat(headerLines: string[]): GenotypeProvider {
+  const header = headerLines.join("\n");
+
+  if (/23andMe/i.test(header)) return "23andme";
+  if (/AncestryDNA/i.test(header)) return "ancestrydna";
+  if (/MyHeritage/i.test(header)) return "myheritage";
+  if (/FamilyTreeDNA|FTDNA/i.test(header)) return "ftdna";
+
+  // Fall back to the column layout when no vendor banner is present.
+  // FTDNA quotes its column names as well as its rows.
+  const columnLine = headerLines
+    .map((line) =>
+      line.replace(/^#\s*/, "").replace(/"/g, "").trim().toLowerCase(),
+    )
+    .find((line) => line.startsWith("rsid"));
+  if (!columnLine) return "unknown";
+
+  if (columnLine.includes("allele1")) return "ancestrydna";
+  if (columnLine.includes(",")) return "ftdna"; // MyHeritage always carries its banner
+  if (columnLine.includes("genotype")) return "23andme";
+
+  return "unknown";
+}
+
+/**
+ * Reads the assembly from header comments ("build 37", "GRCh38", "hg19", ...)
+ */
+export function detectBuildFromHeader(headerLines: string[]): GenomeBuild {
+  const header = headerLines.join("\n");
+  if (/GRCh38|build\s*38|hg38/i.test(header)) return "GRCh38";
+  if (/GRCh37|build\s*37|hg19/i.test(header)) return "GRCh37";
+  return "unknown";
+}
+
+function inferBuildFromPositions(table: GenotypeTable): GenomeBuild {
+  let votes37 = 0;
+  let votes38 = 0;
+
+  for (const [rsid, anchor] of Object.entries(BUILD_ANCHORS)) {
+    const call = table.get(rsid);
+    if (!call) continue;
+    if (call.position === anchor.GRCh37) votes37++;
+    if (call.position === anchor.GRCh38) votes38++;
+  }
+
+  if (votes37 > votes38) return "GRCh37";
+  if (votes38 > votes37) return "GRCh38";
+  return "unknown";
+}
+
+function splitColumns(line: string): string[] {
+  const delimiter = line.includes("\t") ? "\t" : ",";
+  return line
+    .split(delimiter)
+    .map((col) => col.trim().replace(/^"(.*)"$/, "$1"));
+}
+
+function normalizeChromosome(raw: string): string | null {
+  const upper = raw.toUpperCase().replace(/^CHR/, "");
+  const chromosome = CHROMOSOME_ALIASES[upper] || upper;
+  return VALID_CHROMOSOMES.has(chromosome) ? chromosome : null;
+}
+
+function normalizeGenotype(alleles: string[]): string | null {
+  const joined = alleles.join("").toUpperCase();
+  if (
+    NO_CALL_VALUES.has(joined) ||
+    alleles.every((a) => NO_CALL_VALUES.has(a))
+  ) {
+    return NO_CALL;
+  }
+  return ALLELE_PATTERN.test(joined) ? joined : null;
+}
+
+function isColumnHeader(columns: string[]): boolean {
+  return columns[0]?.toLowerCase() === "rsid";
+}
+
+/**
+ * Incremental parser - feed it lines, then call finish() for the result.
+ * Exposed so callers can drive it from any line source.
+ */
+export function createGenotypeParser(options: GenotypeParseOptions = {}) {
+  const maxMalformedSamples = options.maxMalformedSamples ?? 20;
+  const table: GenotypeTable = new Map();
+  const headerLines: string[] = [];
+  const malformedSamples: MalformedGenotypeLine[] = [];
+
+  let lineNumber = 0;
+  let commentLines = 0;
+  let noCallCount = 0;
+  let duplicateCount = 0;
+  let malformedCount = 0;
+  let seenData = false;
+
+  const markMalformed = (reason: string, content: string) => {
+    malformedCount++;
+    if (malformedSamples.length < maxMalformedSamples) {
+      malformedSamples.push({
+        lineNumber,
+        reason,
+        content: content.slice(0, 120),
+      });
+    }
+  };
+
+  const pushLine = (rawLine: string) => {
+    lineNumber++;
+    const line = rawLine.replace(/^\uFEFF/, "").trim();
+    if (!line) return;
+
+    if (line.startsWith("#")) {
+      commentLines++;
+      if (!seenData) headerLines.push(line);
+      return;
+    }
+
+    const columns = splitColumns(line);
+    if (isColumnHeader(columns)) {
+      if (!seenData) headerLines.push(line);
+      return;
+    }
+    seenData = true;
+
+    // 23andMe/MyHeritage/FTDNA: rsid, chr, pos, genotype. Ancestry: rsid, chr, pos, allele1, allele2
+    if (columns.length !== 4 && columns.length !== 5) {
+      markMalformed(`Expected 4 or 5 columns, found ${columns.length}`, line);
+      return;
+    }
+
+    const [rsid, rawChromosome, rawPosition, ...alleles] = columns;
+
+    if (!RSID_PATTERN.test(rsid)) {
+      markMalformed("Invalid variant identifier", line);
+      return;
+    }
+
+    const chromosome = normalizeChromosome(rawChromosome);
+    if (!chromosome) {
+      markMalformed(`Unknown chromosome "${rawChromosome}"`, line);
+      return;
+    }
+
+    const position = Number(rawPosition);
+    if (!Number.isInteger(position) || position < 0) {
+      markMalformed(`Invalid position "${rawPosition}"`, line);
+      return;
+    }
+
+    const genotype = normalizeGenotype(alleles);
+    if (!genotype) {
+      markMalformed(`Invalid genotype "${alleles.join("")}"`, line);
+      return;
+    }
+
+    const key = rsid.toLowerCase();
+    if (table.has(key)) {
+      duplicateCount++;
+      return;
+    }
+
+    if (genotype === NO_CALL) noCallCount++;
+    table.set(key, { rsid: key, chromosome, position, genotype });
+  };
+
+  const finish = (bytesRead: number): GenotypeParseResult => {
+    const provider = detectGenotypeFormat(headerLines);
+    const headerBuild = detectBuildFromHeader(headerLines);
+    const positionBuild =
+      headerBuild === "unknown" ? inferBuildFromPositions(table) : "unknown";
+    const build = headerBuild !== "unknown" ? headerBuild : positionBuild;
+
+    const variantCount = table.size;
+    const calledCount = variantCount - noCallCount;
+
+    return {
+      table,
+      report: {
+        provider,
+        build,
+        buildSource:
+          headerBuild !== "unknown"
+            ? "header"
+            : positionBuild !== "unknown"
+              ? "positions"
+              : "none",
+        totalLines: lineNumber,
+        commentLines,
+        variantCount,
+        calledCount,
+        noCallCount,
+        callRate:
+          variantCount > 0
+            ? Math.round((calledCount / variantCount) * 10000) / 10000
+            : 0,
+        duplicateCount,
+        malformedCount,
+        malformedSamples,
+        bytesRead,
+      },
+    };
+  };
+
+  return { pushLine, finish };
+}
+
+/**
+ * Parses a genotype file from a stream (e.g. an Express request) without
+ * buffering the whole file. Rejects once more than maxBytes have been read.
+ */
+export async function parseGenotypeStream(
+  input: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+  options: GenotypeParseOptions = {},
+): Promise<GenotypeParseResult> {
+  const maxBytes = options.maxBytes ?? MAX_GENOTYPE_FILE_BYTES;
+  const parser = createGenotypeParser(options);
+  const decoder = new StringDecoder("utf8");
+
+  let bytesRead = 0;
+  let remainder = "";
+
+  for await (const chunk of input) {
+    bytesRead +=
+      typeof chunk === "string" ? Buffer.byteLength(chunk) : chunk.length;
+    if (bytesRead > maxBytes) {
+      throw new GenotypeParseError(
+        `Genotype file exceeds the ${Math.round(maxBytes / 1024 / 1024)}MB limit`,
+        "FILE_TOO_LARGE",
+      );
+    }
+
+    remainder += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    const lines = remainder.split(/\r?\n/);
+    remainder = lines.pop() ?? "";
+    lines.forEach(parser.pushLine);
+  }
+
+  remainder += decoder.end();
+  if (remainder) parser.pushLine(remainder);
+
+  const result = parser.finish(bytesRead);
+  assertUsableResult(result);
+  return result;
+}
+
+/**
+ * Convenience wrapper for already-buffered contents (tests, small fixtures)
+ */
+export function parseGenotypeText(
+  text: string,
+  options: GenotypeParseOptions = {},
+): GenotypeParseResult {
+  const parser = createGenotypeParser(options);
+  text.split(/\r?\n/).forEach(parser.pushLine);
+  const result = parser.finish(Buffer.byteLength(text));
+  assertUsableResult(result);
+  return result;
+}
+
+function assertUsableResult(result: GenotypeParseResult) {
+  if (result.report.variantCount === 0) {
+    if (result.report.malformedCount > 0) {
+      throw new GenotypeParseError(
+        "File format not recognized - no valid genotype rows found",
+        "UNRECOGNIZED_FORMAT",
+      );
+    }
+    throw new GenotypeParseError(
+      "File contains no genotype data",
+      "NO_VARIANTS",
+    );
+  }
+}
+
+/**
+ * Looks up a variant, returning undefined for missing or no-call entries
+ */
+export function getGenotype(
+  table: GenotypeTable,
+  rsid: string,
+): string | undefined {
+  const call = table.get(rsid.toLowerCase());
+  if (!call || call.genotype === NO_CALL) return undefined;
+  return call.genotype;
+}
@@ -0,0 +1,127 @@
+// Instamojo behind the PaymentGateway contract
+// The API calls and webhook MAC live in instamojo-service.ts; this maps them onto intents and events.
+
+import {
+  createPaymentRequest,
+  createRefund,
+  getPaymentDetails,
+  isPaymentSuccessful,
+  parseWebhookData,
+  verifyWebhook,
+} from "./instamojo-service";
+import {
+  PaymentGateway,
+  PaymentGatewayError,
+  PaymentOutcome,
+} from "./payment-gateway";
+
+// Payment request statuses that can no longer be paid
+const CLOSED_REQUEST_STATUSES = ["Expired", "Failed"];
+
+export function createInstamojoGateway(): PaymentGateway {
+  return {
+    id: "instamojo",
+    label: "Instamojo",
+
+    async createIntent({
+      orderId,
+      amount,
+      description,
+      customer,
+      returnUrl,
+      webhookUrl,
+      metadata,
+    }) {
+      const response = await createPaymentRequest({
+        purpose: description,
+        amount: Math.round(amount * 100) / 100,
+        buyer_name: customer.name,
+        email: customer.email,
+        phone: customer.phone || "9999999999",
+        redirect_url: returnUrl,
+        webhook_url: webhookUrl,
+        metadata: { ...metadata, purchase_id: orderId },
+      });
+
+      if (!response.success || !response.payment_request) {
+        throw new PaymentGatewayError(
+          "instamojo",
+          "Failed to create payment request",
+          response.errors,
+        );
+      }
+
+      return {
+        gateway: "instamojo",
+        intentId: response.payment_request.id,
+        checkoutUrl:
+          response.payment_request.shorturl || response.payment_request.longurl,
+      };
+    },
+
+    async verify(intentId) {
+      const { payment_request: request } = await getPaymentDetails(intentId);
+      if (!request) {
+        throw new PaymentGatewayError(
+          "instamojo",
+          "Failed to fetch payment details",
+        );
+      }
+
+      const credited = (request.payments || []).find((payment: any) =>
+        isPaymentSuccessful(payment.status),
+      );
+      if (credited || isPaymentSuccessful(request.status)) {
+        return {
+          status: "completed",
+          paymentId: credited?.payment_id || request.transaction_id,
+        };
+      }
+      return {
+        status: CLOSED_REQUEST_STATUSES.includes(request.status)
+          ? "failed"
+          : "pending",
+      };
+    },
+
+    parseWebhook(rawBody) {
+      const verification = verifyWebhook(rawBody);
+      if (!verification.verified) {
+        return { verified: false, reason: verification.reason };
+      }
+
+      const data = parseWebhookData(verification.fields);
+      if (!data.transactionId) {
+        return { verified: false, reason: "malformed" };
+      }
+
+      const status: PaymentOutcome = isPaymentSuccessful(data.status)
+        ? "completed"
+        : "failed";
+      return {
+        verified: true,
+        testMode: verification.testMode,
+        event: {
+          eventId: data.transactionId,
+          status,
+          providerStatus: data.status,
+          intentId: data.paymentId,
+          orderId: data.metadata.purchase_id,
+          paymentId: data.transactionId,
+          amount: data.amount,
+          email: data.email,
+          buyerName: data.buyerName,
+        },
+      };
+    },
+
+    async refund(paymentId, amount) {
+      const { refund } = await createRefund(paymentId, amount);
+      return {
+        refundId: String(refund.id),
+        status: refund.status === "Refunded" ? "processed" : "pending",
+        amount: Number(refund.refund_amount ?? amount),
+      };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeWebhookMac,
+  parseWebhookData,
+  verifyWebhook,
+} from "./instamojo-service";
+
+const SALT = "test-salt";
+
+const fields = {
+  amount: "499.00",
+  buyer: "asha@example.com",
+  buyer_name: "Asha",
+  currency: "INR",
+  payment_id: "MOJO5a06005J21512197",
+  payment_request_id: "d66cb29dd059482e8072999f995c4eef",
+  status: "Credit",
+  "metadata[purchase_id]": "12",
+  "metadata[user_id]": "7",
+};
+
+// A form body as Instamojo posts it, signed with `salt`
+const signedBody = (data: Record<string, string>, salt = SALT) =>
+  new URLSearchParams({
+    ...data,
+    mac: computeWebhookMac(data, salt),
+  }).toString();
+
+describe("computeWebhookMac", () => {
+  it("should sign the values in case-insensitive field order", () => {
+    expect(computeWebhookMac({ b: "2", A: "1", c: "3" }, SALT)).toBe(
+      computeWebhookMac({ A: "1", b: "2", c: "3" }, SALT),
+    );
+    expect(computeWebhookMac({ A: "1", b: "2" }, SALT)).not.toBe(
+      computeWebhookMac({ A: "2", b: "1" }, SALT),
+    );
+  });
+});
+
+describe("verifyWebhook", () => {
+  it("should accept a body signed with the salt", () => {
+    const verification = verifyWebhook(signedBody(fields), { secret: SALT });
+
+    expect(verification.verified).toBe(true);
+    expect(verification.fields).toEqual(fields);
+  });
+
+  it("should refuse tampered, unsigned or wrongly signed bodies", () => {
+    const tampered = signedBody(fields).replace("499.00", "1.00");
+    const unsigned = new URLSearchParams(fields).toString();
+
+    expect(verifyWebhook(tampered, { secret: SALT })).toMatchObject({
+      verified: false,
+      reason: "invalid_signature",
+    });
+    expect(verifyWebhook(unsigned, { secret: SALT }).reason).toBe(
+      "missing_signature",
+    );
+    expect(
+      verifyWebhook(signedBody(fields, "other-salt"), { secret: SALT }).reason,
+    ).toBe("invalid_signature");
+    expect(verifyWebhook(`${unsigned}&mac=zz`, { secret: SALT }).reason).toBe(
+      "invalid_signature",
+    );
+  });
+
+  it("should only skip the check in explicit test mode", () => {
+    const body = new URLSearchParams(fields).toString();
+
+    expect(verifyWebhook(body, { secret: "" })).toMatchObject({
+      verified: false,
+      reason: "not_configured",
+    });
+    expect(verifyWebhook(body, { secret: "", testMode: true })).toMatchObject({
+      verified: true,
+      testMode: true,
+    });
+  });
+});
+
+describe("parseWebhookData", () => {
+  it("should read Instamojo's fields and flat metadata", () => {
+    expect(parseWebhookData(fields)).toEqual({
+      paymentId: "d66cb29dd059482e8072999f995c4eef",
+      transactionId: "MOJO5a06005J21512197",
+      status: "Credit",
+      amount: 499,
+      email: "asha@example.com",
+      buyerName: "Asha",
+      metadata: { purchase_id: "12", user_id: "7" },
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { WebhookRejection } from './payment-gateway';
 
 // Instamojo API configuration
 const INSTAMOJO_API_URL = process.env.NODE_ENV === 'production'
@@ -8,6 +9,9 @@ const INSTAMOJO_API_URL = process.env.NODE_ENV === 'production'
 const INSTAMOJO_AUTH_KEY = process.env.INSTAMOJO_AUTH_KEY;
 const INSTAMOJO_AUTH_TOKEN = process.env.INSTAMOJO_AUTH_TOKEN;
 const INSTAMOJO_WEBHOOK_SECRET = process.env.INSTAMOJO_WEBHOOK_SECRET;
+const INSTAMOJO_WEBHOOK_TEST_MODE =
+  process.env.INSTAMOJO_WEBHOOK_TEST_MODE === 'true' &&
+  process.env.NODE_ENV !== 'production';
 const INSTAMOJO_PAYMENT_LINK = 'https://www.instamojo.com/@famechase';
 
 export interface InstelloPaymentRequest {
@@ -137,50 +141,134 @@ export async function getPaymentDetails(paymentId: string): Promise<any> {
   }
 }
 
-export function verifyWebhookSignature(
-  body: string,
-  signature: string
-): boolean {
-  if (!INSTAMOJO_WEBHOOK_SECRET) {
-    console.warn('Webhook secret not configured - skipping verification');
-    return true;
+export async function createRefund(paymentId: string, amount?: number): Promise<any> {
+  if (!INSTAMOJO_AUTH_KEY || !INSTAMOJO_AUTH_TOKEN) {
+    throw new Error('Instamojo credentials not configured');
   }
 
-  try {
-    const computed = crypto
-      .createHmac('sha256', INSTAMOJO_WEBHOOK_SECRET)
-      .update(body)
-      .digest('base64');
+  const payload = new URLSearchParams();
+  payload.append('payment_id', paymentId);
+  payload.append('type', 'PTH');
+  payload.append('body', 'Refund issued by GeneWell');
+  if (amount !== undefined) {
+    payload.append('refund_amount', amount.toFixed(2));
+  }
 
-    return computed === signature;
-  } catch (error) {
-    console.error('Error verifying webhook signature:', error);
-    return false;
+  const response = await fetch(`${INSTAMOJO_API_URL}refunds/`, {
+    method: 'POST',
+    headers: {
+      'X-Api-Key': INSTAMOJO_AUTH_KEY,
+      'X-Auth-Token': INSTAMOJO_AUTH_TOKEN,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: payload.toString(),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(`Failed to create refund: ${JSON.stringify(data)}`);
+  }
+
+  return data;
+}
+
+export interface WebhookVerification {
+  verified: boolean;
+  reason?: WebhookRejection; // Set when refused
+  fields: Record<string, string>; // The posted form, mac removed
+  testMode?: boolean; // Accepted without a signature check
+}
+
+export interface WebhookVerificationOptions {
+  secret?: string; // The account's private salt
+  testMode?: boolean;
+}
+
+/**
+ * Instamojo's webhook MAC: HMAC-SHA1 with the private salt over every posted value except
+ * `mac`, ordered by field name case-insensitively and joined with "|", as hex.
+ */
+export function computeWebhookMac(
+  fields: Record<string, string>,
+  secret: string
+): string {
+  const message = Object.keys(fields)
+    .filter((key) => key !== 'mac')
+    .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+    .map((key) => fields[key])
+    .join('|');
+
+  return crypto.createHmac('sha1', secret).update(message).digest('hex');
+}
+
+/**
+ * Checks the MAC of a webhook against the raw form body Instamojo posted. The body is
+ * parsed here rather than by express, whose extended parser nests `metadata[...]` fields
+ * and would change what gets signed.
+ *
+ * Without a salt every webhook is refused, unless test mode was switched on with
+ * INSTAMOJO_WEBHOOK_TEST_MODE=true - which production ignores.
+ */
+export function verifyWebhook(
+  rawBody: string,
+  {
+    secret = INSTAMOJO_WEBHOOK_SECRET,
+    testMode = INSTAMOJO_WEBHOOK_TEST_MODE,
+  }: WebhookVerificationOptions = {}
+): WebhookVerification {
+  const { mac, ...fields } = Object.fromEntries(new URLSearchParams(rawBody));
+
+  if (!secret) {
+    return testMode
+      ? { verified: true, fields, testMode: true }
+      : { verified: false, reason: 'not_configured', fields };
   }
+  if (!mac) {
+    return { verified: false, reason: 'missing_signature', fields };
+  }
+
+  const expected = Buffer.from(computeWebhookMac(fields, secret), 'hex');
+  const received = Buffer.from(mac, 'hex');
+  const verified =
+    received.length === expected.length &&
+    crypto.timingSafeEqual(received, expected);
+
+  return verified
+    ? { verified, fields }
+    : { verified, reason: 'invalid_signature', fields };
 }
 
-export function parseWebhookData(data: any): {
+export function parseWebhookData(data: Record<string, string>): {
   paymentId: string;
   transactionId: string;
   status: string;
   amount: number;
   email: string;
   buyerName: string;
-  metadata?: any;
+  metadata: Record<string, string>;
 } {
+  // Form fields arrive flat - metadata[purchase_id] and friends
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const match = /^metadata\[(.+)\]$/.exec(key);
+    if (match) metadata[match[1]] = value;
+  }
+
   return {
     paymentId: data.payment_request_id || data.id,
-    transactionId: data.transaction_id,
+    transactionId: data.payment_id || data.transaction_id,
     status: data.status,
     amount: parseFloat(data.amount),
-    email: data.email,
+    email: data.buyer || data.email,
     buyerName: data.buyer_name,
-    metadata: data.metadata,
+    metadata,
   };
 }
 
 export function isPaymentSuccessful(status: string): boolean {
-  return status === 'completed' || status === 'Completed';
+  // Webhooks report "Credit", the payment request API "Completed"
+  return status === 'Credit' || status === 'completed' || status === 'Completed';
 }
 
 /**
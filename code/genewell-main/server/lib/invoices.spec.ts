@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { ADDON_IDS, PLAN_IDS } from "../../shared/catalog";
+import { PersonalizationData } from "../../shared/personalization-engine";
+import {
+  amountInWords,
+  buildInvoice,
+  financialYear,
+  formatInvoiceNumber,
+  issueInvoice,
+  renderInvoicePDF,
+  sellerDetails,
+} from "./invoices";
+import { createMemoryRepository, OrderRecord } from "./repository";
+
+const seller = sellerDetails({
+  SELLER_NAME: "GeneWell Labs",
+  SELLER_GSTIN: "29ABCDE1234F1Z5",
+});
+const buyer = { email: "asha@example.com", name: "Asha" };
+
+const order = (overrides: Partial<OrderRecord> = {}): OrderRecord => ({
+  id: "1",
+  userId: "1",
+  analysisId: "analysis_1",
+  planId: PLAN_IDS.PREMIUM,
+  addOns: [],
+  totalPrice: 1499,
+  paymentStatus: "completed",
+  createdAt: "2026-05-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("invoices", () => {
+  it("should number invoices within Indian financial years", () => {
+    // 31 March 19:00 UTC is already 1 April in India
+    expect(financialYear(new Date("2026-03-31T18:00:00Z"))).toBe("2025-26");
+    expect(financialYear(new Date("2026-03-31T19:00:00Z"))).toBe("2026-27");
+    expect(financialYear(new Date("2099-12-31T00:00:00Z"))).toBe("2099-00");
+    expect(
+      formatInvoiceNumber({ financialYear: "2026-27", sequence: 42 }),
+    ).toBe("GW/2026-27/00042");
+  });
+
+  it("should write amounts in words with Indian grouping", () => {
+    expect(amountInWords(1499)).toBe(
+      "Indian Rupees One Thousand Four Hundred Ninety Nine Only",
+    );
+    expect(amountInWords(12_34_567.5)).toBe(
+      "Indian Rupees Twelve Lakh Thirty Four Thousand Five Hundred Sixty Seven and Fifty Paise Only",
+    );
+    expect(amountInWords(0)).toBe("Indian Rupees Zero Only");
+  });
+
+  it("should split GST by place of supply", () => {
+    expect(seller.state).toBe("29");
+
+    const local = buildInvoice(order({ billingState: "29" }), buyer, seller);
+    expect(local).toMatchObject({
+      placeOfSupply: "29",
+      taxableValue: 1270.34,
+      cgst: 114.33,
+      sgst: 114.33,
+      igst: 0,
+      total: 1499,
+    });
+
+    // A business buyer's GSTIN decides the state, whatever was picked at checkout
+    const business = buildInvoice(
+      order({
+        billingState: "29",
+        billingGstin: "27AAACB1234C1Z9",
+        billingName: "Acme Pvt Ltd",
+      }),
+      buyer,
+      seller,
+    );
+    expect(business).toMatchObject({
+      buyerName: "Acme Pvt Ltd",
+      buyerGstin: "27AAACB1234C1Z9",
+      placeOfSupply: "27",
+      cgst: 0,
+      sgst: 0,
+      igst: 228.66,
+    });
+
+    // Without a state, supply is taken to be in the seller's state
+    expect(buildInvoice(order(), buyer, seller).placeOfSupply).toBe("29");
+  });
+
+  it("should show a discount against the catalog lines", () => {
+    const invoice = buildInvoice(
+      order({ addOns: [ADDON_IDS.DNA], totalPrice: 1000 }),
+      buyer,
+      seller,
+    );
+
+    expect(invoice.lines).toHaveLength(2);
+    expect(invoice.taxableValue).toBe(847.46);
+    expect(invoice.discount).toBeCloseTo(
+      invoice.lines.reduce((sum, line) => sum + line.amount, 0) - 847.46,
+      2,
+    );
+    expect(invoice.cgst + invoice.sgst + invoice.taxableValue).toBeCloseTo(
+      1000,
+      2,
+    );
+  });
+
+  it("should issue one invoice per completed order and render it", async () => {
+    const repo = createMemoryRepository();
+    const user = await repo.users.findOrCreate(buyer);
+    await repo.quizResponses.save({
+      userId: user.id,
+      analysisId: "analysis_1",
+      quizData: {},
+      personalizationData: {} as PersonalizationData,
+    });
+    const placed = await repo.orders.create({
+      userId: user.id,
+      analysisId: "analysis_1",
+      planId: PLAN_IDS.PREMIUM,
+      addOns: [],
+      totalPrice: 1499,
+    });
+    const env = { SELLER_GSTIN: "29ABCDE1234F1Z5" };
+    const now = new Date("2026-05-01T00:00:00Z");
+
+    await expect(issueInvoice(placed, repo, env, now)).rejects.toThrow(
+      "not completed",
+    );
+
+    const completed = await repo.orders.updatePaymentStatus(
+      placed.id,
+      "completed",
+    );
+    const invoice = await issueInvoice(completed, repo, env, now);
+    expect(formatInvoiceNumber(invoice)).toBe("GW/2026-27/00001");
+    expect((await issueInvoice(completed, repo, env, now)).id).toBe(invoice.id);
+
+    const pdf = await renderInvoicePDF(invoice);
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+});
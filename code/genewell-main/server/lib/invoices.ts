@@ -0,0 +1,413 @@
+// GST tax invoices
+// Every completed order gets one, numbered GW/<financial year>/<sequence>. Prices include GST, so an
+// invoice works back from what was paid. Tax is split into CGST + SGST when the place of supply is the
+// seller's own state, and charged as IGST otherwise. The place of supply is the state of a business
+// buyer's GSTIN, else the state given at checkout, else the seller's state.
+
+import PDFDocument from "pdfkit";
+import {
+  GST_RATE,
+  isPlanId,
+  PLAN_CATALOG,
+  priceCheckout,
+} from "../../shared/catalog";
+import { formatGstState, gstinStateCode, isGstin } from "../../shared/gst";
+import {
+  InvoiceRecord,
+  NewInvoice,
+  OrderRecord,
+  Repository,
+  repository,
+  UserRecord,
+} from "./repository";
+
+export interface SellerDetails {
+  name: string;
+  address: string;
+  gstin?: string;
+  state: string; // GST state code
+}
+
+export interface InvoiceAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+export const INVOICE_SERIES = "GW";
+
+// Other online content - reports are delivered as downloads
+export const DEFAULT_SAC_CODE = "998439";
+
+// Financial years and invoice dates are Indian Standard Time, which has no daylight saving
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The seller named on new invoices. Without SELLER_GSTIN the invoices carry no GSTIN, and the
+ * seller's state comes from SELLER_STATE.
+ */
+export function sellerDetails(
+  env: NodeJS.ProcessEnv = process.env,
+): SellerDetails {
+  const gstin = env.SELLER_GSTIN?.trim().toUpperCase();
+  const registered = !!gstin && isGstin(gstin);
+  return {
+    name: env.SELLER_NAME || "GeneWell",
+    address: env.SELLER_ADDRESS || "",
+    gstin: registered ? gstin : undefined,
+    state: registered ? gstinStateCode(gstin) : env.SELLER_STATE || "29",
+  };
+}
+
+/** "2026-27" for any date from 1 April 2026 to 31 March 2027 */
+export function financialYear(date: Date): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const start =
+    ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+/** "GW/2026-27/00042" - GST allows at most 16 characters */
+export const formatInvoiceNumber = ({
+  financialYear,
+  sequence,
+}: Pick<InvoiceRecord, "financialYear" | "sequence">): string =>
+  `${INVOICE_SERIES}/${financialYear}/${String(sequence).padStart(5, "0")}`;
+
+export const invoiceFilename = (invoice: InvoiceRecord): string =>
+  `genewell-invoice-${formatInvoiceNumber(invoice).replace(/\//g, "-")}.pdf`;
+
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+const TENS = [
+  "",
+  "",
+  "Twenty",
+  "Thirty",
+  "Forty",
+  "Fifty",
+  "Sixty",
+  "Seventy",
+  "Eighty",
+  "Ninety",
+];
+
+const belowHundred = (n: number): string =>
+  n < 20
+    ? ONES[n]
+    : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+
+// Indian grouping - crore, lakh, thousand, hundred
+function numberInWords(n: number): string {
+  if (n === 0) return "Zero";
+
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10_000_000);
+  const lakh = Math.floor((n % 10_000_000) / 100_000);
+  const thousand = Math.floor((n % 100_000) / 1000);
+  const hundred = Math.floor((n % 1000) / 100);
+  if (crore) parts.push(`${numberInWords(crore)} Crore`);
+  if (lakh) parts.push(`${belowHundred(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowHundred(thousand)} Thousand`);
+  if (hundred) parts.push(`${ONES[hundred]} Hundred`);
+  if (n % 100) parts.push(belowHundred(n % 100));
+  return parts.join(" ");
+}
+
+/** "Indian Rupees One Thousand Four Hundred Ninety Nine and Fifty Paise Only" */
+export function amountInWords(amount: number): string {
+  const paise = Math.round(amount * 100);
+  const rupees = `Indian Rupees ${numberInWords(Math.floor(paise / 100))}`;
+  return paise % 100
+    ? `${rupees} and ${belowHundred(paise % 100)} Paise Only`
+    : `${rupees} Only`;
+}
+
+/**
+ * The invoice for an order, priced from the catalog. Whatever the order's total falls short of its
+ * lines was a discount. An order that can't be split into catalog lines again - its plan is gone,
+ * or now costs less than was paid - is invoiced as one line.
+ */
+export function buildInvoice(
+  order: OrderRecord,
+  buyer: Pick<UserRecord, "email" | "name">,
+  seller: SellerDetails,
+  { sac = DEFAULT_SAC_CODE, now = new Date() } = {},
+): NewInvoice {
+  const { price } = priceCheckout(order.planId, order.addOns);
+  const gross =
+    price && price.subtotal >= order.totalPrice
+      ? price.lines.map((line) => ({
+          description: line.name,
+          amount: line.amount,
+        }))
+      : [
+          {
+            description: isPlanId(order.planId)
+              ? PLAN_CATALOG[order.planId].name
+              : order.planId,
+            amount: order.totalPrice,
+          },
+        ];
+
+  const lines = gross.map(({ description, amount }) => ({
+    description,
+    sac,
+    amount: round2(amount / (1 + GST_RATE)),
+  }));
+  const linesValue = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+  const discounted =
+    gross.reduce((sum, line) => sum + line.amount, 0) > order.totalPrice;
+  const discount = discounted
+    ? round2(linesValue - order.totalPrice / (1 + GST_RATE))
+    : 0;
+  const taxableValue = round2(linesValue - discount);
+  const gst = round2(order.totalPrice - taxableValue);
+
+  const placeOfSupply = order.billingGstin
+    ? gstinStateCode(order.billingGstin)
+    : order.billingState || seller.state;
+  const intraState = placeOfSupply === seller.state;
+  const cgst = intraState ? round2(gst / 2) : 0;
+
+  return {
+    orderId: order.id,
+    userId: order.userId,
+    financialYear: financialYear(now),
+    sellerName: seller.name,
+    sellerAddress: seller.address,
+    sellerGstin: seller.gstin,
+    sellerState: seller.state,
+    buyerName: order.billingName || buyer.name || buyer.email,
+    buyerEmail: buyer.email,
+    buyerGstin: order.billingGstin,
+    placeOfSupply,
+    lines,
+    discount,
+    taxableValue,
+    gstRate: GST_RATE,
+    cgst,
+    sgst: intraState ? round2(gst - cgst) : 0,
+    igst: intraState ? 0 : gst,
+    total: order.totalPrice,
+  };
+}
+
+/**
+ * The order's invoice, issued now if it hasn't been. Only completed orders are invoiced.
+ */
+export async function issueInvoice(
+  order: OrderRecord,
+  repo: Repository = repository,
+  env: NodeJS.ProcessEnv = process.env,
+  now = new Date(),
+): Promise<InvoiceRecord> {
+  const existing = await repo.invoices.findByOrder(order.id);
+  if (existing) return existing;
+
+  if (order.paymentStatus !== "completed") {
+    throw new Error(
+      `Order ${order.id} is ${order.paymentStatus}, not completed`,
+    );
+  }
+  const buyer = await repo.users.findById(order.userId);
+  if (!buyer) throw new Error(`User ${order.userId} not found`);
+
+  const seller = sellerDetails(env);
+  if (!seller.gstin) {
+    console.warn(
+      "⚠️  SELLER_GSTIN not configured - issuing an invoice without the seller's GSTIN",
+    );
+  }
+  return repo.invoices.issue(
+    buildInvoice(order, buyer, seller, {
+      sac: env.INVOICE_SAC_CODE || DEFAULT_SAC_CODE,
+      now,
+    }),
+  );
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const formatInvoiceDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatRate = (rate: number) => `${round2(rate * 100)}%`;
+
+/**
+ * Renders an invoice as an A4 PDF. Amounts are in INR - the built-in fonts have no rupee sign.
+ */
+export async function renderInvoicePDF(
+  invoice: InvoiceRecord,
+): Promise<Buffer> {
+  const number = formatInvoiceNumber(invoice);
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 50,
+    info: {
+      Title: `Tax Invoice ${number}`,
+      Author: invoice.sellerName,
+      CreationDate: new Date(invoice.issuedAt),
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (d) => chunks.push(d as Buffer));
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+
+  doc
+    .fontSize(20)
+    .font("Helvetica-Bold")
+    .fillColor("#111827")
+    .text("Tax Invoice");
+  doc.moveDown(0.5);
+
+  // Seller, then the invoice's own details
+  doc.fontSize(12).font("Helvetica-Bold").text(invoice.sellerName);
+  doc.fontSize(10).font("Helvetica").fillColor("#374151");
+  if (invoice.sellerAddress) doc.text(invoice.sellerAddress);
+  doc.text(`GSTIN: ${invoice.sellerGstin || "Not registered"}`);
+  doc.text(`State: ${formatGstState(invoice.sellerState)}`);
+  doc.moveDown();
+
+  doc.text(`Invoice number: ${number}`);
+  doc.text(`Invoice date: ${formatInvoiceDate(invoice.issuedAt)}`);
+  doc.text(`Order: ${invoice.orderId}`);
+  doc.text(`Place of supply: ${formatGstState(invoice.placeOfSupply)}`);
+  doc.text("Reverse charge: No");
+  doc.moveDown();
+
+  doc.fontSize(11).font("Helvetica-Bold").fillColor("#111827").text("Bill to");
+  doc.fontSize(10).font("Helvetica").fillColor("#374151");
+  doc.text(invoice.buyerName);
+  doc.text(invoice.buyerEmail);
+  if (invoice.buyerGstin) doc.text(`GSTIN: ${invoice.buyerGstin}`);
+  doc.moveDown();
+
+  // Lines - description, SAC and taxable value
+  const sacX = left + width * 0.6;
+  const amountX = left + width * 0.75;
+  const amountWidth = width * 0.25;
+  const row = (
+    description: string,
+    sac: string,
+    amount: string,
+    bold = false,
+  ) => {
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+    doc.text(description, left, y, { width: sacX - left - 10 });
+    const bottom = doc.y;
+    doc.text(sac, sacX, y, { width: amountX - sacX });
+    doc.text(amount, amountX, y, { width: amountWidth, align: "right" });
+    doc.x = left;
+    doc.y = Math.max(bottom, doc.y) + 4;
+  };
+  const rule = () => {
+    doc
+      .moveTo(left, doc.y)
+      .lineTo(left + width, doc.y)
+      .strokeColor("#d1d5db")
+      .stroke();
+    doc.y += 6;
+  };
+
+  doc.fillColor("#111827");
+  row("Description", "SAC", "Taxable value (INR)", true);
+  rule();
+  for (const line of invoice.lines) {
+    row(line.description, line.sac, formatAmount(line.amount));
+  }
+  if (invoice.discount > 0) {
+    row("Less: discount", "", `-${formatAmount(invoice.discount)}`);
+  }
+  rule();
+
+  row("Taxable value", "", formatAmount(invoice.taxableValue), true);
+  if (invoice.placeOfSupply === invoice.sellerState) {
+    const half = formatRate(invoice.gstRate / 2);
+    row(`CGST @ ${half}`, "", formatAmount(invoice.cgst));
+    row(`SGST @ ${half}`, "", formatAmount(invoice.sgst));
+  } else {
+    row(
+      `IGST @ ${formatRate(invoice.gstRate)}`,
+      "",
+      formatAmount(invoice.igst),
+    );
+  }
+  rule();
+  row("Total", "", formatAmount(invoice.total), true);
+  doc.moveDown();
+
+  doc
+    .font("Helvetica")
+    .text(`Amount in words: ${amountInWords(invoice.total)}`, left, doc.y, {
+      width,
+    });
+  doc.moveDown(2);
+  doc
+    .fontSize(8)
+    .fillColor("#6b7280")
+    .text(
+      "This is a computer-generated invoice and does not need a signature.",
+      { width },
+    );
+
+  doc.end();
+
+  return new Promise((resolve) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Issues and renders the invoice for a newly completed order, to attach to its confirmation email.
+ * Undefined when that fails - the email still goes out, and the invoice can be fetched later.
+ */
+export async function invoiceAttachment(
+  order: OrderRecord,
+  repo: Repository = repository,
+): Promise<InvoiceAttachment | undefined> {
+  try {
+    const invoice = await issueInvoice(order, repo);
+    return {
+      filename: invoiceFilename(invoice),
+      content: await renderInvoicePDF(invoice),
+    };
+  } catch (error) {
+    console.error("Error issuing invoice:", error);
+    return undefined;
+  }
+}
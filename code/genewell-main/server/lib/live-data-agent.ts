@@ -1,7 +1,7 @@
 // Live Data Agent - Fetches real-time health data and integrates it into personalization
 // This module enhances the AI agent with live internet data for unique, non-replicable insights
 
-import { UserProfile } from "./personalization-engine";
+import { UserProfile } from "../../shared/personalization-engine";
 
 export interface LiveDataInsight {
   category: string;
@@ -263,7 +263,7 @@ export async function generateLiveSupplementRecommendations(
 
     // Dynamic recommendations based on profile
     if (profile.stressScore && profile.stressScore > 6) {
-      supplements.push("Magnesium Glycinate: 300-400mg (stress & sleep)");
+      supplements.push("Magnesium Glycinate: 200-350mg (stress & sleep)");
       supplements.push("L-Theanine: 100-200mg (calm without drowsiness)");
     }
 
@@ -330,55 +330,6 @@ export function getLiveNutrientOptimizerPairing(goal: string): string[] {
   return pairings[goal] || pairings["longevity"];
 }
 
-/**
- * Generates weekly meal prep recommendations based on live data
- */
-export async function generateLiveMealPrepPlan(
-  days: number = 7,
-  cuisine: string = "indian",
-): Promise<Record<string, string>> {
-  const mealPlan: Record<string, string> = {};
-
-  const recipes = {
-    indian: {
-      Monday: "Grilled chicken tikka + brown rice + raita",
-      Tuesday: "Moong dal + roti + mixed vegetables",
-      Wednesday: "Paneer bhurji + oats + green salad",
-      Thursday: "Fish curry (light) + quinoa + cucumber salad",
-      Friday: "Chickpea curry + whole wheat roti + spinach",
-      Saturday: "Egg fried rice + broccoli + soy sauce (light)",
-      Sunday: "Dal makhani (light) + roti + green salad",
-    },
-    mediterranean: {
-      Monday: "Grilled salmon + farro + roasted vegetables",
-      Tuesday: "Lentil soup + whole grain bread + olive oil",
-      Wednesday: "Herb-roasted chicken + sweet potato + arugula",
-      Thursday: "Falafel + hummus + whole wheat pita + Greek salad",
-      Friday: "Baked white fish + brown rice + seasonal vegetables",
-      Saturday: "Pasta primavera + whole grain pasta + parmesan",
-      Sunday: "Vegetable stew + legumes + olive oil + herbs",
-    },
-  };
-
-  const cuisineRecipes =
-    recipes[cuisine as keyof typeof recipes] || recipes.mediterranean;
-  const dayNames = [
-    "Monday",
-    "Tuesday",
-    "Wednesday",
-    "Thursday",
-    "Friday",
-    "Saturday",
-    "Sunday",
-  ];
-
-  for (let i = 0; i < Math.min(days, 7); i++) {
-    mealPlan[dayNames[i]] = cuisineRecipes[dayNames[i]];
-  }
-
-  return mealPlan;
-}
-
 /**
  * Formats live insights for PDF inclusion
  */
@@ -397,6 +348,5 @@ export default {
   getLocationSpecificRecommendations,
   generateLiveSupplementRecommendations,
   getLiveNutrientOptimizerPairing,
-  generateLiveMealPrepPlan,
   formatLiveInsightForPDF,
 };
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { newDb } from "pg-mem";
+import {
+  Migration,
+  MigrationError,
+  listAppliedMigrations,
+  runMigrations,
+  withMigrationLock,
+} from "./migrations";
+import { MIGRATIONS } from "../migrations";
+import { Queryable } from "./db";
+
+// pg-mem has no plpgsql, so the audit log trigger is left out
+const migrations = MIGRATIONS.filter(
+  (m) => m.name !== "dna_retention_audit_guard",
+);
+
+async function tableNames(db: Queryable): Promise<string[]> {
+  const result = await db.query(
+    "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'",
+  );
+  return result.rows.map((row) => row.table_name).sort();
+}
+
+describe("runMigrations", () => {
+  let db: Queryable;
+
+  beforeEach(() => {
+    const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+    db = new Pool();
+  });
+
+  it("should apply every migration and record it", async () => {
+    const steps = await runMigrations(db, { migrations });
+
+    expect(steps.map((s) => s.version)).toEqual(
+      migrations.map((m) => m.version),
+    );
+    expect(await tableNames(db)).toEqual(
+      expect.arrayContaining([
+        "admin_users",
+        "dna_jobs",
+        "dna_retention_audit",
+        "email_logs",
+        "orders",
+        "pdf_records",
+        "quiz_responses",
+        "schema_migrations",
+        "users",
+      ]),
+    );
+    expect(await tableNames(db)).not.toContain("purchases");
+    expect((await listAppliedMigrations(db)).map((m) => m.name)).toEqual(
+      migrations.map((m) => m.name),
+    );
+    expect(await runMigrations(db, { migrations })).toEqual([]);
+  });
+
+  it("should stop at the requested version", async () => {
+    await runMigrations(db, { migrations, to: 2 });
+
+    expect(await tableNames(db)).toContain("purchases");
+    expect(await tableNames(db)).not.toContain("orders");
+    expect((await listAppliedMigrations(db)).length).toBe(2);
+  });
+
+  it("should only report the plan on a dry run", async () => {
+    const steps = await runMigrations(db, { migrations, dryRun: true });
+
+    expect(steps.length).toBe(migrations.length);
+    expect(await tableNames(db)).toEqual([]);
+  });
+
+  it("should roll back the latest migration, or down to a version", async () => {
+    await runMigrations(db, { migrations });
+
+    const [last] = await runMigrations(db, { migrations, direction: "down" });
+    expect(last).toMatchObject({
+      version: migrations[migrations.length - 1].version,
+      direction: "down",
+    });
+    expect((await listAppliedMigrations(db)).length).toBe(
+      migrations.length - 1,
+    );
+
+    await runMigrations(db, { migrations, direction: "down", to: 3 });
+    expect(await tableNames(db)).not.toContain("dna_jobs");
+
+    await runMigrations(db, { migrations, direction: "down", to: 2 });
+    expect(await tableNames(db)).toContain("purchases");
+    expect(await tableNames(db)).not.toContain("pdf_records");
+
+    await runMigrations(db, { migrations, direction: "down", to: 0 });
+    expect(await tableNames(db)).toEqual(["schema_migrations"]);
+    expect(await listAppliedMigrations(db)).toEqual([]);
+  });
+
+  it("should not record a failing migration or run the ones after it", async () => {
+    const broken: Migration[] = [
+      migrations[0],
+      {
+        version: 2,
+        name: "broken",
+        up: "ALTER TABLE nope ADD x INT",
+        down: "",
+      },
+      {
+        version: 3,
+        name: "after",
+        up: "CREATE TABLE after (id INT)",
+        down: "",
+      },
+    ];
+
+    await expect(
+      runMigrations(db, { migrations: broken }),
+    ).rejects.toMatchObject({ name: "MigrationError", version: 2 });
+    expect((await listAppliedMigrations(db)).map((m) => m.version)).toEqual([
+      1,
+    ]);
+    expect(await tableNames(db)).not.toContain("after");
+  });
+
+  it("should reject out-of-order or unknown versions", async () => {
+    await expect(
+      runMigrations(db, { migrations: [migrations[1], migrations[0]] }),
+    ).rejects.toBeInstanceOf(MigrationError);
+
+    await runMigrations(db, { migrations });
+    await expect(
+      runMigrations(db, { migrations: migrations.slice(0, 2) }),
+    ).rejects.toThrow(/does not know about/);
+  });
+});
+
+describe("withMigrationLock", () => {
+  it("should release the advisory lock even when migrating fails", async () => {
+    const queries: string[] = [];
+    const db: Queryable = {
+      query: async (text) => {
+        queries.push(text);
+        return { rows: [] } as any;
+      },
+    };
+
+    await expect(
+      withMigrationLock(db, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(queries).toEqual([
+      "SELECT pg_advisory_lock($1)",
+      "SELECT pg_advisory_unlock($1)",
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { Queryable } from "./db";
+import { MIGRATIONS } from "../migrations";
+
+/**
+ * A numbered schema change. Files live in server/migrations/NNN_name.ts and
+ * are listed in server/migrations/index.ts.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export type MigrationDirection = "up" | "down";
+
+export interface MigrationStep {
+  version: number;
+  name: string;
+  direction: MigrationDirection;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationOptions {
+  direction?: MigrationDirection;
+  // Up: last version to apply (default: all). Down: version to roll back to (default: the one before the latest).
+  to?: number;
+  // Report the steps without touching the database
+  dryRun?: boolean;
+  migrations?: Migration[];
+}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly version?: number,
+  ) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+const CREATE_MIGRATIONS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INT PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new MigrationError(
+        `Migration "${migration.name}" has an invalid version`,
+        migration.version,
+      );
+    }
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new MigrationError(
+        `Migration ${migration.version} (${migration.name}) is out of order`,
+        migration.version,
+      );
+    }
+  });
+}
+
+async function hasMigrationsTable(db: Queryable): Promise<boolean> {
+  const result = await db.query(
+    "SELECT table_name FROM information_schema.tables WHERE table_name = 'schema_migrations'",
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Versions already applied to the database, oldest first. Empty for a fresh
+ * database that has never been migrated.
+ */
+export async function listAppliedMigrations(
+  db: Queryable,
+): Promise<AppliedMigration[]> {
+  if (!(await hasMigrationsTable(db))) return [];
+
+  const result = await db.query(
+    "SELECT version, name, applied_at FROM schema_migrations ORDER BY version",
+  );
+  return result.rows.map((row) => ({
+    version: Number(row.version),
+    name: row.name,
+    appliedAt: row.applied_at,
+  }));
+}
+
+/**
+ * Work out which migrations to run, in the order they should run.
+ */
+export function planMigrations(
+  migrations: Migration[],
+  appliedVersions: number[],
+  direction: MigrationDirection,
+  to?: number,
+): Migration[] {
+  validateMigrations(migrations);
+
+  const known = new Set(migrations.map((m) => m.version));
+  const unknown = appliedVersions.find((version) => !known.has(version));
+  if (unknown !== undefined) {
+    throw new MigrationError(
+      `Database has migration ${unknown} applied, which this build does not know about`,
+      unknown,
+    );
+  }
+
+  const applied = new Set(appliedVersions);
+
+  if (direction === "up") {
+    return migrations.filter(
+      (m) => !applied.has(m.version) && (to === undefined || m.version <= to),
+    );
+  }
+
+  const rollback = migrations.filter((m) => applied.has(m.version)).reverse();
+  if (to === undefined) return rollback.slice(0, 1);
+  return rollback.filter((m) => m.version > to);
+}
+
+// Arbitrary key shared by every process that migrates this database
+const MIGRATION_LOCK_KEY = 710042;
+
+/**
+ * Run fn while holding a session-level advisory lock, so instances booting
+ * together (or the CLI alongside a deploy) apply migrations one at a time.
+ * The second one in waits and then finds nothing left to run.
+ */
+export async function withMigrationLock<T>(
+  db: Queryable,
+  fn: () => Promise<T>,
+): Promise<T> {
+  await db.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+  try {
+    return await fn();
+  } finally {
+    await db.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+  }
+}
+
+/**
+ * Bring the schema up (or down) to date. Each migration runs in its own
+ * transaction together with its schema_migrations bookkeeping, so a failing
+ * migration leaves the database at the previous version.
+ */
+export async function runMigrations(
+  db: Queryable,
+  options: MigrationOptions = {},
+): Promise<MigrationStep[]> {
+  const {
+    direction = "up",
+    to,
+    dryRun = false,
+    migrations = MIGRATIONS,
+  } = options;
+
+  const applied = await listAppliedMigrations(db);
+  const plan = planMigrations(
+    migrations,
+    applied.map((m) => m.version),
+    direction,
+    to,
+  );
+  const steps = plan.map(({ version, name }) => ({ version, name, direction }));
+
+  if (dryRun || plan.length === 0) return steps;
+
+  await db.query(CREATE_MIGRATIONS_TABLE_SQL);
+
+  for (const migration of plan) {
+    try {
+      await db.query("BEGIN");
+      if (direction === "up") {
+        await db.query(migration.up);
+        await db.query(
+          "INSERT INTO schema_migrations (version, name) VALUES ($1, $2)",
+          [migration.version, migration.name],
+        );
+      } else {
+        await db.query(migration.down);
+        await db.query("DELETE FROM schema_migrations WHERE version = $1", [
+          migration.version,
+        ]);
+      }
+      await db.query("COMMIT");
+    } catch (error) {
+      await db.query("ROLLBACK").catch(() => undefined);
+      throw new MigrationError(
+        `Migration ${migration.version} (${migration.name}) failed ${direction}: ${(error as Error).message}`,
+        migration.version,
+      );
+    }
+  }
+
+  return steps;
+}
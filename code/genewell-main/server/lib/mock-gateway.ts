@@ -0,0 +1,259 @@
+// Fully local payment gateway for development and tests
+// Intents live in memory and their checkout URL is a page served by this server, where the
+// buyer chooses to pay or decline. Either way the gateway posts a signed webhook, as a real
+// provider would, and the buyer is sent back to returnUrl - so a purchase runs end to end offline.
+
+import crypto from "crypto";
+import {
+  headerValue,
+  hexDigestsMatch,
+  PaymentGateway,
+  PaymentGatewayError,
+  PaymentIntentRequest,
+  PaymentOutcome,
+} from "./payment-gateway";
+
+export interface MockGatewayOptions {
+  checkoutUrl: string; // The hosted page's route; the intent id is appended
+  webhookSecret: string;
+}
+
+export interface MockIntent {
+  intentId: string;
+  request: PaymentIntentRequest;
+  status: PaymentOutcome;
+  paymentId?: string;
+  refunded: number; // Rupees
+}
+
+// A webhook ready to post, exactly as the receiving route will see it
+export interface MockWebhookDelivery {
+  url: string;
+  rawBody: string;
+  headers: Record<string, string>;
+}
+
+export interface MockPaymentGateway extends PaymentGateway {
+  findIntent(intentId: string): MockIntent | undefined;
+  /** The hosted checkout page, or undefined for an unknown intent */
+  renderCheckoutPage(intentId: string): string | undefined;
+  /** Settles an open intent the way the buyer chose. Undefined for an unknown or settled intent. */
+  complete(
+    intentId: string,
+    outcome: "completed" | "failed",
+  ): { returnUrl: string; webhook: MockWebhookDelivery } | undefined;
+}
+
+const mockId = (prefix: string) =>
+  `${prefix}_${crypto.randomBytes(8).toString("hex")}`;
+
+export const signMockWebhook = (rawBody: string, secret: string) =>
+  crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+
+const escapeHTML = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char],
+  );
+
+export function createMockGateway({
+  checkoutUrl,
+  webhookSecret,
+}: MockGatewayOptions): MockPaymentGateway {
+  const intents = new Map<string, MockIntent>();
+
+  return {
+    id: "mock",
+    label: "Test payment (offline)",
+
+    async createIntent(request) {
+      const intentId = mockId("mock_pi");
+      intents.set(intentId, {
+        intentId,
+        request,
+        status: "pending",
+        refunded: 0,
+      });
+      return {
+        gateway: "mock",
+        intentId,
+        checkoutUrl: `${checkoutUrl}/${intentId}`,
+      };
+    },
+
+    async verify(intentId) {
+      const intent = intents.get(intentId);
+      if (!intent) {
+        throw new PaymentGatewayError("mock", `Unknown intent ${intentId}`);
+      }
+      return { status: intent.status, paymentId: intent.paymentId };
+    },
+
+    parseWebhook(rawBody, headers) {
+      const signature = headerValue(headers, "x-mock-signature");
+      if (!signature) return { verified: false, reason: "missing_signature" };
+      if (
+        !hexDigestsMatch(signature, signMockWebhook(rawBody, webhookSecret))
+      ) {
+        return { verified: false, reason: "invalid_signature" };
+      }
+
+      let body: any;
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return { verified: false, reason: "malformed" };
+      }
+
+      return {
+        verified: true,
+        event: {
+          eventId: body.id,
+          status: body.status,
+          providerStatus: body.type,
+          intentId: body.intentId,
+          orderId: body.orderId,
+          paymentId: body.paymentId,
+          amount: body.amount,
+          email: body.email,
+          buyerName: body.name,
+        },
+      };
+    },
+
+    async refund(paymentId, amount) {
+      const intent = Array.from(intents.values()).find(
+        (i) => i.paymentId === paymentId && i.status === "completed",
+      );
+      if (!intent) {
+        throw new PaymentGatewayError("mock", `Unknown payment ${paymentId}`);
+      }
+
+      const refundable = intent.request.amount - intent.refunded;
+      const refundAmount = amount === undefined ? refundable : amount;
+      if (refundAmount <= 0 || refundAmount > refundable) {
+        throw new PaymentGatewayError(
+          "mock",
+          `Only ₹${refundable} of ${paymentId} can be refunded`,
+        );
+      }
+
+      intent.refunded += refundAmount;
+      return {
+        refundId: mockId("mock_rf"),
+        status: "processed",
+        amount: refundAmount,
+      };
+    },
+
+    findIntent(intentId) {
+      const intent = intents.get(intentId);
+      return intent && { ...intent };
+    },
+
+    renderCheckoutPage(intentId) {
+      const intent = intents.get(intentId);
+      if (!intent) return undefined;
+
+      const { request } = intent;
+      const action = `${checkoutUrl}/${encodeURIComponent(intentId)}`;
+      const settled =
+        intent.status === "pending"
+          ? ""
+          : `<p class="note">This payment is already ${intent.status}.</p>`;
+
+      return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Test checkout - ${escapeHTML(request.description)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f1f5f9; display: flex; justify-content: center; padding: 48px 16px; }
+    main { background: #fff; border-radius: 12px; padding: 32px; max-width: 420px; width: 100%; box-shadow: 0 4px 24px rgba(15, 23, 42, 0.08); }
+    .badge { display: inline-block; background: #fef3c7; color: #92400e; border-radius: 999px; padding: 2px 12px; font-size: 12px; }
+    .amount { font-size: 32px; font-weight: 700; margin: 16px 0 4px; }
+    .note { color: #64748b; font-size: 14px; }
+    form { display: flex; gap: 12px; margin-top: 24px; }
+    button { flex: 1; border: 0; border-radius: 8px; padding: 12px; font-size: 16px; cursor: pointer; }
+    .pay { background: #2563eb; color: #fff; }
+    .decline { background: #e2e8f0; color: #0f172a; }
+  </style>
+</head>
+<body>
+  <main>
+    <span class="badge">Test mode - no money moves</span>
+    <p class="amount">₹${request.amount.toLocaleString("en-IN")}</p>
+    <p>${escapeHTML(request.description)}</p>
+    <p class="note">Order ${escapeHTML(request.orderId)} for ${escapeHTML(request.customer.email)}</p>
+    ${settled}
+    <form method="post" action="${escapeHTML(action)}">
+      <button class="pay" name="outcome" value="completed"${settled ? " disabled" : ""}>Pay</button>
+      <button class="decline" name="outcome" value="failed"${settled ? " disabled" : ""}>Decline</button>
+    </form>
+  </main>
+</body>
+</html>`;
+    },
+
+    complete(intentId, outcome) {
+      const intent = intents.get(intentId);
+      if (!intent || intent.status !== "pending") return undefined;
+
+      intent.status = outcome;
+      if (outcome === "completed") intent.paymentId = mockId("mock_pay");
+
+      const { request } = intent;
+      const rawBody = JSON.stringify({
+        id: mockId("mock_evt"),
+        type: `payment.${outcome}`,
+        status: outcome,
+        intentId,
+        orderId: request.orderId,
+        paymentId: intent.paymentId,
+        amount: request.amount,
+        email: request.customer.email,
+        name: request.customer.name,
+      });
+
+      return {
+        returnUrl: request.returnUrl,
+        webhook: {
+          url: request.webhookUrl,
+          rawBody,
+          headers: {
+            "Content-Type": "application/json",
+            "X-Mock-Signature": signMockWebhook(rawBody, webhookSecret),
+          },
+        },
+      };
+    },
+  };
+}
+
+/** Posts a webhook the way a provider would. Failures are logged: verify still settles the order. */
+export async function deliverMockWebhook({
+  url,
+  rawBody,
+  headers,
+}: MockWebhookDelivery): Promise<void> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: rawBody,
+    });
+    if (!response.ok) {
+      console.warn(`Mock gateway webhook got ${response.status} from ${url}`);
+    }
+  } catch (error) {
+    console.warn(`Mock gateway webhook to ${url} failed:`, error);
+  }
+}
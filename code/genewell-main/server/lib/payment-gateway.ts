@@ -0,0 +1,108 @@
+// One contract for every payment provider
+// An intent is the provider's hosted checkout for one order (an Instamojo payment request,
+// a Razorpay payment link, a Stripe Checkout session); the buyer pays there and comes back
+// to returnUrl, while the provider reports the outcome to the webhook.
+
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { PaymentGatewayId } from "../../shared/api";
+
+export interface PaymentIntentRequest {
+  orderId: string;
+  amount: number; // Rupees
+  currency: string;
+  description: string;
+  customer: { name: string; email: string; phone?: string };
+  returnUrl: string;
+  webhookUrl: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentIntent {
+  gateway: PaymentGatewayId;
+  intentId: string;
+  checkoutUrl: string; // Send the buyer here
+}
+
+export type PaymentOutcome = "pending" | "completed" | "failed";
+
+export interface PaymentVerification {
+  status: PaymentOutcome;
+  paymentId?: string; // The provider's id for the payment, once there is one
+}
+
+export interface PaymentWebhookEvent {
+  eventId: string; // Unique per delivery-worthy event, used to drop redeliveries
+  status: PaymentOutcome;
+  providerStatus: string; // As the provider reported it
+  intentId?: string;
+  orderId?: string; // When the provider echoes our reference back
+  paymentId?: string;
+  amount?: number; // Rupees
+  email?: string;
+  buyerName?: string;
+}
+
+export type WebhookRejection =
+  | "not_configured"
+  | "missing_signature"
+  | "invalid_signature"
+  | "malformed";
+
+export interface WebhookParseResult {
+  verified: boolean;
+  reason?: WebhookRejection; // Set when refused
+  event?: PaymentWebhookEvent; // Unset for verified events that don't concern a payment's outcome
+  testMode?: boolean; // Accepted without a signature check
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: "pending" | "processed";
+  amount: number; // Rupees
+}
+
+export interface PaymentGateway {
+  id: PaymentGatewayId;
+  label: string;
+  /** Opens a hosted checkout for the order. Throws PaymentGatewayError when the provider refuses. */
+  createIntent(request: PaymentIntentRequest): Promise<PaymentIntent>;
+  /** Asks the provider where the intent's payment stands */
+  verify(intentId: string): Promise<PaymentVerification>;
+  /** Checks the signature over the body exactly as posted, then reads the event. `now` dates signed timestamps. */
+  parseWebhook(
+    rawBody: string,
+    headers: IncomingHttpHeaders,
+    now?: number,
+  ): WebhookParseResult;
+  /** Refunds `amount` rupees of a payment, or all of it */
+  refund(paymentId: string, amount?: number): Promise<RefundResult>;
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(
+    public readonly gateway: PaymentGatewayId,
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(`${gateway}: ${message}`);
+    this.name = "PaymentGatewayError";
+  }
+}
+
+// Provider APIs take amounts in paise
+export const toMinorUnits = (amount: number) => Math.round(amount * 100);
+export const fromMinorUnits = (amount: number) => amount / 100;
+
+/** Constant-time comparison of two hex digests; false for anything that isn't the same length */
+export function hexDigestsMatch(received: string, expected: string): boolean {
+  const a = Buffer.from(received || "", "hex");
+  const b = Buffer.from(expected, "hex");
+  return a.length === b.length && a.length > 0 && crypto.timingSafeEqual(a, b);
+}
+
+/** First value of a header, which node gives as an array when repeated */
+export const headerValue = (headers: IncomingHttpHeaders, name: string) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
@@ -0,0 +1,241 @@
+import { describe, it, expect } from "vitest";
+import { createMockGateway } from "./mock-gateway";
+import { PaymentIntentRequest } from "./payment-gateway";
+import { createPaymentGatewayRegistry } from "./payment-gateways";
+import { createRazorpayGateway, signRazorpayWebhook } from "./razorpay-gateway";
+import { createStripeGateway, signStripeWebhook } from "./stripe-gateway";
+
+const SECRET = "whsec_test";
+
+const request: PaymentIntentRequest = {
+  orderId: "12",
+  amount: 1499,
+  currency: "INR",
+  description: "GeneWell premium Plan",
+  customer: { name: "Asha", email: "asha@example.com" },
+  returnUrl: "http://localhost:5173/payment-success?purchase_id=12",
+  webhookUrl: "http://localhost:8080/api/payments/webhook/mock",
+};
+
+describe("mock gateway", () => {
+  const createGateway = () =>
+    createMockGateway({
+      checkoutUrl: "http://localhost:8080/api/payments/mock/checkout",
+      webhookSecret: SECRET,
+    });
+
+  it("should take a payment through its hosted checkout and a signed webhook", async () => {
+    const gateway = createGateway();
+    const intent = await gateway.createIntent(request);
+
+    expect(intent.checkoutUrl).toBe(
+      `http://localhost:8080/api/payments/mock/checkout/${intent.intentId}`,
+    );
+    expect(gateway.renderCheckoutPage(intent.intentId)).toContain("₹1,499");
+    expect(await gateway.verify(intent.intentId)).toEqual({
+      status: "pending",
+      paymentId: undefined,
+    });
+
+    const { returnUrl, webhook } = gateway.complete(
+      intent.intentId,
+      "completed",
+    );
+    const { paymentId } = await gateway.verify(intent.intentId);
+    const headers = { "x-mock-signature": webhook.headers["X-Mock-Signature"] };
+
+    expect(returnUrl).toBe(request.returnUrl);
+    expect(webhook.url).toBe(request.webhookUrl);
+    expect(gateway.parseWebhook(webhook.rawBody, headers)).toMatchObject({
+      verified: true,
+      event: {
+        status: "completed",
+        intentId: intent.intentId,
+        orderId: "12",
+        paymentId,
+        amount: 1499,
+      },
+    });
+    expect(
+      gateway.parseWebhook(webhook.rawBody.replace("1499", "1"), headers)
+        .reason,
+    ).toBe("invalid_signature");
+    expect(gateway.complete(intent.intentId, "failed")).toBeUndefined();
+  });
+
+  it("should refund up to what was paid", async () => {
+    const gateway = createGateway();
+    const intent = await gateway.createIntent(request);
+    gateway.complete(intent.intentId, "completed");
+    const { paymentId } = await gateway.verify(intent.intentId);
+
+    expect(await gateway.refund(paymentId, 499)).toMatchObject({
+      status: "processed",
+      amount: 499,
+    });
+    expect((await gateway.refund(paymentId)).amount).toBe(1000);
+    await expect(gateway.refund(paymentId, 1)).rejects.toThrow("Only ₹0 of");
+  });
+
+  it("should escape what the buyer typed on the checkout page", async () => {
+    const gateway = createGateway();
+    const intent = await gateway.createIntent({
+      ...request,
+      customer: { name: "Asha", email: "<script>@example.com" },
+    });
+
+    expect(gateway.renderCheckoutPage(intent.intentId)).toContain(
+      "&lt;script&gt;@example.com",
+    );
+  });
+});
+
+describe("razorpay webhooks", () => {
+  const gateway = createRazorpayGateway({
+    keyId: "rzp_test",
+    keySecret: "secret",
+    webhookSecret: SECRET,
+  });
+  const paid = JSON.stringify({
+    event: "payment_link.paid",
+    payload: {
+      payment_link: {
+        entity: { id: "plink_1", reference_id: "12", status: "paid" },
+      },
+      payment: {
+        entity: { id: "pay_1", amount: 149900, email: "asha@example.com" },
+      },
+    },
+  });
+
+  it("should read a signed payment link event", () => {
+    const headers = {
+      "x-razorpay-signature": signRazorpayWebhook(paid, SECRET),
+      "x-razorpay-event-id": "evt_1",
+    };
+
+    expect(gateway.parseWebhook(paid, headers)).toEqual({
+      verified: true,
+      event: {
+        eventId: "evt_1",
+        status: "completed",
+        providerStatus: "payment_link.paid",
+        intentId: "plink_1",
+        orderId: "12",
+        paymentId: "pay_1",
+        amount: 1499,
+        email: "asha@example.com",
+        buyerName: undefined,
+      },
+    });
+  });
+
+  it("should refuse bad signatures and skip events that don't settle a payment", () => {
+    const captured = JSON.stringify({ event: "payment.captured" });
+
+    expect(
+      gateway.parseWebhook(paid, {
+        "x-razorpay-signature": signRazorpayWebhook(paid, "other"),
+      }).reason,
+    ).toBe("invalid_signature");
+    expect(
+      gateway.parseWebhook(captured, {
+        "x-razorpay-signature": signRazorpayWebhook(captured, SECRET),
+      }),
+    ).toEqual({ verified: true });
+    expect(
+      createRazorpayGateway({ keyId: "k", keySecret: "s" }).parseWebhook(
+        paid,
+        {},
+      ).reason,
+    ).toBe("not_configured");
+  });
+});
+
+describe("stripe webhooks", () => {
+  const gateway = createStripeGateway({
+    secretKey: "sk_test",
+    webhookSecret: SECRET,
+  });
+  const NOW = Date.parse("2026-03-01T00:00:00.000Z");
+  const event = (type: string, session: object) =>
+    JSON.stringify({ id: "evt_1", type, data: { object: session } });
+
+  it("should read a signed, recent checkout event", () => {
+    const body = event("checkout.session.completed", {
+      id: "cs_1",
+      client_reference_id: "12",
+      payment_status: "paid",
+      payment_intent: "pi_1",
+      amount_total: 149900,
+    });
+    const headers = {
+      "stripe-signature": signStripeWebhook(body, SECRET, NOW / 1000),
+    };
+
+    expect(gateway.parseWebhook(body, headers, NOW).event).toMatchObject({
+      eventId: "evt_1",
+      status: "completed",
+      intentId: "cs_1",
+      orderId: "12",
+      paymentId: "pi_1",
+      amount: 1499,
+    });
+    expect(
+      gateway.parseWebhook(body, headers, NOW + 10 * 60 * 1000).reason,
+    ).toBe("invalid_signature");
+  });
+
+  it("should leave sessions waiting on a bank transfer pending", () => {
+    const body = event("checkout.session.completed", {
+      id: "cs_1",
+      payment_status: "unpaid",
+    });
+    const headers = {
+      "stripe-signature": signStripeWebhook(body, SECRET, NOW / 1000),
+    };
+
+    expect(gateway.parseWebhook(body, headers, NOW).event.status).toBe(
+      "pending",
+    );
+  });
+});
+
+describe("createPaymentGatewayRegistry", () => {
+  it("should offer Instamojo, keyed gateways and the mock when enabled", () => {
+    const registry = createPaymentGatewayRegistry({
+      ENABLE_MOCK_GATEWAY: "1",
+      RAZORPAY_KEY_ID: "rzp_test",
+      RAZORPAY_KEY_SECRET: "secret",
+      PAYMENT_GATEWAY: "mock",
+    });
+
+    expect(Object.keys(registry.gateways)).toEqual([
+      "instamojo",
+      "razorpay",
+      "upi",
+      "mock",
+    ]);
+    expect(registry.defaultGateway).toBe("mock");
+    expect(registry.gateways.upi.label).toBe("UPI");
+  });
+
+  it("should refuse a default gateway that isn't configured", () => {
+    expect(() =>
+      createPaymentGatewayRegistry({ PAYMENT_GATEWAY: "stripe" }),
+    ).toThrow("PAYMENT_GATEWAY=stripe is not configured");
+    expect(() =>
+      createPaymentGatewayRegistry({ PAYMENT_GATEWAY: "mock" }),
+    ).toThrow("PAYMENT_GATEWAY=mock is not configured");
+    expect(() =>
+      createPaymentGatewayRegistry({
+        NODE_ENV: "production",
+        ENABLE_MOCK_GATEWAY: "1",
+        PAYMENT_GATEWAY: "mock",
+      }),
+    ).toThrow("PAYMENT_GATEWAY=mock is not configured");
+    expect(() =>
+      createPaymentGatewayRegistry({ PAYMENT_GATEWAY: "paypal" }),
+    ).toThrow("PAYMENT_GATEWAY must be one of");
+  });
+});
@@ -0,0 +1,83 @@
+// The payment gateways this server can use, built from the environment
+// Instamojo is always listed, as before; Razorpay (and UPI through it) and Stripe once their keys
+// are set. The mock gateway only with ENABLE_MOCK_GATEWAY=1, and never in a production build.
+// PAYMENT_GATEWAY picks the default, and a checkout may ask for any other listed gateway.
+
+import crypto from "crypto";
+import { PAYMENT_GATEWAYS, PaymentGatewayId } from "../../shared/api";
+import { createInstamojoGateway } from "./instamojo-gateway";
+import { createMockGateway, MockPaymentGateway } from "./mock-gateway";
+import { PaymentGateway } from "./payment-gateway";
+import { createRazorpayGateway } from "./razorpay-gateway";
+import { createStripeGateway } from "./stripe-gateway";
+
+export interface PaymentGatewayRegistry {
+  gateways: Partial<Record<PaymentGatewayId, PaymentGateway>>;
+  defaultGateway: PaymentGatewayId;
+  mock?: MockPaymentGateway;
+}
+
+export function createPaymentGatewayRegistry(
+  env: NodeJS.ProcessEnv,
+): PaymentGatewayRegistry {
+  const gateways: PaymentGatewayRegistry["gateways"] = {
+    instamojo: createInstamojoGateway(),
+  };
+
+  const { RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET } = env;
+  if (RAZORPAY_KEY_ID && RAZORPAY_KEY_SECRET) {
+    const credentials = {
+      keyId: RAZORPAY_KEY_ID,
+      keySecret: RAZORPAY_KEY_SECRET,
+      webhookSecret: RAZORPAY_WEBHOOK_SECRET,
+    };
+    gateways.razorpay = createRazorpayGateway(credentials);
+    gateways.upi = createRazorpayGateway({ ...credentials, upiLink: true });
+  }
+
+  if (env.STRIPE_SECRET_KEY) {
+    gateways.stripe = createStripeGateway({
+      secretKey: env.STRIPE_SECRET_KEY,
+      webhookSecret: env.STRIPE_WEBHOOK_SECRET,
+    });
+  }
+
+  // Anyone can pay through the mock, so it is opt-in. The build replaces process.env.NODE_ENV
+  // with "production", which drops it from the built server whatever the environment says.
+  // Checkout and webhook both run in this process, so a per-process secret is enough.
+  let mock: MockPaymentGateway | undefined;
+  if (
+    process.env.NODE_ENV !== "production" &&
+    env.NODE_ENV !== "production" &&
+    env.ENABLE_MOCK_GATEWAY === "1"
+  ) {
+    mock = createMockGateway({
+      checkoutUrl: `${env.SERVER_URL || "http://localhost:8080"}/api/payments/mock/checkout`,
+      webhookSecret: crypto.randomBytes(32).toString("hex"),
+    });
+    gateways.mock = mock;
+  }
+
+  const defaultGateway = (env.PAYMENT_GATEWAY ||
+    "instamojo") as PaymentGatewayId;
+  if (!PAYMENT_GATEWAYS.includes(defaultGateway)) {
+    throw new Error(
+      `PAYMENT_GATEWAY must be one of ${PAYMENT_GATEWAYS.join(", ")}`,
+    );
+  }
+  if (!gateways[defaultGateway]) {
+    throw new Error(
+      `PAYMENT_GATEWAY=${defaultGateway} is not configured - set its keys, or pick another gateway`,
+    );
+  }
+
+  return { gateways, defaultGateway, mock };
+}
+
+export const paymentGateways = createPaymentGatewayRegistry(process.env);
+
+/** The named gateway, or the default; undefined when the name isn't configured here */
+export const getPaymentGateway = (id?: string): PaymentGateway | undefined =>
+  paymentGateways.gateways[
+    (id || paymentGateways.defaultGateway) as PaymentGatewayId
+  ];
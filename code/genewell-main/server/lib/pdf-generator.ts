@@ -1,10 +1,24 @@
 import PDFDocument from "pdfkit";
-import { UserProfile, PersonalizationData } from "./personalization-engine";
+import { UserProfile, PersonalizationData } from "../../shared/personalization-engine";
+import { findSupplementCaution } from "../../shared/condition-rules";
+import { formatSchedule } from "../../shared/circadian-schedule";
+import { describeSleepAssessment } from "../../shared/sleep-assessment";
+import {
+  formatGroceryAmount,
+  formatMeal,
+  generateMealPlan,
+} from "../../shared/meal-planner";
+import {
+  formatPrescription,
+  generateTrainingProgram,
+  programProgression,
+  weekExercises,
+} from "../../shared/training-program";
+import { formatCitation, SCIENTIFIC_EVIDENCE } from "./scientific-evidence";
 import {
   generateLivePersonalizedInsights,
   generateLiveSupplementRecommendations,
   getLiveNutrientOptimizerPairing,
-  generateLiveMealPrepPlan,
 } from "./live-data-agent";
 
 export interface PDFGenerationOptions {
@@ -75,6 +89,18 @@ export async function generatePersonalizedPDF(
     doc.moveDown(0.1);
   };
 
+  // Warns under a supplement that one of the user's medical conditions makes risky
+  const addSupplementCaution = (supplement: string) => {
+    const caution = findSupplementCaution(
+      supplement,
+      insights.conditionGuidance || [],
+    );
+    if (!caution) return;
+    doc.fontSize(8).font("Helvetica").fillColor("#b91c1c");
+    doc.text(`Caution - ${caution}`, { indent: 30 });
+    doc.fontSize(10).fillColor("#111827");
+  };
+
   // === COVER PAGE ===
   doc
     .fontSize(32)
@@ -121,7 +147,7 @@ export async function generatePersonalizedPDF(
     .fillColor("#111827")
     .text(`Age: ${profile.age} | Gender: ${profile.gender}`);
   doc.text(
-    `Height: ${profile.estimatedHeightCm}cm | Weight: ${profile.estimatedWeightKg}kg`,
+    `Height: ${profile.estimatedHeightCm}cm${profile.metricSources?.height === "measured" ? "" : " (est.)"} | Weight: ${profile.estimatedWeightKg}kg${profile.metricSources?.weight === "measured" ? "" : " (est.)"}${profile.bmi ? ` | BMI: ${profile.bmi} (${profile.bmiCategory})` : ""}`,
   );
 
   doc.moveDown(2);
@@ -165,7 +191,7 @@ export async function generatePersonalizedPDF(
     .font("Helvetica")
     .fillColor("#111827")
     .text(
-      `Wake at ${insights.recommendedMealTimes[0]?.split(" ")[0] || "7:00"} AM every day (including weekends) for 30 days. This single action resets your circadian rhythm and improves sleep quality within days.`
+      `Wake at ${insights.sleepWakePlan?.schedule.wakeTime || "7:00 AM"} every day (including weekends) for 30 days. This single action resets your circadian rhythm and improves sleep quality within days.`
     );
   doc.moveDown(0.3);
 
@@ -215,6 +241,11 @@ export async function generatePersonalizedPDF(
   doc.moveDown(0.3);
   doc.fontSize(11).font("Helvetica").fillColor("#111827");
   doc.text(insights.metabolicInsight);
+  // Analyses saved before body measurements were collected have no such insight
+  if (insights.bodyCompositionInsight) {
+    doc.moveDown(0.3);
+    doc.text(insights.bodyCompositionInsight);
+  }
 
   doc.moveDown(0.5);
   addSubSection("Your Wellness Baseline");
@@ -233,6 +264,44 @@ export async function generatePersonalizedPDF(
     addBulletPoint(test);
   });
 
+  // === MEDICAL CONDITIONS (every tier - it changes what is safe to follow) ===
+  // Analyses saved before condition rules existed have no guidance
+  if (insights.conditionGuidance?.length) {
+    doc.addPage();
+    addHeaderSection(
+      "Your Health Conditions",
+      "How your plan adapts - review it with your doctor",
+    );
+
+    insights.conditionGuidance.forEach((guidance) => {
+      addSubSection(guidance.title);
+      guidance.nutritionGuidance.forEach((line) => addBulletPoint(line));
+
+      doc.moveDown(0.2);
+      doc.fontSize(10).font("Helvetica-Bold").fillColor("#111827");
+      doc.text("Tests to track:");
+      guidance.bloodTests.forEach((test) => addBulletPoint(test));
+
+      if (guidance.supplementCautions.length > 0) {
+        doc.moveDown(0.2);
+        doc.fontSize(10).font("Helvetica-Bold").fillColor("#b91c1c");
+        doc.text("Supplement cautions:");
+        guidance.supplementCautions.forEach(({ supplement, caution }) =>
+          addBulletPoint(`${supplement}: ${caution}`),
+        );
+      }
+
+      const evidence = SCIENTIFIC_EVIDENCE.conditions[guidance.evidenceKey];
+      doc.moveDown(0.2);
+      doc.fontSize(8).font("Helvetica").fillColor("#6b7280");
+      doc.text(`Evidence: ${evidence.recommendation}`);
+      evidence.citations.forEach((citation) =>
+        doc.text(formatCitation(citation), { indent: 10 }),
+      );
+      doc.moveDown(0.5);
+    });
+  }
+
   // === LIVE INSIGHTS (Premium & Coaching) ===
   if (tier === "premium" || tier === "coaching") {
     doc.addPage();
@@ -270,6 +339,7 @@ export async function generatePersonalizedPDF(
     const supplements = await generateLiveSupplementRecommendations(profile);
     supplements.slice(0, 5).forEach((supp) => {
       addBulletPoint(supp);
+      addSupplementCaution(supp);
     });
   }
 
@@ -387,38 +457,55 @@ export async function generatePersonalizedPDF(
     addBulletPoint("Vegetable (minimum 2 cups, variety of colors)");
     addBulletPoint("Healthy fat (olive oil, ghee, nuts, avocado)");
 
+    const foods = insights.foodRecommendations;
+    if (foods?.bestFoods.length) {
+      doc.moveDown(0.3);
+      addSubSection("Your Best Everyday Foods");
+      doc.fontSize(10).fillColor("#111827");
+      foods.bestFoods.forEach((food) => addBulletPoint(food));
+    }
+    if (foods?.worstFoods.length) {
+      doc.moveDown(0.3);
+      addSubSection("Foods to Limit");
+      doc.fontSize(10).fillColor("#111827");
+      foods.worstFoods.forEach((food) => addBulletPoint(food));
+    }
+
     if (tier === "premium" || tier === "coaching") {
       doc.addPage();
 
-      addSubSection("7-Day Meal Plan Framework");
+      const mealPlan = generateMealPlan(personalizationData);
+      const { targets } = mealPlan;
+
+      addSubSection("Your 7-Day Meal Plan");
       doc.fontSize(10).font("Helvetica").fillColor("#111827");
       doc.text(
-        "Use this as a template. Mix and match based on your preferences:",
+        `Portions are sized to your daily targets: ${targets.kcal} kcal, ${targets.proteinG}g protein, ${targets.carbsG}g carbs, ${targets.fatG}g fat.`,
       );
-      doc.moveDown(0.2);
-
-      const sampleMeals = [
-        "Breakfast: 2-3 eggs + oats with banana + 1 tsp ghee",
-        "Mid-morning: Greek yogurt + berries + almonds",
-        "Lunch: Grilled chicken + brown rice + roasted broccoli + olive oil",
-        "Afternoon: Apple + peanut butter",
-        "Dinner: Lentil dal + roti + spinach curry",
-        "Optional evening: Casein (Greek yogurt) if hungry after 8 PM",
-      ];
-
-      sampleMeals.forEach((meal) => {
-        addBulletPoint(meal);
+      mealPlan.days.forEach((day) => {
+        doc.moveDown(0.3);
+        doc
+          .fontSize(10)
+          .font("Helvetica-Bold")
+          .fillColor("#111827")
+          .text(
+            `${day.day} - ${day.totals.kcal} kcal, ${day.totals.proteinG}g protein, ${day.totals.carbsG}g carbs, ${day.totals.fatG}g fat`,
+          );
+        doc.fontSize(9).font("Helvetica");
+        day.meals.forEach((meal) => addBulletPoint(formatMeal(meal)));
       });
 
-      doc.moveDown(0.3);
-      addSubSection("Indian Grocery Shopping List");
+      doc.addPage();
+      addSubSection("Your Weekly Grocery List");
       doc.fontSize(9).font("Helvetica").fillColor("#111827");
-      doc.text("Proteins: Chicken breast, Fish, Paneer, Moong/Arhar dal, Eggs");
-      doc.text(
-        "Vegetables: Spinach, Broccoli, Bell peppers, Carrots, Cauliflower, Tomatoes",
+      [...new Set(mealPlan.groceryList.map((item) => item.aisle))].forEach(
+        (aisle) => {
+          const items = mealPlan.groceryList
+            .filter((item) => item.aisle === aisle)
+            .map((item) => `${item.name} ${formatGroceryAmount(item)}`);
+          doc.text(`${aisle}: ${items.join(", ")}`);
+        },
       );
-      doc.text("Grains: Brown rice, Whole wheat roti, Oats, Quinoa, Millets");
-      doc.text("Healthy Fats: Olive oil, Ghee, Almonds, Peanuts, Sesame oil");
 
       doc.moveDown(0.3);
       addSubSection("Hydration Protocol (Science-Based)");
@@ -446,6 +533,34 @@ export async function generatePersonalizedPDF(
   doc.fontSize(10).font("Helvetica").fillColor("#111827");
   doc.text(insights.sleepStrategy);
 
+  if (insights.sleepAssessment) {
+    doc.moveDown(0.3);
+    addSubSection("Your Sleep Assessment");
+    describeSleepAssessment(insights.sleepAssessment).forEach((line) =>
+      addBulletPoint(line),
+    );
+  }
+
+  // Older saved analyses have no plan
+  const sleepWakePlan = insights.sleepWakePlan;
+  if (sleepWakePlan) {
+    doc.moveDown(0.3);
+    addSubSection("Your Sleep-Wake Schedule");
+    [sleepWakePlan.schedule, sleepWakePlan.nightShift]
+      .filter(Boolean)
+      .forEach((schedule) => {
+        doc.fontSize(11).font("Helvetica-Bold").fillColor("#7c3aed");
+        doc.text(schedule.label);
+        formatSchedule(schedule).forEach((line) => addBulletPoint(line));
+        doc.moveDown(0.2);
+      });
+    sleepWakePlan.transitions.forEach((transition) => {
+      addSubSection(transition.label);
+      transition.steps.forEach((step) => addBulletPoint(step));
+    });
+    sleepWakePlan.notes.forEach((note) => addBulletPoint(note));
+  }
+
   doc.moveDown(0.3);
   addSubSection("Sleep Hygiene Checklist");
   addBulletPoint("Consistent sleep-wake time (even weekends) ← Most important");
@@ -453,14 +568,16 @@ export async function generatePersonalizedPDF(
   addBulletPoint("Cool temperature: 65-68°F (18-20°C)");
   addBulletPoint("Quiet environment: <30 dB (earplugs or white noise)");
   addBulletPoint("No blue light 60-90 min before bed");
-  addBulletPoint("No caffeine after 2 PM (5-6 hour half-life)");
+  addBulletPoint(
+    `No caffeine after ${sleepWakePlan?.schedule.caffeineCutoff || "2 PM"} (5-6 hour half-life)`,
+  );
   addBulletPoint("Warm bath/tea 90 min before bed (triggers melatonin)");
 
   if (tier !== "free") {
     doc.moveDown(0.3);
     addSubSection("Sleep Supplements (If Protocol Alone Isn't Enough)");
     doc.fontSize(10);
-    addBulletPoint("Magnesium Glycinate: 300-400mg, 60 min before bed");
+    addBulletPoint("Magnesium Glycinate: 200-350mg, 60 min before bed");
     addBulletPoint("L-Theanine: 100-200mg, optional with magnesium");
     addBulletPoint("Herbal tea: Chamomile or passionflower (traditional)");
     doc.moveDown(0.2);
@@ -482,65 +599,48 @@ export async function generatePersonalizedPDF(
     doc.fontSize(10).font("Helvetica").fillColor("#111827");
     doc.text(insights.workoutStrategy);
 
+    const program = generateTrainingProgram(profile);
+    const [firstWeek] = program.weeks;
+
     doc.moveDown(0.3);
-    const workoutType =
-      tier === "essential"
-        ? "3-Day Beginner"
-        : tier === "premium"
-          ? "5-Day Intermediate"
-          : "6-Day Advanced";
-
-    addSubSection(`${workoutType} Weekly Schedule`);
+    addSubSection(`Your ${program.daysPerWeek}-Day Weekly Schedule (Week 1)`);
     doc.fontSize(10);
-
-    if (tier === "essential") {
-      doc.text("Monday: Full Body Strength (30 min)");
-      doc.text("  Push-ups or chest press: 3 sets x 8-12 reps");
-      doc.text("  Squats or leg press: 3 sets x 12-15 reps");
-      doc.text("  Plank or core: 3 sets x 30-60 seconds");
-      doc.moveDown(0.1);
-
-      doc.text("Wednesday: Zone 2 Cardio (30 min, conversational pace)");
-      doc.text("  Brisk walk, jog, or cycle at easy pace");
-      doc.moveDown(0.1);
-
-      doc.text("Friday: Flexibility & Recovery (20 min)");
-      doc.text("  Yoga, stretching, deep breathing");
-    } else if (tier === "premium") {
-      doc.text("Monday: Lower Body Strength (45 min)");
-      doc.text("  Focus: Squat, deadlift variations");
-      doc.moveDown(0.1);
-
-      doc.text("Tuesday: Upper Body Push (45 min)");
-      doc.text("  Focus: Chest, shoulders, triceps");
-      doc.moveDown(0.1);
-
-      doc.text("Wednesday: Active Recovery (30 min)");
-      doc.text("  Walk, yoga, or light mobility");
-      doc.moveDown(0.1);
-
-      doc.text("Thursday: Upper Body Pull (45 min)");
-      doc.text("  Focus: Back, biceps, rear delts");
-      doc.moveDown(0.1);
-
-      doc.text("Friday: Full Body Power (45 min)");
-      doc.text("  Focus: Olympic lift patterns, explosive movements");
+    firstWeek.sessions.forEach((session) => {
+      doc
+        .font("Helvetica-Bold")
+        .text(`${session.day}: ${session.title} (${session.durationMin} min)`);
+      doc.font("Helvetica");
+      session.exercises.forEach((exercise) => {
+        doc.text(`  ${formatPrescription(exercise)}`);
+      });
       doc.moveDown(0.1);
+    });
 
-      doc.text("Sat-Sun: Optional light activity or complete rest");
-    } else {
-      doc.text("6-day periodized program with progressive overload");
+    doc.moveDown(0.3);
+    addSubSection("12-Week Progression");
+    doc.fontSize(9);
+    programProgression(program).forEach((week) => {
       doc.text(
-        "Phases: Strength (weeks 1-4) → Hypertrophy (weeks 5-8) → Power (weeks 9-12)",
+        `Week ${week.week} - ${week.phase}${week.deload ? " (deload)" : ""}: ${week.sets} sets x ${week.reps} @ RPE ${week.rpe}`,
       );
-    }
+    });
+    doc.moveDown(0.2);
+    doc.fillColor("#6b7280");
+    doc.text(
+      "RPE 7 means you could have done about 3 more reps. Add weight or reps when the last set feels easier than the target RPE. Deload weeks cut the sets to let your body absorb the training.",
+    );
+    doc.fillColor("#111827");
 
-    doc.moveDown(0.3);
-    addSubSection("Progressive Overload Formula");
-    doc.fontSize(9);
-    doc.text("Weeks 1-4: Master form with moderate weight");
-    doc.text("Weeks 5-8: Increase weight or reps by 5-10%");
-    doc.text("Weeks 9-12: New variations or higher intensity");
+    if (tier === "premium" || tier === "coaching") {
+      doc.moveDown(0.3);
+      addSubSection("Exercise Guide");
+      doc.fontSize(9);
+      weekExercises(firstWeek).forEach((exercise) => {
+        addBulletPoint(
+          `${exercise.name}: ${exercise.cues.join(". ")}.${exercise.substitute ? ` Swap: ${exercise.substitute}.` : ""}`,
+        );
+      });
+    }
 
     doc.addPage();
   }
@@ -596,6 +696,27 @@ export async function generatePersonalizedPDF(
       doc.text(`${idx + 1}. ${supp}`);
     });
 
+    // Analyses saved before the supplement checker existed have no warnings
+    if (insights.supplementWarnings?.length) {
+      doc.moveDown(0.3);
+      addSubSection("Safety Checks");
+      insights.supplementWarnings.forEach((warning) => {
+        doc
+          .fontSize(9)
+          .font("Helvetica-Bold")
+          .fillColor(warning.severity === "info" ? "#4a5568" : "#b91c1c")
+          .text(`${warning.supplement} (${warning.severity})`, { indent: 20 });
+        doc.font("Helvetica").fillColor("#111827");
+        doc.text(
+          warning.alternative
+            ? `${warning.message}. Try instead: ${warning.alternative}`
+            : warning.message,
+          { indent: 30 },
+        );
+        doc.moveDown(0.1);
+      });
+    }
+
     doc.moveDown(0.3);
     addSubSection("Supplement Timing Protocol");
     doc.fontSize(10);
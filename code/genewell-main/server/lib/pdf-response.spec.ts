@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { bufferPDFSource, contentDisposition, sendPDF } from "./pdf-response";
+
+const source = bufferPDFSource(Buffer.from("%PDF-1.4 0123456789"), "plan.pdf");
+
+describe("sendPDF", () => {
+  let server: Server;
+  let baseUrl: string;
+  let lastSent: Promise<boolean>;
+
+  beforeAll(async () => {
+    const app = express();
+    app.get("/pdf", (req, res) => {
+      lastSent = sendPDF(req, res, source, {
+        inline: req.query.inline === "1",
+      });
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  const get = (headers: Record<string, string> = {}, query = "") =>
+    fetch(`${baseUrl}/pdf${query}`, { headers });
+
+  it("should stream the whole file as an attachment", async () => {
+    const res = await get();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/pdf");
+    expect(res.headers.get("content-length")).toBe("19");
+    expect(res.headers.get("accept-ranges")).toBe("bytes");
+    expect(res.headers.get("etag")).toBe(source.etag);
+    expect(res.headers.get("content-disposition")).toMatch(
+      /^attachment; filename="plan.pdf"/,
+    );
+    expect(await res.text()).toBe("%PDF-1.4 0123456789");
+  });
+
+  it("should serve inline when asked", async () => {
+    const res = await get({}, "?inline=1");
+
+    expect(res.headers.get("content-disposition")).toMatch(/^inline;/);
+  });
+
+  it("should answer 304 for a matching If-None-Match", async () => {
+    // fetch adds "Cache-Control: no-cache" to conditional requests unless told otherwise
+    const res = await get({
+      "If-None-Match": source.etag,
+      "Cache-Control": "max-age=0",
+    });
+
+    expect(res.status).toBe(304);
+    expect(await res.text()).toBe("");
+  });
+
+  it("should serve single byte ranges", async () => {
+    const res = await get({ Range: "bytes=9-12" });
+
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-range")).toBe("bytes 9-12/19");
+    expect(await res.text()).toBe("0123");
+  });
+
+  it("should refuse unsatisfiable ranges", async () => {
+    const res = await get({ Range: "bytes=50-60" });
+
+    expect(res.status).toBe(416);
+    expect(res.headers.get("content-range")).toBe("bytes */19");
+  });
+
+  it("should ignore a Range for a stale If-Range", async () => {
+    const res = await get({ Range: "bytes=9-12", "If-Range": '"old"' });
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("%PDF-1.4 0123456789");
+  });
+
+  it("should report only whole-file responses as complete", async () => {
+    const sent = async (headers: Record<string, string> = {}) => {
+      await (await get(headers)).arrayBuffer();
+      return lastSent;
+    };
+
+    expect(await sent()).toBe(true);
+    expect(await sent({ Range: "bytes=0-" })).toBe(false);
+    expect(await sent({ Range: "bytes=9-12" })).toBe(false);
+    expect(
+      await sent({
+        "If-None-Match": source.etag,
+        "Cache-Control": "max-age=0",
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("contentDisposition", () => {
+  it("should keep an ASCII fallback next to the UTF-8 name", () => {
+    expect(contentDisposition('Priya "plan" – 2026.pdf', true)).toBe(
+      `inline; filename="Priya _plan_ _ 2026.pdf"; filename*=UTF-8''Priya%20%22plan%22%20%E2%80%93%202026.pdf`,
+    );
+  });
+});
@@ -0,0 +1,129 @@
+// Streams PDFs to the client with conditional and partial request support
+// (ETag / If-None-Match / If-Range / Range), so viewers can resume and seek
+// without the server holding whole files in memory.
+
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { ByteRange } from "./blob-store";
+
+export interface PDFSource {
+  filename: string;
+  size: number;
+  etag: string; // Strong validator, quoted
+  lastModified?: string;
+  /** Resolves null when the file is gone */
+  open(range?: ByteRange): Promise<Readable | null>;
+}
+
+export interface SendPDFOptions {
+  inline?: boolean; // Display in the browser rather than save
+}
+
+/**
+ * A PDF already held in memory, e.g. a generated template
+ */
+export function bufferPDFSource(buffer: Buffer, filename: string): PDFSource {
+  const hash = crypto.createHash("sha1").update(buffer).digest("base64url");
+  return {
+    filename,
+    size: buffer.length,
+    etag: `"${hash}"`,
+    async open(range) {
+      return Readable.from([
+        range ? buffer.subarray(range.start, range.end + 1) : buffer,
+      ]);
+    },
+  };
+}
+
+// RFC 6266 - a plain ASCII fallback plus the exact UTF-8 name
+export function contentDisposition(filename: string, inline = false): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `${inline ? "inline" : "attachment"}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Resolves true only when the whole file was sent - not for a Range, a 304, a HEAD or a
+ * response cut short - so download limits can count complete downloads alone.
+ */
+export async function sendPDF(
+  req: Request,
+  res: Response,
+  source: PDFSource,
+  { inline = false }: SendPDFOptions = {},
+): Promise<boolean> {
+  res.setHeader("ETag", source.etag);
+  res.setHeader("Cache-Control", "private, no-cache");
+  res.setHeader("Accept-Ranges", "bytes");
+  if (source.lastModified) {
+    res.setHeader("Last-Modified", new Date(source.lastModified).toUTCString());
+  }
+
+  // Compares If-None-Match / If-Modified-Since with the headers set above
+  if (req.fresh) {
+    res.status(304).end();
+    return false;
+  }
+
+  // A Range only applies if the client's copy is still this version
+  const ifRange = req.get("If-Range");
+  const ranges =
+    !ifRange || ifRange === source.etag ? req.range(source.size) : undefined;
+  if (ranges === -1) {
+    res.setHeader("Content-Range", `bytes */${source.size}`);
+    res.status(416).end();
+    return false;
+  }
+  // Multiple ranges would need multipart/byteranges - serve the whole file instead
+  const range =
+    Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1
+      ? ranges[0]
+      : undefined;
+
+  const stream = req.method === "HEAD" ? null : await source.open(range);
+  if (!stream && req.method !== "HEAD") {
+    res.status(404).json({
+      success: false,
+      message: "PDF file not accessible",
+    });
+    return false;
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader(
+    "Content-Disposition",
+    contentDisposition(source.filename, inline),
+  );
+  if (range) {
+    res.status(206);
+    res.setHeader(
+      "Content-Range",
+      `bytes ${range.start}-${range.end}/${source.size}`,
+    );
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.status(200);
+    res.setHeader("Content-Length", source.size);
+  }
+
+  if (!stream) {
+    res.end();
+    return false;
+  }
+
+  try {
+    await pipeline(stream, res);
+    return !range;
+  } catch (error) {
+    // Usually the client going away mid-download
+    if (!res.writableEnded) res.destroy(error as Error);
+    console.warn(`PDF stream for ${source.filename} ended early:`, error);
+    return false;
+  }
+}
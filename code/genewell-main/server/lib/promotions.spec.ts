@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ADDON_IDS, PLAN_IDS, priceCheckout } from "../../shared/catalog";
+import { LAUNCH_OFFER_CODE } from "../../shared/api";
+import { PersonalizationData } from "../../shared/personalization-engine";
+import { applyPromotion, ensureLaunchOffer } from "./promotions";
+import { createMemoryRepository, NewPromotion, Repository } from "./repository";
+
+const NOW = new Date("2026-03-01T00:00:00.000Z");
+
+const promotion = (overrides: Partial<NewPromotion> = {}): NewPromotion => ({
+  code: "SPRING",
+  description: "Spring sale",
+  kind: "percent",
+  value: 20,
+  appliesTo: [],
+  firstPurchaseOnly: false,
+  active: true,
+  ...overrides,
+});
+
+describe("promotions", () => {
+  let repo: Repository;
+  const { price } = priceCheckout(PLAN_IDS.PREMIUM, [ADDON_IDS.DNA]);
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+  });
+
+  it("should discount only the lines a code applies to", async () => {
+    await repo.promotions.create(promotion({ appliesTo: [PLAN_IDS.PREMIUM] }));
+    await repo.promotions.create(
+      promotion({ code: "FLAT", kind: "flat", value: 1_000_000 }),
+    );
+    const plan = price.lines.find((line) => line.id === PLAN_IDS.PREMIUM);
+
+    const percent = await applyPromotion(price, "spring", { now: NOW }, repo);
+    expect(percent.price.discount).toBe(Math.round(plan.amount * 20) / 100);
+    expect(percent.price.total).toBe(price.total - percent.price.discount);
+
+    // A flat amount never takes more than the lines are worth
+    const flat = await applyPromotion(price, "FLAT", { now: NOW }, repo);
+    expect(flat.price.total).toBe(0);
+  });
+
+  it("should refuse codes that are inactive, out of their window or don't apply", async () => {
+    await repo.promotions.create(promotion({ code: "OFF", active: false }));
+    await repo.promotions.create(
+      promotion({ code: "LATER", startsAt: "2026-04-01T00:00:00.000Z" }),
+    );
+    await repo.promotions.create(
+      promotion({ code: "OVER", endsAt: "2026-03-01T00:00:00.000Z" }),
+    );
+    await repo.promotions.create(
+      promotion({ code: "COACH", appliesTo: [PLAN_IDS.COACHING] }),
+    );
+
+    const denial = async (code: string) =>
+      (await applyPromotion(price, code, { now: NOW }, repo)).denial;
+    expect(await denial("NOPE")).toBe("unknown_code");
+    expect(await denial("OFF")).toBe("inactive");
+    expect(await denial("LATER")).toBe("not_started");
+    expect(await denial("OVER")).toBe("expired");
+    expect(await denial("COACH")).toBe("not_applicable");
+  });
+
+  it("should hold a use for pending orders and enforce per-buyer and first-purchase rules", async () => {
+    const code = await repo.promotions.create(
+      promotion({ maxRedemptionsPerUser: 1 }),
+    );
+    await repo.promotions.create(
+      promotion({ code: "WELCOME", firstPurchaseOnly: true }),
+    );
+    const user = await repo.users.findOrCreate({ email: "asha@example.com" });
+    await repo.quizResponses.save({
+      userId: user.id,
+      analysisId: "analysis_1",
+      quizData: { age: 30 },
+      personalizationData: {} as PersonalizationData,
+    });
+    const order = await repo.orders.create({
+      userId: user.id,
+      analysisId: "analysis_1",
+      planId: PLAN_IDS.PREMIUM,
+      addOns: [],
+      totalPrice: 0,
+    });
+    await repo.promotionRedemptions.record({
+      promotionId: code.id,
+      orderId: order.id,
+      userId: user.id,
+      discount: 100,
+    });
+
+    const check = (code: string, now: Date) =>
+      applyPromotion(
+        price,
+        code,
+        { userId: user.id, signedIn: true, now },
+        repo,
+      );
+
+    // The pending order holds the buyer's one use until it's taken as abandoned
+    expect((await check("SPRING", new Date())).denial).toBe(
+      "user_limit_reached",
+    );
+    expect(
+      (await check("SPRING", new Date(Date.now() + 3 * 60 * 60 * 1000))).denial,
+    ).toBeUndefined();
+
+    expect((await check("WELCOME", NOW)).denial).toBeUndefined();
+    await repo.orders.updatePaymentStatus(order.id, "completed");
+    expect((await check("WELCOME", NOW)).denial).toBe("first_purchase_only");
+  });
+
+  it("should create the launch offer once", async () => {
+    const offer = await ensureLaunchOffer({}, repo, NOW);
+    expect(offer.code).toBe(LAUNCH_OFFER_CODE);
+    expect(offer.endsAt).toBe("2026-04-15T00:00:00.000Z");
+
+    expect(
+      (await ensureLaunchOffer({}, repo, new Date("2026-03-10T00:00:00Z"))).id,
+    ).toBe(offer.id);
+
+    const { price: essential } = priceCheckout(PLAN_IDS.ESSENTIAL);
+    const launched = await applyPromotion(
+      essential,
+      LAUNCH_OFFER_CODE,
+      { signedIn: true, now: NOW },
+      repo,
+    );
+    expect(launched.price.total).toBe(0);
+
+    // Its one use per buyer can only be counted against an account
+    const anonymous = await applyPromotion(
+      essential,
+      LAUNCH_OFFER_CODE,
+      { now: NOW },
+      repo,
+    );
+    expect(anonymous.denial).toBe("sign_in_required");
+  });
+});
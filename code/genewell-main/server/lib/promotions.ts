@@ -0,0 +1,227 @@
+// Promotion codes at checkout
+// A code is checked when a quote is priced, so the buyer sees the discount, and again when the order
+// is placed. Only then is the buyer known for per-buyer caps and first-purchase rules, and other
+// buyers may have used up the code since the quote was issued.
+// Anyone can check out under a fresh email address, so a per-buyer cap counts accounts: a code with
+// one is only redeemed by a buyer who is signed in.
+
+import { LAUNCH_OFFER_CODE } from "../../shared/api";
+import {
+  ADDON_IDS,
+  CheckoutPrice,
+  PLAN_IDS,
+  PriceDiscount,
+  priceCheckout,
+} from "../../shared/catalog";
+import {
+  NewPromotion,
+  PromotionCodeTakenError,
+  PromotionRecord,
+  Repository,
+  repository,
+} from "./repository";
+
+export type PromotionDenial =
+  | "unknown_code"
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "not_applicable"
+  | "limit_reached"
+  | "user_limit_reached"
+  | "sign_in_required"
+  | "first_purchase_only";
+
+export const PROMOTION_DENIALS: Record<PromotionDenial, string> = {
+  unknown_code: "That promotion code doesn't exist",
+  inactive: "That promotion code is no longer available",
+  not_started: "That promotion code isn't active yet",
+  expired: "That promotion code has expired",
+  not_applicable: "That promotion code doesn't apply to this order",
+  limit_reached: "That promotion code has been fully redeemed",
+  user_limit_reached: "You've already used that promotion code",
+  sign_in_required: "Sign in to use that promotion code",
+  first_purchase_only: "That promotion code is only for a first purchase",
+};
+
+// A checkout still pending after this long is taken as abandoned, and stops holding a use of its code
+export const PENDING_REDEMPTION_HOLD_MS = 2 * 60 * 60 * 1000;
+
+export const LAUNCH_OFFER_DAYS = 45;
+
+// Everything but Complete Coaching is free during the launch, once per account
+export const LAUNCH_OFFER: Omit<NewPromotion, "startsAt" | "endsAt"> = {
+  code: LAUNCH_OFFER_CODE,
+  description: `${LAUNCH_OFFER_DAYS}-day launch offer`,
+  kind: "percent",
+  value: 100,
+  appliesTo: [
+    PLAN_IDS.ESSENTIAL,
+    PLAN_IDS.PREMIUM,
+    ...Object.values(ADDON_IDS),
+  ],
+  maxRedemptionsPerUser: 1,
+  firstPurchaseOnly: false,
+  active: true,
+};
+
+export interface PromotionCheck {
+  userId?: string; // The buyer, once known
+  signedIn?: boolean; // userId is the account the buyer signed in with, not one found by email
+  now?: Date;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * What the promotion takes off an undiscounted price - undefined when none of the order's
+ * lines are ones it applies to
+ */
+export function promotionDiscount(
+  promotion: PromotionRecord,
+  price: CheckoutPrice,
+): PriceDiscount | undefined {
+  const eligible = price.lines
+    .filter(
+      (line) =>
+        promotion.appliesTo.length === 0 ||
+        promotion.appliesTo.includes(line.id),
+    )
+    .reduce((sum, line) => sum + line.amount, 0);
+  if (eligible <= 0) return undefined;
+
+  return {
+    code: promotion.code,
+    label: promotion.description || promotion.code,
+    amount:
+      promotion.kind === "percent"
+        ? round2((eligible * Math.min(promotion.value, 100)) / 100)
+        : Math.min(promotion.value, eligible),
+  };
+}
+
+/**
+ * Re-prices an undiscounted price with the promotion `code`. Without a userId only the code's own
+ * rules are checked; with one, the buyer's cap and the first-purchase rule too. A code with a
+ * per-buyer cap is refused unless the buyer is signed in.
+ */
+export async function applyPromotion(
+  price: CheckoutPrice,
+  code: string,
+  { userId, signedIn = false, now = new Date() }: PromotionCheck = {},
+  repo: Repository = repository,
+): Promise<{
+  price?: CheckoutPrice;
+  promotion?: PromotionRecord;
+  denial?: PromotionDenial;
+}> {
+  const promotion = await repo.promotions.findByCode(code.trim());
+  if (!promotion) return { denial: "unknown_code" };
+  if (!promotion.active) return { denial: "inactive" };
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+    return { denial: "not_started" };
+  }
+  if (promotion.endsAt && new Date(promotion.endsAt) <= now) {
+    return { denial: "expired" };
+  }
+
+  const discount = promotionDiscount(promotion, price);
+  if (!discount) return { denial: "not_applicable" };
+
+  // Caps are checked before the order is placed, so two buyers racing for the last use may both get it
+  const pendingSince = new Date(now.getTime() - PENDING_REDEMPTION_HOLD_MS);
+  if (
+    promotion.maxRedemptions !== undefined &&
+    (await repo.promotionRedemptions.countHeld(promotion.id, {
+      pendingSince,
+    })) >= promotion.maxRedemptions
+  ) {
+    return { denial: "limit_reached" };
+  }
+
+  if (promotion.maxRedemptionsPerUser !== undefined && !signedIn) {
+    return { denial: "sign_in_required" };
+  }
+
+  if (userId) {
+    if (
+      promotion.maxRedemptionsPerUser !== undefined &&
+      (await repo.promotionRedemptions.countHeld(promotion.id, {
+        userId,
+        pendingSince,
+      })) >= promotion.maxRedemptionsPerUser
+    ) {
+      return { denial: "user_limit_reached" };
+    }
+
+    if (
+      promotion.firstPurchaseOnly &&
+      (await repo.orders.listByUser(userId)).some(
+        (order) =>
+          order.paymentStatus === "completed" ||
+          order.paymentStatus === "refunded",
+      )
+    ) {
+      return { denial: "first_purchase_only" };
+    }
+  }
+
+  return {
+    price: priceCheckout(price.planId, price.addOns, [discount]).price,
+    promotion,
+  };
+}
+
+/**
+ * Checks the promotion a quote was priced with again, now for the buyer placing the order.
+ * A quote without a promotion passes with none.
+ */
+export async function confirmQuotePromotion(
+  quote: CheckoutPrice,
+  userId: string,
+  signedIn: boolean,
+  repo: Repository = repository,
+  now = new Date(),
+): Promise<{ promotion?: PromotionRecord; denial?: PromotionDenial }> {
+  const code = quote.discounts.find((discount) => discount.code)?.code;
+  if (!code) return {};
+
+  const { price } = priceCheckout(quote.planId, quote.addOns);
+  const { promotion, denial } = await applyPromotion(
+    price,
+    code,
+    { userId, signedIn, now },
+    repo,
+  );
+  return { promotion, denial };
+}
+
+/**
+ * Creates the launch offer the first time the server starts. It runs for LAUNCH_OFFER_DAYS
+ * from then, or until LAUNCH_OFFER_ENDS_AT when that is set.
+ */
+export async function ensureLaunchOffer(
+  env: NodeJS.ProcessEnv = process.env,
+  repo: Repository = repository,
+  now = new Date(),
+): Promise<PromotionRecord> {
+  const existing = await repo.promotions.findByCode(LAUNCH_OFFER_CODE);
+  if (existing) return existing;
+
+  const endsAt = env.LAUNCH_OFFER_ENDS_AT
+    ? new Date(env.LAUNCH_OFFER_ENDS_AT)
+    : new Date(now.getTime() + LAUNCH_OFFER_DAYS * 24 * 60 * 60 * 1000);
+  try {
+    return await repo.promotions.create({
+      ...LAUNCH_OFFER,
+      startsAt: now.toISOString(),
+      endsAt: endsAt.toISOString(),
+    });
+  } catch (error) {
+    // Another instance created it first
+    if (error instanceof PromotionCodeTakenError) {
+      return repo.promotions.findByCode(LAUNCH_OFFER_CODE);
+    }
+    throw error;
+  }
+}
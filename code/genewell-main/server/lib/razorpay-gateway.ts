@@ -0,0 +1,171 @@
+// Razorpay behind the PaymentGateway contract
+// Intents are Payment Links, Razorpay's hosted checkout. With `upiLink` they are UPI payment
+// links instead, which is how the "upi" gateway collects UPI payments.
+// Webhooks are signed with HMAC-SHA256 (hex) of the raw JSON body in X-Razorpay-Signature.
+
+import crypto from "crypto";
+import {
+  fromMinorUnits,
+  headerValue,
+  hexDigestsMatch,
+  PaymentGateway,
+  PaymentGatewayError,
+  PaymentOutcome,
+  PaymentWebhookEvent,
+  toMinorUnits,
+} from "./payment-gateway";
+
+export const RAZORPAY_API_URL = "https://api.razorpay.com/v1/";
+
+export interface RazorpayGatewayOptions {
+  keyId: string;
+  keySecret: string;
+  webhookSecret?: string;
+  upiLink?: boolean;
+  apiUrl?: string;
+}
+
+// Payment link webhook events that settle an order
+const EVENT_OUTCOMES: Record<string, PaymentOutcome> = {
+  "payment_link.paid": "completed",
+  "payment_link.cancelled": "failed",
+  "payment_link.expired": "failed",
+};
+
+const LINK_OUTCOMES: Record<string, PaymentOutcome> = {
+  paid: "completed",
+  cancelled: "failed",
+  expired: "failed",
+};
+
+export function signRazorpayWebhook(rawBody: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+export function createRazorpayGateway({
+  keyId,
+  keySecret,
+  webhookSecret,
+  upiLink = false,
+  apiUrl = RAZORPAY_API_URL,
+}: RazorpayGatewayOptions): PaymentGateway {
+  const gateway = upiLink ? "upi" : "razorpay";
+  const authorization = `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString("base64")}`;
+
+  const call = async (path: string, body?: object) => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method: body ? "POST" : "GET",
+      headers: {
+        Authorization: authorization,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data: any = await response.json();
+
+    if (!response.ok) {
+      throw new PaymentGatewayError(
+        gateway,
+        data?.error?.description || `Request to ${path} failed`,
+        data?.error,
+      );
+    }
+    return data;
+  };
+
+  return {
+    id: gateway,
+    label: upiLink ? "UPI" : "Razorpay",
+
+    async createIntent({
+      orderId,
+      amount,
+      currency,
+      description,
+      customer,
+      returnUrl,
+      metadata,
+    }) {
+      const link = await call("payment_links", {
+        amount: toMinorUnits(amount),
+        currency,
+        description,
+        reference_id: orderId,
+        upi_link: upiLink,
+        customer: {
+          name: customer.name,
+          email: customer.email,
+          contact: customer.phone,
+        },
+        notify: { sms: false, email: false },
+        callback_url: returnUrl,
+        callback_method: "get",
+        notes: { ...metadata, purchase_id: orderId },
+      });
+
+      return { gateway, intentId: link.id, checkoutUrl: link.short_url };
+    },
+
+    async verify(intentId) {
+      const link = await call(`payment_links/${intentId}`);
+      return {
+        status: LINK_OUTCOMES[link.status] || "pending",
+        paymentId: (link.payments || []).find(
+          (payment: any) => payment.status === "captured",
+        )?.payment_id,
+      };
+    },
+
+    parseWebhook(rawBody, headers) {
+      if (!webhookSecret) return { verified: false, reason: "not_configured" };
+
+      const signature = headerValue(headers, "x-razorpay-signature");
+      if (!signature) return { verified: false, reason: "missing_signature" };
+      if (
+        !hexDigestsMatch(signature, signRazorpayWebhook(rawBody, webhookSecret))
+      ) {
+        return { verified: false, reason: "invalid_signature" };
+      }
+
+      let body: any;
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return { verified: false, reason: "malformed" };
+      }
+
+      const status = EVENT_OUTCOMES[body.event];
+      if (!status) return { verified: true };
+
+      const link = body.payload?.payment_link?.entity || {};
+      const payment = body.payload?.payment?.entity;
+      const event: PaymentWebhookEvent = {
+        // Razorpay sends the same X-Razorpay-Event-Id on every retry of an event
+        eventId:
+          headerValue(headers, "x-razorpay-event-id") ||
+          `${body.event}:${link.id}`,
+        status,
+        providerStatus: body.event,
+        intentId: link.id,
+        orderId: link.reference_id || link.notes?.purchase_id,
+        paymentId: payment?.id,
+        amount: payment ? fromMinorUnits(payment.amount) : undefined,
+        email: payment?.email || link.customer?.email,
+        buyerName: link.customer?.name,
+      };
+      return { verified: true, event };
+    },
+
+    async refund(paymentId, amount) {
+      const refund = await call(
+        `payments/${paymentId}/refund`,
+        amount === undefined ? {} : { amount: toMinorUnits(amount) },
+      );
+      return {
+        refundId: refund.id,
+        status: refund.status === "processed" ? "processed" : "pending",
+        amount: fromMinorUnits(refund.amount),
+      };
+    },
+  };
+}
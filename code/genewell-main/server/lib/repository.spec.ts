@@ -0,0 +1,561 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { newDb } from "pg-mem";
+import {
+  Repository,
+  createMemoryRepository,
+  createPostgresRepository,
+  EmailTakenError,
+  PromotionCodeTakenError,
+} from "./repository";
+import { runMigrations } from "./migrations";
+import { MIGRATIONS } from "../migrations";
+import { PersonalizationData } from "../../shared/personalization-engine";
+
+async function createPgMemRepository(): Promise<Repository> {
+  const db = newDb({ noAstCoverageCheck: true });
+  const { Pool } = db.adapters.createPg();
+  const pool = new Pool();
+  // pg-mem has no plpgsql, so skip the audit log trigger
+  await runMigrations(pool, {
+    migrations: MIGRATIONS.filter(
+      (m) => m.name !== "dna_retention_audit_guard",
+    ),
+  });
+  return createPostgresRepository(pool);
+}
+
+const personalization = { profile: { name: "Asha" } } as PersonalizationData;
+
+// Every backend must pass the same suite
+describe.each([
+  ["memory", async () => createMemoryRepository()],
+  ["postgres", createPgMemRepository],
+])("%s repository", (_backend, createRepository) => {
+  let repo: Repository;
+
+  beforeEach(async () => {
+    repo = await createRepository();
+  });
+
+  const createQuiz = async (email: string, analysisId: string) => {
+    const user = await repo.users.findOrCreate({ email, name: "Asha" });
+    await repo.quizResponses.save({
+      userId: user.id,
+      analysisId,
+      quizData: { age: 30 },
+      personalizationData: personalization,
+    });
+    return user;
+  };
+
+  describe("users", () => {
+    it("should hand out sequential numeric string ids", async () => {
+      const first = await repo.users.findOrCreate({ email: "a@example.com" });
+      const second = await repo.users.findOrCreate({ email: "b@example.com" });
+
+      expect(first.id).toBe("1");
+      expect(second.id).toBe("2");
+      expect(await repo.users.findById("1")).toMatchObject({
+        email: "a@example.com",
+        hasUploadedDNA: false,
+        subscription: "free",
+      });
+      expect(await repo.users.findById("user_123")).toBeUndefined();
+      expect(await repo.users.findById("99")).toBeUndefined();
+    });
+
+    it("should find users by email case-insensitively", async () => {
+      const created = await repo.users.findOrCreate({
+        email: "Asha@Example.com",
+      });
+      const again = await repo.users.findOrCreate({
+        email: "asha@example.com",
+      });
+
+      expect(again.id).toBe(created.id);
+      expect((await repo.users.findByEmail("ASHA@example.com"))?.id).toBe(
+        created.id,
+      );
+      expect(await repo.users.count()).toBe(1);
+    });
+
+    it("should let registration claim a buyer row but not an account", async () => {
+      const buyer = await repo.users.findOrCreate({
+        email: "a@example.com",
+        phone: "9999999999",
+      });
+      const account = await repo.users.create({
+        email: "a@example.com",
+        name: "Asha",
+        age: 30,
+        gender: "female",
+        passwordHash: "hash",
+      });
+
+      expect(account).toMatchObject({
+        id: buyer.id,
+        name: "Asha",
+        phone: "9999999999",
+        passwordHash: "hash",
+      });
+      await expect(
+        repo.users.create({ email: "A@example.com", passwordHash: "other" }),
+      ).rejects.toBeInstanceOf(EmailTakenError);
+    });
+
+    it("should only update the fields given", async () => {
+      const user = await repo.users.findOrCreate({
+        email: "a@example.com",
+        name: "Asha",
+      });
+
+      const updated = await repo.users.update(user.id, {
+        hasUploadedDNA: true,
+      });
+
+      expect(updated).toMatchObject({ name: "Asha", hasUploadedDNA: true });
+      expect(await repo.users.update("99", { name: "Nobody" })).toBeUndefined();
+    });
+  });
+
+  describe("quiz responses", () => {
+    it("should replace the response for an existing analysis", async () => {
+      const user = await createQuiz("a@example.com", "analysis_1");
+      const updated = { profile: { name: "Asha R" } } as PersonalizationData;
+
+      await repo.quizResponses.save({
+        userId: user.id,
+        analysisId: "analysis_1",
+        quizData: { age: 31 },
+        personalizationData: updated,
+      });
+
+      expect(await repo.quizResponses.count()).toBe(1);
+      expect(
+        await repo.quizResponses.findByAnalysisId("analysis_1"),
+      ).toMatchObject({
+        userId: user.id,
+        quizData: { age: 31 },
+        personalizationData: updated,
+      });
+    });
+  });
+
+  describe("orders", () => {
+    it("should reject orders for an unknown analysis", async () => {
+      const user = await repo.users.findOrCreate({ email: "a@example.com" });
+
+      await expect(
+        repo.orders.create({
+          userId: user.id,
+          analysisId: "missing",
+          planId: "premium",
+          addOns: [],
+          totalPrice: 1499,
+        }),
+      ).rejects.toThrow();
+    });
+
+    it("should track payment status, revenue and the generated PDF", async () => {
+      const user = await createQuiz("a@example.com", "analysis_1");
+      const order = await repo.orders.create({
+        userId: user.id,
+        analysisId: "analysis_1",
+        planId: "premium",
+        addOns: ["meal-plan"],
+        totalPrice: 1499,
+      });
+      expect(order).toMatchObject({
+        id: "1",
+        paymentStatus: "pending",
+        addOns: ["meal-plan"],
+        totalPrice: 1499,
+      });
+      expect(order.completedAt).toBeUndefined();
+
+      await repo.orders.attachPaymentIntent(order.id, "instamojo", "req_1");
+      const paid = await repo.orders.updatePaymentStatus(
+        order.id,
+        "completed",
+        "MOJO123",
+      );
+      await repo.orders.attachPDF(order.id, "pdf_1");
+
+      expect(paid).toMatchObject({
+        paymentStatus: "completed",
+        paymentGateway: "instamojo",
+        paymentIntentId: "req_1",
+        gatewayPaymentId: "MOJO123",
+      });
+      expect(
+        (await repo.orders.findByPaymentIntent("instamojo", "req_1"))?.id,
+      ).toBe(order.id);
+      expect(
+        await repo.orders.findByPaymentIntent("stripe", "req_1"),
+      ).toBeUndefined();
+      expect(paid?.completedAt).toBeDefined();
+      expect((await repo.orders.findById(order.id))?.pdfRecordId).toBe("pdf_1");
+      expect(await repo.orders.count("completed")).toBe(1);
+      expect(await repo.orders.count("pending")).toBe(0);
+      expect(await repo.orders.revenue()).toBe(1499);
+    });
+
+    it("should list newest first with pagination and status filter", async () => {
+      const user = await createQuiz("a@example.com", "analysis_1");
+      for (const planId of ["essential", "premium", "coaching"]) {
+        await repo.orders.create({
+          userId: user.id,
+          analysisId: "analysis_1",
+          planId,
+          addOns: [],
+          totalPrice: 0,
+        });
+      }
+      await repo.orders.updatePaymentStatus("1", "failed");
+
+      const page = await repo.orders.list({ limit: 2, offset: 0 });
+      const failed = await repo.orders.list({
+        status: "failed",
+        limit: 10,
+        offset: 0,
+      });
+
+      expect(page.map((o) => o.planId)).toEqual(["coaching", "premium"]);
+      expect(failed.map((o) => o.planId)).toEqual(["essential"]);
+      expect((await repo.orders.listByAnalysisId("analysis_1")).length).toBe(3);
+      expect((await repo.orders.listByUser(user.id))[0].planId).toBe(
+        "coaching",
+      );
+    });
+
+    it("should settle a payment and claim its confirmation once", async () => {
+      const user = await createQuiz("a@example.com", "analysis_1");
+      const order = await repo.orders.create({
+        userId: user.id,
+        analysisId: "analysis_1",
+        planId: "premium",
+        addOns: [],
+        totalPrice: 1499,
+      });
+
+      expect(await repo.orders.claimConfirmation(order.id)).toBeUndefined();
+      await repo.orders.settlePayment(order.id, "failed");
+      expect(
+        await repo.orders.settlePayment(order.id, "completed", "MOJO123"),
+      ).toMatchObject({
+        paymentStatus: "completed",
+        gatewayPaymentId: "MOJO123",
+      });
+      expect(
+        await repo.orders.settlePayment(order.id, "completed"),
+      ).toBeUndefined();
+
+      expect(
+        (await repo.orders.claimConfirmation(order.id))?.confirmationSentAt,
+      ).toBeDefined();
+      expect(await repo.orders.claimConfirmation(order.id)).toBeUndefined();
+      await repo.orders.releaseConfirmation(order.id);
+      expect(await repo.orders.claimConfirmation(order.id)).toBeDefined();
+
+      await repo.orders.updatePaymentStatus(order.id, "refunded");
+      expect(
+        await repo.orders.settlePayment(order.id, "completed"),
+      ).toBeUndefined();
+      expect((await repo.orders.findById(order.id))?.paymentStatus).toBe(
+        "refunded",
+      );
+    });
+  });
+
+  describe("pdf records", () => {
+    it("should find records by owner and expiry", async () => {
+      const user = await createQuiz("a@example.com", "analysis_1");
+      const order = await repo.orders.create({
+        userId: user.id,
+        analysisId: "analysis_1",
+        planId: "premium",
+        addOns: [],
+        totalPrice: 1499,
+      });
+      const record = {
+        orderId: order.id,
+        analysisId: "analysis_1",
+        userId: user.id,
+        filename: "blueprint.pdf",
+        planTier: "premium",
+        addOns: ["meal-plan"],
+        userName: "Asha",
+        fileSize: 2048,
+      };
+
+      await repo.pdfRecords.create({
+        ...record,
+        pdfRecordId: "pdf_old",
+        generatedAt: "2026-01-01T00:00:00.000Z",
+        expiresAt: "2026-01-31T00:00:00.000Z",
+      });
+      await repo.pdfRecords.create({
+        ...record,
+        pdfRecordId: "pdf_new",
+        generatedAt: "2026-02-01T00:00:00.000Z",
+        expiresAt: "2026-03-03T00:00:00.000Z",
+      });
+
+      expect(await repo.pdfRecords.findById("pdf_new")).toEqual({
+        ...record,
+        pdfRecordId: "pdf_new",
+        generatedAt: "2026-02-01T00:00:00.000Z",
+        expiresAt: "2026-03-03T00:00:00.000Z",
+      });
+      expect(
+        (await repo.pdfRecords.listByUser(user.id)).map((p) => p.pdfRecordId),
+      ).toEqual(["pdf_new", "pdf_old"]);
+      expect((await repo.pdfRecords.listByOrderId(order.id)).length).toBe(2);
+      expect(
+        (await repo.pdfRecords.listExpired(new Date("2026-02-15"))).map(
+          (p) => p.pdfRecordId,
+        ),
+      ).toEqual(["pdf_old"]);
+      expect(await repo.pdfRecords.usageByTier()).toEqual({
+        premium: { count: 2, bytes: 4096 },
+      });
+
+      await repo.pdfRecords.delete("pdf_old");
+      expect(await repo.pdfRecords.findById("pdf_old")).toBeUndefined();
+      await expect(
+        repo.pdfRecords.create({
+          ...record,
+          orderId: "99",
+          pdfRecordId: "x",
+        } as any),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("webhook events", () => {
+    it("should claim each provider event once until released", async () => {
+      const event = {
+        provider: "instamojo",
+        eventId: "MOJO123",
+        status: "Credit",
+        orderId: "12",
+      };
+
+      const claimed = await repo.webhookEvents.claim(event);
+      expect(claimed).toMatchObject(event);
+      expect(await repo.webhookEvents.claim(event)).toBeUndefined();
+      expect(
+        await repo.webhookEvents.claim({ ...event, provider: "other" }),
+      ).toBeDefined();
+      expect(await repo.webhookEvents.find("instamojo", "MOJO123")).toEqual(
+        claimed,
+      );
+
+      await repo.webhookEvents.release(claimed.id);
+      expect(await repo.webhookEvents.claim(event)).toMatchObject(event);
+    });
+  });
+
+  describe("promotions", () => {
+    const launch = {
+      code: "launch45",
+      description: "Launch offer",
+      kind: "percent" as const,
+      value: 100,
+      appliesTo: ["premium_blueprint"],
+      firstPurchaseOnly: false,
+      active: true,
+    };
+
+    it("should find codes in any case and refuse duplicates", async () => {
+      const promotion = await repo.promotions.create(launch);
+
+      expect(promotion).toMatchObject({
+        ...launch,
+        code: "LAUNCH45",
+      });
+      expect(promotion.maxRedemptions).toBeUndefined();
+      expect(await repo.promotions.findByCode("Launch45")).toEqual(promotion);
+      await expect(
+        repo.promotions.create({ ...launch, code: "LAUNCH45" }),
+      ).rejects.toThrow(PromotionCodeTakenError);
+      expect(
+        (await repo.promotions.setActive(promotion.id, false))?.active,
+      ).toBe(false);
+      expect(await repo.promotions.list()).toHaveLength(1);
+    });
+
+    it("should count redemptions that hold a use and report performance", async () => {
+      const promotion = await repo.promotions.create(launch);
+      const buyer = await createQuiz("a@example.com", "analysis_1");
+      const other = await createQuiz("b@example.com", "analysis_2");
+      const order = (userId: string, analysisId: string) =>
+        repo.orders.create({
+          userId,
+          analysisId,
+          planId: "premium_blueprint",
+          addOns: [],
+          totalPrice: 1000,
+        });
+
+      const paid = await order(buyer.id, "analysis_1");
+      const failed = await order(buyer.id, "analysis_1");
+      const pending = await order(other.id, "analysis_2");
+      for (const { id, userId } of [paid, failed, pending]) {
+        await repo.promotionRedemptions.record({
+          promotionId: promotion.id,
+          orderId: id,
+          userId,
+          discount: 499,
+        });
+      }
+      await repo.orders.updatePaymentStatus(paid.id, "completed");
+      await repo.orders.updatePaymentStatus(failed.id, "failed");
+
+      const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+      const justNow = new Date(Date.now() + 60 * 1000);
+      expect(
+        await repo.promotionRedemptions.countHeld(promotion.id, {
+          pendingSince: longAgo,
+        }),
+      ).toBe(2);
+      expect(
+        await repo.promotionRedemptions.countHeld(promotion.id, {
+          pendingSince: justNow,
+        }),
+      ).toBe(1);
+      expect(
+        await repo.promotionRedemptions.countHeld(promotion.id, {
+          userId: other.id,
+          pendingSince: longAgo,
+        }),
+      ).toBe(1);
+      expect(await repo.promotionRedemptions.performance()).toEqual({
+        [promotion.id]: {
+          redemptions: 1,
+          pendingRedemptions: 1,
+          discountGiven: 499,
+          revenue: 1000,
+        },
+      });
+      expect(
+        (await repo.promotionRedemptions.findByOrder(paid.id))?.discount,
+      ).toBe(499);
+      await expect(
+        repo.promotionRedemptions.record({
+          promotionId: promotion.id,
+          orderId: paid.id,
+          userId: buyer.id,
+          discount: 1,
+        }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("invoices", () => {
+    const invoiceFor = (
+      orderId: string,
+      userId: string,
+      financialYear: string,
+    ) => ({
+      orderId,
+      userId,
+      financialYear,
+      sellerName: "GeneWell",
+      sellerAddress: "Bengaluru",
+      sellerGstin: "29ABCDE1234F1Z5",
+      sellerState: "29",
+      buyerName: "Asha",
+      buyerEmail: "a@example.com",
+      placeOfSupply: "27",
+      lines: [
+        { description: "Premium Blueprint", sac: "998439", amount: 1270.34 },
+      ],
+      discount: 0,
+      taxableValue: 1270.34,
+      gstRate: 0.18,
+      cgst: 0,
+      sgst: 0,
+      igst: 228.66,
+      total: 1499,
+    });
+
+    it("should number invoices per financial year and issue one per order", async () => {
+      const buyer = await createQuiz("a@example.com", "analysis_1");
+      const orders = [];
+      for (let i = 0; i < 3; i++) {
+        orders.push(
+          await repo.orders.create({
+            userId: buyer.id,
+            analysisId: "analysis_1",
+            planId: "premium_blueprint",
+            addOns: [],
+            totalPrice: 1499,
+            billingState: "27",
+          }),
+        );
+      }
+      expect(orders[0].billingState).toBe("27");
+
+      const first = await repo.invoices.issue(
+        invoiceFor(orders[0].id, buyer.id, "2026-27"),
+      );
+      const second = await repo.invoices.issue(
+        invoiceFor(orders[1].id, buyer.id, "2026-27"),
+      );
+      const nextYear = await repo.invoices.issue(
+        invoiceFor(orders[2].id, buyer.id, "2027-28"),
+      );
+
+      expect([first.sequence, second.sequence, nextYear.sequence]).toEqual([
+        1, 2, 1,
+      ]);
+      expect(first).toMatchObject(
+        invoiceFor(orders[0].id, buyer.id, "2026-27"),
+      );
+      expect(first.buyerGstin).toBeUndefined();
+      expect(
+        await repo.invoices.issue(
+          invoiceFor(orders[0].id, buyer.id, "2027-28"),
+        ),
+      ).toEqual(first);
+      expect(await repo.invoices.findByOrder(orders[1].id)).toEqual(second);
+      expect(await repo.invoices.findByOrder("999")).toBeUndefined();
+    });
+  });
+
+  describe("email logs", () => {
+    it("should record delivery status", async () => {
+      const user = await repo.users.findOrCreate({ email: "a@example.com" });
+      const sent = await repo.emailLogs.create({
+        userId: user.id,
+        emailType: "confirmation",
+        recipientEmail: user.email,
+        subject: "Your report",
+      });
+      const failed = await repo.emailLogs.create({
+        userId: user.id,
+        emailType: "payment_confirmation",
+        recipientEmail: user.email,
+        subject: "Payment",
+      });
+
+      await repo.emailLogs.updateStatus(sent.id, "sent");
+      await repo.emailLogs.updateStatus(failed.id, "failed", "SMTP down");
+
+      const [latest, first] = await repo.emailLogs.list({
+        limit: 10,
+        offset: 0,
+      });
+      expect(latest).toMatchObject({
+        status: "failed",
+        errorMessage: "SMTP down",
+      });
+      expect(first.sentAt).toBeDefined();
+      expect(await repo.emailLogs.countByStatus()).toEqual({
+        sent: 1,
+        failed: 1,
+      });
+    });
+  });
+});
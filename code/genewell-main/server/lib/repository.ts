@@ -0,0 +1,1735 @@
+// Single persistence layer for users, quiz responses, orders, PDF records, downloads, email logs,
+// processed payment webhooks and promotions
+// Uses Postgres when DATABASE_URL is set, otherwise in-memory Maps with the same contract.
+// Both backends hand out sequential numeric ids as strings ("1", "2", ...), except PDF
+// records, whose opaque ids are chosen by the caller because they appear in download links.
+
+import { PaymentGatewayId, User } from "../../shared/api";
+import { PersonalizationData } from "../../shared/personalization-engine";
+import { isDatabaseConfigured, query, Queryable } from "./db";
+
+// ==========================================
+// RECORDS
+// ==========================================
+
+export interface UserRecord extends User {
+  phone?: string;
+  passwordHash?: string; // Unset for buyers who checked out without registering
+}
+
+export interface NewUser {
+  email: string;
+  name?: string;
+  phone?: string;
+  age?: number;
+  gender?: User["gender"];
+}
+
+export type UserChanges = Partial<
+  Pick<
+    UserRecord,
+    | "name"
+    | "phone"
+    | "age"
+    | "gender"
+    | "hasUploadedDNA"
+    | "subscription"
+    | "language"
+  >
+>;
+
+export interface QuizResponseRecord {
+  id: string;
+  userId: string;
+  analysisId: string;
+  quizData: any;
+  personalizationData: PersonalizationData;
+  createdAt: string;
+}
+
+export type PaymentStatus = "pending" | "completed" | "failed" | "refunded";
+
+// A gateway's outcome may still change these; completed and refunded orders are settled
+const SETTLEABLE_STATUSES: PaymentStatus[] = ["pending", "failed"];
+
+export interface OrderRecord {
+  id: string;
+  userId: string;
+  analysisId: string;
+  planId: string;
+  addOns: string[];
+  totalPrice: number;
+  paymentStatus: PaymentStatus;
+  paymentGateway?: PaymentGatewayId;
+  paymentIntentId?: string; // The gateway's checkout, e.g. an Instamojo payment request
+  gatewayPaymentId?: string; // The gateway's id for the payment itself
+  pdfRecordId?: string;
+  billingState?: string; // GST state code the buyer gave, e.g. "29"
+  billingGstin?: string; // Business buyers only
+  billingName?: string; // Business name to invoice, with billingGstin
+  createdAt: string;
+  completedAt?: string;
+  confirmationSentAt?: string; // When the payment confirmation (with its invoice) went to the buyer
+}
+
+export type NewOrder = Pick<
+  OrderRecord,
+  | "userId"
+  | "analysisId"
+  | "planId"
+  | "addOns"
+  | "totalPrice"
+  | "billingState"
+  | "billingGstin"
+  | "billingName"
+>;
+
+// Metadata for a generated report - the file itself lives in the blob store
+export interface StoredPDFRecord {
+  pdfRecordId: string;
+  orderId: string;
+  analysisId: string;
+  userId: string;
+  filename: string;
+  planTier: string;
+  addOns: string[];
+  userName: string;
+  generatedAt: string;
+  fileSize: number;
+  expiresAt: string;
+}
+
+export interface PDFTierUsage {
+  count: number;
+  bytes: number;
+}
+
+// One use of a signed download link - outcome is "granted" or the reason it was refused
+export interface PDFDownloadRecord {
+  id: string;
+  pdfRecordId: string;
+  linkId?: string;
+  userId?: string;
+  outcome: string;
+  ipAddress?: string;
+  userAgent?: string;
+  accessedAt: string;
+}
+
+export type NewPDFDownload = Omit<PDFDownloadRecord, "id" | "accessedAt">;
+
+// A payment webhook that has been taken for processing - eventId is the provider's own
+// payment id, so a redelivery of the same event can't be taken twice
+export interface WebhookEventRecord {
+  id: string;
+  provider: string;
+  eventId: string;
+  status: string; // As the provider reported it
+  orderId?: string;
+  receivedAt: string;
+}
+
+export type NewWebhookEvent = Omit<WebhookEventRecord, "id" | "receivedAt">;
+
+export type PromotionKind = "percent" | "flat";
+
+// A promotion code - applicability, validity window and usage caps are all optional
+export interface PromotionRecord {
+  id: string;
+  code: string; // Upper case - buyers may type it in any case
+  description: string;
+  kind: PromotionKind;
+  value: number; // Percent off, or rupees off
+  appliesTo: string[]; // Plan and add-on ids it discounts, empty for the whole order
+  startsAt?: string;
+  endsAt?: string;
+  maxRedemptions?: number;
+  maxRedemptionsPerUser?: number;
+  firstPurchaseOnly: boolean;
+  active: boolean;
+  createdAt: string;
+}
+
+export type NewPromotion = Omit<PromotionRecord, "id" | "createdAt">;
+
+// A promotion used on an order - at most one per order
+export interface PromotionRedemptionRecord {
+  id: string;
+  promotionId: string;
+  orderId: string;
+  userId: string;
+  discount: number; // Rupees taken off the order
+  createdAt: string;
+}
+
+export type NewPromotionRedemption = Omit<
+  PromotionRedemptionRecord,
+  "id" | "createdAt"
+>;
+
+export interface PromotionPerformance {
+  redemptions: number; // On completed orders
+  pendingRedemptions: number; // On orders still waiting for payment
+  discountGiven: number; // Completed orders only
+  revenue: number; // What completed orders paid, after the discount
+}
+
+// A line on a tax invoice, before GST
+export interface InvoiceLine {
+  description: string;
+  sac: string; // Services Accounting Code
+  amount: number; // Taxable value
+}
+
+// A GST tax invoice for a completed order. Seller and buyer details are copied in when it is
+// issued, so it reads the same however they change later.
+export interface InvoiceRecord {
+  id: string;
+  orderId: string;
+  userId: string;
+  financialYear: string; // "2026-27" - April to March
+  sequence: number; // Numbered from 1 in each financial year
+  sellerName: string;
+  sellerAddress: string;
+  sellerGstin?: string;
+  sellerState: string; // GST state code
+  buyerName: string;
+  buyerEmail: string;
+  buyerGstin?: string;
+  placeOfSupply: string; // GST state code
+  lines: InvoiceLine[];
+  discount: number; // Taxable value taken off the lines
+  taxableValue: number;
+  gstRate: number; // 0.18
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number; // What the buyer paid, GST included
+  issuedAt: string;
+}
+
+export type NewInvoice = Omit<InvoiceRecord, "id" | "sequence" | "issuedAt">;
+
+export type EmailStatus = "pending" | "sent" | "failed";
+
+export interface EmailLogRecord {
+  id: string;
+  userId: string;
+  orderId?: string;
+  emailType: string;
+  recipientEmail: string;
+  subject: string;
+  status: EmailStatus;
+  errorMessage?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
+export type NewEmailLog = Pick<
+  EmailLogRecord,
+  "userId" | "orderId" | "emailType" | "recipientEmail" | "subject"
+>;
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+// ==========================================
+// CONTRACT
+// ==========================================
+
+// Lists are newest first
+export interface Repository {
+  users: {
+    findById(id: string): Promise<UserRecord | undefined>;
+    findByEmail(email: string): Promise<UserRecord | undefined>;
+    /** Registers an account, claiming a password-less buyer row with the same email */
+    create(account: NewUser & { passwordHash: string }): Promise<UserRecord>;
+    /** Returns the user with this email, creating a password-less one if needed */
+    findOrCreate(profile: NewUser): Promise<UserRecord>;
+    update(id: string, changes: UserChanges): Promise<UserRecord | undefined>;
+    list(page: Page): Promise<UserRecord[]>;
+    count(): Promise<number>;
+  };
+  quizResponses: {
+    /** Inserts or replaces the response for `analysisId` */
+    save(
+      response: Omit<QuizResponseRecord, "id" | "createdAt">,
+    ): Promise<QuizResponseRecord>;
+    findByAnalysisId(
+      analysisId: string,
+    ): Promise<QuizResponseRecord | undefined>;
+    listByUser(userId: string): Promise<QuizResponseRecord[]>;
+    list(page: Page): Promise<QuizResponseRecord[]>;
+    count(): Promise<number>;
+  };
+  orders: {
+    /** Rejects orders for an unknown user or analysis */
+    create(order: NewOrder): Promise<OrderRecord>;
+    findById(id: string): Promise<OrderRecord | undefined>;
+    findByPaymentIntent(
+      gateway: PaymentGatewayId,
+      intentId: string,
+    ): Promise<OrderRecord | undefined>;
+    listByUser(userId: string): Promise<OrderRecord[]>;
+    listByAnalysisId(analysisId: string): Promise<OrderRecord[]>;
+    list(page: Page & { status?: PaymentStatus }): Promise<OrderRecord[]>;
+    count(status?: PaymentStatus): Promise<number>;
+    /** Sum of completed order totals */
+    revenue(): Promise<number>;
+    /** Records the checkout a gateway opened for the order */
+    attachPaymentIntent(
+      id: string,
+      gateway: PaymentGatewayId,
+      intentId: string,
+    ): Promise<void>;
+    /** `paymentId` is the gateway's id for the payment, kept once known */
+    updatePaymentStatus(
+      id: string,
+      status: PaymentStatus,
+      paymentId?: string,
+    ): Promise<OrderRecord | undefined>;
+    /**
+     * Records a gateway's outcome for a pending or failed order, in one conditional update.
+     * Undefined when the order is missing or already completed or refunded, so of two callers
+     * settling the same payment only one gets the order back.
+     */
+    settlePayment(
+      id: string,
+      status: PaymentStatus,
+      paymentId?: string,
+    ): Promise<OrderRecord | undefined>;
+    /** Marks a completed order's confirmation as sent, or returns undefined when it already was */
+    claimConfirmation(id: string): Promise<OrderRecord | undefined>;
+    /** Forgets a confirmation that failed to send, so the next attempt sends it */
+    releaseConfirmation(id: string): Promise<void>;
+    attachPDF(id: string, pdfRecordId: string): Promise<void>;
+  };
+  // Lists are newest generated first
+  pdfRecords: {
+    /** Rejects records for an unknown order */
+    create(record: StoredPDFRecord): Promise<StoredPDFRecord>;
+    findById(pdfRecordId: string): Promise<StoredPDFRecord | undefined>;
+    listByUser(userId: string): Promise<StoredPDFRecord[]>;
+    listByOrderId(orderId: string): Promise<StoredPDFRecord[]>;
+    listByAnalysisId(analysisId: string): Promise<StoredPDFRecord[]>;
+    /** Records whose expiresAt is before `now` */
+    listExpired(now: Date): Promise<StoredPDFRecord[]>;
+    delete(pdfRecordId: string): Promise<void>;
+    usageByTier(): Promise<Record<string, PDFTierUsage>>;
+  };
+  pdfDownloads: {
+    record(entry: NewPDFDownload): Promise<PDFDownloadRecord>;
+    /** Granted downloads made with one link */
+    countGranted(linkId: string): Promise<number>;
+    listByPDF(pdfRecordId: string): Promise<PDFDownloadRecord[]>;
+  };
+  webhookEvents: {
+    /** Records the event, or returns undefined when the same provider event was already recorded */
+    claim(event: NewWebhookEvent): Promise<WebhookEventRecord | undefined>;
+    /** Forgets an event whose processing failed, so the provider's retry is processed */
+    release(id: string): Promise<void>;
+    find(
+      provider: string,
+      eventId: string,
+    ): Promise<WebhookEventRecord | undefined>;
+  };
+  promotions: {
+    /** Rejects a code that is already taken, in any case */
+    create(promotion: NewPromotion): Promise<PromotionRecord>;
+    findById(id: string): Promise<PromotionRecord | undefined>;
+    /** Case-insensitive */
+    findByCode(code: string): Promise<PromotionRecord | undefined>;
+    list(): Promise<PromotionRecord[]>;
+    setActive(
+      id: string,
+      active: boolean,
+    ): Promise<PromotionRecord | undefined>;
+  };
+  promotionRedemptions: {
+    /** Rejects a second redemption on the same order */
+    record(
+      redemption: NewPromotionRedemption,
+    ): Promise<PromotionRedemptionRecord>;
+    findByOrder(
+      orderId: string,
+    ): Promise<PromotionRedemptionRecord | undefined>;
+    /**
+     * Redemptions that use up a promotion's caps - those on completed orders, and on pending
+     * orders placed after `pendingSince`. Abandoned checkouts stop counting once they are older.
+     */
+    countHeld(
+      promotionId: string,
+      options: { userId?: string; pendingSince: Date },
+    ): Promise<number>;
+    /** Keyed by promotion id; promotions never redeemed are left out */
+    performance(): Promise<Record<string, PromotionPerformance>>;
+  };
+  invoices: {
+    /**
+     * Numbers the invoice next in its financial year and stores it. An order has one invoice -
+     * issuing another for it returns the first.
+     */
+    issue(invoice: NewInvoice): Promise<InvoiceRecord>;
+    findByOrder(orderId: string): Promise<InvoiceRecord | undefined>;
+  };
+  emailLogs: {
+    create(log: NewEmailLog): Promise<EmailLogRecord>;
+    updateStatus(
+      id: string,
+      status: EmailStatus,
+      errorMessage?: string,
+    ): Promise<void>;
+    list(page: Page): Promise<EmailLogRecord[]>;
+    count(): Promise<number>;
+    countByStatus(): Promise<Record<string, number>>;
+  };
+}
+
+export class EmailTakenError extends Error {
+  constructor(email: string) {
+    super(`An account already exists for ${email}`);
+    this.name = "EmailTakenError";
+  }
+}
+
+export class PromotionCodeTakenError extends Error {
+  constructor(code: string) {
+    super(`Promotion code ${code} already exists`);
+    this.name = "PromotionCodeTakenError";
+  }
+}
+
+export const toPublicUser = ({
+  passwordHash,
+  phone,
+  ...user
+}: UserRecord): User => user;
+
+// ==========================================
+// IN-MEMORY BACKEND
+// ==========================================
+
+export function createMemoryRepository(): Repository {
+  const users = new Map<string, UserRecord>();
+  const quizResponses = new Map<string, QuizResponseRecord>();
+  const orders = new Map<string, OrderRecord>();
+  const emailLogs = new Map<string, EmailLogRecord>();
+  const pdfRecords = new Map<string, StoredPDFRecord>();
+  const pdfDownloads = new Map<string, PDFDownloadRecord>();
+  const webhookEvents = new Map<string, WebhookEventRecord>();
+  const promotions = new Map<string, PromotionRecord>();
+  const promotionRedemptions = new Map<string, PromotionRedemptionRecord>();
+  const invoices = new Map<string, InvoiceRecord>();
+
+  // One sequence per table, like SERIAL
+  const sequences = {
+    users: 0,
+    quizResponses: 0,
+    orders: 0,
+    pdfDownloads: 0,
+    webhookEvents: 0,
+    promotions: 0,
+    promotionRedemptions: 0,
+    invoices: 0,
+    emailLogs: 0,
+  };
+  const nextId = (table: keyof typeof sequences) => String(++sequences[table]);
+
+  // Copies so callers can't mutate stored rows, matching what a query returns
+  const newestFirst = <T extends { id?: string }>(rows: Iterable<T>): T[] =>
+    Array.from(rows, (row) => ({ ...row })).sort(
+      (a, b) => Number(b.id) - Number(a.id),
+    );
+  const paginate = <T>(rows: T[], { limit, offset }: Page) =>
+    rows.slice(offset, offset + limit);
+  const copy = <T>(row: T | undefined) => (row ? { ...row } : undefined);
+
+  const findUserByEmail = (email: string) => {
+    const normalized = email.toLowerCase();
+    return Array.from(users.values()).find(
+      (u) => u.email.toLowerCase() === normalized,
+    );
+  };
+
+  const insertUser = (profile: NewUser & { passwordHash?: string }) => {
+    // Buyers may not have given a name/age/gender - those stay unset, as in Postgres
+    const user = {
+      ...profile,
+      id: nextId("users"),
+      createdAt: new Date().toISOString(),
+      hasUploadedDNA: false,
+      subscription: "free",
+      language: "en",
+    } as UserRecord;
+    users.set(user.id, user);
+    return user;
+  };
+
+  const setPaymentStatus = (
+    order: OrderRecord,
+    status: PaymentStatus,
+    paymentId?: string,
+  ) => {
+    const updated: OrderRecord = {
+      ...order,
+      paymentStatus: status,
+      gatewayPaymentId: paymentId ?? order.gatewayPaymentId,
+      completedAt:
+        status === "completed" ? new Date().toISOString() : order.completedAt,
+    };
+    orders.set(order.id, updated);
+    return { ...updated };
+  };
+
+  const findQuizResponse = (analysisId: string) =>
+    Array.from(quizResponses.values()).find((q) => q.analysisId === analysisId);
+
+  const findPromotionByCode = (code: string) => {
+    const normalized = code.toUpperCase();
+    return Array.from(promotions.values()).find((p) => p.code === normalized);
+  };
+  const copyPromotion = (promotion: PromotionRecord | undefined) =>
+    promotion && { ...promotion, appliesTo: [...promotion.appliesTo] };
+
+  const findInvoiceByOrder = (orderId: string) =>
+    Array.from(invoices.values()).find((i) => i.orderId === orderId);
+  const copyInvoice = (invoice: InvoiceRecord | undefined) =>
+    invoice && {
+      ...invoice,
+      lines: invoice.lines.map((line) => ({ ...line })),
+    };
+
+  const newestPDFsWhere = (predicate: (pdf: StoredPDFRecord) => boolean) =>
+    Array.from(pdfRecords.values())
+      .filter(predicate)
+      .map((pdf) => ({ ...pdf, addOns: [...pdf.addOns] }))
+      .sort(
+        (a, b) =>
+          new Date(b.generatedAt).getTime() - new Date(a.generatedAt).getTime(),
+      );
+
+  return {
+    users: {
+      async findById(id) {
+        return copy(users.get(id));
+      },
+      async findByEmail(email) {
+        return copy(findUserByEmail(email));
+      },
+      async create(account) {
+        const existing = findUserByEmail(account.email);
+        if (existing?.passwordHash) throw new EmailTakenError(account.email);
+        if (!existing) return copy(insertUser(account))!;
+
+        const claimed = {
+          ...existing,
+          ...account,
+          email: existing.email,
+          phone: account.phone ?? existing.phone,
+        };
+        users.set(existing.id, claimed);
+        return { ...claimed };
+      },
+      async findOrCreate(profile) {
+        return copy(findUserByEmail(profile.email) || insertUser(profile))!;
+      },
+      async update(id, changes) {
+        const user = users.get(id);
+        if (!user) return undefined;
+
+        const updated = { ...user };
+        for (const [key, value] of Object.entries(changes)) {
+          if (value !== undefined) (updated as any)[key] = value;
+        }
+        users.set(id, updated);
+        return { ...updated };
+      },
+      async list(page) {
+        return paginate(newestFirst(users.values()), page);
+      },
+      async count() {
+        return users.size;
+      },
+    },
+
+    quizResponses: {
+      async save(response) {
+        if (!users.has(response.userId)) {
+          throw new Error(`User ${response.userId} not found`);
+        }
+
+        const existing = findQuizResponse(response.analysisId);
+        const saved: QuizResponseRecord = existing
+          ? {
+              ...existing,
+              quizData: response.quizData,
+              personalizationData: response.personalizationData,
+            }
+          : {
+              ...response,
+              id: nextId("quizResponses"),
+              createdAt: new Date().toISOString(),
+            };
+        quizResponses.set(saved.id, saved);
+        return { ...saved };
+      },
+      async findByAnalysisId(analysisId) {
+        return copy(findQuizResponse(analysisId));
+      },
+      async listByUser(userId) {
+        return newestFirst(quizResponses.values()).filter(
+          (q) => q.userId === userId,
+        );
+      },
+      async list(page) {
+        return paginate(newestFirst(quizResponses.values()), page);
+      },
+      async count() {
+        return quizResponses.size;
+      },
+    },
+
+    orders: {
+      async create(order) {
+        if (!users.has(order.userId)) {
+          throw new Error(`User ${order.userId} not found`);
+        }
+        if (!findQuizResponse(order.analysisId)) {
+          throw new Error(`Analysis ${order.analysisId} not found`);
+        }
+
+        const stored: OrderRecord = {
+          ...order,
+          addOns: [...order.addOns],
+          id: nextId("orders"),
+          paymentStatus: "pending",
+          createdAt: new Date().toISOString(),
+        };
+        orders.set(stored.id, stored);
+        return { ...stored };
+      },
+      async findById(id) {
+        return copy(orders.get(id));
+      },
+      async findByPaymentIntent(gateway, intentId) {
+        return copy(
+          Array.from(orders.values()).find(
+            (o) =>
+              o.paymentGateway === gateway && o.paymentIntentId === intentId,
+          ),
+        );
+      },
+      async listByUser(userId) {
+        return newestFirst(orders.values()).filter((o) => o.userId === userId);
+      },
+      async listByAnalysisId(analysisId) {
+        return newestFirst(orders.values()).filter(
+          (o) => o.analysisId === analysisId,
+        );
+      },
+      async list({ status, ...page }) {
+        return paginate(
+          newestFirst(orders.values()).filter(
+            (o) => !status || o.paymentStatus === status,
+          ),
+          page,
+        );
+      },
+      async count(status) {
+        return Array.from(orders.values()).filter(
+          (o) => !status || o.paymentStatus === status,
+        ).length;
+      },
+      async revenue() {
+        return Array.from(orders.values())
+          .filter((o) => o.paymentStatus === "completed")
+          .reduce((sum, o) => sum + o.totalPrice, 0);
+      },
+      async attachPaymentIntent(id, gateway, intentId) {
+        const order = orders.get(id);
+        if (order) {
+          orders.set(id, {
+            ...order,
+            paymentGateway: gateway,
+            paymentIntentId: intentId,
+          });
+        }
+      },
+      async updatePaymentStatus(id, status, paymentId) {
+        const order = orders.get(id);
+        if (!order) return undefined;
+        return setPaymentStatus(order, status, paymentId);
+      },
+      async settlePayment(id, status, paymentId) {
+        const order = orders.get(id);
+        if (!order || !SETTLEABLE_STATUSES.includes(order.paymentStatus)) {
+          return undefined;
+        }
+        return setPaymentStatus(order, status, paymentId);
+      },
+      async claimConfirmation(id) {
+        const order = orders.get(id);
+        if (
+          !order ||
+          order.paymentStatus !== "completed" ||
+          order.confirmationSentAt
+        ) {
+          return undefined;
+        }
+
+        const claimed = {
+          ...order,
+          confirmationSentAt: new Date().toISOString(),
+        };
+        orders.set(id, claimed);
+        return { ...claimed };
+      },
+      async releaseConfirmation(id) {
+        const order = orders.get(id);
+        if (order) orders.set(id, { ...order, confirmationSentAt: undefined });
+      },
+      async attachPDF(id, pdfRecordId) {
+        const order = orders.get(id);
+        if (order) orders.set(id, { ...order, pdfRecordId });
+      },
+    },
+
+    pdfRecords: {
+      async create(record) {
+        if (!orders.has(record.orderId)) {
+          throw new Error(`Order ${record.orderId} not found`);
+        }
+
+        const stored = { ...record, addOns: [...record.addOns] };
+        pdfRecords.set(stored.pdfRecordId, stored);
+        return { ...stored, addOns: [...stored.addOns] };
+      },
+      async findById(pdfRecordId) {
+        return newestPDFsWhere((p) => p.pdfRecordId === pdfRecordId)[0];
+      },
+      async listByUser(userId) {
+        return newestPDFsWhere((p) => p.userId === userId);
+      },
+      async listByOrderId(orderId) {
+        return newestPDFsWhere((p) => p.orderId === orderId);
+      },
+      async listByAnalysisId(analysisId) {
+        return newestPDFsWhere((p) => p.analysisId === analysisId);
+      },
+      async listExpired(now) {
+        return newestPDFsWhere((p) => new Date(p.expiresAt) < now);
+      },
+      async delete(pdfRecordId) {
+        pdfRecords.delete(pdfRecordId);
+      },
+      async usageByTier() {
+        const usage: Record<string, PDFTierUsage> = {};
+        for (const pdf of pdfRecords.values()) {
+          const tier = (usage[pdf.planTier] ||= { count: 0, bytes: 0 });
+          tier.count++;
+          tier.bytes += pdf.fileSize;
+        }
+        return usage;
+      },
+    },
+
+    pdfDownloads: {
+      async record(entry) {
+        const stored: PDFDownloadRecord = {
+          ...entry,
+          id: nextId("pdfDownloads"),
+          accessedAt: new Date().toISOString(),
+        };
+        pdfDownloads.set(stored.id, stored);
+        return { ...stored };
+      },
+      async countGranted(linkId) {
+        return Array.from(pdfDownloads.values()).filter(
+          (d) => d.linkId === linkId && d.outcome === "granted",
+        ).length;
+      },
+      async listByPDF(pdfRecordId) {
+        return newestFirst(pdfDownloads.values()).filter(
+          (d) => d.pdfRecordId === pdfRecordId,
+        );
+      },
+    },
+
+    webhookEvents: {
+      async claim(event) {
+        const key = `${event.provider}:${event.eventId}`;
+        if (webhookEvents.has(key)) return undefined;
+
+        const stored: WebhookEventRecord = {
+          ...event,
+          id: nextId("webhookEvents"),
+          receivedAt: new Date().toISOString(),
+        };
+        webhookEvents.set(key, stored);
+        return { ...stored };
+      },
+      async release(id) {
+        for (const [key, event] of webhookEvents) {
+          if (event.id === id) webhookEvents.delete(key);
+        }
+      },
+      async find(provider, eventId) {
+        return copy(webhookEvents.get(`${provider}:${eventId}`));
+      },
+    },
+
+    promotions: {
+      async create(promotion) {
+        const code = promotion.code.toUpperCase();
+        if (findPromotionByCode(code)) throw new PromotionCodeTakenError(code);
+
+        const stored: PromotionRecord = {
+          ...promotion,
+          code,
+          appliesTo: [...promotion.appliesTo],
+          id: nextId("promotions"),
+          createdAt: new Date().toISOString(),
+        };
+        promotions.set(stored.id, stored);
+        return copyPromotion(stored)!;
+      },
+      async findById(id) {
+        return copyPromotion(promotions.get(id));
+      },
+      async findByCode(code) {
+        return copyPromotion(findPromotionByCode(code));
+      },
+      async list() {
+        return newestFirst(promotions.values()).map(copyPromotion);
+      },
+      async setActive(id, active) {
+        const promotion = promotions.get(id);
+        if (!promotion) return undefined;
+
+        const updated = { ...promotion, active };
+        promotions.set(id, updated);
+        return copyPromotion(updated);
+      },
+    },
+
+    promotionRedemptions: {
+      async record(redemption) {
+        if (!promotions.has(redemption.promotionId)) {
+          throw new Error(`Promotion ${redemption.promotionId} not found`);
+        }
+        if (!orders.has(redemption.orderId)) {
+          throw new Error(`Order ${redemption.orderId} not found`);
+        }
+        if (
+          Array.from(promotionRedemptions.values()).some(
+            (r) => r.orderId === redemption.orderId,
+          )
+        ) {
+          throw new Error(
+            `Order ${redemption.orderId} already has a promotion`,
+          );
+        }
+
+        const stored: PromotionRedemptionRecord = {
+          ...redemption,
+          id: nextId("promotionRedemptions"),
+          createdAt: new Date().toISOString(),
+        };
+        promotionRedemptions.set(stored.id, stored);
+        return { ...stored };
+      },
+      async findByOrder(orderId) {
+        return copy(
+          Array.from(promotionRedemptions.values()).find(
+            (r) => r.orderId === orderId,
+          ),
+        );
+      },
+      async countHeld(promotionId, { userId, pendingSince }) {
+        return Array.from(promotionRedemptions.values()).filter((r) => {
+          const order = orders.get(r.orderId);
+          return (
+            r.promotionId === promotionId &&
+            (!userId || r.userId === userId) &&
+            (order?.paymentStatus === "completed" ||
+              (order?.paymentStatus === "pending" &&
+                new Date(order.createdAt) > pendingSince))
+          );
+        }).length;
+      },
+      async performance() {
+        const totals: Record<string, PromotionPerformance> = {};
+        for (const redemption of promotionRedemptions.values()) {
+          const order = orders.get(redemption.orderId);
+          const entry = (totals[redemption.promotionId] ||= {
+            redemptions: 0,
+            pendingRedemptions: 0,
+            discountGiven: 0,
+            revenue: 0,
+          });
+          if (order?.paymentStatus === "completed") {
+            entry.redemptions++;
+            entry.discountGiven += redemption.discount;
+            entry.revenue += order.totalPrice;
+          } else if (order?.paymentStatus === "pending") {
+            entry.pendingRedemptions++;
+          }
+        }
+        return totals;
+      },
+    },
+
+    invoices: {
+      async issue(invoice) {
+        if (!orders.has(invoice.orderId)) {
+          throw new Error(`Order ${invoice.orderId} not found`);
+        }
+        const existing = findInvoiceByOrder(invoice.orderId);
+        if (existing) return copyInvoice(existing)!;
+
+        const sequence =
+          Math.max(
+            0,
+            ...Array.from(invoices.values())
+              .filter((i) => i.financialYear === invoice.financialYear)
+              .map((i) => i.sequence),
+          ) + 1;
+        const stored: InvoiceRecord = {
+          ...invoice,
+          lines: invoice.lines.map((line) => ({ ...line })),
+          id: nextId("invoices"),
+          sequence,
+          issuedAt: new Date().toISOString(),
+        };
+        invoices.set(stored.id, stored);
+        return copyInvoice(stored)!;
+      },
+      async findByOrder(orderId) {
+        return copyInvoice(findInvoiceByOrder(orderId));
+      },
+    },
+
+    emailLogs: {
+      async create(log) {
+        if (!users.has(log.userId)) {
+          throw new Error(`User ${log.userId} not found`);
+        }
+
+        const stored: EmailLogRecord = {
+          ...log,
+          id: nextId("emailLogs"),
+          status: "pending",
+          createdAt: new Date().toISOString(),
+        };
+        emailLogs.set(stored.id, stored);
+        return { ...stored };
+      },
+      async updateStatus(id, status, errorMessage) {
+        const log = emailLogs.get(id);
+        if (!log) return;
+
+        emailLogs.set(id, {
+          ...log,
+          status,
+          errorMessage,
+          sentAt: status === "sent" ? new Date().toISOString() : log.sentAt,
+        });
+      },
+      async list(page) {
+        return paginate(newestFirst(emailLogs.values()), page);
+      },
+      async count() {
+        return emailLogs.size;
+      },
+      async countByStatus() {
+        const counts: Record<string, number> = {};
+        for (const log of emailLogs.values()) {
+          counts[log.status] = (counts[log.status] || 0) + 1;
+        }
+        return counts;
+      },
+    },
+  };
+}
+
+// ==========================================
+// POSTGRES BACKEND
+// ==========================================
+
+// SERIAL ids - anything else can't match a row (and would make Postgres throw)
+const isSerialId = (id: string) => /^\d+$/.test(id);
+
+const toISO = (value: any) =>
+  value ? new Date(value).toISOString() : undefined;
+
+const rowToUser = (row: any): UserRecord => ({
+  id: String(row.id),
+  email: row.email,
+  name: row.name,
+  phone: row.phone || undefined,
+  age: row.age,
+  gender: row.gender,
+  createdAt: toISO(row.created_at)!,
+  hasUploadedDNA: !!row.has_uploaded_dna,
+  subscription: row.subscription || "free",
+  language: row.language || "en",
+  passwordHash: row.password_hash || undefined,
+});
+
+const rowToQuizResponse = (row: any): QuizResponseRecord => ({
+  id: String(row.id),
+  userId: String(row.user_id),
+  analysisId: row.analysis_id,
+  quizData: row.quiz_data,
+  personalizationData: row.personalization_data,
+  createdAt: toISO(row.created_at)!,
+});
+
+const rowToOrder = (row: any): OrderRecord => ({
+  id: String(row.id),
+  userId: String(row.user_id),
+  analysisId: row.analysis_id,
+  planId: row.plan_id,
+  addOns: row.add_ons || [],
+  totalPrice: Number(row.total_price),
+  paymentStatus: row.payment_status,
+  paymentGateway: row.payment_gateway || undefined,
+  paymentIntentId: row.payment_intent_id || undefined,
+  gatewayPaymentId: row.gateway_payment_id || undefined,
+  pdfRecordId: row.pdf_record_id || undefined,
+  billingState: row.billing_state || undefined,
+  billingGstin: row.billing_gstin || undefined,
+  billingName: row.billing_name || undefined,
+  createdAt: toISO(row.created_at)!,
+  completedAt: toISO(row.completed_at),
+  confirmationSentAt: toISO(row.confirmation_sent_at),
+});
+
+const rowToPDFRecord = (row: any): StoredPDFRecord => ({
+  pdfRecordId: row.id,
+  orderId: String(row.order_id),
+  analysisId: row.analysis_id,
+  userId: String(row.user_id),
+  filename: row.filename,
+  planTier: row.plan_tier,
+  addOns: row.add_ons || [],
+  userName: row.user_name,
+  generatedAt: toISO(row.generated_at)!,
+  fileSize: Number(row.file_size),
+  expiresAt: toISO(row.expires_at)!,
+});
+
+const rowToPDFDownload = (row: any): PDFDownloadRecord => ({
+  id: String(row.id),
+  pdfRecordId: row.pdf_record_id,
+  linkId: row.link_id || undefined,
+  userId: row.user_id || undefined,
+  outcome: row.outcome,
+  ipAddress: row.ip_address || undefined,
+  userAgent: row.user_agent || undefined,
+  accessedAt: toISO(row.accessed_at)!,
+});
+
+const rowToWebhookEvent = (row: any): WebhookEventRecord => ({
+  id: String(row.id),
+  provider: row.provider,
+  eventId: row.event_id,
+  status: row.status,
+  orderId: row.order_id || undefined,
+  receivedAt: toISO(row.received_at)!,
+});
+
+const rowToPromotion = (row: any): PromotionRecord => ({
+  id: String(row.id),
+  code: row.code,
+  description: row.description,
+  kind: row.kind,
+  value: Number(row.value),
+  appliesTo: row.applies_to || [],
+  startsAt: toISO(row.starts_at),
+  endsAt: toISO(row.ends_at),
+  maxRedemptions: row.max_redemptions ?? undefined,
+  maxRedemptionsPerUser: row.max_redemptions_per_user ?? undefined,
+  firstPurchaseOnly: !!row.first_purchase_only,
+  active: !!row.active,
+  createdAt: toISO(row.created_at)!,
+});
+
+const rowToPromotionRedemption = (row: any): PromotionRedemptionRecord => ({
+  id: String(row.id),
+  promotionId: String(row.promotion_id),
+  orderId: String(row.order_id),
+  userId: String(row.user_id),
+  discount: Number(row.discount),
+  createdAt: toISO(row.created_at)!,
+});
+
+const rowToInvoice = (row: any): InvoiceRecord => ({
+  id: String(row.id),
+  orderId: String(row.order_id),
+  userId: String(row.user_id),
+  financialYear: row.financial_year,
+  sequence: Number(row.sequence),
+  sellerName: row.seller_name,
+  sellerAddress: row.seller_address,
+  sellerGstin: row.seller_gstin || undefined,
+  sellerState: row.seller_state,
+  buyerName: row.buyer_name,
+  buyerEmail: row.buyer_email,
+  buyerGstin: row.buyer_gstin || undefined,
+  placeOfSupply: row.place_of_supply,
+  lines: row.lines,
+  discount: Number(row.discount),
+  taxableValue: Number(row.taxable_value),
+  gstRate: Number(row.gst_rate),
+  cgst: Number(row.cgst),
+  sgst: Number(row.sgst),
+  igst: Number(row.igst),
+  total: Number(row.total),
+  issuedAt: toISO(row.issued_at)!,
+});
+
+const rowToEmailLog = (row: any): EmailLogRecord => ({
+  id: String(row.id),
+  userId: String(row.user_id),
+  orderId: row.purchase_id ? String(row.purchase_id) : undefined,
+  emailType: row.email_type,
+  recipientEmail: row.recipient_email,
+  subject: row.subject,
+  status: row.status,
+  errorMessage: row.error_message || undefined,
+  sentAt: toISO(row.sent_at),
+  createdAt: toISO(row.created_at)!,
+});
+
+export function createPostgresRepository(
+  db: Queryable = { query },
+): Repository {
+  const one = async <T>(
+    map: (row: any) => T,
+    text: string,
+    params?: any[],
+  ): Promise<T | undefined> => {
+    const result = await db.query(text, params);
+    return result.rows[0] ? map(result.rows[0]) : undefined;
+  };
+  const many = async <T>(
+    map: (row: any) => T,
+    text: string,
+    params?: any[],
+  ): Promise<T[]> => (await db.query(text, params)).rows.map(map);
+  const count = async (text: string, params?: any[]) =>
+    (await db.query(text, params)).rows[0].count as number;
+
+  const findInvoiceByOrder = (orderId: string) =>
+    one(rowToInvoice, "SELECT * FROM invoices WHERE order_id = $1", [
+      Number(orderId),
+    ]);
+
+  const findUserByEmail = (email: string) =>
+    one(rowToUser, "SELECT * FROM users WHERE LOWER(email) = LOWER($1)", [
+      email,
+    ]);
+
+  return {
+    users: {
+      async findById(id) {
+        if (!isSerialId(id)) return undefined;
+        return one(rowToUser, "SELECT * FROM users WHERE id = $1", [
+          Number(id),
+        ]);
+      },
+      findByEmail: findUserByEmail,
+      async create({ email, name, phone, age, gender, passwordHash }) {
+        const existing = await findUserByEmail(email);
+        if (existing?.passwordHash) throw new EmailTakenError(email);
+
+        if (existing) {
+          // Checkout creates password-less rows for buyers; registering claims that row
+          const claimed = await one(
+            rowToUser,
+            `UPDATE users SET name = $2, phone = COALESCE($3, phone), age = $4, gender = $5,
+               password_hash = $6, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 AND password_hash IS NULL RETURNING *`,
+            [Number(existing.id), name, phone, age, gender, passwordHash],
+          );
+          if (!claimed) throw new EmailTakenError(email);
+          return claimed;
+        }
+
+        try {
+          return (await one(
+            rowToUser,
+            "INSERT INTO users (email, name, phone, age, gender, password_hash) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *",
+            [email, name, phone, age, gender, passwordHash],
+          ))!;
+        } catch (error: any) {
+          if (error?.code === "23505") throw new EmailTakenError(email);
+          throw error;
+        }
+      },
+      async findOrCreate({ email, name, phone, age, gender }) {
+        const existing = await findUserByEmail(email);
+        if (existing) return existing;
+
+        const created = await one(
+          rowToUser,
+          "INSERT INTO users (email, name, phone, age, gender) VALUES ($1, $2, $3, $4, $5) ON CONFLICT (email) DO NOTHING RETURNING *",
+          [email, name, phone, age, gender],
+        );
+        return created || (await findUserByEmail(email))!;
+      },
+      async update(id, changes) {
+        if (!isSerialId(id)) return undefined;
+        return one(
+          rowToUser,
+          `UPDATE users SET name = COALESCE($2, name), phone = COALESCE($3, phone), age = COALESCE($4, age),
+             gender = COALESCE($5, gender), has_uploaded_dna = COALESCE($6, has_uploaded_dna),
+             subscription = COALESCE($7, subscription), language = COALESCE($8, language),
+             updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1 RETURNING *`,
+          [
+            Number(id),
+            changes.name,
+            changes.phone,
+            changes.age,
+            changes.gender,
+            changes.hasUploadedDNA,
+            changes.subscription,
+            changes.language,
+          ],
+        );
+      },
+      async list({ limit, offset }) {
+        return many(
+          rowToUser,
+          "SELECT * FROM users ORDER BY id DESC LIMIT $1 OFFSET $2",
+          [limit, offset],
+        );
+      },
+      async count() {
+        return count("SELECT COUNT(*)::int AS count FROM users");
+      },
+    },
+
+    quizResponses: {
+      async save({ userId, analysisId, quizData, personalizationData }) {
+        return (await one(
+          rowToQuizResponse,
+          `INSERT INTO quiz_responses (user_id, analysis_id, quiz_data, personalization_data) VALUES ($1, $2, $3, $4)
+           ON CONFLICT (analysis_id) DO UPDATE SET
+             quiz_data = EXCLUDED.quiz_data, personalization_data = EXCLUDED.personalization_data,
+             updated_at = CURRENT_TIMESTAMP
+           RETURNING *`,
+          [
+            Number(userId),
+            analysisId,
+            JSON.stringify(quizData),
+            JSON.stringify(personalizationData),
+          ],
+        ))!;
+      },
+      async findByAnalysisId(analysisId) {
+        return one(
+          rowToQuizResponse,
+          "SELECT * FROM quiz_responses WHERE analysis_id = $1",
+          [analysisId],
+        );
+      },
+      async listByUser(userId) {
+        if (!isSerialId(userId)) return [];
+        return many(
+          rowToQuizResponse,
+          "SELECT * FROM quiz_responses WHERE user_id = $1 ORDER BY id DESC",
+          [Number(userId)],
+        );
+      },
+      async list({ limit, offset }) {
+        return many(
+          rowToQuizResponse,
+          "SELECT * FROM quiz_responses ORDER BY id DESC LIMIT $1 OFFSET $2",
+          [limit, offset],
+        );
+      },
+      async count() {
+        return count("SELECT COUNT(*)::int AS count FROM quiz_responses");
+      },
+    },
+
+    orders: {
+      async create(order) {
+        return (await one(
+          rowToOrder,
+          `INSERT INTO orders (user_id, analysis_id, plan_id, add_ons, total_price, billing_state, billing_gstin, billing_name)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+          [
+            Number(order.userId),
+            order.analysisId,
+            order.planId,
+            order.addOns,
+            order.totalPrice,
+            order.billingState,
+            order.billingGstin,
+            order.billingName,
+          ],
+        ))!;
+      },
+      async findById(id) {
+        if (!isSerialId(id)) return undefined;
+        return one(rowToOrder, "SELECT * FROM orders WHERE id = $1", [
+          Number(id),
+        ]);
+      },
+      async findByPaymentIntent(gateway, intentId) {
+        return one(
+          rowToOrder,
+          "SELECT * FROM orders WHERE payment_gateway = $1 AND payment_intent_id = $2",
+          [gateway, intentId],
+        );
+      },
+      async listByUser(userId) {
+        if (!isSerialId(userId)) return [];
+        return many(
+          rowToOrder,
+          "SELECT * FROM orders WHERE user_id = $1 ORDER BY id DESC",
+          [Number(userId)],
+        );
+      },
+      async listByAnalysisId(analysisId) {
+        return many(
+          rowToOrder,
+          "SELECT * FROM orders WHERE analysis_id = $1 ORDER BY id DESC",
+          [analysisId],
+        );
+      },
+      async list({ status, limit, offset }) {
+        return status
+          ? many(
+              rowToOrder,
+              "SELECT * FROM orders WHERE payment_status = $1 ORDER BY id DESC LIMIT $2 OFFSET $3",
+              [status, limit, offset],
+            )
+          : many(
+              rowToOrder,
+              "SELECT * FROM orders ORDER BY id DESC LIMIT $1 OFFSET $2",
+              [limit, offset],
+            );
+      },
+      async count(status) {
+        return status
+          ? count(
+              "SELECT COUNT(*)::int AS count FROM orders WHERE payment_status = $1",
+              [status],
+            )
+          : count("SELECT COUNT(*)::int AS count FROM orders");
+      },
+      async revenue() {
+        const result = await db.query(
+          "SELECT COALESCE(SUM(total_price), 0) AS total FROM orders WHERE payment_status = 'completed'",
+        );
+        return Number(result.rows[0].total);
+      },
+      async attachPaymentIntent(id, gateway, intentId) {
+        if (!isSerialId(id)) return;
+        await db.query(
+          "UPDATE orders SET payment_gateway = $2, payment_intent_id = $3 WHERE id = $1",
+          [Number(id), gateway, intentId],
+        );
+      },
+      async updatePaymentStatus(id, status, paymentId) {
+        if (!isSerialId(id)) return undefined;
+        return one(
+          rowToOrder,
+          `UPDATE orders SET payment_status = $2, gateway_payment_id = COALESCE($3, gateway_payment_id),
+             completed_at = CASE WHEN $2 = 'completed' THEN CURRENT_TIMESTAMP ELSE completed_at END
+           WHERE id = $1 RETURNING *`,
+          [Number(id), status, paymentId],
+        );
+      },
+      async settlePayment(id, status, paymentId) {
+        if (!isSerialId(id)) return undefined;
+        return one(
+          rowToOrder,
+          `UPDATE orders SET payment_status = $2, gateway_payment_id = COALESCE($3, gateway_payment_id),
+             completed_at = CASE WHEN $2 = 'completed' THEN CURRENT_TIMESTAMP ELSE completed_at END
+           WHERE id = $1 AND payment_status IN ('pending', 'failed') RETURNING *`,
+          [Number(id), status, paymentId],
+        );
+      },
+      async claimConfirmation(id) {
+        if (!isSerialId(id)) return undefined;
+        return one(
+          rowToOrder,
+          `UPDATE orders SET confirmation_sent_at = CURRENT_TIMESTAMP
+           WHERE id = $1 AND payment_status = 'completed' AND confirmation_sent_at IS NULL RETURNING *`,
+          [Number(id)],
+        );
+      },
+      async releaseConfirmation(id) {
+        if (!isSerialId(id)) return;
+        await db.query(
+          "UPDATE orders SET confirmation_sent_at = NULL WHERE id = $1",
+          [Number(id)],
+        );
+      },
+      async attachPDF(id, pdfRecordId) {
+        if (!isSerialId(id)) return;
+        await db.query("UPDATE orders SET pdf_record_id = $2 WHERE id = $1", [
+          Number(id),
+          pdfRecordId,
+        ]);
+      },
+    },
+
+    pdfRecords: {
+      async create(record) {
+        if (!isSerialId(record.orderId)) {
+          throw new Error(`Order ${record.orderId} not found`);
+        }
+        return (await one(
+          rowToPDFRecord,
+          `INSERT INTO pdf_records (id, order_id, analysis_id, user_id, filename, plan_tier, add_ons, user_name,
+             file_size, generated_at, expires_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+          [
+            record.pdfRecordId,
+            Number(record.orderId),
+            record.analysisId,
+            Number(record.userId),
+            record.filename,
+            record.planTier,
+            record.addOns,
+            record.userName,
+            record.fileSize,
+            record.generatedAt,
+            record.expiresAt,
+          ],
+        ))!;
+      },
+      async findById(pdfRecordId) {
+        return one(rowToPDFRecord, "SELECT * FROM pdf_records WHERE id = $1", [
+          pdfRecordId,
+        ]);
+      },
+      async listByUser(userId) {
+        if (!isSerialId(userId)) return [];
+        return many(
+          rowToPDFRecord,
+          "SELECT * FROM pdf_records WHERE user_id = $1 ORDER BY generated_at DESC",
+          [Number(userId)],
+        );
+      },
+      async listByOrderId(orderId) {
+        if (!isSerialId(orderId)) return [];
+        return many(
+          rowToPDFRecord,
+          "SELECT * FROM pdf_records WHERE order_id = $1 ORDER BY generated_at DESC",
+          [Number(orderId)],
+        );
+      },
+      async listByAnalysisId(analysisId) {
+        return many(
+          rowToPDFRecord,
+          "SELECT * FROM pdf_records WHERE analysis_id = $1 ORDER BY generated_at DESC",
+          [analysisId],
+        );
+      },
+      async listExpired(now) {
+        return many(
+          rowToPDFRecord,
+          "SELECT * FROM pdf_records WHERE expires_at < $1 ORDER BY generated_at DESC",
+          [now.toISOString()],
+        );
+      },
+      async delete(pdfRecordId) {
+        await db.query("DELETE FROM pdf_records WHERE id = $1", [pdfRecordId]);
+      },
+      async usageByTier() {
+        const result = await db.query(
+          "SELECT plan_tier, COUNT(*)::int AS count, COALESCE(SUM(file_size), 0)::int AS bytes FROM pdf_records GROUP BY plan_tier",
+        );
+        return Object.fromEntries(
+          result.rows.map((row: any) => [
+            row.plan_tier,
+            { count: row.count, bytes: Number(row.bytes) },
+          ]),
+        );
+      },
+    },
+
+    pdfDownloads: {
+      async record({
+        pdfRecordId,
+        linkId,
+        userId,
+        outcome,
+        ipAddress,
+        userAgent,
+      }) {
+        return (await one(
+          rowToPDFDownload,
+          `INSERT INTO pdf_download_log (pdf_record_id, link_id, user_id, outcome, ip_address, user_agent)
+           VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+          [pdfRecordId, linkId, userId, outcome, ipAddress, userAgent],
+        ))!;
+      },
+      async countGranted(linkId) {
+        return count(
+          "SELECT COUNT(*)::int AS count FROM pdf_download_log WHERE link_id = $1 AND outcome = 'granted'",
+          [linkId],
+        );
+      },
+      async listByPDF(pdfRecordId) {
+        return many(
+          rowToPDFDownload,
+          "SELECT * FROM pdf_download_log WHERE pdf_record_id = $1 ORDER BY id DESC",
+          [pdfRecordId],
+        );
+      },
+    },
+
+    webhookEvents: {
+      async claim({ provider, eventId, status, orderId }) {
+        // Concurrent deliveries race on the unique key - only one insert succeeds
+        try {
+          return await one(
+            rowToWebhookEvent,
+            "INSERT INTO payment_webhook_events (provider, event_id, status, order_id) VALUES ($1, $2, $3, $4) RETURNING *",
+            [provider, eventId, status, orderId],
+          );
+        } catch (error: any) {
+          if (error?.code === "23505") return undefined;
+          throw error;
+        }
+      },
+      async release(id) {
+        if (!isSerialId(id)) return;
+        await db.query("DELETE FROM payment_webhook_events WHERE id = $1", [
+          Number(id),
+        ]);
+      },
+      async find(provider, eventId) {
+        return one(
+          rowToWebhookEvent,
+          "SELECT * FROM payment_webhook_events WHERE provider = $1 AND event_id = $2",
+          [provider, eventId],
+        );
+      },
+    },
+
+    promotions: {
+      async create(promotion) {
+        const code = promotion.code.toUpperCase();
+        try {
+          return (await one(
+            rowToPromotion,
+            `INSERT INTO promotions (code, description, kind, value, applies_to, starts_at, ends_at, max_redemptions,
+               max_redemptions_per_user, first_purchase_only, active)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+            [
+              code,
+              promotion.description,
+              promotion.kind,
+              promotion.value,
+              promotion.appliesTo,
+              promotion.startsAt,
+              promotion.endsAt,
+              promotion.maxRedemptions,
+              promotion.maxRedemptionsPerUser,
+              promotion.firstPurchaseOnly,
+              promotion.active,
+            ],
+          ))!;
+        } catch (error: any) {
+          if (error?.code === "23505") throw new PromotionCodeTakenError(code);
+          throw error;
+        }
+      },
+      async findById(id) {
+        if (!isSerialId(id)) return undefined;
+        return one(rowToPromotion, "SELECT * FROM promotions WHERE id = $1", [
+          Number(id),
+        ]);
+      },
+      async findByCode(code) {
+        return one(rowToPromotion, "SELECT * FROM promotions WHERE code = $1", [
+          code.toUpperCase(),
+        ]);
+      },
+      async list() {
+        return many(
+          rowToPromotion,
+          "SELECT * FROM promotions ORDER BY id DESC",
+        );
+      },
+      async setActive(id, active) {
+        if (!isSerialId(id)) return undefined;
+        return one(
+          rowToPromotion,
+          "UPDATE promotions SET active = $2 WHERE id = $1 RETURNING *",
+          [Number(id), active],
+        );
+      },
+    },
+
+    promotionRedemptions: {
+      async record({ promotionId, orderId, userId, discount }) {
+        return (await one(
+          rowToPromotionRedemption,
+          "INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, discount) VALUES ($1, $2, $3, $4) RETURNING *",
+          [Number(promotionId), Number(orderId), Number(userId), discount],
+        ))!;
+      },
+      async findByOrder(orderId) {
+        if (!isSerialId(orderId)) return undefined;
+        return one(
+          rowToPromotionRedemption,
+          "SELECT * FROM promotion_redemptions WHERE order_id = $1",
+          [Number(orderId)],
+        );
+      },
+      async countHeld(promotionId, { userId, pendingSince }) {
+        if (!isSerialId(promotionId)) return 0;
+        if (userId !== undefined && !isSerialId(userId)) return 0;
+
+        const held = `FROM promotion_redemptions r JOIN orders o ON o.id = r.order_id
+          WHERE r.promotion_id = $1
+            AND (o.payment_status = 'completed' OR (o.payment_status = 'pending' AND o.created_at > $2))`;
+        return userId
+          ? count(`SELECT COUNT(*)::int AS count ${held} AND r.user_id = $3`, [
+              Number(promotionId),
+              pendingSince.toISOString(),
+              Number(userId),
+            ])
+          : count(`SELECT COUNT(*)::int AS count ${held}`, [
+              Number(promotionId),
+              pendingSince.toISOString(),
+            ]);
+      },
+      async performance() {
+        const result = await db.query(
+          `SELECT r.promotion_id,
+             SUM(CASE WHEN o.payment_status = 'completed' THEN 1 ELSE 0 END)::int AS redemptions,
+             SUM(CASE WHEN o.payment_status = 'pending' THEN 1 ELSE 0 END)::int AS pending_redemptions,
+             COALESCE(SUM(CASE WHEN o.payment_status = 'completed' THEN r.discount ELSE 0 END), 0) AS discount_given,
+             COALESCE(SUM(CASE WHEN o.payment_status = 'completed' THEN o.total_price ELSE 0 END), 0) AS revenue
+           FROM promotion_redemptions r JOIN orders o ON o.id = r.order_id
+           GROUP BY r.promotion_id`,
+        );
+        return Object.fromEntries(
+          result.rows.map((row: any) => [
+            String(row.promotion_id),
+            {
+              redemptions: Number(row.redemptions),
+              pendingRedemptions: Number(row.pending_redemptions),
+              discountGiven: Number(row.discount_given),
+              revenue: Number(row.revenue),
+            },
+          ]),
+        );
+      },
+    },
+
+    invoices: {
+      async issue(invoice) {
+        if (!isSerialId(invoice.orderId)) {
+          throw new Error(`Order ${invoice.orderId} not found`);
+        }
+
+        // The number is taken in the insert itself. Two invoices racing for it collide on
+        // (financial_year, sequence), and the one that loses takes the next.
+        for (let attempt = 1; ; attempt++) {
+          try {
+            const issued = await one(
+              rowToInvoice,
+              `INSERT INTO invoices (order_id, user_id, financial_year, sequence, seller_name, seller_address,
+                 seller_gstin, seller_state, buyer_name, buyer_email, buyer_gstin, place_of_supply, lines,
+                 discount, taxable_value, gst_rate, cgst, sgst, igst, total)
+               SELECT $1::int, $2::int, $3, COALESCE(MAX(sequence), 0) + 1, $4, $5, $6, $7, $8, $9, $10, $11,
+                 $12::jsonb, $13::numeric, $14::numeric, $15::numeric, $16::numeric, $17::numeric, $18::numeric,
+                 $19::numeric
+               FROM invoices WHERE financial_year = $3
+               ON CONFLICT (order_id) DO NOTHING
+               RETURNING *`,
+              [
+                Number(invoice.orderId),
+                Number(invoice.userId),
+                invoice.financialYear,
+                invoice.sellerName,
+                invoice.sellerAddress,
+                invoice.sellerGstin,
+                invoice.sellerState,
+                invoice.buyerName,
+                invoice.buyerEmail,
+                invoice.buyerGstin,
+                invoice.placeOfSupply,
+                JSON.stringify(invoice.lines),
+                invoice.discount,
+                invoice.taxableValue,
+                invoice.gstRate,
+                invoice.cgst,
+                invoice.sgst,
+                invoice.igst,
+                invoice.total,
+              ],
+            );
+            return issued || (await findInvoiceByOrder(invoice.orderId))!;
+          } catch (error: any) {
+            if (error?.code !== "23505" || attempt >= 5) throw error;
+          }
+        }
+      },
+      async findByOrder(orderId) {
+        if (!isSerialId(orderId)) return undefined;
+        return findInvoiceByOrder(orderId);
+      },
+    },
+
+    emailLogs: {
+      async create({ userId, orderId, emailType, recipientEmail, subject }) {
+        return (await one(
+          rowToEmailLog,
+          "INSERT INTO email_logs (user_id, purchase_id, email_type, recipient_email, subject) VALUES ($1, $2, $3, $4, $5) RETURNING *",
+          [
+            Number(userId),
+            orderId ? Number(orderId) : null,
+            emailType,
+            recipientEmail,
+            subject,
+          ],
+        ))!;
+      },
+      async updateStatus(id, status, errorMessage) {
+        if (!isSerialId(id)) return;
+        await db.query(
+          "UPDATE email_logs SET status = $2, error_message = $3, sent_at = CASE WHEN $2 = 'sent' THEN CURRENT_TIMESTAMP ELSE sent_at END WHERE id = $1",
+          [Number(id), status, errorMessage],
+        );
+      },
+      async list({ limit, offset }) {
+        return many(
+          rowToEmailLog,
+          "SELECT * FROM email_logs ORDER BY id DESC LIMIT $1 OFFSET $2",
+          [limit, offset],
+        );
+      },
+      async count() {
+        return count("SELECT COUNT(*)::int AS count FROM email_logs");
+      },
+      async countByStatus() {
+        const result = await db.query(
+          "SELECT status, COUNT(*)::int AS count FROM email_logs GROUP BY status",
+        );
+        return Object.fromEntries(
+          result.rows.map((row: any) => [row.status, row.count]),
+        );
+      },
+    },
+  };
+}
+
+export const repository: Repository = isDatabaseConfigured()
+  ? createPostgresRepository()
+  : createMemoryRepository();
@@ -0,0 +1,108 @@
+// Minimal S3-compatible server for tests and local development
+// Handles path-style PUT/GET/DELETE (with single byte ranges) of objects in one bucket, kept in memory,
+// and rejects requests whose SigV4 signature doesn't match, like MinIO would.
+
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { S3BlobStoreOptions, signS3Request } from "./blob-store";
+
+export interface S3StandIn {
+  endpoint: string;
+  objects: Map<string, Buffer>;
+  close(): Promise<void>;
+}
+
+const parseAmzDate = (amzDate: string) =>
+  new Date(
+    amzDate.replace(
+      /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+      "$1-$2-$3T$4:$5:$6Z",
+    ),
+  );
+
+export async function startS3StandIn(
+  options: Omit<S3BlobStoreOptions, "endpoint">,
+): Promise<S3StandIn> {
+  const objects = new Map<string, Buffer>();
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+
+    const reply = (status: number, code?: string) => {
+      res.writeHead(status, { "Content-Type": "application/xml" });
+      res.end(code ? `<Error><Code>${code}</Code></Error>` : undefined);
+    };
+
+    const payloadHash = String(req.headers["x-amz-content-sha256"] || "");
+    const signedHeaders: Record<string, string> = {};
+    for (const name of ["content-type", "range"]) {
+      const value = req.headers[name];
+      if (typeof value === "string") signedHeaders[name] = value;
+    }
+    const expected = signS3Request(
+      {
+        method: req.method!,
+        url: `http://${req.headers.host}${req.url}`,
+        headers: signedHeaders,
+        payloadHash,
+      },
+      options,
+      parseAmzDate(String(req.headers["x-amz-date"] || "")),
+    );
+    if (
+      req.headers.authorization !== expected.authorization ||
+      crypto.createHash("sha256").update(body).digest("hex") !== payloadHash
+    ) {
+      return reply(403, "SignatureDoesNotMatch");
+    }
+
+    const [, bucket, ...keyParts] = new URL(
+      req.url!,
+      "http://s3",
+    ).pathname.split("/");
+    if (bucket !== options.bucket) return reply(404, "NoSuchBucket");
+    const key = keyParts.map(decodeURIComponent).join("/");
+
+    if (req.method === "PUT") {
+      objects.set(key, body);
+      return reply(200);
+    }
+    if (req.method === "GET") {
+      const object = objects.get(key);
+      if (!object) return reply(404, "NoSuchKey");
+
+      const range = /^bytes=(\d+)-(\d+)$/.exec(signedHeaders.range || "");
+      if (range) {
+        const start = Number(range[1]);
+        const end = Math.min(Number(range[2]), object.length - 1);
+        res.writeHead(206, {
+          "Content-Length": end - start + 1,
+          "Content-Range": `bytes ${start}-${end}/${object.length}`,
+        });
+        return res.end(object.subarray(start, end + 1));
+      }
+      res.writeHead(200, { "Content-Length": object.length });
+      return res.end(object);
+    }
+    if (req.method === "DELETE") {
+      objects.delete(key);
+      return reply(204);
+    }
+    reply(405, "MethodNotAllowed");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
@@ -18,14 +18,16 @@ export const SCIENTIFIC_EVIDENCE = {
     optimal_duration: {
       citations: [
         {
-          title: "Sleep Duration and Mortality: A Systematic Review and Meta-analysis",
+          title:
+            "Sleep Duration and Mortality: A Systematic Review and Meta-analysis",
           authors: "Cappuccio FP, et al.",
           year: 2010,
           doi: "10.1017/S1462399410000122",
           pmid: "20716101",
           url: "https://pubmed.ncbi.nlm.nih.gov/20716101",
           source: "Sleep Health",
-          snippet: "7-8 hours sleep duration associated with optimal mortality and health outcomes in adults",
+          snippet:
+            "7-8 hours sleep duration associated with optimal mortality and health outcomes in adults",
         },
         {
           title: "The Architecture of Sleep-Wake Regulation in the Aging Brain",
@@ -34,23 +36,27 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "29246573",
           url: "https://pubmed.ncbi.nlm.nih.gov/29246573",
           source: "Current Biology Reviews",
-          snippet: "Sleep architecture changes with age; consistency matters more than duration for aging adults",
+          snippet:
+            "Sleep architecture changes with age; consistency matters more than duration for aging adults",
         },
       ],
-      recommendation: "Adults should aim for 7-9 hours of continuous sleep for optimal health, recovery, and cognitive function",
+      recommendation:
+        "Adults should aim for 7-9 hours of continuous sleep for optimal health, recovery, and cognitive function",
     },
 
     sleep_hygiene: {
       citations: [
         {
-          title: "Cognitive Behavioral Therapy for Insomnia (CBT-I): A Systematic Review and Meta-analysis",
+          title:
+            "Cognitive Behavioral Therapy for Insomnia (CBT-I): A Systematic Review and Meta-analysis",
           authors: "Trauer JM, et al.",
           year: 2015,
           doi: "10.1186/s12916-015-0356-x",
           pmid: "25881257",
           url: "https://pubmed.ncbi.nlm.nih.gov/25881257",
           source: "BMC Medicine",
-          snippet: "Sleep hygiene practices including dark, cool environments and consistent schedules show 50%+ improvement in sleep quality",
+          snippet:
+            "Sleep hygiene practices including dark, cool environments and consistent schedules show 50%+ improvement in sleep quality",
         },
         {
           title: "Blue Light Exposure and Circadian Rhythm: A Meta-analysis",
@@ -59,23 +65,27 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "23866013",
           url: "https://pubmed.ncbi.nlm.nih.gov/23866013",
           source: "Journal of Adolescent Health",
-          snippet: "Blue light exposure from screens suppresses melatonin by 55-80%; avoid 60-90 minutes before bed",
+          snippet:
+            "Blue light exposure from screens suppresses melatonin by 55-80%; avoid 60-90 minutes before bed",
         },
       ],
-      recommendation: "Maintain consistent sleep schedule, keep room cool (65-68°F/18-20°C), dark, and quiet. Avoid screens 60-90 minutes before bed",
+      recommendation:
+        "Maintain consistent sleep schedule, keep room cool (65-68°F/18-20°C), dark, and quiet. Avoid screens 60-90 minutes before bed",
     },
 
     circadian_meal_timing: {
       citations: [
         {
-          title: "Time of Eating and Obesity: A Systematic Review and Meta-analysis",
+          title:
+            "Time of Eating and Obesity: A Systematic Review and Meta-analysis",
           authors: "Kahleova H, et al.",
           year: 2017,
           doi: "10.1186/s12884-017-1560-9",
           pmid: "28814309",
           url: "https://pubmed.ncbi.nlm.nih.gov/28814309",
           source: "Nutrients",
-          snippet: "Earlier eating times correlate with better weight management; large lunch and small dinner supports circadian rhythm",
+          snippet:
+            "Earlier eating times correlate with better weight management; large lunch and small dinner supports circadian rhythm",
         },
         {
           title: "Meal Timing and Glucose Homeostasis in Type 2 Diabetes",
@@ -84,10 +94,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "21617188",
           url: "https://pubmed.ncbi.nlm.nih.gov/21617188",
           source: "International Journal of Obesity",
-          snippet: "Front-loading calories earlier in day improves insulin sensitivity and glucose control",
+          snippet:
+            "Front-loading calories earlier in day improves insulin sensitivity and glucose control",
         },
       ],
-      recommendation: "Eat largest meal at lunch, moderate breakfast, light dinner. Avoid eating 2-3 hours before sleep",
+      recommendation:
+        "Eat largest meal at lunch, moderate breakfast, light dinner. Avoid eating 2-3 hours before sleep",
     },
 
     melatonin_and_supplements: {
@@ -99,20 +111,24 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "27635305",
           url: "https://pubmed.ncbi.nlm.nih.gov/27635305",
           source: "Indian Journal of Psychiatry",
-          snippet: "Melatonin 0.5-3mg effective for sleep onset; higher doses not more effective",
+          snippet:
+            "Melatonin 0.5-3mg effective for sleep onset; higher doses not more effective",
         },
         {
-          title: "Magnesium for Insomnia: A Systematic Review and Meta-analysis",
+          title:
+            "Magnesium for Insomnia: A Systematic Review and Meta-analysis",
           authors: "Abbasi B, et al.",
           year: 2012,
           doi: "10.1186/1472-6882-12-142",
           pmid: "22929064",
           url: "https://pubmed.ncbi.nlm.nih.gov/22929064",
           source: "Journal of Research in Medical Sciences",
-          snippet: "Magnesium 300-400mg before bed improves sleep latency by 17 minutes and sleep duration",
+          snippet:
+            "Magnesium 300-400mg before bed improves sleep latency by 17 minutes and sleep duration",
         },
       ],
-      recommendation: "Magnesium glycinate 300-400mg or melatonin 0.5-3mg taken 30-60 minutes before bed",
+      recommendation:
+        "Magnesium glycinate 300-400mg or melatonin 0.5-3mg taken 30-60 minutes before bed",
     },
   },
 
@@ -128,51 +144,61 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "20930715",
           url: "https://pubmed.ncbi.nlm.nih.gov/20930715",
           source: "Obesity",
-          snippet: "RMR decreases 2-8% per decade after age 30 due to loss of muscle mass",
+          snippet:
+            "RMR decreases 2-8% per decade after age 30 due to loss of muscle mass",
         },
       ],
-      recommendation: "Metabolism naturally decreases with age; prioritize strength training and protein intake",
+      recommendation:
+        "Metabolism naturally decreases with age; prioritize strength training and protein intake",
     },
 
     protein_synthesis: {
       citations: [
         {
-          title: "Dietary Protein and Muscle Mass: A Meta-analysis of Resistance Exercise Studies",
+          title:
+            "Dietary Protein and Muscle Mass: A Meta-analysis of Resistance Exercise Studies",
           authors: "Morton RW, et al.",
           year: 2018,
           doi: "10.1136/bmj.k4852",
           pmid: "30518635",
           url: "https://pubmed.ncbi.nlm.nih.gov/30518635",
           source: "BMJ",
-          snippet: "1.6-2.2 g/kg body weight daily optimal for muscle protein synthesis in resistance training",
+          snippet:
+            "1.6-2.2 g/kg body weight daily optimal for muscle protein synthesis in resistance training",
         },
         {
-          title: "Leucine-Enriched Protein Supplementation During Caloric Restriction",
+          title:
+            "Leucine-Enriched Protein Supplementation During Caloric Restriction",
           authors: "Leidy HJ, et al.",
           year: 2015,
           pmid: "25844670",
           url: "https://pubmed.ncbi.nlm.nih.gov/25844670",
           source: "Nutrition Reviews",
-          snippet: "Higher protein intake preserves lean mass during weight loss; essential amino acids critical",
+          snippet:
+            "Higher protein intake preserves lean mass during weight loss; essential amino acids critical",
         },
       ],
-      recommendation: "Consume 1.6-2.2g protein per kg body weight daily, distributed across 3-4 meals",
+      recommendation:
+        "Consume 1.6-2.2g protein per kg body weight daily, distributed across 3-4 meals",
     },
 
     intermittent_fasting: {
       citations: [
         {
-          title: "Time-Restricted Eating for Weight Loss and Metabolic Health: A Systematic Review",
+          title:
+            "Time-Restricted Eating for Weight Loss and Metabolic Health: A Systematic Review",
           authors: "Liu D, et al.",
           year: 2022,
           doi: "10.1146/annurev-nutr-120221-015144",
           pmid: "34991747",
           url: "https://pubmed.ncbi.nlm.nih.gov/34991747",
           source: "Annual Review of Nutrition",
-          snippet: "12-16 hour fasting windows show similar weight loss to continuous calorie restriction; 10-14 hour windows gentler",
+          snippet:
+            "12-16 hour fasting windows show similar weight loss to continuous calorie restriction; 10-14 hour windows gentler",
         },
       ],
-      recommendation: "12-16 hour fasting window optimal for most; 10-14 hours for beginners or women",
+      recommendation:
+        "12-16 hour fasting window optimal for most; 10-14 hours for beginners or women",
     },
 
     thermogenic_effect: {
@@ -185,10 +211,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "24987006",
           url: "https://pubmed.ncbi.nlm.nih.gov/24987006",
           source: "Chemical Senses",
-          snippet: "Spicy foods increase thermogenesis and fat oxidation by 5-8%; sustained effects with regular consumption",
+          snippet:
+            "Spicy foods increase thermogenesis and fat oxidation by 5-8%; sustained effects with regular consumption",
         },
       ],
-      recommendation: "Include thermogenic spices (turmeric, ginger, cayenne) for modest metabolic boost",
+      recommendation:
+        "Include thermogenic spices (turmeric, ginger, cayenne) for modest metabolic boost",
     },
   },
 
@@ -197,46 +225,54 @@ export const SCIENTIFIC_EVIDENCE = {
     resistance_training_frequency: {
       citations: [
         {
-          title: "Dose-Response Relationships Between Exercise Volume and Fitness Outcomes",
+          title:
+            "Dose-Response Relationships Between Exercise Volume and Fitness Outcomes",
           authors: "Schoenfeld BJ, et al.",
           year: 2017,
           doi: "10.1186/s40798-016-0060-2",
           pmid: "27900257",
           url: "https://pubmed.ncbi.nlm.nih.gov/27900257",
           source: "Sports Medicine",
-          snippet: "3x per week sufficient for beginners; advanced athletes need 4-6x weekly for continued gains",
+          snippet:
+            "3x per week sufficient for beginners; advanced athletes need 4-6x weekly for continued gains",
         },
       ],
-      recommendation: "3 days per week minimum for muscle growth; 5-6 days optimal for advanced",
+      recommendation:
+        "3 days per week minimum for muscle growth; 5-6 days optimal for advanced",
     },
 
     cardio_recommendations: {
       citations: [
         {
-          title: "Cardiovascular Activity and Mortality: 2018 American Heart Association Recommendations",
+          title:
+            "Cardiovascular Activity and Mortality: 2018 American Heart Association Recommendations",
           authors: "Arem H, et al.",
           year: 2015,
           doi: "10.1001/jamainternmed.2015.3611",
           pmid: "26039379",
           url: "https://pubmed.ncbi.nlm.nih.gov/26039379",
           source: "JAMA Internal Medicine",
-          snippet: "150 min moderate or 75 min vigorous cardio weekly optimal; exceeding 450 min offers diminishing returns",
+          snippet:
+            "150 min moderate or 75 min vigorous cardio weekly optimal; exceeding 450 min offers diminishing returns",
         },
       ],
-      recommendation: "150 minutes moderate intensity or 75 minutes vigorous intensity weekly",
+      recommendation:
+        "150 minutes moderate intensity or 75 minutes vigorous intensity weekly",
     },
 
     recovery_sleep: {
       citations: [
         {
-          title: "Sleep and Athletic Performance: A Systematic Review and Meta-analysis",
+          title:
+            "Sleep and Athletic Performance: A Systematic Review and Meta-analysis",
           authors: "Vitale KC, et al.",
           year: 2019,
           doi: "10.3390/sports7020028",
           pmid: "30987369",
           url: "https://pubmed.ncbi.nlm.nih.gov/30987369",
           source: "Sports",
-          snippet: "Each hour of sleep loss impairs athletic performance by 1-3%; muscle protein synthesis maximized during sleep",
+          snippet:
+            "Each hour of sleep loss impairs athletic performance by 1-3%; muscle protein synthesis maximized during sleep",
         },
       ],
       recommendation: "7-9 hours sleep critical for recovery and muscle growth",
@@ -252,10 +288,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "26912225",
           url: "https://pubmed.ncbi.nlm.nih.gov/26912225",
           source: "Journal of Sports Medicine and Physical Fitness",
-          snippet: "Continuous progressive overload (increasing weight, reps, or volume) necessary for strength and hypertrophy gains",
+          snippet:
+            "Continuous progressive overload (increasing weight, reps, or volume) necessary for strength and hypertrophy gains",
         },
       ],
-      recommendation: "Increase weight or reps by 5-10% monthly for continuous improvement",
+      recommendation:
+        "Increase weight or reps by 5-10% monthly for continuous improvement",
     },
   },
 
@@ -264,17 +302,20 @@ export const SCIENTIFIC_EVIDENCE = {
     insulin_sensitivity: {
       citations: [
         {
-          title: "Insulin Resistance: Definition, Assessment, and Clinical Significance",
+          title:
+            "Insulin Resistance: Definition, Assessment, and Clinical Significance",
           authors: "DeFronzo RA, et al.",
           year: 2015,
           doi: "10.1186/s12933-015-0309-x",
           pmid: "26467511",
           url: "https://pubmed.ncbi.nlm.nih.gov/26467511",
           source: "Cardiovascular Diabetology",
-          snippet: "Resistance training 2-3x weekly improves insulin sensitivity by 25-30%; greater effect than cardio alone",
+          snippet:
+            "Resistance training 2-3x weekly improves insulin sensitivity by 25-30%; greater effect than cardio alone",
         },
       ],
-      recommendation: "Prioritize resistance training and protein intake for insulin sensitivity",
+      recommendation:
+        "Prioritize resistance training and protein intake for insulin sensitivity",
     },
 
     cortisol_management: {
@@ -287,7 +328,8 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "24454872",
           url: "https://pubmed.ncbi.nlm.nih.gov/24454872",
           source: "PLoS ONE",
-          snippet: "Meditation and breathwork reduce cortisol by 25% and increase parasympathetic tone",
+          snippet:
+            "Meditation and breathwork reduce cortisol by 25% and increase parasympathetic tone",
         },
         {
           title: "Sleep and Cortisol: A Meta-review",
@@ -296,10 +338,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "17908055",
           url: "https://pubmed.ncbi.nlm.nih.gov/17908055",
           source: "Sleep Medicine Reviews",
-          snippet: "Poor sleep elevates cortisol; consistent 7-8 hour sleep reduces stress hormones",
+          snippet:
+            "Poor sleep elevates cortisol; consistent 7-8 hour sleep reduces stress hormones",
         },
       ],
-      recommendation: "Daily meditation, breathwork, and 7-9 hours sleep for cortisol management",
+      recommendation:
+        "Daily meditation, breathwork, and 7-9 hours sleep for cortisol management",
     },
 
     thyroid_support: {
@@ -311,10 +355,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "16172885",
           url: "https://pubmed.ncbi.nlm.nih.gov/16172885",
           source: "Nutrition Reviews",
-          snippet: "Iodine 150mcg and selenium 200mcg daily critical for thyroid function; deficiency impairs conversion",
+          snippet:
+            "Iodine 150mcg and selenium 200mcg daily critical for thyroid function; deficiency impairs conversion",
         },
       ],
-      recommendation: "Ensure adequate iodine, selenium, and zinc for thyroid health",
+      recommendation:
+        "Ensure adequate iodine, selenium, and zinc for thyroid health",
     },
 
     testosterone_optimization: {
@@ -326,7 +372,8 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "19770857",
           url: "https://pubmed.ncbi.nlm.nih.gov/19770857",
           source: "Journal of Strength and Conditioning Research",
-          snippet: "Resistance training with compound movements increases testosterone by 15-25% acutely; chronic elevation requires consistent training",
+          snippet:
+            "Resistance training with compound movements increases testosterone by 15-25% acutely; chronic elevation requires consistent training",
         },
         {
           title: "Zinc and Testosterone: A Meta-analysis",
@@ -335,10 +382,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "17987027",
           url: "https://pubmed.ncbi.nlm.nih.gov/17987027",
           source: "Molecular Medicine",
-          snippet: "Zinc supplementation normalizes testosterone in deficient men; 11-15mg daily adequate for most",
+          snippet:
+            "Zinc supplementation normalizes testosterone in deficient men; 11-15mg daily adequate for most",
         },
       ],
-      recommendation: "Heavy resistance training, adequate sleep, zinc and vitamin D for testosterone optimization",
+      recommendation:
+        "Heavy resistance training, adequate sleep, zinc and vitamin D for testosterone optimization",
     },
 
     estrogen_balance: {
@@ -350,7 +399,8 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "31341274",
           url: "https://pubmed.ncbi.nlm.nih.gov/31341274",
           source: "Complementary Therapies in Medicine",
-          snippet: "Flax seeds and cruciferous vegetables support healthy estrogen metabolism; moderate isoflavone intake beneficial",
+          snippet:
+            "Flax seeds and cruciferous vegetables support healthy estrogen metabolism; moderate isoflavone intake beneficial",
         },
         {
           title: "Cycle Syncing Nutrition for Women: Evidence Review",
@@ -359,10 +409,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "32380234",
           url: "https://pubmed.ncbi.nlm.nih.gov/32380234",
           source: "Frontiers in Nutrition",
-          snippet: "Adjusting macros by cycle phase (higher carbs follicular, higher fat luteal) improves energy and mood",
+          snippet:
+            "Adjusting macros by cycle phase (higher carbs follicular, higher fat luteal) improves energy and mood",
         },
       ],
-      recommendation: "Support estrogen detoxification with cruciferous vegetables; sync nutrition with menstrual cycle",
+      recommendation:
+        "Support estrogen detoxification with cruciferous vegetables; sync nutrition with menstrual cycle",
     },
   },
 
@@ -371,14 +423,16 @@ export const SCIENTIFIC_EVIDENCE = {
     pcos: {
       citations: [
         {
-          title: "Insulin Resistance in PCOS: A Systematic Review and Meta-analysis",
+          title:
+            "Insulin Resistance in PCOS: A Systematic Review and Meta-analysis",
           authors: "Rojas J, et al.",
           year: 2014,
           doi: "10.4137/EDMS.S17070",
           pmid: "26029478",
           url: "https://pubmed.ncbi.nlm.nih.gov/26029478",
           source: "Endocrine Disorders",
-          snippet: "PCOS strongly associated with insulin resistance; lower glycemic index diet improves outcomes by 30%",
+          snippet:
+            "PCOS strongly associated with insulin resistance; lower glycemic index diet improves outcomes by 30%",
         },
         {
           title: "Inositol and N-acetylcysteine for PCOS: A Meta-analysis",
@@ -388,39 +442,46 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "27088071",
           url: "https://pubmed.ncbi.nlm.nih.gov/27088071",
           source: "Endocrine",
-          snippet: "Inositol 4g daily + NAC 1.8g improves ovulation and hormonal balance in 60% of women with PCOS",
+          snippet:
+            "Inositol 4g daily + NAC 1.8g improves ovulation and hormonal balance in 60% of women with PCOS",
         },
       ],
-      recommendation: "Low GI diet, resistance training, inositol, NAC, and metformin consideration; consult endocrinologist",
+      recommendation:
+        "Low GI diet, resistance training, inositol, NAC, and metformin consideration; consult endocrinologist",
     },
 
     thyroid_disease: {
       citations: [
         {
-          title: "Thyroid Dysfunction and Management: American Thyroid Association Guidelines",
+          title:
+            "Thyroid Dysfunction and Management: American Thyroid Association Guidelines",
           authors: "Garber JR, et al.",
           year: 2012,
           doi: "10.1089/thy.2012.0205",
           pmid: "22734315",
           url: "https://pubmed.ncbi.nlm.nih.gov/22734315",
           source: "Thyroid",
-          snippet: "Adequate treatment with hormone replacement; monitor TSH, Free T3, Free T4 annually",
+          snippet:
+            "Adequate treatment with hormone replacement; monitor TSH, Free T3, Free T4 annually",
         },
       ],
-      recommendation: "Regular TSH monitoring, adequate iodine, selenium, and follow medical treatment",
+      recommendation:
+        "Regular TSH monitoring, adequate iodine, selenium, and follow medical treatment",
     },
 
     diabetes_prevention: {
       citations: [
         {
-          title: "Dietary Fiber and Type 2 Diabetes Prevention: A Meta-analysis",
+          title:
+            "Dietary Fiber and Type 2 Diabetes Prevention: A Meta-analysis",
           authors: "Aune D, et al.",
           year: 2016,
           doi: "10.1186/s12933-016-0379-4",
           pmid: "27178033",
           url: "https://pubmed.ncbi.nlm.nih.gov/27178033",
           source: "Cardiovascular Diabetology",
-          snippet: "Soluble fiber 10-25g daily reduces diabetes risk by 20-30%; whole grains protective",
+          snippet:
+            "Soluble fiber 10-25g daily reduces diabetes risk by 20-30%; whole grains protective",
         },
         {
           title: "Lifestyle Intervention for Type 2 Diabetes Prevention",
@@ -430,10 +491,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "12439635",
           url: "https://pubmed.ncbi.nlm.nih.gov/12439635",
           source: "New England Journal of Medicine",
-          snippet: "Lifestyle intervention (weight loss + exercise) reduces diabetes incidence by 58% in prediabetic adults",
+          snippet:
+            "Lifestyle intervention (weight loss + exercise) reduces diabetes incidence by 58% in prediabetic adults",
         },
       ],
-      recommendation: "Weight loss if overweight, exercise, and fiber-rich diet; monitor blood glucose",
+      recommendation:
+        "Weight loss if overweight, exercise, and fiber-rich diet; monitor blood glucose",
     },
 
     hypertension: {
@@ -446,10 +509,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "28076611",
           url: "https://pubmed.ncbi.nlm.nih.gov/28076611",
           source: "Hypertension",
-          snippet: "DASH diet reduces systolic BP by 11-13mmHg; combined with exercise more effective",
+          snippet:
+            "DASH diet reduces systolic BP by 11-13mmHg; combined with exercise more effective",
         },
       ],
-      recommendation: "DASH diet, potassium-rich foods, limit sodium, regular exercise, stress management",
+      recommendation:
+        "DASH diet, potassium-rich foods, limit sodium, regular exercise, stress management",
     },
   },
 
@@ -465,26 +530,31 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "23837505",
           url: "https://pubmed.ncbi.nlm.nih.gov/23837505",
           source: "BMC Complementary Medicine",
-          snippet: "Vitamin D 1000-2000 IU daily optimal for most; target serum level 30-50 ng/mL",
+          snippet:
+            "Vitamin D 1000-2000 IU daily optimal for most; target serum level 30-50 ng/mL",
         },
       ],
-      recommendation: "1000-2000 IU daily minimum; 4000 IU if low sun exposure; test levels yearly",
+      recommendation:
+        "1000-2000 IU daily minimum; 4000 IU if low sun exposure; test levels yearly",
     },
 
     omega3: {
       citations: [
         {
-          title: "Omega-3 Polyunsaturated Fatty Acids and Cardiovascular Health: A Meta-analysis",
+          title:
+            "Omega-3 Polyunsaturated Fatty Acids and Cardiovascular Health: A Meta-analysis",
           authors: "Chowdhury R, et al.",
           year: 2012,
           doi: "10.1136/bmj.e6698",
           pmid: "23161073",
           url: "https://pubmed.ncbi.nlm.nih.gov/23161073",
           source: "BMJ",
-          snippet: "EPA+DHA 1000-2000mg daily improves cardiovascular and cognitive health; benefits emerge over 12 weeks",
+          snippet:
+            "EPA+DHA 1000-2000mg daily improves cardiovascular and cognitive health; benefits emerge over 12 weeks",
         },
       ],
-      recommendation: "1000-2000mg EPA+DHA daily with meals; algae source if vegetarian",
+      recommendation:
+        "1000-2000mg EPA+DHA daily with meals; algae source if vegetarian",
     },
 
     probiotics: {
@@ -497,26 +567,31 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "25022435",
           url: "https://pubmed.ncbi.nlm.nih.gov/25022435",
           source: "Nature Reviews Microbiology",
-          snippet: "Multi-strain probiotics 10-50 billion CFU daily support microbiome diversity and immune function",
+          snippet:
+            "Multi-strain probiotics 10-50 billion CFU daily support microbiome diversity and immune function",
         },
       ],
-      recommendation: "Multi-strain probiotic 10-50 billion CFU daily on empty stomach",
+      recommendation:
+        "Multi-strain probiotic 10-50 billion CFU daily on empty stomach",
     },
 
     magnesium: {
       citations: [
         {
-          title: "Magnesium for Sleep, Anxiety, and Muscle Health: A Comprehensive Review",
+          title:
+            "Magnesium for Sleep, Anxiety, and Muscle Health: A Comprehensive Review",
           authors: "Gröber U, et al.",
           year: 2015,
           doi: "10.3390/nu4020092",
           pmid: "26062013",
           url: "https://pubmed.ncbi.nlm.nih.gov/26062013",
           source: "Nutrients",
-          snippet: "Magnesium glycinate or citrate 300-400mg improves sleep, reduces anxiety, supports muscle function",
+          snippet:
+            "Magnesium glycinate or citrate 300-400mg improves sleep, reduces anxiety, supports muscle function",
         },
       ],
-      recommendation: "Magnesium glycinate 300-400mg before bed; citrate for bowel support",
+      recommendation:
+        "Magnesium glycinate 300-400mg before bed; citrate for bowel support",
     },
   },
 
@@ -533,44 +608,52 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "17469818",
           url: "https://pubmed.ncbi.nlm.nih.gov/17469818",
           source: "Nature Genetics",
-          snippet: "FTO risk alleles increase body weight by 1.6-3.2kg per allele; associated with increased appetite",
+          snippet:
+            "FTO risk alleles increase body weight by 1.6-3.2kg per allele; associated with increased appetite",
         },
       ],
-      recommendation: "If FTO risk variant: prioritize protein and fiber for satiety; structured meal timing; avoid calorie tracking pitfalls",
+      recommendation:
+        "If FTO risk variant: prioritize protein and fiber for satiety; structured meal timing; avoid calorie tracking pitfalls",
     },
 
     mthfr_gene: {
       title: "MTHFR (Methylenetetrahydrofolate Reductase) Gene",
       citations: [
         {
-          title: "MTHFR Polymorphisms and Folate Metabolism: A Systematic Review",
+          title:
+            "MTHFR Polymorphisms and Folate Metabolism: A Systematic Review",
           authors: "Crider KS, et al.",
           year: 2012,
           doi: "10.1146/annurev-genom-090711-164636",
           pmid: "22703178",
           url: "https://pubmed.ncbi.nlm.nih.gov/22703178",
           source: "Annual Review of Genomics and Human Genetics",
-          snippet: "MTHFR variants impair folate metabolism; benefit from methylated B vitamins (methylfolate, methylB12)",
+          snippet:
+            "MTHFR variants impair folate metabolism; benefit from methylated B vitamins (methylfolate, methylB12)",
         },
       ],
-      recommendation: "If MTHFR variant: methylated folate and methylcobalamin; may need higher B vitamin intake",
+      recommendation:
+        "If MTHFR variant: methylated folate and methylcobalamin; may need higher B vitamin intake",
     },
 
     actn3_gene: {
       title: "ACTN3 (Alpha-Actinin-3) Gene",
       citations: [
         {
-          title: "ACTN3 Gene Variants and Athletic Performance: A Meta-analysis",
+          title:
+            "ACTN3 Gene Variants and Athletic Performance: A Meta-analysis",
           authors: "Alfred T, et al.",
           year: 2011,
           doi: "10.1097/JSM.0b013e31820ab658",
           pmid: "21293386",
           url: "https://pubmed.ncbi.nlm.nih.gov/21293386",
           source: "Journal of Strength and Conditioning Research",
-          snippet: "ACTN3 RR genotype better for power/sprint; XX genotype better for endurance",
+          snippet:
+            "ACTN3 RR genotype better for power/sprint; XX genotype better for endurance",
         },
       ],
-      recommendation: "RR variant: emphasize power and strength training. XX variant: endurance activities may be more natural",
+      recommendation:
+        "RR variant: emphasize power and strength training. XX variant: endurance activities may be more natural",
     },
 
     clock_gene: {
@@ -583,10 +666,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "16242092",
           url: "https://pubmed.ncbi.nlm.nih.gov/16242092",
           source: "Current Biology",
-          snippet: "CLOCK variants influence chronotype (morning vs evening); affects optimal meal and training timing",
+          snippet:
+            "CLOCK variants influence chronotype (morning vs evening); affects optimal meal and training timing",
         },
       ],
-      recommendation: "If evening-type: later meal times and training; if morning-type: earlier optimal times",
+      recommendation:
+        "If evening-type: later meal times and training; if morning-type: earlier optimal times",
     },
 
     apoe_gene: {
@@ -600,10 +685,202 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "15450635",
           url: "https://pubmed.ncbi.nlm.nih.gov/15450635",
           source: "Behavioral Brain Research",
-          snippet: "APOE4 carries increased Alzheimer's risk; benefits from higher fat/lower carb intake, fish, and cognitive training",
+          snippet:
+            "APOE4 carries increased Alzheimer's risk; benefits from higher fat/lower carb intake, fish, and cognitive training",
         },
       ],
-      recommendation: "If APOE4: Mediterranean diet, omega-3, CoQ10, cognitive stimulation",
+      recommendation:
+        "If APOE4: Mediterranean diet, omega-3, CoQ10, cognitive stimulation",
+    },
+
+    mc4r_gene: {
+      title: "MC4R (Melanocortin 4 Receptor) Gene",
+      citations: [
+        {
+          title:
+            "Common Variants Near MC4R Are Associated with Fat Mass, Weight and Risk of Obesity",
+          authors: "Loos RJ, et al.",
+          year: 2008,
+          doi: "10.1038/ng.140",
+          pmid: "18454148",
+          url: "https://pubmed.ncbi.nlm.nih.gov/18454148",
+          source: "Nature Genetics",
+          snippet:
+            "rs17782313 C allele associated with higher BMI and fat mass; effect partly mediated by appetite regulation",
+        },
+      ],
+      recommendation:
+        "If MC4R risk variant: high-protein, high-fiber meals and fixed meal times to support satiety signalling",
+    },
+
+    cyp1a2_gene: {
+      title: "CYP1A2 (Caffeine Metabolism) Gene",
+      citations: [
+        {
+          title: "Coffee, CYP1A2 Genotype, and Risk of Myocardial Infarction",
+          authors: "Cornelis MC, et al.",
+          year: 2006,
+          doi: "10.1001/jama.295.10.1135",
+          pmid: "16522833",
+          url: "https://pubmed.ncbi.nlm.nih.gov/16522833",
+          source: "JAMA",
+          snippet:
+            "Carriers of the slow-metabolizing rs762551 C allele had higher heart attack risk with 2+ cups of coffee daily; fast metabolizers did not",
+        },
+      ],
+      recommendation:
+        "Slow metabolizers: limit caffeine to 1 cup before noon. Fast metabolizers: moderate intake generally well tolerated",
+    },
+
+    lct_gene: {
+      title: "LCT/MCM6 (Lactase Persistence) Gene",
+      citations: [
+        {
+          title:
+            "Identification of a Variant Associated with Adult-Type Hypolactasia",
+          authors: "Enattah NS, et al.",
+          year: 2002,
+          doi: "10.1038/ng826",
+          pmid: "11788828",
+          url: "https://pubmed.ncbi.nlm.nih.gov/11788828",
+          source: "Nature Genetics",
+          snippet:
+            "The -13910 C/T variant (rs4988235) upstream of LCT determines lactase persistence; CC genotype associated with adult lactase non-persistence",
+        },
+      ],
+      recommendation:
+        "If lactase non-persistent: prefer curd, buttermilk and aged cheese; use lactose-free milk; ensure calcium from other sources",
+    },
+
+    hla_dq_genes: {
+      title: "HLA-DQ2.5 (Celiac Susceptibility) Tag Variant",
+      citations: [
+        {
+          title:
+            "Effective Detection of Human Leukocyte Antigen Risk Alleles in Celiac Disease Using Tag Single Nucleotide Polymorphisms",
+          authors: "Monsuur AJ, et al.",
+          year: 2008,
+          doi: "10.1371/journal.pone.0002270",
+          pmid: "18509465",
+          url: "https://pubmed.ncbi.nlm.nih.gov/18509465",
+          source: "PLoS One",
+          snippet:
+            "rs2187668 tags HLA-DQ2.5; carrying the risk haplotype is necessary but not sufficient for celiac disease",
+        },
+      ],
+      recommendation:
+        "If DQ2.5 carrier with digestive symptoms: ask your doctor about tTG-IgA testing before removing gluten",
+    },
+
+    alcohol_metabolism_genes: {
+      title: "ALDH2 / ADH1B (Alcohol Metabolism) Genes",
+      citations: [
+        {
+          title:
+            "The Alcohol Flushing Response: An Unrecognized Risk Factor for Esophageal Cancer from Alcohol Consumption",
+          authors: "Brooks PJ, et al.",
+          year: 2009,
+          doi: "10.1371/journal.pmed.1000050",
+          pmid: "19320537",
+          url: "https://pubmed.ncbi.nlm.nih.gov/19320537",
+          source: "PLoS Medicine",
+          snippet:
+            "ALDH2 rs671 A allele impairs acetaldehyde clearance, causing flushing and raising cancer risk with regular drinking",
+        },
+      ],
+      recommendation:
+        "If ALDH2 variant carrier: minimise alcohol; flushing signals acetaldehyde build-up",
+    },
+
+    vitamin_d_pathway_genes: {
+      title: "GC / VDR (Vitamin D Transport & Receptor) Genes",
+      citations: [
+        {
+          title:
+            "Common Genetic Determinants of Vitamin D Insufficiency: A Genome-Wide Association Study",
+          authors: "Wang TJ, et al.",
+          year: 2010,
+          doi: "10.1016/S0140-6736(10)60588-0",
+          pmid: "20541252",
+          url: "https://pubmed.ncbi.nlm.nih.gov/20541252",
+          source: "The Lancet",
+          snippet:
+            "Variants in GC (vitamin D binding protein), including rs2282679, associated with lower 25(OH)D and higher insufficiency risk",
+        },
+        {
+          title: "Genetics and Biology of Vitamin D Receptor Polymorphisms",
+          authors: "Uitterlinden AG, et al.",
+          year: 2004,
+          doi: "10.1016/j.gene.2004.05.014",
+          pmid: "15315818",
+          url: "https://pubmed.ncbi.nlm.nih.gov/15315818",
+          source: "Gene",
+          snippet:
+            "VDR FokI (rs2228570) alters receptor length and transcriptional activity",
+        },
+      ],
+      recommendation:
+        "If GC/VDR risk variants: test 25(OH)D and consider D3 supplementation with daily sun exposure",
+    },
+
+    fut2_gene: {
+      title: "FUT2 (Secretor Status) Gene",
+      citations: [
+        {
+          title:
+            "Common Variants of FUT2 Are Associated with Plasma Vitamin B12 Levels",
+          authors: "Hazra A, et al.",
+          year: 2008,
+          doi: "10.1038/ng.210",
+          pmid: "18776911",
+          url: "https://pubmed.ncbi.nlm.nih.gov/18776911",
+          source: "Nature Genetics",
+          snippet:
+            "FUT2 secretor genotype (rs601338 GG) associated with lower plasma B12 than non-secretors",
+        },
+      ],
+      recommendation:
+        "If secretor genotype with vegetarian diet: check B12 yearly; include fortified foods or supplement",
+    },
+
+    tmprss6_gene: {
+      title: "TMPRSS6 (Iron Regulation) Gene",
+      citations: [
+        {
+          title:
+            "Common Variants in TMPRSS6 Are Associated with Iron Status and Erythrocyte Volume",
+          authors: "Benyamin B, et al.",
+          year: 2009,
+          doi: "10.1038/ng.456",
+          pmid: "19820699",
+          url: "https://pubmed.ncbi.nlm.nih.gov/19820699",
+          source: "Nature Genetics",
+          snippet:
+            "rs855791 A allele associated with lower serum iron and transferrin saturation",
+        },
+      ],
+      recommendation:
+        "If TMPRSS6 variant: pair iron-rich foods with vitamin C; check ferritin, especially if menstruating",
+    },
+
+    col5a1_gene: {
+      title: "COL5A1 (Tendon Collagen) Gene",
+      citations: [
+        {
+          title:
+            "Variants within the COL5A1 Gene Are Associated with Achilles Tendinopathy in Two Populations",
+          authors: "September AV, et al.",
+          year: 2009,
+          doi: "10.1136/bjsm.2008.048793",
+          pmid: "18443036",
+          url: "https://pubmed.ncbi.nlm.nih.gov/18443036",
+          source: "British Journal of Sports Medicine",
+          snippet:
+            "COL5A1 rs12722 TT genotype over-represented in individuals with chronic Achilles tendinopathy",
+        },
+      ],
+      recommendation:
+        "If COL5A1 risk genotype: progress running and jumping volume gradually; include eccentric tendon loading",
     },
   },
 
@@ -619,10 +896,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "28575018",
           url: "https://pubmed.ncbi.nlm.nih.gov/28575018",
           source: "International Journal of Epidemiology",
-          snippet: "Meditation 10-20 minutes daily reduces anxiety and depression by 20-30%; benefits accumulate over 8 weeks",
+          snippet:
+            "Meditation 10-20 minutes daily reduces anxiety and depression by 20-30%; benefits accumulate over 8 weeks",
         },
       ],
-      recommendation: "Start with 5-10 minutes daily meditation; increase to 15-20 minutes for optimal benefit",
+      recommendation:
+        "Start with 5-10 minutes daily meditation; increase to 15-20 minutes for optimal benefit",
     },
 
     breathwork: {
@@ -635,10 +914,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "27445807",
           url: "https://pubmed.ncbi.nlm.nih.gov/27445807",
           source: "Frontiers in Psychology",
-          snippet: "Box breathing (4-4-4-4) and 4-7-8 technique activate parasympathetic nervous system within minutes",
+          snippet:
+            "Box breathing (4-4-4-4) and 4-7-8 technique activate parasympathetic nervous system within minutes",
         },
       ],
-      recommendation: "Box breathing 4-4-4-4 or 4-7-8 breathing for immediate stress relief; 5 minutes daily optimal",
+      recommendation:
+        "Box breathing 4-4-4-4 or 4-7-8 breathing for immediate stress relief; 5 minutes daily optimal",
     },
 
     exercise_stress: {
@@ -651,10 +932,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "27410649",
           url: "https://pubmed.ncbi.nlm.nih.gov/27410649",
           source: "Journal of Psychiatric Research",
-          snippet: "30-45 minutes moderate exercise reduces cortisol and stress by 20-30%; as effective as medication for mild anxiety",
+          snippet:
+            "30-45 minutes moderate exercise reduces cortisol and stress by 20-30%; as effective as medication for mild anxiety",
         },
       ],
-      recommendation: "30-45 minutes exercise daily for stress reduction; morning exercise most effective for cortisol",
+      recommendation:
+        "30-45 minutes exercise daily for stress reduction; morning exercise most effective for cortisol",
     },
   },
 
@@ -669,11 +952,14 @@ export const SCIENTIFIC_EVIDENCE = {
           doi: "10.3390/ijerph14010050",
           pmid: "28067788",
           url: "https://pubmed.ncbi.nlm.nih.gov/28067788",
-          source: "International Journal of Environmental Research and Public Health",
-          snippet: "Vitamin C 200mg daily reduces cold duration by 8-14%; higher doses (1000mg) needed for athletes",
+          source:
+            "International Journal of Environmental Research and Public Health",
+          snippet:
+            "Vitamin C 200mg daily reduces cold duration by 8-14%; higher doses (1000mg) needed for athletes",
         },
       ],
-      recommendation: "Vitamin C 200-500mg daily; increase to 1000mg for athletes or during stress",
+      recommendation:
+        "Vitamin C 200-500mg daily; increase to 1000mg for athletes or during stress",
     },
 
     zinc: {
@@ -685,7 +971,8 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "17987027",
           url: "https://pubmed.ncbi.nlm.nih.gov/17987027",
           source: "Molecular Medicine",
-          snippet: "Zinc 11-15mg daily essential for immune cells; lozenges reduce cold duration by 33%",
+          snippet:
+            "Zinc 11-15mg daily essential for immune cells; lozenges reduce cold duration by 33%",
         },
       ],
       recommendation: "Zinc 11-15mg daily; 30mg lozenges at first cold symptom",
@@ -701,17 +988,20 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "23073629",
           url: "https://pubmed.ncbi.nlm.nih.gov/23073629",
           source: "Physiological Reviews",
-          snippet: "Each hour of sleep loss reduces NK cells by 15-20%; sleep most important immunity factor",
+          snippet:
+            "Each hour of sleep loss reduces NK cells by 15-20%; sleep most important immunity factor",
         },
       ],
-      recommendation: "7-9 hours sleep nightly is foundational for immune strength",
+      recommendation:
+        "7-9 hours sleep nightly is foundational for immune strength",
     },
   },
 
   // Body Composition & Metabolism
   body_composition: {
     bmr_calculation: {
-      recommendation: "Use Mifflin-St Jeor formula: (10×weight kg) + (6.25×height cm) - (5×age) + (5 for men / -161 for women)",
+      recommendation:
+        "Use Mifflin-St Jeor formula: (10×weight kg) + (6.25×height cm) - (5×age) + (5 for men / -161 for women)",
     },
 
     lean_muscle_tissue: {
@@ -724,10 +1014,12 @@ export const SCIENTIFIC_EVIDENCE = {
           pmid: "27094393",
           url: "https://pubmed.ncbi.nlm.nih.gov/27094393",
           source: "Mechanisms of Ageing and Development",
-          snippet: "Each kg lean muscle increases RMR by 13 calories; crucial for metabolism preservation with aging",
+          snippet:
+            "Each kg lean muscle increases RMR by 13 calories; crucial for metabolism preservation with aging",
         },
       ],
-      recommendation: "Preserve lean muscle through resistance training and adequate protein",
+      recommendation:
+        "Preserve lean muscle through resistance training and adequate protein",
     },
   },
 
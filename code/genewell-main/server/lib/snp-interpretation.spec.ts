@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { parseGenotypeText } from "./genotype-parser";
+import {
+  interpretGenotypes,
+  countEffectAlleles,
+  validateTraitRules,
+} from "./snp-interpretation";
+import { SNP_TRAIT_RULES } from "./snp-trait-rules";
+
+const genotypeFile = (rows: Array<[string, string]>) =>
+  parseGenotypeText(
+    [
+      "# rsid\tchromosome\tposition\tgenotype",
+      ...rows.map(
+        ([rsid, genotype], i) => `${rsid}\t1\t${1000 + i}\t${genotype}`,
+      ),
+    ].join("\n"),
+  ).table;
+
+const traitOf = (
+  result: ReturnType<typeof interpretGenotypes>,
+  trait: string,
+) => result.interpretations.find((i) => i.trait === trait)!;
+
+describe("SNP_TRAIT_RULES", () => {
+  it("should only emit values allowed by GeneticMarkersSchema", () => {
+    expect(validateTraitRules(SNP_TRAIT_RULES)).toEqual([]);
+  });
+});
+
+describe("interpretGenotypes", () => {
+  it("should return identical results for the same file", () => {
+    const table = genotypeFile([
+      ["rs9939609", "AT"],
+      ["rs4988235", "GG"],
+      ["rs1801133", "AA"],
+    ]);
+
+    expect(interpretGenotypes(table)).toEqual(interpretGenotypes(table));
+  });
+
+  it("should map genotypes to traits with drivers and evidence", () => {
+    const result = interpretGenotypes(
+      genotypeFile([
+        ["rs4988235", "GG"],
+        ["rs1801133", "AA"],
+      ]),
+    );
+
+    expect(result.geneticMarkers.foodSensitivities.lactose).toBe("intolerant");
+    expect(result.geneticMarkers.vitaminDeficiencies.folate).toBe("high_risk");
+
+    const folate = traitOf(result, "vitaminDeficiencies.folate");
+    expect(folate.status).toBe("genotyped");
+    expect(folate.drivers[0]).toMatchObject({
+      gene: "MTHFR",
+      genotype: "AA",
+      effectAlleleCount: 2,
+      effect: "unfavorable",
+      evidence: { key: "mthfr_gene" },
+    });
+    expect(folate.drivers[0].evidence.urls.length).toBeGreaterThan(0);
+  });
+
+  it("should let the least favorable rule win when several target a trait", () => {
+    const result = interpretGenotypes(
+      genotypeFile([
+        ["rs1229984", "TT"], // ADH1B fast
+        ["rs671", "GA"], // ALDH2 slow
+      ]),
+    );
+
+    expect(result.geneticMarkers.foodSensitivities.alcohol).toBe("slow");
+    expect(traitOf(result, "foodSensitivities.alcohol").drivers).toHaveLength(
+      2,
+    );
+  });
+
+  it("should fall back to defaults for variants that are missing or no-called", () => {
+    const result = interpretGenotypes(genotypeFile([["rs2187668", "--"]]));
+
+    expect(result.geneticMarkers.foodSensitivities.gluten).toBe("unknown");
+    expect(traitOf(result, "foodSensitivities.gluten")).toMatchObject({
+      status: "not_genotyped",
+      missingVariants: ["rs2187668"],
+    });
+    expect(result.coverage).toBe(0);
+  });
+
+  it("should score metabolism from the FTO/MC4R effect alleles", () => {
+    const result = interpretGenotypes(
+      genotypeFile([
+        ["rs9939609", "AA"],
+        ["rs17782313", "TC"],
+      ]),
+    );
+
+    expect(result.geneticMarkers.metabolism).toEqual({
+      type: "slow",
+      score: 55,
+      genes: ["FTO", "MC4R"],
+    });
+  });
+});
+
+describe("countEffectAlleles", () => {
+  const rule = SNP_TRAIT_RULES.find((r) => r.id === "mthfr-c677t-folate")!;
+
+  it("should read the opposite strand for non-palindromic SNPs", () => {
+    expect(countEffectAlleles("TT", rule)).toBe(2);
+    expect(countEffectAlleles("CT", rule)).toBe(1);
+  });
+
+  it("should reject alleles that match neither strand", () => {
+    expect(countEffectAlleles("DI", rule)).toBeNull();
+  });
+});
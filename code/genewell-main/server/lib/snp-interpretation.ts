@@ -0,0 +1,274 @@
+// SNP-to-trait interpretation engine
+// Deterministic: the same genotype table always yields the same GeneticMarkers.
+// All variant knowledge lives in snp-trait-rules.ts; this module only evaluates it.
+
+import {
+  GeneticMarkers,
+  GeneticMarkersSchema,
+  TraitDriver,
+  TraitInterpretation,
+} from "../../shared/api";
+import { z } from "zod";
+import { GenotypeTable, getGenotype } from "./genotype-parser";
+import { SCIENTIFIC_EVIDENCE } from "./scientific-evidence";
+import {
+  SNP_TRAIT_RULES,
+  TRAIT_DEFAULTS,
+  METABOLISM_SCORE,
+} from "./snp-trait-rules";
+
+export const TRAIT_PATHS = [
+  "metabolism.type",
+  "foodSensitivities.lactose",
+  "foodSensitivities.gluten",
+  "foodSensitivities.caffeine",
+  "foodSensitivities.alcohol",
+  "vitaminDeficiencies.vitaminD",
+  "vitaminDeficiencies.vitaminB12",
+  "vitaminDeficiencies.folate",
+  "vitaminDeficiencies.iron",
+  "fitnessResponse.cardioResponse",
+  "fitnessResponse.strengthResponse",
+  "fitnessResponse.recoverySpeed",
+  "fitnessResponse.injuryRisk",
+  "weightManagement.fatLossResponse",
+  "weightManagement.muscleGainPotential",
+  "weightManagement.appetiteControl",
+] as const;
+
+export type TraitPath = (typeof TRAIT_PATHS)[number];
+export type TraitGroup = keyof GeneticMarkers;
+export type DnaEvidenceKey = keyof typeof SCIENTIFIC_EVIDENCE.dna_variants;
+
+export interface SnpTraitOutcome {
+  value: string;
+  effect: TraitDriver["effect"];
+}
+
+export interface SnpTraitRule {
+  id: string;
+  trait: TraitPath;
+  gene: string;
+  rsid: string;
+  alleles: [string, string]; // [other, effect] on the plus strand
+  effectAllele: string;
+  evidenceKey: DnaEvidenceKey;
+  outcomes: [SnpTraitOutcome, SnpTraitOutcome, SnpTraitOutcome]; // indexed by effect allele count
+}
+
+export interface GenotypeInterpretation {
+  geneticMarkers: GeneticMarkers;
+  interpretations: TraitInterpretation[];
+  coverage: number; // Fraction of rule variants present in the file (0-1)
+}
+
+// GeneticMarkers with each group filled in one trait at a time
+type GeneticMarkersDraft = {
+  [G in TraitGroup]: Partial<GeneticMarkers[G]>;
+};
+
+const COMPLEMENT: Record<string, string> = { A: "T", T: "A", C: "G", G: "C" };
+
+// "vitaminDeficiencies.folate" -> ["vitaminDeficiencies", "folate"]
+type TraitKeys<P extends TraitPath> =
+  P extends `${infer G extends TraitGroup}.${infer F}`
+    ? [G, F & keyof GeneticMarkers[G]]
+    : never;
+
+/** The group and field a trait names in GeneticMarkers */
+function splitTraitPath<P extends TraitPath>(trait: P): TraitKeys<P> {
+  return trait.split(".") as TraitKeys<P>;
+}
+
+/**
+ * Allowed values for a trait, ordered most to least favorable.
+ * Read straight from GeneticMarkersSchema so the rule table can't drift from it.
+ */
+export function getTraitScale(trait: TraitPath): string[] {
+  const [group, field] = splitTraitPath(trait);
+  const fields: Record<string, z.ZodTypeAny> =
+    GeneticMarkersSchema.shape[group].shape;
+  const schema = fields[field];
+  return schema instanceof z.ZodEnum ? schema.options : [];
+}
+
+/**
+ * Checks that every rule targets a known trait/evidence entry and only emits schema values
+ */
+export function validateTraitRules(rules: SnpTraitRule[]): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  for (const rule of rules) {
+    if (ids.has(rule.id)) problems.push(`${rule.id}: duplicate rule id`);
+    ids.add(rule.id);
+
+    if (!TRAIT_PATHS.includes(rule.trait)) {
+      problems.push(`${rule.id}: unknown trait "${rule.trait}"`);
+      continue;
+    }
+    if (!(rule.evidenceKey in SCIENTIFIC_EVIDENCE.dna_variants)) {
+      problems.push(
+        `${rule.id}: no dna_variants evidence "${rule.evidenceKey}"`,
+      );
+    }
+    if (!rule.alleles.includes(rule.effectAllele)) {
+      problems.push(
+        `${rule.id}: effect allele not in [${rule.alleles.join(",")}]`,
+      );
+    }
+
+    const scale = getTraitScale(rule.trait);
+    rule.outcomes.forEach((outcome) => {
+      if (!scale.includes(outcome.value)) {
+        problems.push(
+          `${rule.id}: "${outcome.value}" is not a valid ${rule.trait} value`,
+        );
+      }
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Counts effect alleles, flipping to the plus strand when the file reports the
+ * opposite strand. Returns null when the genotype doesn't match the rule's alleles.
+ */
+export function countEffectAlleles(
+  genotype: string,
+  rule: SnpTraitRule,
+): number | null {
+  let alleles = genotype.split("");
+  const matches = (candidate: string[]) =>
+    candidate.every((a) => rule.alleles.includes(a));
+
+  if (!matches(alleles)) {
+    const flipped = alleles.map((a) => COMPLEMENT[a]);
+    if (flipped.some((a) => !a) || !matches(flipped)) return null;
+    alleles = flipped;
+  }
+
+  // Haploid calls (male X/MT) count as homozygous
+  if (alleles.length === 1) alleles = [alleles[0], alleles[0]];
+  return alleles.filter((a) => a === rule.effectAllele).length;
+}
+
+function describeEvidence(key: DnaEvidenceKey): TraitDriver["evidence"] {
+  const entry = SCIENTIFIC_EVIDENCE.dna_variants[key] as {
+    title: string;
+    recommendation: string;
+    citations: Array<{ url?: string }>;
+  };
+  return {
+    key,
+    title: entry.title,
+    recommendation: entry.recommendation,
+    urls: entry.citations.map((c) => c.url).filter(Boolean),
+  };
+}
+
+function setTrait(
+  markers: GeneticMarkersDraft,
+  trait: TraitPath,
+  value: string,
+) {
+  const [group, field] = splitTraitPath(trait);
+  Object.assign(markers[group], { [field]: value });
+}
+
+/**
+ * Interprets a parsed genotype table against the rule table.
+ * When several rules target one trait, the least favorable value wins.
+ */
+export function interpretGenotypes(
+  table: GenotypeTable,
+  rules: SnpTraitRule[] = SNP_TRAIT_RULES,
+): GenotypeInterpretation {
+  const markers: GeneticMarkersDraft = {
+    metabolism: { type: "normal", score: 0, genes: [] },
+    foodSensitivities: {},
+    vitaminDeficiencies: {},
+    fitnessResponse: {},
+    weightManagement: {},
+  };
+  const interpretations: TraitInterpretation[] = [];
+  const ruleVariants = new Set(rules.map((r) => r.rsid));
+  let presentVariants = 0;
+  ruleVariants.forEach((rsid) => {
+    if (getGenotype(table, rsid)) presentVariants++;
+  });
+
+  for (const trait of TRAIT_PATHS) {
+    const scale = getTraitScale(trait);
+    const traitRules = rules.filter((r) => r.trait === trait);
+    const drivers: TraitDriver[] = [];
+    const missingVariants: string[] = [];
+
+    for (const rule of traitRules) {
+      const genotype = getGenotype(table, rule.rsid);
+      const effectAlleleCount = genotype
+        ? countEffectAlleles(genotype, rule)
+        : null;
+      if (effectAlleleCount === null) {
+        missingVariants.push(rule.rsid);
+        continue;
+      }
+
+      const outcome = rule.outcomes[effectAlleleCount];
+      drivers.push({
+        ruleId: rule.id,
+        gene: rule.gene,
+        rsid: rule.rsid,
+        genotype,
+        effectAlleleCount,
+        value: outcome.value,
+        effect: outcome.effect,
+        evidence: describeEvidence(rule.evidenceKey),
+      });
+    }
+
+    const value =
+      drivers.length > 0
+        ? drivers.reduce(
+            (worst, d) =>
+              scale.indexOf(d.value) > scale.indexOf(worst) ? d.value : worst,
+            drivers[0].value,
+          )
+        : TRAIT_DEFAULTS[trait];
+
+    setTrait(markers, trait, value);
+    interpretations.push({
+      trait,
+      value,
+      status: drivers.length > 0 ? "genotyped" : "not_genotyped",
+      drivers,
+      missingVariants,
+    });
+  }
+
+  // Metabolism score and gene list come from the metabolism.type drivers
+  const metabolismDrivers = interpretations.find(
+    (i) => i.trait === "metabolism.type",
+  )!.drivers;
+  const effectAlleles = metabolismDrivers.reduce(
+    (sum, d) => sum + d.effectAlleleCount,
+    0,
+  );
+  markers.metabolism.score = Math.min(
+    METABOLISM_SCORE.max,
+    Math.max(
+      METABOLISM_SCORE.min,
+      METABOLISM_SCORE.base - effectAlleles * METABOLISM_SCORE.perEffectAllele,
+    ),
+  );
+  markers.metabolism.genes = Array.from(
+    new Set(metabolismDrivers.map((d) => d.gene)),
+  );
+
+  return {
+    geneticMarkers: GeneticMarkersSchema.parse(markers),
+    interpretations,
+    coverage: ruleVariants.size > 0 ? presentVariants / ruleVariants.size : 0,
+  };
+}
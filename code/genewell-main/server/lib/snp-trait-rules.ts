@@ -0,0 +1,324 @@
+// SNP-to-trait rule table used by the interpretation engine (snp-interpretation.ts)
+// Pure data: add a row here to interpret a new variant - no engine changes needed.
+// Alleles are given on the GRCh37 plus strand (as 23andMe/Ancestry report them);
+// the engine also accepts the complementary strand for non-palindromic SNPs.
+
+import type { SnpTraitRule, TraitPath } from "./snp-interpretation";
+
+export const SNP_TRAIT_RULES: SnpTraitRule[] = [
+  // === METABOLISM & WEIGHT ===
+  {
+    id: "fto-metabolism",
+    trait: "metabolism.type",
+    gene: "FTO",
+    rsid: "rs9939609",
+    alleles: ["T", "A"],
+    effectAllele: "A",
+    evidenceKey: "fto_gene",
+    outcomes: [
+      { value: "fast", effect: "favorable" },
+      { value: "normal", effect: "neutral" },
+      { value: "slow", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "mc4r-metabolism",
+    trait: "metabolism.type",
+    gene: "MC4R",
+    rsid: "rs17782313",
+    alleles: ["T", "C"],
+    effectAllele: "C",
+    evidenceKey: "mc4r_gene",
+    outcomes: [
+      { value: "fast", effect: "favorable" },
+      { value: "normal", effect: "neutral" },
+      { value: "slow", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "fto-fat-loss",
+    trait: "weightManagement.fatLossResponse",
+    gene: "FTO",
+    rsid: "rs9939609",
+    alleles: ["T", "A"],
+    effectAllele: "A",
+    evidenceKey: "fto_gene",
+    outcomes: [
+      { value: "excellent", effect: "favorable" },
+      { value: "good", effect: "neutral" },
+      { value: "average", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "fto-appetite",
+    trait: "weightManagement.appetiteControl",
+    gene: "FTO",
+    rsid: "rs9939609",
+    alleles: ["T", "A"],
+    effectAllele: "A",
+    evidenceKey: "fto_gene",
+    outcomes: [
+      { value: "good", effect: "favorable" },
+      { value: "average", effect: "unfavorable" },
+      { value: "average", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "mc4r-appetite",
+    trait: "weightManagement.appetiteControl",
+    gene: "MC4R",
+    rsid: "rs17782313",
+    alleles: ["T", "C"],
+    effectAllele: "C",
+    evidenceKey: "mc4r_gene",
+    outcomes: [
+      { value: "good", effect: "favorable" },
+      { value: "average", effect: "unfavorable" },
+      { value: "poor", effect: "unfavorable" },
+    ],
+  },
+
+  // === FOOD SENSITIVITIES ===
+  {
+    id: "lct-lactose",
+    trait: "foodSensitivities.lactose",
+    gene: "LCT",
+    rsid: "rs4988235",
+    alleles: ["A", "G"],
+    effectAllele: "G", // Ancestral allele - lactase non-persistence is recessive
+    evidenceKey: "lct_gene",
+    outcomes: [
+      { value: "tolerant", effect: "favorable" },
+      { value: "tolerant", effect: "favorable" },
+      { value: "intolerant", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "hla-dq25-gluten",
+    trait: "foodSensitivities.gluten",
+    gene: "HLA-DQA1",
+    rsid: "rs2187668",
+    alleles: ["C", "T"],
+    effectAllele: "T",
+    evidenceKey: "hla_dq_genes",
+    outcomes: [
+      { value: "tolerant", effect: "neutral" },
+      { value: "sensitive", effect: "unfavorable" },
+      { value: "sensitive", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "cyp1a2-caffeine",
+    trait: "foodSensitivities.caffeine",
+    gene: "CYP1A2",
+    rsid: "rs762551",
+    alleles: ["A", "C"],
+    effectAllele: "C",
+    evidenceKey: "cyp1a2_gene",
+    outcomes: [
+      { value: "fast", effect: "favorable" },
+      { value: "normal", effect: "neutral" },
+      { value: "slow", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "adh1b-alcohol",
+    trait: "foodSensitivities.alcohol",
+    gene: "ADH1B",
+    rsid: "rs1229984",
+    alleles: ["C", "T"],
+    effectAllele: "T",
+    evidenceKey: "alcohol_metabolism_genes",
+    outcomes: [
+      { value: "normal", effect: "neutral" },
+      { value: "fast", effect: "neutral" },
+      { value: "fast", effect: "neutral" },
+    ],
+  },
+  {
+    id: "aldh2-alcohol",
+    trait: "foodSensitivities.alcohol",
+    gene: "ALDH2",
+    rsid: "rs671",
+    alleles: ["G", "A"],
+    effectAllele: "A",
+    evidenceKey: "alcohol_metabolism_genes",
+    outcomes: [
+      { value: "normal", effect: "neutral" },
+      { value: "slow", effect: "unfavorable" },
+      { value: "slow", effect: "unfavorable" },
+    ],
+  },
+
+  // === VITAMINS & MINERALS ===
+  {
+    id: "gc-vitamin-d",
+    trait: "vitaminDeficiencies.vitaminD",
+    gene: "GC",
+    rsid: "rs2282679",
+    alleles: ["T", "G"],
+    effectAllele: "G",
+    evidenceKey: "vitamin_d_pathway_genes",
+    outcomes: [
+      { value: "low_risk", effect: "neutral" },
+      { value: "moderate_risk", effect: "unfavorable" },
+      { value: "high_risk", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "vdr-fokI-vitamin-d",
+    trait: "vitaminDeficiencies.vitaminD",
+    gene: "VDR",
+    rsid: "rs2228570",
+    alleles: ["G", "A"],
+    effectAllele: "A",
+    evidenceKey: "vitamin_d_pathway_genes",
+    outcomes: [
+      { value: "low_risk", effect: "neutral" },
+      { value: "low_risk", effect: "neutral" },
+      { value: "moderate_risk", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "fut2-b12",
+    trait: "vitaminDeficiencies.vitaminB12",
+    gene: "FUT2",
+    rsid: "rs601338",
+    alleles: ["A", "G"],
+    effectAllele: "G", // Secretor allele - associated with lower plasma B12
+    evidenceKey: "fut2_gene",
+    outcomes: [
+      { value: "low_risk", effect: "favorable" },
+      { value: "low_risk", effect: "neutral" },
+      { value: "moderate_risk", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "mthfr-c677t-folate",
+    trait: "vitaminDeficiencies.folate",
+    gene: "MTHFR",
+    rsid: "rs1801133",
+    alleles: ["G", "A"],
+    effectAllele: "A",
+    evidenceKey: "mthfr_gene",
+    outcomes: [
+      { value: "low_risk", effect: "neutral" },
+      { value: "moderate_risk", effect: "unfavorable" },
+      { value: "high_risk", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "tmprss6-iron",
+    trait: "vitaminDeficiencies.iron",
+    gene: "TMPRSS6",
+    rsid: "rs855791",
+    alleles: ["G", "A"],
+    effectAllele: "A",
+    evidenceKey: "tmprss6_gene",
+    outcomes: [
+      { value: "low_risk", effect: "neutral" },
+      { value: "low_risk", effect: "neutral" },
+      { value: "moderate_risk", effect: "unfavorable" },
+    ],
+  },
+
+  // === FITNESS ===
+  {
+    id: "actn3-strength",
+    trait: "fitnessResponse.strengthResponse",
+    gene: "ACTN3",
+    rsid: "rs1815739",
+    alleles: ["C", "T"],
+    effectAllele: "T", // X allele (R577X stop codon)
+    evidenceKey: "actn3_gene",
+    outcomes: [
+      { value: "excellent", effect: "favorable" },
+      { value: "good", effect: "neutral" },
+      { value: "average", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "actn3-cardio",
+    trait: "fitnessResponse.cardioResponse",
+    gene: "ACTN3",
+    rsid: "rs1815739",
+    alleles: ["C", "T"],
+    effectAllele: "T",
+    evidenceKey: "actn3_gene",
+    outcomes: [
+      { value: "good", effect: "neutral" },
+      { value: "good", effect: "neutral" },
+      { value: "excellent", effect: "favorable" },
+    ],
+  },
+  {
+    id: "actn3-recovery",
+    trait: "fitnessResponse.recoverySpeed",
+    gene: "ACTN3",
+    rsid: "rs1815739",
+    alleles: ["C", "T"],
+    effectAllele: "T",
+    evidenceKey: "actn3_gene",
+    outcomes: [
+      { value: "normal", effect: "neutral" },
+      { value: "normal", effect: "neutral" },
+      { value: "slow", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "actn3-muscle-gain",
+    trait: "weightManagement.muscleGainPotential",
+    gene: "ACTN3",
+    rsid: "rs1815739",
+    alleles: ["C", "T"],
+    effectAllele: "T",
+    evidenceKey: "actn3_gene",
+    outcomes: [
+      { value: "excellent", effect: "favorable" },
+      { value: "good", effect: "neutral" },
+      { value: "average", effect: "unfavorable" },
+    ],
+  },
+  {
+    id: "col5a1-injury",
+    trait: "fitnessResponse.injuryRisk",
+    gene: "COL5A1",
+    rsid: "rs12722",
+    alleles: ["C", "T"],
+    effectAllele: "T",
+    evidenceKey: "col5a1_gene",
+    outcomes: [
+      { value: "low", effect: "neutral" },
+      { value: "moderate", effect: "unfavorable" },
+      { value: "high", effect: "unfavorable" },
+    ],
+  },
+];
+
+// Value reported when none of a trait's variants were genotyped
+export const TRAIT_DEFAULTS: Record<TraitPath, string> = {
+  "metabolism.type": "normal",
+  "foodSensitivities.lactose": "unknown",
+  "foodSensitivities.gluten": "unknown",
+  "foodSensitivities.caffeine": "normal",
+  "foodSensitivities.alcohol": "normal",
+  "vitaminDeficiencies.vitaminD": "low_risk",
+  "vitaminDeficiencies.vitaminB12": "low_risk",
+  "vitaminDeficiencies.folate": "low_risk",
+  "vitaminDeficiencies.iron": "low_risk",
+  "fitnessResponse.cardioResponse": "good",
+  "fitnessResponse.strengthResponse": "good",
+  "fitnessResponse.recoverySpeed": "normal",
+  "fitnessResponse.injuryRisk": "low",
+  "weightManagement.fatLossResponse": "good",
+  "weightManagement.muscleGainPotential": "good",
+  "weightManagement.appetiteControl": "average",
+};
+
+// metabolism.score = base - perEffectAllele x (effect alleles across metabolism.type rules)
+export const METABOLISM_SCORE = {
+  base: 85,
+  perEffectAllele: 10,
+  min: 35,
+  max: 95,
+};
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  BlobStore,
+  createLocalBlobStore,
+  createS3BlobStore,
+} from "./blob-store";
+import { startS3StandIn } from "./s3-stand-in";
+import { createMemoryRepository, Repository } from "./repository";
+import { createPDFStorage, getPDFBlobKey, PDFStorage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe.each([
+  [
+    "local",
+    async () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), "pdf-storage-"));
+      return {
+        blobs: createLocalBlobStore(root),
+        cleanup: async () => fs.rmSync(root, { recursive: true, force: true }),
+      };
+    },
+  ],
+  [
+    "s3",
+    async () => {
+      const credentials = {
+        bucket: "reports",
+        region: "us-east-1",
+        accessKeyId: "key",
+        secretAccessKey: "secret",
+      };
+      const s3 = await startS3StandIn(credentials);
+      return {
+        blobs: createS3BlobStore({ ...credentials, endpoint: s3.endpoint }),
+        cleanup: () => s3.close(),
+      };
+    },
+  ],
+])("PDF storage on the %s driver", (_driver, createBlobs) => {
+  let repo: Repository;
+  let blobs: BlobStore;
+  let storage: PDFStorage;
+  let cleanup: () => Promise<void>;
+  let orderId: string;
+
+  beforeEach(async () => {
+    ({ blobs, cleanup } = await createBlobs());
+    repo = createMemoryRepository();
+    storage = createPDFStorage({ records: repo.pdfRecords, blobs });
+
+    const user = await repo.users.findOrCreate({ email: "a@example.com" });
+    await repo.quizResponses.save({
+      userId: user.id,
+      analysisId: "analysis_1",
+      quizData: {},
+      personalizationData: {} as any,
+    });
+    orderId = (
+      await repo.orders.create({
+        userId: user.id,
+        analysisId: "analysis_1",
+        planId: "premium",
+        addOns: [],
+        totalPrice: 1499,
+      })
+    ).id;
+  });
+
+  afterEach(() => cleanup());
+
+  const store = () =>
+    storage.storePDFFile(
+      Buffer.from("%PDF-1.4 report"),
+      "blueprint.pdf",
+      orderId,
+      "analysis_1",
+      "1",
+      "premium",
+      [],
+      "Asha",
+    );
+
+  it("should persist the file and its metadata", async () => {
+    const pdf = await store();
+
+    expect(await storage.getPDFRecord(pdf.pdfRecordId)).toMatchObject({
+      orderId,
+      filename: "blueprint.pdf",
+      fileSize: 15,
+    });
+    expect((await storage.getPDFBuffer(pdf.pdfRecordId))?.toString()).toBe(
+      "%PDF-1.4 report",
+    );
+    expect(await storage.getStorageStats()).toMatchObject({
+      totalPDFsGenerated: 1,
+      totalStorageUsed: 15,
+      pdfsByTier: { premium: 1, free: 0 },
+    });
+  });
+
+  it("should remove expired files and records only", async () => {
+    const fresh = await store();
+    await repo.pdfRecords.create({
+      ...fresh,
+      pdfRecordId: "pdf_old",
+      expiresAt: new Date(Date.now() - DAY_MS).toISOString(),
+    });
+    await blobs.put(getPDFBlobKey("pdf_old"), Buffer.from("old"));
+
+    expect(await storage.cleanupExpiredPDFs()).toBe(1);
+    expect(await storage.getPDFRecord("pdf_old")).toBeUndefined();
+    expect(await blobs.get(getPDFBlobKey("pdf_old"))).toBeNull();
+    expect(await storage.getPDFBuffer(fresh.pdfRecordId)).not.toBeNull();
+  });
+
+  it("should keep the record when the file can't be deleted", async () => {
+    const pdf = await store();
+    const failing = createPDFStorage({
+      records: repo.pdfRecords,
+      blobs: {
+        ...blobs,
+        delete: async () => {
+          throw new Error("storage offline");
+        },
+      },
+    });
+
+    expect(
+      await failing.cleanupExpiredPDFs(new Date(Date.now() + 31 * DAY_MS)),
+    ).toBe(0);
+    expect(await storage.getPDFRecord(pdf.pdfRecordId)).toBeDefined();
+  });
+});
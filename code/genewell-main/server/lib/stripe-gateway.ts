@@ -0,0 +1,209 @@
+// Stripe behind the PaymentGateway contract
+// Intents are Checkout Sessions. Webhooks carry a Stripe-Signature header of the form
+// "t=<timestamp>,v1=<hex HMAC-SHA256 of `${t}.${rawBody}`>"; old timestamps are refused as replays.
+
+import crypto from "crypto";
+import {
+  fromMinorUnits,
+  headerValue,
+  hexDigestsMatch,
+  PaymentGateway,
+  PaymentGatewayError,
+  PaymentOutcome,
+  toMinorUnits,
+} from "./payment-gateway";
+
+export const STRIPE_API_URL = "https://api.stripe.com/v1/";
+
+// Stripe's own libraries allow five minutes of clock skew
+export const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface StripeGatewayOptions {
+  secretKey: string;
+  webhookSecret?: string;
+  apiUrl?: string;
+}
+
+// Checkout events that settle an order - completed sessions may still be waiting on a bank transfer
+const EVENT_OUTCOMES: Record<string, (session: any) => PaymentOutcome> = {
+  "checkout.session.completed": (session) =>
+    session.payment_status === "paid" ? "completed" : "pending",
+  "checkout.session.async_payment_succeeded": () => "completed",
+  "checkout.session.async_payment_failed": () => "failed",
+  "checkout.session.expired": () => "failed",
+};
+
+const webhookDigest = (rawBody: string, secret: string, timestamp: number) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest("hex");
+
+/** A Stripe-Signature header for `rawBody`, as Stripe would send it */
+export function signStripeWebhook(
+  rawBody: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): string {
+  return `t=${timestamp},v1=${webhookDigest(rawBody, secret, timestamp)}`;
+}
+
+// Stripe's form encoding for nested parameters: line_items[0][price_data][currency]=inr
+function toStripeForm(
+  value: any,
+  prefix = "",
+  form = new URLSearchParams(),
+): URLSearchParams {
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (item !== null && typeof item === "object") {
+      toStripeForm(item, name, form);
+    } else {
+      form.append(name, String(item));
+    }
+  }
+  return form;
+}
+
+export function createStripeGateway({
+  secretKey,
+  webhookSecret,
+  apiUrl = STRIPE_API_URL,
+}: StripeGatewayOptions): PaymentGateway {
+  const call = async (path: string, body?: object) => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method: body ? "POST" : "GET",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        ...(body
+          ? { "Content-Type": "application/x-www-form-urlencoded" }
+          : {}),
+      },
+      body: body ? toStripeForm(body).toString() : undefined,
+    });
+    const data: any = await response.json();
+
+    if (!response.ok) {
+      throw new PaymentGatewayError(
+        "stripe",
+        data?.error?.message || `Request to ${path} failed`,
+        data?.error,
+      );
+    }
+    return data;
+  };
+
+  return {
+    id: "stripe",
+    label: "Stripe",
+
+    async createIntent({
+      orderId,
+      amount,
+      currency,
+      description,
+      customer,
+      returnUrl,
+      metadata,
+    }) {
+      const tags = { ...metadata, purchase_id: orderId };
+      const session = await call("checkout/sessions", {
+        mode: "payment",
+        client_reference_id: orderId,
+        customer_email: customer.email,
+        line_items: [
+          {
+            quantity: 1,
+            price_data: {
+              currency: currency.toLowerCase(),
+              unit_amount: toMinorUnits(amount),
+              product_data: { name: description },
+            },
+          },
+        ],
+        success_url: returnUrl,
+        cancel_url: returnUrl,
+        metadata: tags,
+        payment_intent_data: { metadata: tags },
+      });
+
+      return {
+        gateway: "stripe",
+        intentId: session.id,
+        checkoutUrl: session.url,
+      };
+    },
+
+    async verify(intentId) {
+      const session = await call(`checkout/sessions/${intentId}`);
+      if (session.payment_status === "paid") {
+        return { status: "completed", paymentId: session.payment_intent };
+      }
+      return { status: session.status === "expired" ? "failed" : "pending" };
+    },
+
+    parseWebhook(rawBody, headers, now = Date.now()) {
+      if (!webhookSecret) return { verified: false, reason: "not_configured" };
+
+      const header = headerValue(headers, "stripe-signature");
+      if (!header) return { verified: false, reason: "missing_signature" };
+
+      // Several v1 signatures are sent while a webhook secret is being rolled
+      const parts = header.split(",").map((part) => part.split("="));
+      const timestamp = Number(parts.find(([key]) => key === "t")?.[1]);
+      const expected = webhookDigest(rawBody, webhookSecret, timestamp);
+      const signed = parts.some(
+        ([key, value]) => key === "v1" && hexDigestsMatch(value, expected),
+      );
+      if (
+        !signed ||
+        !Number.isFinite(timestamp) ||
+        Math.abs(now / 1000 - timestamp) > STRIPE_SIGNATURE_TOLERANCE_SECONDS
+      ) {
+        return { verified: false, reason: "invalid_signature" };
+      }
+
+      let body: any;
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return { verified: false, reason: "malformed" };
+      }
+
+      const outcome = EVENT_OUTCOMES[body.type];
+      if (!outcome) return { verified: true };
+
+      const session = body.data?.object || {};
+      return {
+        verified: true,
+        event: {
+          eventId: body.id,
+          status: outcome(session),
+          providerStatus: body.type,
+          intentId: session.id,
+          orderId: session.client_reference_id || session.metadata?.purchase_id,
+          paymentId: session.payment_intent,
+          amount:
+            session.amount_total === undefined
+              ? undefined
+              : fromMinorUnits(session.amount_total),
+          email: session.customer_details?.email || session.customer_email,
+          buyerName: session.customer_details?.name,
+        },
+      };
+    },
+
+    async refund(paymentId, amount) {
+      const refund = await call("refunds", {
+        payment_intent: paymentId,
+        amount: amount === undefined ? undefined : toMinorUnits(amount),
+      });
+      return {
+        refundId: refund.id,
+        status: refund.status === "succeeded" ? "processed" : "pending",
+        amount: fromMinorUnits(refund.amount),
+      };
+    },
+  };
+}
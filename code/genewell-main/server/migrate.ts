@@ -0,0 +1,72 @@
+// Schema migrations CLI: npm run db:migrate -- [up|down|status] [--to <version>] [--dry-run]
+import { getClient, closePool } from "./lib/db";
+import {
+  MigrationDirection,
+  listAppliedMigrations,
+  runMigrations,
+  withMigrationLock,
+} from "./lib/migrations";
+import { MIGRATIONS } from "./migrations";
+
+function parseArgs(argv: string[]) {
+  const command = argv.find((arg) => !arg.startsWith("--")) ?? "up";
+  const toIndex = argv.indexOf("--to");
+  const to = toIndex >= 0 ? Number(argv[toIndex + 1]) : undefined;
+
+  if (!["up", "down", "status"].includes(command)) {
+    throw new Error(
+      `Unknown command "${command}" - expected up, down or status`,
+    );
+  }
+  if (to !== undefined && !Number.isInteger(to)) {
+    throw new Error("--to expects a migration version number");
+  }
+
+  return { command, to, dryRun: argv.includes("--dry-run") };
+}
+
+async function main() {
+  const { command, to, dryRun } = parseArgs(process.argv.slice(2));
+  const client = await getClient();
+
+  try {
+    if (command === "status") {
+      const applied = new Map(
+        (await listAppliedMigrations(client)).map((m) => [m.version, m]),
+      );
+      for (const migration of MIGRATIONS) {
+        const appliedAt = applied.get(migration.version)?.appliedAt;
+        console.log(
+          `${appliedAt ? "applied" : "pending"}  ${migration.version}_${migration.name}${appliedAt ? `  (${new Date(appliedAt).toISOString()})` : ""}`,
+        );
+      }
+      return;
+    }
+
+    const steps = await withMigrationLock(client, () =>
+      runMigrations(client, {
+        direction: command as MigrationDirection,
+        to,
+        dryRun,
+      }),
+    );
+
+    if (steps.length === 0) {
+      console.log("Nothing to migrate");
+    }
+    for (const step of steps) {
+      console.log(
+        `${dryRun ? "would run" : "ran"} ${step.direction}  ${step.version}_${step.name}`,
+      );
+    }
+  } finally {
+    client.release();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -0,0 +1,83 @@
+// Tables the app shipped with before migrations existed. IF NOT EXISTS so databases
+// created by the old boot-time DDL adopt this migration without changes.
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      email VARCHAR(255) NOT NULL UNIQUE,
+      name VARCHAR(255),
+      phone VARCHAR(20),
+      age INT,
+      gender VARCHAR(50),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS quiz_responses (
+      id SERIAL PRIMARY KEY,
+      user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      analysis_id VARCHAR(255) NOT NULL UNIQUE,
+      quiz_data JSONB NOT NULL,
+      personalization_data JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS purchases (
+      id SERIAL PRIMARY KEY,
+      user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      analysis_id VARCHAR(255) NOT NULL REFERENCES quiz_responses(analysis_id),
+      plan_id VARCHAR(255) NOT NULL,
+      add_ons TEXT[] DEFAULT ARRAY[]::TEXT[],
+      total_price DECIMAL(10, 2) NOT NULL,
+      payment_status VARCHAR(50) NOT NULL DEFAULT 'pending',
+      instamojo_payment_id VARCHAR(255),
+      instamojo_transaction_id VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      completed_at TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS email_logs (
+      id SERIAL PRIMARY KEY,
+      user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      purchase_id INT REFERENCES purchases(id) ON DELETE SET NULL,
+      email_type VARCHAR(50) NOT NULL,
+      recipient_email VARCHAR(255) NOT NULL,
+      subject VARCHAR(255) NOT NULL,
+      status VARCHAR(50) NOT NULL DEFAULT 'pending',
+      sent_at TIMESTAMP,
+      error_message TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS admin_users (
+      id SERIAL PRIMARY KEY,
+      email VARCHAR(255) NOT NULL UNIQUE,
+      password_hash VARCHAR(255) NOT NULL,
+      name VARCHAR(255),
+      role VARCHAR(50) NOT NULL DEFAULT 'admin',
+      is_active BOOLEAN DEFAULT TRUE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_login TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_quiz_responses_user_id ON quiz_responses(user_id);
+    CREATE INDEX IF NOT EXISTS idx_quiz_responses_analysis_id ON quiz_responses(analysis_id);
+    CREATE INDEX IF NOT EXISTS idx_purchases_user_id ON purchases(user_id);
+    CREATE INDEX IF NOT EXISTS idx_purchases_status ON purchases(payment_status);
+    CREATE INDEX IF NOT EXISTS idx_email_logs_user_id ON email_logs(user_id);
+    CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+  `,
+  down: `
+    DROP TABLE IF EXISTS admin_users;
+    DROP TABLE IF EXISTS email_logs;
+    DROP TABLE IF EXISTS purchases;
+    DROP TABLE IF EXISTS quiz_responses;
+    DROP TABLE IF EXISTS users;
+  `,
+};
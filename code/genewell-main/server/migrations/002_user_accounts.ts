@@ -0,0 +1,20 @@
+// Columns for registered accounts - password-less rows are buyers who never registered
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 2,
+  name: "user_accounts",
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash VARCHAR(255);
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS has_uploaded_dna BOOLEAN DEFAULT FALSE;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS subscription VARCHAR(20) DEFAULT 'free';
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS language VARCHAR(5) DEFAULT 'en';
+  `,
+  down: `
+    ALTER TABLE users DROP COLUMN IF EXISTS language;
+    ALTER TABLE users DROP COLUMN IF EXISTS subscription;
+    ALTER TABLE users DROP COLUMN IF EXISTS has_uploaded_dna;
+    ALTER TABLE users DROP COLUMN IF EXISTS password_hash;
+  `,
+};
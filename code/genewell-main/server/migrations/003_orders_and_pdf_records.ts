@@ -0,0 +1,35 @@
+// Wellness and payment purchases share one `orders` table; generated reports get their own
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 3,
+  name: "orders_and_pdf_records",
+  up: `
+    ALTER TABLE purchases RENAME TO orders;
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS pdf_record_id VARCHAR(255);
+
+    -- Ids are opaque strings: they appear in download links
+    CREATE TABLE IF NOT EXISTS pdf_records (
+      id VARCHAR(255) PRIMARY KEY,
+      order_id INT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+      analysis_id VARCHAR(255) NOT NULL,
+      user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      filename VARCHAR(255) NOT NULL,
+      plan_tier VARCHAR(50) NOT NULL,
+      add_ons TEXT[] DEFAULT ARRAY[]::TEXT[],
+      user_name VARCHAR(255),
+      file_size INT NOT NULL,
+      generated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_pdf_records_user_id ON pdf_records(user_id);
+    CREATE INDEX IF NOT EXISTS idx_pdf_records_expires_at ON pdf_records(expires_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS pdf_records;
+    ALTER TABLE orders DROP COLUMN IF EXISTS pdf_record_id;
+    ALTER TABLE orders RENAME TO purchases;
+  `,
+};
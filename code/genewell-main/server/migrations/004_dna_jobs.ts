@@ -0,0 +1,42 @@
+// DNA processing queue and the genetic data deletion log
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 4,
+  name: "dna_jobs",
+  up: `
+    CREATE TABLE IF NOT EXISTS dna_jobs (
+      processing_id VARCHAR(255) PRIMARY KEY,
+      user_key VARCHAR(255) NOT NULL,
+      file_name VARCHAR(255) NOT NULL,
+      privacy_level VARCHAR(20) NOT NULL DEFAULT 'enhanced',
+      delete_after_processing BOOLEAN NOT NULL DEFAULT TRUE,
+      status VARCHAR(50) NOT NULL DEFAULT 'queued',
+      progress INT NOT NULL DEFAULT 0,
+      error_code VARCHAR(50),
+      error_message TEXT,
+      parse_report JSONB,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      completed_at TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS dna_retention_audit (
+      id VARCHAR(255) PRIMARY KEY,
+      user_key VARCHAR(255) NOT NULL,
+      processing_id VARCHAR(255) NOT NULL,
+      item VARCHAR(50) NOT NULL,
+      reason VARCHAR(50) NOT NULL,
+      detail TEXT,
+      deleted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_dna_jobs_status ON dna_jobs(status);
+    CREATE INDEX IF NOT EXISTS idx_dna_retention_audit_user_key ON dna_retention_audit(user_key);
+  `,
+  down: `
+    DROP TABLE IF EXISTS dna_retention_audit;
+    DROP TABLE IF EXISTS dna_jobs;
+  `,
+};
@@ -0,0 +1,25 @@
+// Keeps the genetic data deletion log (created in 004 with the DNA jobs) append-only.
+// A migration of its own because it needs plpgsql, which the pg-mem specs run without.
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 5,
+  name: "dna_retention_audit_guard",
+  up: `
+    CREATE OR REPLACE FUNCTION reject_audit_changes() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'dna_retention_audit is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS dna_retention_audit_append_only ON dna_retention_audit;
+    CREATE TRIGGER dna_retention_audit_append_only
+      BEFORE UPDATE OR DELETE ON dna_retention_audit
+      FOR EACH ROW EXECUTE FUNCTION reject_audit_changes();
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS dna_retention_audit_append_only ON dna_retention_audit;
+    DROP FUNCTION IF EXISTS reject_audit_changes();
+  `,
+};
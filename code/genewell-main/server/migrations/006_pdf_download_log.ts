@@ -0,0 +1,27 @@
+// Every attempt to use a signed PDF download link, granted or not
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 6,
+  name: "pdf_download_log",
+  up: `
+    -- No foreign keys: denied attempts may name unknown records, and expired records are deleted
+    CREATE TABLE IF NOT EXISTS pdf_download_log (
+      id SERIAL PRIMARY KEY,
+      pdf_record_id VARCHAR(255) NOT NULL,
+      link_id VARCHAR(255),
+      user_id VARCHAR(255),
+      outcome VARCHAR(50) NOT NULL,
+      ip_address VARCHAR(64),
+      user_agent TEXT,
+      accessed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_pdf_download_log_link_id ON pdf_download_log(link_id);
+    CREATE INDEX IF NOT EXISTS idx_pdf_download_log_pdf_record_id ON pdf_download_log(pdf_record_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS pdf_download_log;
+  `,
+};
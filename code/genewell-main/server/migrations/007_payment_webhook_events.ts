@@ -0,0 +1,23 @@
+// Payment webhooks already taken for processing, so redeliveries are acknowledged and skipped
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 7,
+  name: "payment_webhook_events",
+  up: `
+    -- order_id is whatever the webhook named, so no foreign key
+    CREATE TABLE IF NOT EXISTS payment_webhook_events (
+      id SERIAL PRIMARY KEY,
+      provider VARCHAR(50) NOT NULL,
+      event_id VARCHAR(255) NOT NULL,
+      status VARCHAR(50),
+      order_id VARCHAR(255),
+      received_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (provider, event_id)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS payment_webhook_events;
+  `,
+};
@@ -0,0 +1,24 @@
+// Orders can be paid through any payment gateway, not just Instamojo
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 8,
+  name: "order_payment_gateways",
+  up: `
+    ALTER TABLE orders RENAME COLUMN instamojo_payment_id TO payment_intent_id;
+    ALTER TABLE orders RENAME COLUMN instamojo_transaction_id TO gateway_payment_id;
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_gateway VARCHAR(50);
+
+    -- Every payment so far went through Instamojo
+    UPDATE orders SET payment_gateway = 'instamojo' WHERE payment_intent_id IS NOT NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_orders_payment_intent ON orders(payment_gateway, payment_intent_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_orders_payment_intent;
+    ALTER TABLE orders DROP COLUMN IF EXISTS payment_gateway;
+    ALTER TABLE orders RENAME COLUMN gateway_payment_id TO instamojo_transaction_id;
+    ALTER TABLE orders RENAME COLUMN payment_intent_id TO instamojo_payment_id;
+  `,
+};
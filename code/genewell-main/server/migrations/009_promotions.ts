@@ -0,0 +1,42 @@
+// Promotion codes, and which orders used them
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 9,
+  name: "promotions",
+  up: `
+    -- Codes are stored upper case, so the unique key is case-insensitive
+    CREATE TABLE IF NOT EXISTS promotions (
+      id SERIAL PRIMARY KEY,
+      code VARCHAR(40) NOT NULL UNIQUE,
+      description TEXT NOT NULL DEFAULT '',
+      kind VARCHAR(10) NOT NULL CHECK (kind IN ('percent', 'flat')),
+      value DECIMAL(10, 2) NOT NULL,
+      applies_to TEXT[] DEFAULT ARRAY[]::TEXT[],
+      starts_at TIMESTAMP,
+      ends_at TIMESTAMP,
+      max_redemptions INT,
+      max_redemptions_per_user INT,
+      first_purchase_only BOOLEAN NOT NULL DEFAULT FALSE,
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS promotion_redemptions (
+      id SERIAL PRIMARY KEY,
+      promotion_id INT NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+      order_id INT NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+      user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      discount DECIMAL(10, 2) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion ON promotion_redemptions(promotion_id);
+    CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_user ON promotion_redemptions(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS promotion_redemptions;
+    DROP TABLE IF EXISTS promotions;
+  `,
+};
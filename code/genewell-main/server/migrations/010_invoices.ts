@@ -0,0 +1,49 @@
+// GST tax invoices for completed orders, and the billing details taken at checkout to issue them
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 10,
+  name: "invoices",
+  up: `
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_state VARCHAR(2);
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_gstin VARCHAR(15);
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_name VARCHAR(255);
+
+    -- Invoices are tax records: they are never updated, and keep the order they were issued for.
+    -- Numbers run 1, 2, ... within each financial year, without gaps.
+    CREATE TABLE IF NOT EXISTS invoices (
+      id SERIAL PRIMARY KEY,
+      order_id INT NOT NULL UNIQUE REFERENCES orders(id),
+      user_id INT NOT NULL REFERENCES users(id),
+      financial_year VARCHAR(7) NOT NULL,
+      sequence INT NOT NULL,
+      seller_name VARCHAR(255) NOT NULL,
+      seller_address TEXT NOT NULL DEFAULT '',
+      seller_gstin VARCHAR(15),
+      seller_state VARCHAR(2) NOT NULL,
+      buyer_name VARCHAR(255) NOT NULL,
+      buyer_email VARCHAR(255) NOT NULL,
+      buyer_gstin VARCHAR(15),
+      place_of_supply VARCHAR(2) NOT NULL,
+      lines JSONB NOT NULL,
+      discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+      taxable_value DECIMAL(10, 2) NOT NULL,
+      gst_rate DECIMAL(5, 4) NOT NULL,
+      cgst DECIMAL(10, 2) NOT NULL DEFAULT 0,
+      sgst DECIMAL(10, 2) NOT NULL DEFAULT 0,
+      igst DECIMAL(10, 2) NOT NULL DEFAULT 0,
+      total DECIMAL(10, 2) NOT NULL,
+      issued_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (financial_year, sequence)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_invoices_user ON invoices(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS invoices;
+    ALTER TABLE orders DROP COLUMN IF EXISTS billing_name;
+    ALTER TABLE orders DROP COLUMN IF EXISTS billing_gstin;
+    ALTER TABLE orders DROP COLUMN IF EXISTS billing_state;
+  `,
+};
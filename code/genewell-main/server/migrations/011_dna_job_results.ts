@@ -0,0 +1,17 @@
+// DNA results are kept with their job, so they outlive a restart like the job's status does
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 11,
+  name: "dna_job_results",
+  up: `
+    ALTER TABLE dna_jobs ADD COLUMN IF NOT EXISTS results JSONB;
+
+    CREATE INDEX IF NOT EXISTS idx_dna_jobs_user_key ON dna_jobs(user_key);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_dna_jobs_user_key;
+    ALTER TABLE dna_jobs DROP COLUMN IF EXISTS results;
+  `,
+};
@@ -0,0 +1,15 @@
+// When an order's payment confirmation went out, so it is sent once whichever of verify or the
+// webhook settles the payment, and again on retry if sending failed
+
+import { Migration } from "../lib/migrations";
+
+export const migration: Migration = {
+  version: 12,
+  name: "order_confirmations",
+  up: `
+    ALTER TABLE orders ADD COLUMN IF NOT EXISTS confirmation_sent_at TIMESTAMP;
+  `,
+  down: `
+    ALTER TABLE orders DROP COLUMN IF EXISTS confirmation_sent_at;
+  `,
+};
@@ -0,0 +1,30 @@
+// Every migration, in order. New files are numbered after the last one and added here.
+
+import { Migration } from "../lib/migrations";
+import { migration as initialSchema } from "./001_initial_schema";
+import { migration as userAccounts } from "./002_user_accounts";
+import { migration as ordersAndPdfRecords } from "./003_orders_and_pdf_records";
+import { migration as dnaJobs } from "./004_dna_jobs";
+import { migration as dnaRetentionAuditGuard } from "./005_dna_retention_audit_guard";
+import { migration as pdfDownloadLog } from "./006_pdf_download_log";
+import { migration as paymentWebhookEvents } from "./007_payment_webhook_events";
+import { migration as orderPaymentGateways } from "./008_order_payment_gateways";
+import { migration as promotions } from "./009_promotions";
+import { migration as invoices } from "./010_invoices";
+import { migration as dnaJobResults } from "./011_dna_job_results";
+import { migration as orderConfirmations } from "./012_order_confirmations";
+
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  userAccounts,
+  ordersAndPdfRecords,
+  dnaJobs,
+  dnaRetentionAuditGuard,
+  pdfDownloadLog,
+  paymentWebhookEvents,
+  orderPaymentGateways,
+  promotions,
+  invoices,
+  dnaJobResults,
+  orderConfirmations,
+];
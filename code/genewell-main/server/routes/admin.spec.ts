@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { Request, Response } from "express";
+import { requireAdmin } from "./admin";
+
+function authorize(headers: Record<string, string>) {
+  const next = vi.fn();
+  const res = {
+    statusCode: 200,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  };
+  requireAdmin(
+    { headers } as unknown as Request,
+    res as unknown as Response,
+    next,
+  );
+  return { status: res.statusCode, admitted: next.mock.calls.length > 0 };
+}
+
+describe("requireAdmin", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should admit only the configured token", () => {
+    vi.stubEnv("ADMIN_TOKEN", "s3cret-admin-token");
+
+    expect(authorize({ "x-admin-token": "s3cret-admin-token" })).toEqual({
+      status: 200,
+      admitted: true,
+    });
+    expect(authorize({ "x-admin-token": "s3cret" })).toEqual({
+      status: 401,
+      admitted: false,
+    });
+    expect(authorize({})).toEqual({ status: 401, admitted: false });
+  });
+
+  it("should refuse everyone when no token is configured", () => {
+    vi.stubEnv("ADMIN_TOKEN", "");
+
+    expect(authorize({})).toEqual({ status: 503, admitted: false });
+    expect(authorize({ "x-admin-token": "" })).toEqual({
+      status: 503,
+      admitted: false,
+    });
+  });
+});
@@ -1,18 +1,75 @@
+import crypto from 'crypto';
 import { RequestHandler } from 'express';
+import { PromotionCreateSchema } from '../../shared/api';
 import {
-  getAllUsers,
-  getUserWithPurchases,
-  query,
-} from '../lib/db';
+  repository,
+  UserRecord,
+  OrderRecord,
+  PaymentStatus,
+  NewPromotion,
+  PromotionCodeTakenError,
+} from '../lib/repository';
+import { getPaymentGateway } from '../lib/payment-gateways';
+import { PaymentGatewayError } from '../lib/payment-gateway';
+
+// The admin dashboard reads snake_case rows, as these endpoints returned straight from Postgres
+
+const toUserRow = (user: UserRecord) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  phone: user.phone,
+  age: user.age,
+  gender: user.gender,
+  created_at: user.createdAt,
+});
+
+const toPurchaseRow = (order: OrderRecord, user?: UserRecord) => ({
+  id: order.id,
+  user_id: order.userId,
+  analysis_id: order.analysisId,
+  plan_id: order.planId,
+  add_ons: order.addOns,
+  total_price: order.totalPrice,
+  payment_status: order.paymentStatus,
+  payment_gateway: order.paymentGateway,
+  payment_intent_id: order.paymentIntentId,
+  gateway_payment_id: order.gatewayPaymentId,
+  created_at: order.createdAt,
+  completed_at: order.completedAt,
+  email: user?.email,
+  name: user?.name,
+});
+
+const withBuyers = async (orders: OrderRecord[]) => {
+  const buyers = new Map<string, UserRecord | undefined>();
+  for (const userId of new Set(orders.map((o) => o.userId))) {
+    buyers.set(userId, await repository.users.findById(userId));
+  }
+  return orders.map((o) => toPurchaseRow(o, buyers.get(o.userId)));
+};
+
+// Compared as digests so neither the timing nor the length check gives away the token
+const tokenDigest = (token: string) => crypto.createHash('sha256').update(token).digest();
 
 /**
- * Middleware to verify admin access
- * In production, implement proper authentication
+ * Middleware to verify admin access via the X-Admin-Token header.
+ * Fails closed: without ADMIN_TOKEN configured, nobody is an admin.
  */
 export const requireAdmin: RequestHandler = (req, res, next) => {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    return res.status(503).json({
+      success: false,
+      message: 'Admin access is not configured',
+    });
+  }
+
   const adminToken = req.headers['x-admin-token'];
-  
-  if (adminToken !== process.env.ADMIN_TOKEN) {
+  if (
+    typeof adminToken !== 'string' ||
+    !crypto.timingSafeEqual(tokenDigest(adminToken), tokenDigest(expected))
+  ) {
     return res.status(401).json({
       success: false,
       message: 'Unauthorized - Invalid or missing admin token',
@@ -32,15 +89,12 @@ export const handleGetAllUsers: RequestHandler = async (req, res) => {
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = (page - 1) * limit;
 
-    const users = await getAllUsers(limit, offset);
-
-    // Get total count
-    const countResult = await query('SELECT COUNT(*) as count FROM users');
-    const totalCount = countResult.rows[0].count;
+    const users = await repository.users.list({ limit, offset });
+    const totalCount = await repository.users.count();
 
     res.json({
       success: true,
-      users,
+      users: users.map(toUserRow),
       pagination: {
         page,
         limit,
@@ -66,30 +120,36 @@ export const handleGetUserDetails: RequestHandler = async (req, res) => {
   try {
     const { userId } = req.params;
 
-    const userDetails = await getUserWithPurchases(parseInt(userId));
+    const user = await repository.users.findById(userId);
 
-    if (!userDetails.user) {
+    if (!user) {
       return res.status(404).json({
         success: false,
         message: 'User not found',
       });
     }
 
+    const [purchases, quizResponses] = await Promise.all([
+      repository.orders.listByUser(userId),
+      repository.quizResponses.listByUser(userId),
+    ]);
+
     // Get quiz data if available
     let quizData = null;
-    if (userDetails.latestQuiz) {
+    const [latestQuiz] = quizResponses;
+    if (latestQuiz) {
       quizData = {
-        analysisId: userDetails.latestQuiz.analysis_id,
-        quizData: userDetails.latestQuiz.quiz_data,
-        personalizationData: userDetails.latestQuiz.personalization_data,
-        createdAt: userDetails.latestQuiz.created_at,
+        analysisId: latestQuiz.analysisId,
+        quizData: latestQuiz.quizData,
+        personalizationData: latestQuiz.personalizationData,
+        createdAt: latestQuiz.createdAt,
       };
     }
 
     res.json({
       success: true,
-      user: userDetails.user,
-      purchases: userDetails.purchases,
+      user: toUserRow(user),
+      purchases: purchases.map((p) => toPurchaseRow(p)),
       latestQuiz: quizData,
     });
   } catch (error) {
@@ -108,52 +168,23 @@ export const handleGetUserDetails: RequestHandler = async (req, res) => {
  */
 export const handleAdminDashboard: RequestHandler = async (req, res) => {
   try {
-    // Total users
-    const usersResult = await query('SELECT COUNT(*) as count FROM users');
-    const totalUsers = usersResult.rows[0].count;
-
-    // Total quiz responses
-    const quizResult = await query('SELECT COUNT(*) as count FROM quiz_responses');
-    const totalQuizzes = quizResult.rows[0].count;
-
-    // Total purchases
-    const purchasesResult = await query('SELECT COUNT(*) as count FROM purchases');
-    const totalPurchases = purchasesResult.rows[0].count;
-
-    // Completed purchases
-    const completedResult = await query(
-      "SELECT COUNT(*) as count FROM purchases WHERE payment_status = 'completed'"
-    );
-    const completedPurchases = completedResult.rows[0].count;
-
-    // Total revenue
-    const revenueResult = await query(
-      "SELECT SUM(total_price) as total FROM purchases WHERE payment_status = 'completed'"
-    );
-    const totalRevenue = revenueResult.rows[0].total || 0;
-
-    // Email statistics
-    const emailResult = await query(
-      "SELECT status, COUNT(*) as count FROM email_logs GROUP BY status"
-    );
-    const emailStats = emailResult.rows.reduce(
-      (acc: any, row: any) => {
-        acc[row.status] = row.count;
-        return acc;
-      },
-      {}
-    );
-
-    // Recent purchases
-    const recentResult = await query(`
-      SELECT 
-        p.id, p.user_id, p.total_price, p.payment_status, p.created_at,
-        u.email, u.name
-      FROM purchases p
-      JOIN users u ON p.user_id = u.id
-      ORDER BY p.created_at DESC
-      LIMIT 10
-    `);
+    const [
+      totalUsers,
+      totalQuizzes,
+      totalPurchases,
+      completedPurchases,
+      totalRevenue,
+      emailStats,
+      recentPurchases,
+    ] = await Promise.all([
+      repository.users.count(),
+      repository.quizResponses.count(),
+      repository.orders.count(),
+      repository.orders.count('completed'),
+      repository.orders.revenue(),
+      repository.emailLogs.countByStatus(),
+      repository.orders.list({ limit: 10, offset: 0 }),
+    ]);
 
     res.json({
       success: true,
@@ -162,10 +193,10 @@ export const handleAdminDashboard: RequestHandler = async (req, res) => {
         totalQuizzes,
         totalPurchases,
         completedPurchases,
-        totalRevenue: parseFloat(totalRevenue),
+        totalRevenue,
         emailStats,
       },
-      recentPurchases: recentResult.rows,
+      recentPurchases: await withBuyers(recentPurchases),
     });
   } catch (error) {
     console.error('Error fetching dashboard stats:', error);
@@ -186,47 +217,180 @@ export const handleGetAllPurchases: RequestHandler = async (req, res) => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = (page - 1) * limit;
-    const status = req.query.status as string;
+    const status = (req.query.status as PaymentStatus) || undefined;
 
-    let query_str = `
-      SELECT 
-        p.id, p.user_id, p.plan_id, p.total_price, p.payment_status, 
-        p.created_at, p.completed_at, u.email, u.name
-      FROM purchases p
-      JOIN users u ON p.user_id = u.id
-    `;
+    const purchases = await repository.orders.list({ status, limit, offset });
+    const totalCount = await repository.orders.count(status);
 
-    const params: any[] = [];
+    res.json({
+      success: true,
+      purchases: await withBuyers(purchases),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching purchases:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
 
-    if (status) {
-      query_str += ` WHERE p.payment_status = $${params.length + 1}`;
-      params.push(status);
+/**
+ * POST /api/admin/purchases/:purchaseId/refund
+ * Refunds a completed purchase through the gateway that took the payment - all of it unless
+ * `amount` (rupees) is given. Only a full refund marks the purchase refunded.
+ */
+export const handleRefundPurchase: RequestHandler = async (req, res) => {
+  try {
+    const order = await repository.orders.findById(req.params.purchaseId);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase not found',
+      });
     }
 
-    query_str += ` ORDER BY p.created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
-    params.push(limit, offset);
+    if (order.paymentStatus !== 'completed' || !order.gatewayPaymentId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only completed payments can be refunded',
+      });
+    }
 
-    const result = await query(query_str, params);
+    const amount = req.body?.amount === undefined ? undefined : Number(req.body.amount);
+    if (amount !== undefined && !(amount > 0 && amount <= order.totalPrice)) {
+      return res.status(400).json({
+        success: false,
+        message: `amount must be more than 0 and at most ${order.totalPrice}`,
+      });
+    }
 
-    // Get count
-    let countQuery = 'SELECT COUNT(*) as count FROM purchases';
-    if (status) {
-      countQuery += " WHERE payment_status = $1";
-      const countResult = await query(countQuery, [status]);
-    } else {
-      const countResult = await query(countQuery);
+    const gateway = getPaymentGateway(order.paymentGateway || 'instamojo');
+    if (!gateway) {
+      return res.status(400).json({
+        success: false,
+        message: `Payment gateway ${order.paymentGateway} is not configured`,
+      });
     }
 
+    const refund = await gateway.refund(order.gatewayPaymentId, amount);
+    const fullRefund = amount === undefined || amount === order.totalPrice;
+    const purchase = fullRefund
+      ? await repository.orders.updatePaymentStatus(order.id, 'refunded')
+      : order;
+
     res.json({
       success: true,
-      purchases: result.rows,
-      pagination: {
-        page,
-        limit,
-      },
+      refund,
+      purchase: toPurchaseRow(purchase),
     });
   } catch (error) {
-    console.error('Error fetching purchases:', error);
+    console.error('Error refunding purchase:', error);
+    res.status(error instanceof PaymentGatewayError ? 502 : 500).json({
+      success: false,
+      message: error instanceof PaymentGatewayError ? 'The payment gateway refused the refund' : 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * GET /api/admin/promotions
+ * Lists promotion codes, newest first, with what each has been redeemed for
+ */
+export const handleListPromotions: RequestHandler = async (_req, res) => {
+  try {
+    const promotions = await repository.promotions.list();
+    const performance = await repository.promotionRedemptions.performance();
+
+    res.json({
+      success: true,
+      promotions: promotions.map((promotion) => ({
+        ...promotion,
+        performance: performance[promotion.id] || {
+          redemptions: 0,
+          pendingRedemptions: 0,
+          discountGiven: 0,
+          revenue: 0,
+        },
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * POST /api/admin/promotions
+ * Creates a promotion code - percentage or flat, optionally limited to some plans and add-ons,
+ * to a validity window, to a number of uses overall and per buyer, or to first purchases
+ */
+export const handleCreatePromotion: RequestHandler = async (req, res) => {
+  const parsed = PromotionCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid promotion',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  try {
+    const promotion = await repository.promotions.create(parsed.data as NewPromotion);
+    res.status(201).json({ success: true, promotion });
+  } catch (error) {
+    if (error instanceof PromotionCodeTakenError) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error('Error creating promotion:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/promotions/:promotionId
+ * Switches a promotion code on or off with `active` - redemptions already made stand
+ */
+export const handleUpdatePromotion: RequestHandler = async (req, res) => {
+  if (typeof req.body?.active !== 'boolean') {
+    return res.status(400).json({
+      success: false,
+      message: 'Send active: true or false',
+    });
+  }
+
+  try {
+    const promotion = await repository.promotions.setActive(req.params.promotionId, req.body.active);
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found',
+      });
+    }
+
+    res.json({ success: true, promotion });
+  } catch (error) {
+    console.error('Error updating promotion:', error);
     res.status(500).json({
       success: false,
       message: 'Internal server error',
@@ -245,22 +409,27 @@ export const handleGetQuizResponses: RequestHandler = async (req, res) => {
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = (page - 1) * limit;
 
-    const result = await query(`
-      SELECT 
-        qr.id, qr.analysis_id, qr.created_at, 
-        u.id as user_id, u.email, u.name, u.age, u.gender
-      FROM quiz_responses qr
-      JOIN users u ON qr.user_id = u.id
-      ORDER BY qr.created_at DESC
-      LIMIT $1 OFFSET $2
-    `, [limit, offset]);
-
-    const countResult = await query('SELECT COUNT(*) as count FROM quiz_responses');
-    const totalCount = countResult.rows[0].count;
+    const quizResponses = await repository.quizResponses.list({ limit, offset });
+    const totalCount = await repository.quizResponses.count();
+
+    const rows = [];
+    for (const response of quizResponses) {
+      const user = await repository.users.findById(response.userId);
+      rows.push({
+        id: response.id,
+        analysis_id: response.analysisId,
+        created_at: response.createdAt,
+        user_id: response.userId,
+        email: user?.email,
+        name: user?.name,
+        age: user?.age,
+        gender: user?.gender,
+      });
+    }
 
     res.json({
       success: true,
-      quizResponses: result.rows,
+      quizResponses: rows,
       pagination: {
         page,
         limit,
@@ -288,18 +457,23 @@ export const handleGetEmailLogs: RequestHandler = async (req, res) => {
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = (page - 1) * limit;
 
-    const result = await query(`
-      SELECT * FROM email_logs
-      ORDER BY created_at DESC
-      LIMIT $1 OFFSET $2
-    `, [limit, offset]);
-
-    const countResult = await query('SELECT COUNT(*) as count FROM email_logs');
-    const totalCount = countResult.rows[0].count;
+    const emailLogs = await repository.emailLogs.list({ limit, offset });
+    const totalCount = await repository.emailLogs.count();
 
     res.json({
       success: true,
-      emailLogs: result.rows,
+      emailLogs: emailLogs.map((log) => ({
+        id: log.id,
+        user_id: log.userId,
+        purchase_id: log.orderId,
+        email_type: log.emailType,
+        recipient_email: log.recipientEmail,
+        subject: log.subject,
+        status: log.status,
+        sent_at: log.sentAt,
+        error_message: log.errorMessage,
+        created_at: log.createdAt,
+      })),
       pagination: {
         page,
         limit,
@@ -323,22 +497,27 @@ export const handleGetEmailLogs: RequestHandler = async (req, res) => {
  */
 export const handleExportUsersCSV: RequestHandler = async (req, res) => {
   try {
-    const result = await query(`
-      SELECT 
-        u.id, u.email, u.name, u.age, u.gender, u.phone,
-        COUNT(DISTINCT qr.id) as total_quizzes,
-        COUNT(DISTINCT p.id) as total_purchases,
-        u.created_at
-      FROM users u
-      LEFT JOIN quiz_responses qr ON u.id = qr.user_id
-      LEFT JOIN purchases p ON u.id = p.user_id
-      GROUP BY u.id
-      ORDER BY u.created_at DESC
-    `);
+    const users = await repository.users.list({
+      limit: await repository.users.count(),
+      offset: 0,
+    });
+
+    const rows = [];
+    for (const user of users) {
+      const [quizResponses, purchases] = await Promise.all([
+        repository.quizResponses.listByUser(user.id),
+        repository.orders.listByUser(user.id),
+      ]);
+      rows.push({
+        ...toUserRow(user),
+        total_quizzes: quizResponses.length,
+        total_purchases: purchases.length,
+      });
+    }
 
     const csv = [
       ['ID', 'Email', 'Name', 'Age', 'Gender', 'Phone', 'Total Quizzes', 'Total Purchases', 'Created At'],
-      ...result.rows.map((row: any) => [
+      ...rows.map((row) => [
         row.id,
         row.email,
         row.name || '',
@@ -2,77 +2,48 @@ import { RequestHandler } from "express";
 import {
   AuthRegisterSchema,
   AuthLoginSchema,
+  AuthRefreshSchema,
   AuthResponse,
   User,
 } from "../../shared/api";
-
-// In-memory user store (replace with database in production)
-const users = new Map<string, User & { password: string }>();
-
-// Mock JWT token generation (replace with proper JWT in production)
-const generateToken = (userId: string): string => {
-  return `mock_token_${userId}_${Date.now()}`;
-};
-
-// Mock password hashing (replace with bcrypt in production)
-const hashPassword = (password: string): string => {
-  return `hashed_${password}`;
-};
-
-const verifyPassword = (password: string, hashedPassword: string): boolean => {
-  return hashedPassword === `hashed_${password}`;
-};
+import {
+  hashPassword,
+  verifyPassword,
+  verifyToken,
+  issueSessionTokens,
+} from "../lib/auth-crypto";
+import { repository, toPublicUser, EmailTakenError } from "../lib/repository";
 
 export const handleRegister: RequestHandler = async (req, res) => {
   try {
     const validatedData = AuthRegisterSchema.parse(req.body);
     const { email, password, name, age, gender } = validatedData;
 
-    // Check if user already exists
-    const existingUser = Array.from(users.values()).find(
-      (user) => user.email === email,
-    );
-
-    if (existingUser) {
-      const response: AuthResponse = {
-        success: false,
-        message: "User already exists with this email",
-      };
-      return res.status(400).json(response);
-    }
-
-    // Create new user
-    const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const hashedPassword = hashPassword(password);
-
-    const newUser: User & { password: string } = {
-      id: userId,
+    const account = await repository.users.create({
       email,
       name,
       age,
       gender,
-      createdAt: new Date().toISOString(),
-      hasUploadedDNA: false,
-      subscription: "free",
-      password: hashedPassword,
-    };
-
-    users.set(userId, newUser);
-
-    const token = generateToken(userId);
-
-    // Remove password from response
-    const { password: _, ...userResponse } = newUser;
+      passwordHash: await hashPassword(password),
+    });
 
     const response: AuthResponse = {
       success: true,
-      user: userResponse,
-      token,
+      user: toPublicUser(account),
+      ...issueSessionTokens(account.id),
       message: "Account created successfully!",
     };
 
     res.status(201).json(response);
   } catch (error) {
+    if (error instanceof EmailTakenError) {
+      const response: AuthResponse = {
+        success: false,
+        message: "User already exists with this email",
+      };
+      return res.status(400).json(response);
+    }
+
     console.error("Registration error:", error);
     const response: AuthResponse = {
       success: false,
@@ -87,12 +58,13 @@ export const handleLogin: RequestHandler = async (req, res) => {
     const validatedData = AuthLoginSchema.parse(req.body);
     const { email, password } = validatedData;
 
-    // Find user by email
-    const user = Array.from(users.values()).find(
-      (user) => user.email === email,
-    );
+    const account = await repository.users.findByEmail(email);
 
-    if (!user || !verifyPassword(password, user.password)) {
+    // Buyers who checked out without registering have no password to log in with
+    if (
+      !account?.passwordHash ||
+      !(await verifyPassword(password, account.passwordHash))
+    ) {
       const response: AuthResponse = {
         success: false,
         message: "Invalid email or password",
@@ -100,15 +72,10 @@ export const handleLogin: RequestHandler = async (req, res) => {
       return res.status(401).json(response);
     }
 
-    const token = generateToken(user.id);
-
-    // Remove password from response
-    const { password: _, ...userResponse } = user;
-
     const response: AuthResponse = {
       success: true,
-      user: userResponse,
-      token,
+      user: toPublicUser(account),
+      ...issueSessionTokens(account.id),
       message: "Login successful!",
     };
 
@@ -123,50 +90,105 @@ export const handleLogin: RequestHandler = async (req, res) => {
   }
 };
 
-export const handleGetProfile: RequestHandler = async (req, res) => {
+/**
+ * POST /api/auth/refresh
+ * Exchanges a refresh token for a new access/refresh token pair
+ */
+export const handleRefreshToken: RequestHandler = async (req, res) => {
   try {
-    // Extract token from Authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      const response: AuthResponse = {
-        success: false,
-        message: "No valid authorization token provided",
-      };
-      return res.status(401).json(response);
-    }
-
-    const token = authHeader.substring(7);
+    const { refreshToken } = AuthRefreshSchema.parse(req.body);
+    const payload = verifyToken(refreshToken, "refresh");
+    const account = payload && (await repository.users.findById(payload.sub));
 
-    // Mock token validation (replace with proper JWT verification)
-    const userId = token.split("_")[2];
-    const user = users.get(`user_${userId}_${token.split("_")[3]}`);
-
-    if (!user) {
+    if (!account) {
       const response: AuthResponse = {
         success: false,
-        message: "Invalid or expired token",
+        message: "Invalid or expired refresh token",
       };
       return res.status(401).json(response);
     }
 
-    // Remove password from response
-    const { password: _, ...userResponse } = user;
-
     const response: AuthResponse = {
       success: true,
-      user: userResponse,
+      user: toPublicUser(account),
+      ...issueSessionTokens(account.id),
     };
 
     res.status(200).json(response);
   } catch (error) {
-    console.error("Profile fetch error:", error);
+    console.error("Token refresh error:", error);
     const response: AuthResponse = {
       success: false,
-      message: "Failed to fetch profile",
+      message: "Invalid refresh request",
     };
-    res.status(500).json(response);
+    res.status(400).json(response);
+  }
+};
+
+/**
+ * Middleware - like requireUser, but a request without a valid access token goes through as
+ * anonymous, with res.locals.user unset
+ */
+export const identifyUser: RequestHandler = async (req, res, next) => {
+  try {
+    const authHeader = req.headers.authorization;
+    const payload =
+      authHeader?.startsWith("Bearer ") &&
+      verifyToken(authHeader.substring(7), "access");
+    const account = payload && (await repository.users.findById(payload.sub));
+
+    if (account) res.locals.user = toPublicUser(account);
+    next();
+  } catch (error) {
+    console.error("Authentication error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Authentication failed",
+    });
+  }
+};
+
+/**
+ * Middleware - verifies the Bearer access token and loads the user into res.locals.user
+ */
+export const requireUser: RequestHandler = async (req, res, next) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const payload = verifyToken(authHeader.substring(7), "access");
+    const account = payload && (await repository.users.findById(payload.sub));
+
+    if (!account) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid or expired token",
+      });
+    }
+
+    res.locals.user = toPublicUser(account);
+    next();
+  } catch (error) {
+    console.error("Authentication error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Authentication failed",
+    });
   }
 };
 
-// Export users map for use in other routes
-export { users };
+export const handleGetProfile: RequestHandler = async (_req, res) => {
+  const user: User = res.locals.user;
+
+  const response: AuthResponse = {
+    success: true,
+    user,
+  };
+
+  res.status(200).json(response);
+};
@@ -0,0 +1,303 @@
+import { RequestHandler } from "express";
+import {
+  CheckoutCompleteResponse,
+  CheckoutQuote,
+  CheckoutQuoteRequestSchema,
+  CheckoutQuoteResponse,
+  User,
+  WellnessQuizSchema,
+} from "../../shared/api";
+import { priceCheckout } from "../../shared/catalog";
+import { analyzeQuizData } from "../../shared/personalization-engine";
+import { isGstin, isGstStateCode } from "../../shared/gst";
+import {
+  createQuote,
+  QuoteRejection,
+  redeemQuote,
+} from "../lib/checkout-quotes";
+import { issueInvoice } from "../lib/invoices";
+import {
+  applyPromotion,
+  confirmQuotePromotion,
+  PROMOTION_DENIALS,
+} from "../lib/promotions";
+import {
+  NewOrder,
+  OrderRecord,
+  repository,
+  UserRecord,
+} from "../lib/repository";
+
+const PRICING_ERRORS = {
+  unknown_plan: "Unknown plan",
+  unknown_add_on: "Unknown add-on",
+};
+
+export const QUOTE_REJECTIONS: Record<QuoteRejection, string> = {
+  missing_quote:
+    "Missing quoteId - price the order with POST /api/checkout/quote first",
+  invalid_signature: "Quote is not valid - request a new one",
+  expired: "Quote has expired - request a new one",
+};
+
+type BillingDetails = Pick<
+  NewOrder,
+  "billingState" | "billingGstin" | "billingName"
+>;
+
+/**
+ * The details a checkout sent for its tax invoice, all optional. A GSTIN is checked for its form
+ * and state code, not that it is registered.
+ */
+function billingDetails(body: any): {
+  billing?: BillingDetails;
+  message?: string;
+} {
+  const billingState = body.billingState || undefined;
+  const billingGstin = body.gstin
+    ? String(body.gstin).trim().toUpperCase()
+    : undefined;
+
+  if (billingState && !isGstStateCode(billingState)) {
+    return { message: "Unknown billing state" };
+  }
+  if (billingGstin && !isGstin(billingGstin)) {
+    return { message: "That GSTIN isn't valid" };
+  }
+  return {
+    billing: {
+      billingState,
+      billingGstin,
+      billingName: billingGstin
+        ? String(body.businessName || "").trim() || undefined
+        : undefined,
+    },
+  };
+}
+
+export interface QuotedPurchase {
+  user?: UserRecord;
+  purchase?: OrderRecord;
+  refusal?: { status: number; message: string };
+}
+
+/**
+ * Records the buyer and a pending purchase for a quote, with its billing details, and the
+ * promotion the quote used. The buyer is the signed-in `account` when there is one, otherwise
+ * found or created by email.
+ * A purchase that can't be recorded is logged and left unset so payment can still go ahead -
+ * unless the quote has a discount, which can only be enforced against a recorded purchase.
+ */
+export async function recordQuotedPurchase(
+  body: any,
+  quote: CheckoutQuote,
+  account?: User,
+): Promise<QuotedPurchase> {
+  const {
+    email,
+    name,
+    phone,
+    age,
+    gender,
+    analysisId,
+    quizData,
+  } = body;
+  let user: UserRecord | undefined;
+
+  const { billing, message } = billingDetails(body);
+  if (message) return { refusal: { status: 400, message } };
+
+  try {
+    user = account
+      ? await repository.users.findById(account.id)
+      : await repository.users.findOrCreate({
+          email,
+          name,
+          phone,
+          age,
+          gender,
+        });
+
+    // The report is generated from this analysis, so it is rebuilt here from validated answers
+    const quiz = WellnessQuizSchema.safeParse(quizData);
+    if (quiz.success) {
+      await repository.quizResponses.save({
+        userId: user.id,
+        analysisId,
+        quizData: quiz.data,
+        personalizationData: analyzeQuizData(quiz.data, name, email),
+      });
+    }
+
+    const { promotion, denial } = await confirmQuotePromotion(
+      quote,
+      user.id,
+      Boolean(account),
+    );
+    if (denial) {
+      return {
+        user,
+        refusal: { status: 400, message: PROMOTION_DENIALS[denial] },
+      };
+    }
+
+    const purchase = await repository.orders.create({
+      userId: user.id,
+      analysisId,
+      planId: quote.planId,
+      addOns: quote.addOns,
+      totalPrice: quote.total,
+      ...billing,
+    });
+    if (promotion) {
+      await repository.promotionRedemptions.record({
+        promotionId: promotion.id,
+        orderId: purchase.id,
+        userId: user.id,
+        discount: quote.discount,
+      });
+    }
+    return { user, purchase };
+  } catch (dbError) {
+    console.warn("Could not record purchase:", dbError);
+    if (quote.discount > 0) {
+      return {
+        user,
+        refusal: {
+          status: 503,
+          message: "Could not record your order - please try again",
+        },
+      };
+    }
+    return { user };
+  }
+}
+
+/**
+ * POST /api/checkout/quote
+ * Prices a plan and its add-ons from the catalog, with an optional promotion code, and returns
+ * a signed quote to pay with
+ */
+export const handleCreateCheckoutQuote: RequestHandler = async (req, res) => {
+  const parsed = CheckoutQuoteRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const response: CheckoutQuoteResponse = {
+      success: false,
+      message: "Send a planId and a list of add-on ids",
+    };
+    return res.status(400).json(response);
+  }
+
+  const { planId, addOns, promoCode, email } = parsed.data;
+  const { price, error } = priceCheckout(planId, addOns);
+  if (error) {
+    const response: CheckoutQuoteResponse = {
+      success: false,
+      message: PRICING_ERRORS[error],
+    };
+    return res.status(400).json(response);
+  }
+
+  try {
+    let quoted = price;
+    if (promoCode) {
+      const account: User | undefined = res.locals.user;
+      const buyer =
+        account ||
+        (email ? await repository.users.findByEmail(email) : undefined);
+      const promoted = await applyPromotion(price, promoCode, {
+        userId: buyer?.id,
+        signedIn: Boolean(account),
+      });
+      if (promoted.denial) {
+        const response: CheckoutQuoteResponse = {
+          success: false,
+          message: PROMOTION_DENIALS[promoted.denial],
+        };
+        return res.status(400).json(response);
+      }
+      quoted = promoted.price;
+    }
+
+    const response: CheckoutQuoteResponse = {
+      success: true,
+      quote: createQuote(quoted),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error pricing checkout:", error);
+    const response: CheckoutQuoteResponse = {
+      success: false,
+      message: "Failed to price your order",
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * POST /api/checkout/complete
+ * Completes an order whose quote comes to ₹0 - the free plan, or one under the launch offer - with no
+ * gateway involved. Nothing was sold for a free plan, so it isn't invoiced.
+ */
+export const handleCompleteFreeCheckout: RequestHandler = async (req, res) => {
+  try {
+    const { email, analysisId } = req.body;
+    if (!email || !analysisId) {
+      const response: CheckoutCompleteResponse = {
+        success: false,
+        message: "Missing required fields: email, analysisId, quoteId",
+      };
+      return res.status(400).json(response);
+    }
+
+    const { quote, reason } = redeemQuote(req.body.quoteId);
+    if (!quote || quote.total > 0) {
+      const response: CheckoutCompleteResponse = {
+        success: false,
+        message: quote
+          ? `This order comes to ₹${quote.total} - pay for it through a payment gateway`
+          : QUOTE_REJECTIONS[reason],
+      };
+      return res.status(400).json(response);
+    }
+
+    const { purchase, refusal } = await recordQuotedPurchase(
+      req.body,
+      quote,
+      res.locals.user,
+    );
+    if (refusal || !purchase) {
+      const response: CheckoutCompleteResponse = {
+        success: false,
+        message: refusal
+          ? refusal.message
+          : "Could not record your order - please try again",
+      };
+      return res.status(refusal ? refusal.status : 503).json(response);
+    }
+
+    const completed = await repository.orders.updatePaymentStatus(
+      purchase.id,
+      "completed",
+    );
+    if (quote.subtotal > 0) {
+      await issueInvoice(completed).catch((error) => {
+        console.error("Error issuing invoice:", error);
+      });
+    }
+
+    const response: CheckoutCompleteResponse = {
+      success: true,
+      purchaseId: purchase.id,
+      message: "Order completed",
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error completing free checkout:", error);
+    const response: CheckoutCompleteResponse = {
+      success: false,
+      message: "Failed to complete your order",
+    };
+    res.status(500).json(response);
+  }
+};
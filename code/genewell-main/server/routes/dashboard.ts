@@ -1,50 +1,20 @@
 import { RequestHandler } from "express";
-import { UserDashboardResponse } from "../../shared/api";
-import { users } from "./auth";
-import { dnaAnalysisResults } from "./dna";
+import { User, UserDashboardResponse } from "../../shared/api";
+import { getDNAAnalysis } from "./dna";
 import { quizResponses } from "./quiz";
 
 export const handleGetDashboard: RequestHandler = async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
-
-    const token = authHeader.substring(7);
-    const userId = token.split("_")[2];
-    const userKey = Array.from(users.keys()).find((key) =>
-      key.includes(userId),
-    );
-
-    if (!userKey) {
-      return res.status(401).json({
-        success: false,
-        message: "Invalid token",
-      });
-    }
-
-    const user = users.get(userKey);
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: "User not found",
-      });
-    }
-
-    // Remove password from user object
-    const { password: _, ...userResponse } = user;
+    const user: User = res.locals.user;
+    const userKey = user.id;
 
     // Get analysis results if available
-    const analysisResult = dnaAnalysisResults.get(userKey);
+    const analysisResult = (await getDNAAnalysis(userKey))?.results;
     const quizResult = quizResponses.get(userKey);
 
     const response: UserDashboardResponse = {
       success: true,
-      user: userResponse,
+      user,
       hasAnalysis: !!analysisResult,
       geneticMarkers: analysisResult?.geneticMarkers,
       recommendations: analysisResult?.recommendations,
@@ -114,38 +84,12 @@ export const handleGetDashboard: RequestHandler = async (req, res) => {
 
 export const handleGetProgressStats: RequestHandler = async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
+    const user: User = res.locals.user;
+    const userKey = user.id;
 
-    const token = authHeader.substring(7);
-    const userId = token.split("_")[2];
-    const userKey = Array.from(users.keys()).find((key) =>
-      key.includes(userId),
-    );
-
-    if (!userKey) {
-      return res.status(401).json({
-        success: false,
-        message: "Invalid token",
-      });
-    }
-
-    const user = users.get(userKey);
-    const analysisResult = dnaAnalysisResults.get(userKey);
+    const analysisResult = (await getDNAAnalysis(userKey))?.results;
     const quizResult = quizResponses.get(userKey);
 
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: "User not found",
-      });
-    }
-
     // Generate progress statistics
     const progressStats = {
       completionPercentage: Math.floor(
@@ -5,69 +5,80 @@ import {
   AnalysisResultResponse,
   GeneticMarkers,
   PersonalizedRecommendations,
+  TraitInterpretation,
+  DNAJobStatusResponse,
+  User,
+  RetainedDataItem,
+  RetentionAuditEntry,
+  RetentionReportResponse,
 } from "../../shared/api";
-import { users } from "./auth";
-
-// In-memory storage for DNA processing results
-const dnaAnalysisResults = new Map<
-  string,
-  {
-    geneticMarkers: GeneticMarkers;
-    recommendations: PersonalizedRecommendations;
-    confidence: number;
-    processingDate: string;
-  }
->();
+import { repository } from "../lib/repository";
+import fs from "fs";
+import {
+  parseGenotypeStream,
+  GenotypeParseError,
+  GenotypeParseResult,
+  GenotypeTable,
+  MAX_GENOTYPE_FILE_BYTES,
+} from "../lib/genotype-parser";
+import {
+  dnaJobQueue,
+  DNAJobContext,
+  DNAJobRecord,
+  DNAJobResults,
+  getGenotypeBlobKey,
+  getSpoolPath,
+  removeSpooledUpload,
+  spoolUpload,
+} from "../lib/dna-jobs";
+import { blobStore } from "../lib/blob-store";
+import { interpretGenotypes } from "../lib/snp-interpretation";
+import {
+  PRIVACY_RETENTION_POLICIES,
+  addDays,
+  listDeletions,
+  recordDeletion,
+  restrictGeneticMarkers,
+  restrictParseReport,
+  restrictTraitInterpretations,
+  summarizePolicy,
+} from "../lib/dna-retention";
+
+// The user's current upload is their newest completed job with results. Its parsed genotypes
+// are only kept, in the blob store, when the user opted out of deleteAfterProcessing.
+type ProcessedUpload = DNAJobRecord & { results: DNAJobResults };
+
+export const getDNAAnalysis = async (
+  userKey: string,
+): Promise<ProcessedUpload | undefined> =>
+  (await dnaJobQueue.latestWithResults(userKey)) as ProcessedUpload | undefined;
+
+const storeGenotypeTable = (processingId: string, table: GenotypeTable) =>
+  blobStore.put(
+    getGenotypeBlobKey(processingId),
+    Buffer.from(JSON.stringify(Array.from(table.entries()))),
+    "application/json",
+  );
+
+// Upload metadata travels in a header because the request body is the raw file
+const DNA_UPLOAD_HEADER = "x-dna-upload";
 
-// Mock genetic analysis function (replace with real AI processing)
+// Genetic analysis - markers come from the SNP rule engine, recommendations from the markers
 const analyzeGeneticData = (
-  fileData: string,
-  userId: string,
+  genotypes: GenotypeParseResult,
+  age: number,
 ): {
   geneticMarkers: GeneticMarkers;
   recommendations: PersonalizedRecommendations;
+  traitInterpretations: TraitInterpretation[];
   confidence: number;
 } => {
-  // Simulate analysis based on file content and user data
-  const user = Array.from(users.values()).find((u) => u.id === userId);
-  const age = user?.age || 30;
-  const gender = user?.gender || "other";
-
-  // Generate realistic mock results based on age/gender
-  const metabolismType = age < 25 ? "fast" : age > 45 ? "slow" : "normal";
-  const fitnessScore = gender === "male" ? 75 : 70;
-
-  const geneticMarkers: GeneticMarkers = {
-    metabolism: {
-      type: metabolismType,
-      score:
-        Math.floor(Math.random() * 30) + (metabolismType === "fast" ? 70 : 50),
-      genes: ["FTO", "MC4R", "ADRB2"],
-    },
-    foodSensitivities: {
-      lactose: Math.random() > 0.7 ? "intolerant" : "tolerant",
-      gluten: Math.random() > 0.9 ? "sensitive" : "tolerant",
-      caffeine: Math.random() > 0.5 ? "fast" : "normal",
-      alcohol: Math.random() > 0.6 ? "slow" : "normal",
-    },
-    vitaminDeficiencies: {
-      vitaminD: Math.random() > 0.6 ? "moderate_risk" : "low_risk",
-      vitaminB12: Math.random() > 0.8 ? "moderate_risk" : "low_risk",
-      folate: Math.random() > 0.9 ? "high_risk" : "low_risk",
-      iron: gender === "female" ? "moderate_risk" : "low_risk",
-    },
-    fitnessResponse: {
-      cardioResponse: fitnessScore > 70 ? "excellent" : "good",
-      strengthResponse: fitnessScore > 65 ? "good" : "average",
-      recoverySpeed: age < 30 ? "fast" : "normal",
-      injuryRisk: age > 40 ? "moderate" : "low",
-    },
-    weightManagement: {
-      fatLossResponse: metabolismType === "fast" ? "excellent" : "good",
-      muscleGainPotential: gender === "male" ? "excellent" : "good",
-      appetiteControl: Math.random() > 0.5 ? "good" : "average",
-    },
-  };
+  const { geneticMarkers, interpretations, coverage } = interpretGenotypes(
+    genotypes.table,
+  );
+  const metabolismType = geneticMarkers.metabolism.type;
+  const powerProfile =
+    geneticMarkers.fitnessResponse.strengthResponse === "excellent";
 
   const recommendations: PersonalizedRecommendations = {
     nutrition: {
@@ -95,10 +106,9 @@ const analyzeGeneticData = (
       hydration: "Drink 8-10 glasses of water daily, more if active",
     },
     fitness: {
-      workoutType:
-        fitnessScore > 70
-          ? ["HIIT", "Strength training", "Cardio"]
-          : ["Walking", "Light weights", "Yoga"],
+      workoutType: powerProfile
+        ? ["Strength training", "HIIT", "Sprint intervals"]
+        : ["Strength training", "Steady-state cardio", "Yoga"],
       intensity: age < 30 ? "high" : "moderate",
       frequency: age < 25 ? 5 : 4,
       duration: 45,
@@ -115,6 +125,12 @@ const analyzeGeneticData = (
         geneticMarkers.vitaminDeficiencies.vitaminD !== "low_risk"
           ? "Vitamin D3"
           : "",
+        geneticMarkers.vitaminDeficiencies.folate !== "low_risk"
+          ? "Methylfolate (active folate)"
+          : "",
+        geneticMarkers.vitaminDeficiencies.vitaminB12 !== "low_risk"
+          ? "Vitamin B12 (methylcobalamin)"
+          : "",
         "Omega-3 fatty acids",
         "Magnesium for sleep",
         "Probiotics for gut health",
@@ -127,7 +143,7 @@ const analyzeGeneticData = (
     },
     personalizedTips: [
       `Based on your ${metabolismType} metabolism, focus on ${metabolismType === "fast" ? "frequent small meals" : "portion control"}`,
-      `Your ${geneticMarkers.fitnessResponse.cardioResponse} cardio response suggests ${fitnessScore > 70 ? "high-intensity workouts" : "steady-state cardio"}`,
+      `Your ${geneticMarkers.fitnessResponse.cardioResponse} cardio response suggests ${powerProfile ? "short high-intensity intervals" : "longer steady-state cardio"}`,
       age > 35
         ? "Prioritize recovery and joint health"
         : "Take advantage of your quick recovery",
@@ -137,28 +153,234 @@ const analyzeGeneticData = (
   return {
     geneticMarkers,
     recommendations,
-    confidence: Math.floor(Math.random() * 20) + 80, // 80-100% confidence
+    traitInterpretations: interpretations,
+    // Confidence blends the file's call rate with how many rule variants it covered
+    confidence: Math.round(genotypes.report.callRate * coverage * 100),
   };
 };
 
+// Reports parsing progress as the spooled file is read (0-100 of the parsing phase)
+async function* trackProgress(
+  input: AsyncIterable<Buffer>,
+  totalBytes: number,
+  onProgress: (fraction: number) => Promise<void>,
+) {
+  let bytesRead = 0;
+  let lastReported = 0;
+  for await (const chunk of input) {
+    bytesRead += chunk.length;
+    const fraction = totalBytes > 0 ? bytesRead / totalBytes : 1;
+    if (fraction - lastReported >= 0.1) {
+      lastReported = fraction;
+      await onProgress(fraction);
+    }
+    yield chunk;
+  }
+}
+
+/**
+ * Queue worker: parses the spooled upload, interprets it and stores the results
+ */
+const processDNAJob = async (job: DNAJobRecord, context: DNAJobContext) => {
+  const filepath = getSpoolPath(job.processingId);
+  // Why the uploaded file goes - set once processing succeeds
+  let rawUploadDeletion: Pick<RetentionAuditEntry, "reason" | "detail"> = {
+    reason: "processing_failed",
+    detail: "Uploaded file removed after processing failed",
+  };
+
+  try {
+    await context.update("parsing", 5);
+    const { size } = fs.statSync(filepath);
+    const parsed = await parseGenotypeStream(
+      trackProgress(fs.createReadStream(filepath), size, (fraction) =>
+        context.update("parsing", 5 + Math.round(fraction * 55)),
+      ),
+    );
+
+    await context.update("interpreting", 65, {
+      parseReport: restrictParseReport(parsed.report, job.privacyLevel),
+    });
+    console.log(
+      `Parsed DNA file ${job.fileName}: ${parsed.report.variantCount} variants (${parsed.report.provider}, ${parsed.report.build}), call rate ${parsed.report.callRate}`,
+    );
+
+    const account = await repository.users.findById(job.userKey);
+    const analysisResult = analyzeGeneticData(parsed, account?.age || 30);
+    // Replaced only once the new results are saved, so a failure here keeps the old analysis
+    const previous = await getDNAAnalysis(job.userKey);
+
+    // Keep only what the chosen privacy level allows
+    const policy = PRIVACY_RETENTION_POLICIES[job.privacyLevel];
+    const processedAt = new Date().toISOString();
+    const keepTable =
+      !job.deleteAfterProcessing && !policy.forceDeleteAfterProcessing;
+
+    if (keepTable) await storeGenotypeTable(job.processingId, parsed.table);
+    await context.update("interpreting", 95, {
+      results: {
+        ...analysisResult,
+        geneticMarkers: restrictGeneticMarkers(
+          analysisResult.geneticMarkers,
+          job.privacyLevel,
+        ),
+        traitInterpretations: restrictTraitInterpretations(
+          analysisResult.traitInterpretations,
+          job.privacyLevel,
+        ),
+        processingDate: processedAt,
+        expiresAt: addDays(processedAt, policy.derivedDataDays),
+        genotypeTableExpiresAt: keepTable
+          ? addDays(processedAt, policy.rawGenotypeDays)
+          : undefined,
+      },
+    });
+    if (previous) await discardUpload(previous, "replaced_by_new_upload");
+
+    const discardReason = job.deleteAfterProcessing
+      ? "delete_after_processing"
+      : "privacy_level";
+    if (!keepTable) {
+      await recordDeletion(job.userKey, {
+        processingId: job.processingId,
+        item: "genotype_table",
+        reason: discardReason,
+        detail: `${parsed.report.variantCount} parsed genotypes discarded after interpretation`,
+      });
+    }
+
+    await repository.users.update(job.userKey, { hasUploadedDNA: true });
+    rawUploadDeletion = keepTable
+      ? {
+          reason: "replaced_by_genotype_table",
+          detail:
+            "Uploaded file removed - its parsed genotypes are kept instead",
+        }
+      : {
+          reason: discardReason,
+          detail: "Uploaded file removed once processing finished",
+        };
+  } finally {
+    if (fs.existsSync(filepath)) {
+      removeSpooledUpload(job.processingId);
+      await recordDeletion(job.userKey, {
+        processingId: job.processingId,
+        item: "raw_upload",
+        ...rawUploadDeletion,
+      });
+    }
+  }
+};
+
+/**
+ * Deletes everything stored for an upload and logs each deletion
+ */
+const discardUpload = async (
+  upload: ProcessedUpload,
+  reason: "replaced_by_new_upload" | "retention_expired",
+) => {
+  const { userKey, processingId } = upload;
+
+  if (upload.results.genotypeTableExpiresAt) {
+    await blobStore.delete(getGenotypeBlobKey(processingId));
+    await recordDeletion(userKey, {
+      processingId,
+      item: "genotype_table",
+      reason,
+    });
+  }
+  // The job row holds the analysis results, so removing it deletes both
+  await dnaJobQueue.remove(processingId);
+  await recordDeletion(userKey, {
+    processingId,
+    item: "analysis_results",
+    reason,
+  });
+  await recordDeletion(userKey, {
+    processingId,
+    item: "processing_job",
+    reason,
+  });
+};
+
+/**
+ * Drops genotype tables and derived results whose retention period has passed
+ */
+export const purgeExpiredGeneticData = async (now: Date = new Date()) => {
+  let purged = 0;
+
+  const uploads = (await dnaJobQueue.listWithResults()) as ProcessedUpload[];
+  for (const upload of uploads) {
+    const { results } = upload;
+    if (new Date(results.expiresAt) <= now) {
+      await discardUpload(upload, "retention_expired");
+      purged++;
+      continue;
+    }
+
+    if (
+      results.genotypeTableExpiresAt &&
+      new Date(results.genotypeTableExpiresAt) <= now
+    ) {
+      await blobStore.delete(getGenotypeBlobKey(upload.processingId));
+      await dnaJobQueue.saveResults(upload.processingId, {
+        ...results,
+        genotypeTableExpiresAt: undefined,
+      });
+      await recordDeletion(upload.userKey, {
+        processingId: upload.processingId,
+        item: "genotype_table",
+        reason: "retention_expired",
+      });
+      purged++;
+    }
+  }
+
+  return purged;
+};
+
+export function startGeneticDataRetentionJob() {
+  setInterval(
+    () => {
+      purgeExpiredGeneticData()
+        .then((purged) => {
+          if (purged > 0) {
+            console.log(
+              `[Retention] Purged expired genetic data for ${purged} uploads`,
+            );
+          }
+        })
+        .catch((error) => console.error("[Retention] Purge failed:", error));
+    },
+    60 * 60 * 1000,
+  ); // Every hour
+}
+
+dnaJobQueue.setProcessor(processDNAJob);
+
+/**
+ * Resumes jobs left unfinished by a restart (only possible with Postgres-backed jobs)
+ */
+export const recoverDNAJobs = () =>
+  dnaJobQueue.recover((job) => fs.existsSync(getSpoolPath(job.processingId)));
+
 export const handleDNAUpload: RequestHandler = async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({
+    const { id: userKey }: User = res.locals.user;
+
+    const metadataHeader = req.headers[DNA_UPLOAD_HEADER];
+    if (typeof metadataHeader !== "string") {
+      return res.status(400).json({
         success: false,
-        message: "Authentication required",
+        message: `Missing ${DNA_UPLOAD_HEADER} header with upload details`,
       });
     }
 
-    const validatedData = DNAUploadSchema.parse(req.body);
-    const {
-      fileName,
-      fileSize,
-      provider,
-      processingConsent,
-      deleteAfterProcessing,
-    } = validatedData;
+    const validatedData = DNAUploadSchema.parse(
+      JSON.parse(decodeURIComponent(metadataHeader)),
+    );
+    const { fileName, processingConsent, deleteAfterProcessing, privacyLevel } =
+      validatedData;
 
     if (!processingConsent) {
       return res.status(400).json({
@@ -170,8 +392,31 @@ export const handleDNAUpload: RequestHandler = async (req, res) => {
     // Generate processing ID
     const processingId = `proc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    // Simulate processing time based on file size
-    const estimatedTime = Math.max(30, Math.floor(fileSize / 1000)); // seconds
+    // Spool the raw body to disk; parsing and interpretation run in the job queue
+    const bytes = await spoolUpload(
+      req,
+      processingId,
+      MAX_GENOTYPE_FILE_BYTES,
+      () =>
+        new GenotypeParseError(
+          `Genotype file exceeds the ${MAX_GENOTYPE_FILE_BYTES / 1024 / 1024}MB limit`,
+          "FILE_TOO_LARGE",
+        ),
+    );
+    await dnaJobQueue.enqueue({
+      processingId,
+      userKey,
+      fileName,
+      privacyLevel,
+      deleteAfterProcessing,
+    });
+
+    console.log(
+      `Queued DNA file ${fileName} (${bytes} bytes) as ${processingId} [privacy: ${privacyLevel}, delete after processing: ${deleteAfterProcessing}]`,
+    );
+
+    // Roughly 2 seconds per MB once a worker is free
+    const estimatedTime = Math.max(5, Math.ceil((bytes / 1024 / 1024) * 2)); // seconds
 
     const response: DNAProcessingResponse = {
       success: true,
@@ -180,15 +425,16 @@ export const handleDNAUpload: RequestHandler = async (req, res) => {
       message: "DNA file uploaded successfully. Analysis in progress...",
     };
 
-    // Simulate background processing
-    setTimeout(() => {
-      // In real implementation, this would process the actual DNA file
-      console.log(`Processing DNA file: ${fileName} from ${provider}`);
-      console.log(`Delete after processing: ${deleteAfterProcessing}`);
-    }, 1000);
-
-    res.status(200).json(response);
+    res.status(202).json(response);
   } catch (error) {
+    if (error instanceof GenotypeParseError) {
+      return res.status(error.code === "FILE_TOO_LARGE" ? 413 : 422).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+      });
+    }
+
     console.error("DNA upload error:", error);
     res.status(400).json({
       success: false,
@@ -197,54 +443,55 @@ export const handleDNAUpload: RequestHandler = async (req, res) => {
   }
 };
 
-export const handleGetAnalysisResults: RequestHandler = async (req, res) => {
+/**
+ * GET /api/dna/jobs/:processingId
+ * Returns the status and progress of a DNA processing job
+ */
+export const handleGetDNAJob: RequestHandler = async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({
+    const { id: userKey }: User = res.locals.user;
+
+    const job = await dnaJobQueue.get(req.params.processingId);
+    if (!job || job.userKey !== userKey) {
+      return res.status(404).json({
         success: false,
-        message: "Authentication required",
+        message: "Processing job not found",
       });
     }
 
-    const token = authHeader.substring(7);
-    const userId = token.split("_")[2];
-    const userKey = Array.from(users.keys()).find((key) =>
-      key.includes(userId),
-    );
+    const { userKey: _owner, results: _results, ...publicJob } = job;
+    const response: DNAJobStatusResponse = { success: true, job: publicJob };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("DNA job status error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch processing status",
+    });
+  }
+};
 
-    if (!userKey) {
-      return res.status(401).json({
-        success: false,
-        message: "Invalid token",
-      });
-    }
+export const handleGetAnalysisResults: RequestHandler = async (req, res) => {
+  try {
+    const { id: userKey }: User = res.locals.user;
 
-    // Check if analysis exists, if not generate it
-    if (!dnaAnalysisResults.has(userKey)) {
-      // Generate analysis results
-      const analysisResult = analyzeGeneticData("mock_dna_data", userKey);
-      dnaAnalysisResults.set(userKey, {
-        ...analysisResult,
-        processingDate: new Date().toISOString(),
+    const upload = await getDNAAnalysis(userKey);
+    if (!upload) {
+      return res.status(404).json({
+        success: false,
+        message: "No DNA analysis available yet",
       });
-
-      // Update user's DNA upload status
-      const user = users.get(userKey);
-      if (user) {
-        user.hasUploadedDNA = true;
-        users.set(userKey, user);
-      }
     }
 
-    const result = dnaAnalysisResults.get(userKey)!;
-
+    const { results } = upload;
     const response: AnalysisResultResponse = {
       success: true,
-      geneticMarkers: result.geneticMarkers,
-      recommendations: result.recommendations,
-      confidence: result.confidence,
+      geneticMarkers: results.geneticMarkers,
+      recommendations: results.recommendations,
+      confidence: results.confidence,
       reportUrl: `/api/reports/download/${userKey}`,
+      genotypeSummary: upload.parseReport,
+      traitInterpretations: results.traitInterpretations,
     };
 
     res.status(200).json(response);
@@ -257,33 +504,72 @@ export const handleGetAnalysisResults: RequestHandler = async (req, res) => {
   }
 };
 
-export const handleGenerateReport: RequestHandler = async (req, res) => {
+/**
+ * GET /api/dna/retention-report
+ * Lists the genetic data stored for the user, when each item will be deleted,
+ * and the audit log of everything already deleted
+ */
+export const handleGetRetentionReport: RequestHandler = async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
+    const { id: userKey }: User = res.locals.user;
 
-    const token = authHeader.substring(7);
-    const userId = token.split("_")[2];
-    const userKey = Array.from(users.keys()).find((key) =>
-      key.includes(userId),
-    );
+    const upload = await getDNAAnalysis(userKey);
+    const items: RetainedDataItem[] = [];
 
-    if (!userKey) {
-      return res.status(401).json({
-        success: false,
-        message: "Invalid token",
+    if (upload?.results.genotypeTableExpiresAt) {
+      items.push({
+        item: "genotype_table",
+        processingId: upload.processingId,
+        description: `Parsed genotypes from ${upload.fileName} (${upload.parseReport?.variantCount} variants)`,
+        storedAt: upload.createdAt,
+        deleteAt: upload.results.genotypeTableExpiresAt,
       });
     }
+    if (upload) {
+      items.push(
+        {
+          item: "analysis_results",
+          processingId: upload.processingId,
+          description:
+            PRIVACY_RETENTION_POLICIES[upload.privacyLevel].keeps.join("; "),
+          storedAt: upload.results.processingDate,
+          deleteAt: upload.results.expiresAt,
+        },
+        {
+          item: "processing_job",
+          processingId: upload.processingId,
+          description: `Processing status and file summary for ${upload.fileName}`,
+          storedAt: upload.createdAt,
+          deleteAt: upload.results.expiresAt,
+        },
+      );
+    }
 
-    const user = users.get(userKey);
-    const analysis = dnaAnalysisResults.get(userKey);
+    const response: RetentionReportResponse = {
+      success: true,
+      policy: upload
+        ? summarizePolicy(PRIVACY_RETENTION_POLICIES[upload.privacyLevel])
+        : undefined,
+      items,
+      deletions: await listDeletions(userKey),
+    };
 
-    if (!user || !analysis) {
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Retention report error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to build retention report",
+    });
+  }
+};
+
+export const handleGenerateReport: RequestHandler = async (req, res) => {
+  try {
+    const user: User = res.locals.user;
+    const analysis = (await getDNAAnalysis(user.id))?.results;
+
+    if (!analysis) {
       return res.status(404).json({
         success: false,
         message: "No analysis data found",
@@ -320,6 +606,3 @@ export const handleGenerateReport: RequestHandler = async (req, res) => {
     });
   }
 };
-
-// Export for use in other modules
-export { dnaAnalysisResults };
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, RequestHandler, Response } from "express";
+import { PersonalizationData } from "../../shared/personalization-engine";
+import { repository } from "../lib/repository";
+import { paymentGateways } from "../lib/payment-gateways";
+import { MockWebhookDelivery } from "../lib/mock-gateway";
+import { sendPaymentConfirmationEmail } from "../lib/email-service";
+import { handlePaymentWebhook, handleVerifyPayment } from "./payments";
+
+// The gateway registry is built from the environment when it is first imported
+vi.hoisted(() => {
+  process.env.ENABLE_MOCK_GATEWAY = "1";
+});
+
+vi.mock("../lib/email-service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/email-service")>()),
+  sendPaymentConfirmationEmail: vi.fn(async () => true),
+}));
+
+const sendConfirmation = vi.mocked(sendPaymentConfirmationEmail);
+
+interface CapturedResponse {
+  statusCode: number;
+  body: any;
+}
+
+async function call(
+  handler: RequestHandler,
+  req: Partial<Request>,
+): Promise<CapturedResponse> {
+  const captured: CapturedResponse = { statusCode: 200, body: undefined };
+  const res = {
+    locals: {},
+    status(code: number) {
+      captured.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      return this;
+    },
+  };
+  await handler(
+    { params: {}, headers: {}, ...req } as Request,
+    res as unknown as Response,
+    () => undefined,
+  );
+  return captured;
+}
+
+let buyers = 0;
+
+/** A pending order paid through the mock gateway's checkout, with its webhook not yet delivered */
+async function payForOrder() {
+  const n = ++buyers;
+  const user = await repository.users.findOrCreate({
+    email: `buyer${n}@example.com`,
+    name: "Asha",
+  });
+  await repository.quizResponses.save({
+    userId: user.id,
+    analysisId: `analysis_${n}`,
+    quizData: { age: 30 },
+    personalizationData: { profile: { name: "Asha" } } as PersonalizationData,
+  });
+  const order = await repository.orders.create({
+    userId: user.id,
+    analysisId: `analysis_${n}`,
+    planId: "premium",
+    addOns: [],
+    totalPrice: 1499,
+  });
+
+  const gateway = paymentGateways.mock!;
+  const intent = await gateway.createIntent({
+    orderId: order.id,
+    amount: 1499,
+    currency: "INR",
+    description: "GeneWell premium Plan",
+    customer: { name: "Asha", email: user.email },
+    returnUrl: "http://localhost:5173/payment-success",
+    webhookUrl: "http://localhost:8080/api/payments/webhook/mock",
+  });
+  await repository.orders.attachPaymentIntent(
+    order.id,
+    "mock",
+    intent.intentId,
+  );
+  const { webhook } = gateway.complete(intent.intentId, "completed")!;
+
+  return { order, webhook };
+}
+
+const deliver = (webhook: MockWebhookDelivery) =>
+  call(handlePaymentWebhook, {
+    params: { gateway: "mock" },
+    body: Buffer.from(webhook.rawBody),
+    headers: Object.fromEntries(
+      Object.entries(webhook.headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ]),
+    ),
+  });
+
+const verify = (orderId: string) =>
+  call(handleVerifyPayment, { params: { purchaseId: orderId } });
+
+describe("payment settlement", () => {
+  beforeEach(() => {
+    sendConfirmation.mockClear();
+  });
+
+  it("should send the confirmation and invoice when verify settles the order before the webhook", async () => {
+    const { order, webhook } = await payForOrder();
+
+    expect((await verify(order.id)).body).toMatchObject({
+      status: "completed",
+      isCompleted: true,
+    });
+    expect((await deliver(webhook)).statusCode).toBe(200);
+
+    expect(sendConfirmation).toHaveBeenCalledTimes(1);
+    const [, , , , , , orderId, invoice] = sendConfirmation.mock.calls[0];
+    expect(orderId).toBe(order.id);
+    expect(invoice?.content.length).toBeGreaterThan(0);
+    expect(
+      (await repository.orders.findById(order.id))?.confirmationSentAt,
+    ).toBeDefined();
+  });
+
+  it("should confirm once however often the webhook is delivered", async () => {
+    const { order, webhook } = await payForOrder();
+
+    await deliver(webhook);
+    expect((await deliver(webhook)).body.message).toBe(
+      "Webhook already processed",
+    );
+    await verify(order.id);
+
+    expect(sendConfirmation).toHaveBeenCalledTimes(1);
+    expect((await repository.orders.findById(order.id))?.paymentStatus).toBe(
+      "completed",
+    );
+  });
+
+  it("should send the confirmation when a failed delivery is retried", async () => {
+    const { order, webhook } = await payForOrder();
+    sendConfirmation.mockRejectedValueOnce(new Error("SMTP unavailable"));
+
+    expect((await deliver(webhook)).statusCode).toBe(500);
+    expect((await repository.orders.findById(order.id))?.paymentStatus).toBe(
+      "completed",
+    );
+    expect((await deliver(webhook)).statusCode).toBe(200);
+
+    expect(sendConfirmation).toHaveBeenCalledTimes(2);
+    expect(
+      (await repository.orders.findById(order.id))?.confirmationSentAt,
+    ).toBeDefined();
+  });
+
+  it("should leave a refunded order refunded though the gateway still reports the payment", async () => {
+    const { order, webhook } = await payForOrder();
+    await deliver(webhook);
+    await repository.orders.updatePaymentStatus(order.id, "refunded");
+    sendConfirmation.mockClear();
+
+    expect((await verify(order.id)).body).toMatchObject({
+      status: "refunded",
+      isCompleted: false,
+      purchaseData: null,
+    });
+    expect((await repository.orders.findById(order.id))?.paymentStatus).toBe(
+      "refunded",
+    );
+    expect(sendConfirmation).not.toHaveBeenCalled();
+  });
+});
@@ -1,82 +1,107 @@
 import { RequestHandler, Request, Response } from 'express';
+import { CheckoutQuote, PaymentGatewaysResponse } from '../../shared/api';
+import { repository, WebhookEventRecord } from '../lib/repository';
+import { redeemQuote } from '../lib/checkout-quotes';
+import { generateDirectPaymentLink } from '../lib/instamojo-service';
+import { PaymentGatewayError } from '../lib/payment-gateway';
+import { getPaymentGateway, paymentGateways } from '../lib/payment-gateways';
+import { deliverMockWebhook } from '../lib/mock-gateway';
 import {
-  getUser,
-  createUser,
-  createPurchase,
-  updatePurchasePaymentStatus,
-  saveQuizResponse,
-  getPurchases,
-} from '../lib/db';
-import {
-  createPaymentRequest,
-  getPaymentDetails,
-  verifyWebhookSignature,
-  parseWebhookData,
-  isPaymentSuccessful,
-  generateDirectPaymentLink,
-} from '../lib/instamojo-service';
+  invoiceAttachment,
+  invoiceFilename,
+  issueInvoice,
+  renderInvoicePDF,
+} from '../lib/invoices';
+import { bufferPDFSource, sendPDF } from '../lib/pdf-response';
 import {
   sendConfirmationEmail,
   sendPaymentConfirmationEmail,
 } from '../lib/email-service';
+import { QUOTE_REJECTIONS, recordQuotedPurchase } from './checkout';
+
+/**
+ * The quote a payment is for. A client-sent amount is refused outright rather than ignored,
+ * so a stale checkout page fails loudly instead of charging a price it didn't show.
+ */
+function quoteForPayment(body: any): { quote?: CheckoutQuote; message?: string } {
+  if (body.amount !== undefined) {
+    return { message: 'Payments are priced from a quoteId - amount is not accepted' };
+  }
+
+  const { quote, reason } = redeemQuote(body.quoteId);
+  if (!quote) return { message: QUOTE_REJECTIONS[reason] };
+  if (quote.total <= 0) return { message: 'Nothing to pay for this order' };
+  return { quote };
+}
+
+/**
+ * Emails the buyer their payment confirmation and invoice, once per order however many of
+ * verify and the webhook see the payment complete. A send that fails is released, so the next
+ * verify or webhook retry sends it.
+ */
+async function confirmPayment(
+  orderId: string,
+  details: { paymentId?: string; amount?: number; email?: string; buyerName?: string } = {}
+): Promise<void> {
+  const order = await repository.orders.claimConfirmation(orderId);
+  if (!order) return;
+
+  try {
+    const buyer = await repository.users.findById(order.userId);
+    const sent =
+      !!buyer &&
+      (await sendPaymentConfirmationEmail(
+        buyer.id,
+        details.email || buyer.email,
+        details.buyerName || buyer.name || 'Customer',
+        order.planId,
+        details.amount ?? order.totalPrice,
+        details.paymentId || order.gatewayPaymentId || '',
+        order.id,
+        await invoiceAttachment(order)
+      ));
+    if (!sent) await repository.orders.releaseConfirmation(order.id);
+  } catch (error) {
+    await repository.orders.releaseConfirmation(order.id);
+    throw error;
+  }
+}
 
 /**
  * POST /api/payments/create-direct-payment-link
- * Creates a direct payment link with Instamojo (simpler alternative)
+ * Creates a direct payment link with Instamojo for the order priced by `quoteId` (simpler alternative)
  */
 export const handleCreateDirectPaymentLink: RequestHandler = async (req, res) => {
   try {
-    const {
-      email,
-      name,
-      phone,
-      age,
-      gender,
-      analysisId,
-      planId,
-      addOns,
-      amount,
-      quizData,
-      personalizationData,
-    } = req.body;
-
-    if (!email || !analysisId || !planId || amount === undefined) {
+    const { email, name, phone, analysisId } = req.body;
+
+    if (!email || !analysisId) {
       return res.status(400).json({
         success: false,
-        message: 'Missing required fields: email, analysisId, planId, amount',
+        message: 'Missing required fields: email, analysisId, quoteId',
       });
     }
 
-    // Create or update user in database (optional - graceful fallback if DB not configured)
-    let user = null;
-    let purchase = null;
-
-    try {
-      user = await getUser(email);
-      if (!user) {
-        user = await createUser(email, name, phone, age, gender);
-      }
-
-      // Save quiz response to database
-      if (quizData && personalizationData) {
-        await saveQuizResponse(user.id, analysisId, quizData, personalizationData);
-      }
+    const { quote, message } = quoteForPayment(req.body);
+    if (!quote) {
+      return res.status(400).json({ success: false, message });
+    }
 
-      // Create purchase record with pending status
-      purchase = await createPurchase(user.id, analysisId, planId, addOns || [], amount);
-    } catch (dbError) {
-      console.warn('Database unavailable, continuing without DB:', dbError);
+    // Record the buyer and purchase (optional - payment link is still created without a record)
+    const { purchase, refusal } = await recordQuotedPurchase(req.body, quote, res.locals.user);
+    if (refusal) {
+      return res.status(refusal.status).json({ success: false, message: refusal.message });
     }
 
     const purchaseId = purchase?.id || Date.now();
 
     // Generate direct payment link
     const paymentUrl = generateDirectPaymentLink({
-      amount: Math.round(amount * 100) / 100,
+      amount: quote.total,
       buyerName: name || email,
       buyerEmail: email,
       buyerPhone: phone || '9999999999',
-      purpose: `GeneWell ${planId} Plan - Purchase ID: ${purchaseId}`,
+      purpose: `GeneWell ${quote.planId} Plan - Purchase ID: ${purchaseId}`,
     });
 
     res.json({
@@ -95,91 +120,94 @@ export const handleCreateDirectPaymentLink: RequestHandler = async (req, res) =>
   }
 };
 
+/**
+ * GET /api/payments/gateways
+ * Lists the payment gateways configured on this server
+ */
+export const handleListPaymentGateways: RequestHandler = (_req, res) => {
+  const response: PaymentGatewaysResponse = {
+    success: true,
+    gateways: Object.values(paymentGateways.gateways).map(({ id, label }) => ({ id, label })),
+    defaultGateway: paymentGateways.defaultGateway,
+  };
+  res.json(response);
+};
+
 /**
  * POST /api/payments/create-payment-request
- * Creates a payment request with Instamojo
+ * Opens a hosted checkout for the order priced by `quoteId`, with the gateway named in
+ * `gateway` or the default one
  */
 export const handleCreatePaymentRequest: RequestHandler = async (req, res) => {
   try {
-    const {
-      email,
-      name,
-      phone,
-      age,
-      gender,
-      analysisId,
-      planId,
-      addOns,
-      amount,
-      quizData,
-      personalizationData,
-    } = req.body;
-
-    if (!email || !analysisId || !planId || amount === undefined) {
+    const { email, name, phone, analysisId } = req.body;
+
+    if (!email || !analysisId) {
       return res.status(400).json({
         success: false,
-        message: 'Missing required fields: email, analysisId, planId, amount',
+        message: 'Missing required fields: email, analysisId, quoteId',
       });
     }
 
-    // Create or update user in database (optional - graceful fallback if DB not configured)
-    let user = null;
-    let purchase = null;
-
-    try {
-      user = await getUser(email);
-      if (!user) {
-        user = await createUser(email, name, phone, age, gender);
-      }
+    const { quote, message } = quoteForPayment(req.body);
+    if (!quote) {
+      return res.status(400).json({ success: false, message });
+    }
 
-      // Save quiz response to database
-      if (quizData && personalizationData) {
-        await saveQuizResponse(user.id, analysisId, quizData, personalizationData);
-      }
+    const gateway = getPaymentGateway(req.body.gateway);
+    if (!gateway) {
+      return res.status(400).json({
+        success: false,
+        message: `Payment gateway ${req.body.gateway} is not available`,
+      });
+    }
 
-      // Create purchase record
-      purchase = await createPurchase(user.id, analysisId, planId, addOns || [], amount);
-    } catch (dbError) {
-      console.warn('Database unavailable for payment request, continuing without DB:', dbError);
-      // Continue without database - still create payment
+    // Record the buyer and purchase (optional - payment request is still created without a record)
+    const { user, purchase, refusal } = await recordQuotedPurchase(req.body, quote, res.locals.user);
+    if (refusal) {
+      return res.status(refusal.status).json({ success: false, message: refusal.message });
     }
 
-    // Generate fallback IDs if database is not available
-    const purchaseId = purchase?.id || Date.now();
-    const userId = user?.id || 0;
-
-    // Create Instamojo payment request
-    const paymentResponse = await createPaymentRequest({
-      purpose: `GeneWell ${planId} Plan`,
-      amount: Math.round(amount * 100) / 100, // Ensure 2 decimal places
-      buyer_name: name || email,
-      email,
-      phone: phone || '9999999999',
-      redirect_url: `${process.env.APP_URL || 'http://localhost:5173'}/payment-success?purchase_id=${purchaseId}`,
-      webhook_url: `${process.env.SERVER_URL || 'http://localhost:8080'}/api/payments/webhook`,
+    // Generate fallback IDs if the purchase could not be recorded
+    const purchaseId = String(purchase?.id || Date.now());
+    const userId = user?.id || '';
+
+    const intent = await gateway.createIntent({
+      orderId: purchaseId,
+      amount: quote.total,
+      currency: quote.currency,
+      description: `GeneWell ${quote.planId} Plan`,
+      customer: { name: name || email, email, phone },
+      returnUrl: `${process.env.APP_URL || 'http://localhost:5173'}/payment-success?purchase_id=${purchaseId}`,
+      webhookUrl: `${process.env.SERVER_URL || 'http://localhost:8080'}/api/payments/webhook/${gateway.id}`,
       metadata: {
-        purchase_id: purchaseId.toString(),
         user_id: userId.toString(),
         analysis_id: analysisId,
-        plan_id: planId,
+        plan_id: quote.planId,
       },
     });
 
-    if (!paymentResponse.success || !paymentResponse.payment_request) {
-      return res.status(400).json({
-        success: false,
-        message: 'Failed to create payment request',
-        errors: paymentResponse.errors,
-      });
+    if (purchase) {
+      await repository.orders.attachPaymentIntent(purchase.id, gateway.id, intent.intentId);
     }
 
     res.json({
       success: true,
-      paymentUrl: paymentResponse.payment_request.shorturl,
-      paymentId: paymentResponse.payment_request.id,
+      gateway: gateway.id,
+      paymentUrl: intent.checkoutUrl,
+      paymentId: intent.intentId,
       purchaseId,
     });
   } catch (error) {
+    if (error instanceof PaymentGatewayError) {
+      console.error('Payment gateway refused payment request:', error);
+      return res.status(400).json({
+        success: false,
+        message: 'Failed to create payment request',
+        errors: error.details,
+      });
+    }
+
     console.error('Error creating payment request:', error);
     res.status(500).json({
       success: false,
@@ -191,57 +219,57 @@ export const handleCreatePaymentRequest: RequestHandler = async (req, res) => {
 
 /**
  * GET /api/payments/verify/:purchaseId
- * Verifies payment status for a purchase
+ * Verifies payment status for a purchase with the gateway that took it
  */
 export const handleVerifyPayment: RequestHandler = async (req, res) => {
   try {
     const { purchaseId } = req.params;
-    const purchase = await getPurchases(parseInt(purchaseId));
+    const purchaseData = await repository.orders.findById(purchaseId);
 
-    if (!purchase || purchase.length === 0) {
+    if (!purchaseData) {
       return res.status(404).json({
         success: false,
         message: 'Purchase not found',
       });
     }
 
-    const purchaseData = purchase[0];
-
-    if (!purchaseData.instamojo_payment_id) {
+    if (!purchaseData.paymentIntentId) {
       return res.status(400).json({
         success: false,
         message: 'No payment ID associated with this purchase',
       });
     }
 
-    // Fetch latest payment details from Instamojo
-    const paymentDetails = await getPaymentDetails(purchaseData.instamojo_payment_id);
-
-    if (!paymentDetails.payment_request) {
+    const gateway = getPaymentGateway(purchaseData.paymentGateway || 'instamojo');
+    if (!gateway) {
       return res.status(400).json({
         success: false,
-        message: 'Failed to fetch payment details',
+        message: `Payment gateway ${purchaseData.paymentGateway} is not configured`,
       });
     }
 
-    const status = paymentDetails.payment_request.status;
-    const isCompleted = isPaymentSuccessful(status);
-
-    // Update purchase status if payment is completed
-    if (isCompleted && purchaseData.payment_status !== 'completed') {
-      await updatePurchasePaymentStatus(
-        purchaseData.id,
-        'completed',
-        paymentDetails.payment_request.id,
-        paymentDetails.payment_request.transaction_id
-      );
+    // Fetch the latest payment status from the gateway
+    const payment = await gateway.verify(purchaseData.paymentIntentId);
+    let order = purchaseData;
+
+    // Settles a pending or failed order only - the webhook may already have completed it, and a
+    // refunded order stays refunded though the gateway still reports the payment as captured
+    if (payment.status === 'completed') {
+      order =
+        (await repository.orders.settlePayment(order.id, 'completed', payment.paymentId)) ||
+        order;
+      await confirmPayment(order.id, { paymentId: payment.paymentId }).catch((error) => {
+        console.error('Error sending payment confirmation:', error);
+      });
     }
+    const isCompleted = order.paymentStatus === 'completed';
+    const isSettled = isCompleted || order.paymentStatus === 'refunded';
 
     res.json({
       success: true,
-      status: isCompleted ? 'completed' : status,
+      status: isSettled ? order.paymentStatus : payment.status,
       isCompleted,
-      purchaseData: isCompleted ? purchaseData : null,
+      purchaseData: isCompleted ? order : null,
     });
   } catch (error) {
     console.error('Error verifying payment:', error);
@@ -254,63 +282,169 @@ export const handleVerifyPayment: RequestHandler = async (req, res) => {
 };
 
 /**
- * POST /api/payments/webhook
- * Handles Instamojo webhook notifications
+ * POST /api/payments/webhook/:gateway
+ * Handles gateway webhook notifications; without a gateway in the path, Instamojo's. Mounted
+ * with express.raw so signatures are checked against the body as posted; each event is
+ * processed once however often it is delivered.
  */
 export const handlePaymentWebhook: RequestHandler = async (req, res) => {
+  const gateway = getPaymentGateway(req.params.gateway || 'instamojo');
+  if (!gateway) {
+    return res.status(404).json({
+      success: false,
+      message: 'Unknown payment gateway',
+    });
+  }
+
+  const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+  const parsed = gateway.parseWebhook(rawBody, req.headers);
+
+  if (!parsed.verified) {
+    console.warn(`Rejected ${gateway.id} webhook: ${parsed.reason}`);
+    const notConfigured = parsed.reason === 'not_configured';
+    return res.status(notConfigured ? 503 : parsed.reason === 'malformed' ? 400 : 401).json({
+      success: false,
+      message: notConfigured
+        ? 'Webhook verification is not configured'
+        : parsed.reason === 'malformed'
+          ? 'Malformed webhook'
+          : 'Invalid webhook signature',
+    });
+  }
+  if (parsed.testMode) {
+    console.warn(`${gateway.label} webhook accepted without a signature check (test mode)`);
+  }
+
+  // Events that don't settle a payment
+  const webhookEvent = parsed.event;
+  if (!webhookEvent || webhookEvent.status === 'pending') {
+    return res.status(200).json({
+      success: true,
+      message: 'Webhook ignored',
+    });
+  }
+
+  let event: WebhookEventRecord | undefined;
+
   try {
-    const signature = req.headers['x-instamojo-signature'] as string;
-    const body = JSON.stringify(req.body);
+    event = await repository.webhookEvents.claim({
+      provider: gateway.id,
+      eventId: webhookEvent.eventId,
+      status: webhookEvent.providerStatus,
+      orderId: webhookEvent.orderId,
+    });
 
-    // Verify webhook signature
-    if (!verifyWebhookSignature(body, signature)) {
-      console.warn('Invalid webhook signature');
-      // Continue processing anyway (for test mode)
+    // A redelivery - acknowledge it so the gateway stops retrying
+    if (!event) {
+      return res.status(200).json({
+        success: true,
+        message: 'Webhook already processed',
+      });
     }
 
-    // Parse webhook data
-    const webhookData = parseWebhookData(req.body);
-
-    // Update purchase with payment details
-    if (req.body.metadata?.purchase_id) {
-      const purchaseId = parseInt(req.body.metadata.purchase_id);
-      const status = isPaymentSuccessful(webhookData.status) ? 'completed' : 'failed';
-
-      await updatePurchasePaymentStatus(
-        purchaseId,
-        status,
-        webhookData.paymentId,
-        webhookData.transactionId
-      );
-
-      // If payment successful, send email
-      if (isPaymentSuccessful(webhookData.status)) {
-        const userId = req.body.metadata.user_id ? parseInt(req.body.metadata.user_id) : null;
-        if (userId) {
-          await sendPaymentConfirmationEmail(
-            userId,
-            webhookData.email,
-            webhookData.buyerName,
-            req.body.metadata.plan_id || 'Premium Plan',
-            webhookData.amount,
-            webhookData.transactionId,
-            purchaseId
-          );
-        }
+    const order =
+      (webhookEvent.intentId &&
+        (await repository.orders.findByPaymentIntent(gateway.id, webhookEvent.intentId))) ||
+      (webhookEvent.orderId && (await repository.orders.findById(webhookEvent.orderId))) ||
+      undefined;
+
+    // A completed or refunded order keeps its status, whether verify settled it first or this is
+    // another payment for it; the confirmation goes out once either way
+    if (order) {
+      await repository.orders.settlePayment(order.id, webhookEvent.status, webhookEvent.paymentId);
+      if (webhookEvent.status === 'completed') {
+        await confirmPayment(order.id, webhookEvent);
       }
     }
 
-    // Always return 200 to acknowledge webhook receipt
     res.status(200).json({
       success: true,
       message: 'Webhook processed',
     });
   } catch (error) {
     console.error('Error processing webhook:', error);
-    // Still return 200 to prevent retries
-    res.status(200).json({
-      success: true,
-      message: 'Webhook processed (with errors)',
+
+    // Let the gateway's retry process the event again
+    if (event) {
+      await repository.webhookEvents.release(event.id).catch((releaseError) => {
+        console.error('Error releasing webhook event:', releaseError);
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Webhook processing failed',
+    });
+  }
+};
+
+/**
+ * GET /api/payments/mock/checkout/:intentId
+ * The mock gateway's hosted checkout page (only with ENABLE_MOCK_GATEWAY=1, never in production)
+ */
+export const handleMockCheckoutPage: RequestHandler = (req, res) => {
+  const page = paymentGateways.mock?.renderCheckoutPage(req.params.intentId);
+  if (!page) {
+    return res.status(404).send('Checkout not found');
+  }
+
+  res.type('html').send(page);
+};
+
+/**
+ * POST /api/payments/mock/checkout/:intentId
+ * Pays or declines a mock checkout, posts the signed webhook and returns the buyer to the app
+ */
+export const handleMockCheckoutSubmit: RequestHandler = async (req, res) => {
+  const outcome = req.body?.outcome === 'completed' ? 'completed' : 'failed';
+  const settled = paymentGateways.mock?.complete(req.params.intentId, outcome);
+  if (!settled) {
+    return res.status(404).send('Checkout not found or already settled');
+  }
+
+  await deliverMockWebhook(settled.webhook);
+  res.redirect(303, settled.returnUrl);
+};
+
+/**
+ * GET /api/payments/:purchaseId/invoice[?disposition=inline]
+ * The GST tax invoice for one of the signed-in user's completed purchases, as a PDF
+ */
+export const handleGetInvoice: RequestHandler = async (req, res) => {
+  try {
+    const order = await repository.orders.findById(req.params.purchaseId);
+
+    // Someone else's purchase is reported as missing rather than forbidden
+    if (!order || order.userId !== res.locals.user.id) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase not found',
+      });
+    }
+
+    // Orders completed before invoicing began get theirs on first request
+    let invoice = await repository.invoices.findByOrder(order.id);
+    if (!invoice) {
+      if (order.paymentStatus !== 'completed') {
+        return res.status(409).json({
+          success: false,
+          message: 'An invoice is issued once payment completes',
+        });
+      }
+      invoice = await issueInvoice(order);
+    }
+
+    await sendPDF(
+      req,
+      res,
+      bufferPDFSource(await renderInvoicePDF(invoice), invoiceFilename(invoice)),
+      { inline: req.query.disposition === 'inline' }
+    );
+  } catch (error) {
+    console.error('Error generating invoice:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate invoice',
     });
   }
 };
@@ -323,7 +457,7 @@ export const handleGetUserPurchases: RequestHandler = async (req, res) => {
   try {
     const { email } = req.params;
 
-    const user = await getUser(email);
+    const user = await repository.users.findByEmail(email);
     if (!user) {
       return res.status(404).json({
         success: false,
@@ -331,7 +465,7 @@ export const handleGetUserPurchases: RequestHandler = async (req, res) => {
       });
     }
 
-    const purchases = await getPurchases(user.id);
+    const purchases = await repository.orders.listByUser(user.id);
 
     res.json({
       success: true,
@@ -356,25 +490,36 @@ export const handleGetUserPurchases: RequestHandler = async (req, res) => {
 
 /**
  * POST /api/payments/send-report-email
- * Manually send report download email to user
+ * Manually send report download email to the report's owner
  */
 export const handleSendReportEmail: RequestHandler = async (req, res) => {
   try {
-    const { userId, email, userName, planName, downloadLink } = req.body;
+    const { pdfRecordId, userName, planName } = req.body;
 
-    if (!email || !downloadLink) {
+    if (!pdfRecordId) {
       return res.status(400).json({
         success: false,
-        message: 'Missing required fields: email, downloadLink',
+        message: 'Missing required field: pdfRecordId',
+      });
+    }
+
+    // The signed link only ever goes to the owner's address on file
+    const pdfRecord = await repository.pdfRecords.findById(pdfRecordId);
+    const owner = pdfRecord && (await repository.users.findById(pdfRecord.userId));
+    if (!owner) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found',
       });
     }
 
     const success = await sendConfirmationEmail(
-      userId,
-      email,
-      userName || 'User',
+      owner.id,
+      owner.email,
+      userName || owner.name || 'User',
       planName || 'Wellness Report',
-      downloadLink
+      pdfRecord,
+      pdfRecord.orderId
     );
 
     if (!success) {
@@ -3,8 +3,8 @@ import {
   LifestyleQuizSchema,
   LifestyleQuiz,
   PersonalizedRecommendations,
+  User,
 } from "../../shared/api";
-import { users } from "./auth";
 
 // In-memory storage for quiz responses
 const quizResponses = new Map<string, LifestyleQuiz>();
@@ -12,11 +12,10 @@ const quizResponses = new Map<string, LifestyleQuiz>();
 // Generate enhanced recommendations based on quiz responses
 const generateQuizBasedRecommendations = (
   quiz: LifestyleQuiz,
-  userId: string,
+  user: User,
 ): PersonalizedRecommendations => {
-  const user = Array.from(users.values()).find((u) => u.id === userId);
-  const age = user?.age || 30;
-  const gender = user?.gender || "other";
+  const age = user.age || 30;
+  const gender = user.gender || "other";
 
   // Adjust recommendations based on quiz responses
   const proteinMultiplier = quiz.goals.includes("muscle_gain") ? 1.5 : 1.0;
@@ -204,26 +203,8 @@ const generateQuizBasedRecommendations = (
 
 export const handleSubmitQuiz: RequestHandler = async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
-
-    const token = authHeader.substring(7);
-    const userId = token.split("_")[2];
-    const userKey = Array.from(users.keys()).find((key) =>
-      key.includes(userId),
-    );
-
-    if (!userKey) {
-      return res.status(401).json({
-        success: false,
-        message: "Invalid token",
-      });
-    }
+    const user: User = res.locals.user;
+    const userKey = user.id;
 
     const validatedQuiz = LifestyleQuizSchema.parse(req.body);
 
@@ -233,7 +214,7 @@ export const handleSubmitQuiz: RequestHandler = async (req, res) => {
     // Generate personalized recommendations
     const recommendations = generateQuizBasedRecommendations(
       validatedQuiz,
-      userKey,
+      user,
     );
 
     res.status(200).json({
@@ -241,7 +222,7 @@ export const handleSubmitQuiz: RequestHandler = async (req, res) => {
       message: "Quiz submitted successfully",
       recommendations,
       nextSteps: {
-        uploadDNA: !users.get(userKey)?.hasUploadedDNA,
+        uploadDNA: !user.hasUploadedDNA,
         generateReport: true,
         trackProgress: true,
       },
@@ -257,26 +238,8 @@ export const handleSubmitQuiz: RequestHandler = async (req, res) => {
 
 export const handleGetQuizResults: RequestHandler = async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
-
-    const token = authHeader.substring(7);
-    const userId = token.split("_")[2];
-    const userKey = Array.from(users.keys()).find((key) =>
-      key.includes(userId),
-    );
-
-    if (!userKey) {
-      return res.status(401).json({
-        success: false,
-        message: "Invalid token",
-      });
-    }
+    const user: User = res.locals.user;
+    const userKey = user.id;
 
     const quizData = quizResponses.get(userKey);
 
@@ -287,7 +250,7 @@ export const handleGetQuizResults: RequestHandler = async (req, res) => {
       });
     }
 
-    const recommendations = generateQuizBasedRecommendations(quizData, userKey);
+    const recommendations = generateQuizBasedRecommendations(quizData, user);
 
     res.status(200).json({
       success: true,
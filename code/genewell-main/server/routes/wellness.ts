@@ -1,46 +1,53 @@
-import { RequestHandler } from "express";
+import { Request, RequestHandler, Response } from "express";
 import {
   WellnessQuizSchema,
   WellnessBlueprint,
   QuizSubmissionResponse,
-  PaymentResponse,
   DownloadResponse,
+  SupplementCheckRequestSchema,
+  SupplementCheckResponse,
+  MealPlanResponse,
+  User,
 } from "../../shared/api";
 import {
   analyzeQuizData,
   PersonalizationData,
-} from "../lib/personalization-engine";
+} from "../../shared/personalization-engine";
+import { planSleepWake } from "../../shared/circadian-schedule";
+import { checkSupplements } from "../../shared/supplement-checker";
+import { generateMealPlan } from "../../shared/meal-planner";
+import {
+  exerciseFor,
+  generateTrainingProgram,
+  programProgression,
+} from "../../shared/training-program";
 import { generatePersonalizedPDF } from "../lib/pdf-generator";
+import { pdfStorage } from "../lib/storage";
+import {
+  repository,
+  toPublicUser,
+  OrderRecord,
+  StoredPDFRecord,
+} from "../lib/repository";
 import {
-  createOrGetUser,
-  storeQuizResponse,
-  createOrder,
-  storePDFFile,
-  getPDFRecord,
-  getPDFBuffer,
-  STORAGE,
-  getStorageStats,
-  getUserDashboard,
-  getPDFRecordsByUserId,
-} from "../lib/storage";
+  authorizeDownload,
+  createSignedDownloadUrl,
+  DownloadDenial,
+  DownloadLinkPayload,
+  GrantedDownloadOutcome,
+  INLINE_LINK_TTL_SECONDS,
+  PURCHASE_LINK_TTL_SECONDS,
+  recordGrantedDownload,
+} from "../lib/download-links";
+import { bufferPDFSource, PDFSource, sendPDF } from "../lib/pdf-response";
 import { getProductById } from "../../client/lib/products";
+import { isPlanId, PLAN_CATALOG, PlanTier } from "../../shared/catalog";
 
 // Helper to generate analysis ID
 function generateAnalysisId(): string {
   return `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-// Helper to determine tier price
-function getTierPrice(tier: string): number {
-  const priceMap: Record<string, number> = {
-    free: 0,
-    essential: 599,
-    premium: 1499,
-    coaching: 9999,
-  };
-  return priceMap[tier] || 0;
-}
-
 /**
  * POST /api/wellness/quiz
  * Handles quiz submission with personalized analysis
@@ -60,15 +67,12 @@ export const handleWellnessQuizSubmission: RequestHandler = async (
     const analysisId = generateAnalysisId();
 
     // Create or get user
-    const user = createOrGetUser(
-      userEmail || `user_${analysisId}@genewell.local`,
-      userName || "User",
-      validatedData.age,
-      validatedData.gender,
-    );
-
-    // Store quiz response
-    const quizResponse = storeQuizResponse(user.id, validatedData, analysisId);
+    const user = await repository.users.findOrCreate({
+      email: userEmail || `user_${analysisId}@genewell.local`,
+      name: userName || "User",
+      age: validatedData.age,
+      gender: validatedData.gender,
+    });
 
     // Generate personalized analysis
     const personalizationData: PersonalizationData = analyzeQuizData(
@@ -77,13 +81,13 @@ export const handleWellnessQuizSubmission: RequestHandler = async (
       userEmail,
     );
 
-    // Store personalization data in memory for later PDF generation
-    STORAGE.personalizationDataCache =
-      STORAGE.personalizationDataCache || new Map();
-    (STORAGE.personalizationDataCache as any).set(
+    // Store quiz response with its analysis for later PDF generation
+    await repository.quizResponses.save({
+      userId: user.id,
       analysisId,
+      quizData: validatedData,
       personalizationData,
-    );
+    });
 
     const response: QuizSubmissionResponse = {
       success: true,
@@ -103,92 +107,190 @@ export const handleWellnessQuizSubmission: RequestHandler = async (
   }
 };
 
+/**
+ * POST /api/wellness/supplement-check
+ * Checks any supplement list for duplicates, upper limits and medication, condition,
+ * intolerance and diet conflicts
+ */
+export const handleSupplementCheck: RequestHandler = (req, res) => {
+  const parsed = SupplementCheckRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const response: SupplementCheckResponse = {
+      success: false,
+      supplements: [],
+      warnings: [],
+      message: "Send a list of 1-40 supplement names",
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: SupplementCheckResponse = {
+    success: true,
+    ...checkSupplements(parsed.data),
+  };
+  res.json(response);
+};
+
+// Finds the completed order `purchaseId`, which must belong to `analysisId`, with its plan's tier.
+// Sends the refusal and returns undefined when there isn't one.
+async function findPaidOrder(
+  res: Response,
+  purchaseId: unknown,
+  analysisId: unknown,
+): Promise<{ order: OrderRecord; tier: PlanTier } | undefined> {
+  const order = purchaseId
+    ? await repository.orders.findById(String(purchaseId))
+    : undefined;
+  if (!order || order.analysisId !== analysisId) {
+    res.status(404).json({
+      success: false,
+      message: "Order not found",
+    });
+    return undefined;
+  }
+  if (order.paymentStatus !== "completed") {
+    res.status(402).json({
+      success: false,
+      paymentStatus: order.paymentStatus,
+      message: "Payment for this order hasn't completed yet",
+    });
+    return undefined;
+  }
+  if (!isPlanId(order.planId)) {
+    res.status(400).json({
+      success: false,
+      message: `Unknown plan ${order.planId}`,
+    });
+    return undefined;
+  }
+
+  return { order, tier: PLAN_CATALOG[order.planId].tier };
+}
+
+// The tiers whose report includes the 7-day meal plan
+const MEAL_PLAN_TIERS: PlanTier[] = ["premium", "coaching"];
+
+/**
+ * GET /api/wellness/meal-plan/:analysisId?purchaseId=...
+ * 7-day meal plan and grocery list for a completed order whose plan includes one
+ */
+export const handleMealPlan: RequestHandler = async (req, res) => {
+  try {
+    const { analysisId } = req.params;
+    const paid = await findPaidOrder(res, req.query.purchaseId, analysisId);
+    if (!paid) return;
+    if (!MEAL_PLAN_TIERS.includes(paid.tier)) {
+      const response: MealPlanResponse = {
+        success: false,
+        message: "The meal plan comes with the Premium and Coaching plans",
+      };
+      return res.status(403).json(response);
+    }
+
+    const quizResponse =
+      await repository.quizResponses.findByAnalysisId(analysisId);
+    if (!quizResponse) {
+      const response: MealPlanResponse = {
+        success: false,
+        message: "Analysis not found. Please complete the quiz first.",
+      };
+      return res.status(404).json(response);
+    }
+
+    const response: MealPlanResponse = {
+      success: true,
+      mealPlan: generateMealPlan(quizResponse.personalizationData),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Meal plan error:", error);
+    const response: MealPlanResponse = {
+      success: false,
+      message: "Failed to generate meal plan",
+    };
+    res.status(500).json(response);
+  }
+};
+
 /**
  * POST /api/wellness/purchase
- * Handles plan purchase and PDF generation
+ * Generates the report for a completed order. The tier and add-ons come from the order, which
+ * must belong to `analysisId`; an order that already has its report gets a fresh link to it.
  */
 export const handleWellnessPurchase: RequestHandler = async (req, res) => {
   try {
-    const { analysisId, planTier, addOns = [], quizData, language = "en" } = req.body;
+    const { purchaseId, analysisId, language = "en" } = req.body;
 
-    if (!analysisId || !planTier) {
+    if (!purchaseId || !analysisId) {
       return res.status(400).json({
         success: false,
-        message: "Missing analysisId or planTier",
+        message: "Missing purchaseId or analysisId",
       });
     }
 
-    // Get personalization data from cache, or regenerate if not found
-    const personalizationDataCache = (STORAGE.personalizationDataCache ||
-      new Map()) as any;
-    let personalizationData = personalizationDataCache.get(analysisId);
-
-    // Always regenerate personalization data if quiz data with userName is provided
-    // This ensures the user's actual name is used in the PDF instead of the default "User"
-    if (quizData && quizData.userName) {
-      console.log(
-        `Regenerating personalization data for analysisId: ${analysisId} with userName: ${quizData.userName}`,
-      );
-      personalizationData = analyzeQuizData(
-        quizData,
-        quizData.userName,
-        quizData.userEmail,
-      );
-      // Store it in cache for future use
-      personalizationDataCache.set(analysisId, personalizationData);
-    } else if (!personalizationData && quizData) {
-      console.log(
-        `Regenerating personalization data for analysisId: ${analysisId}`,
-      );
-      personalizationData = analyzeQuizData(
-        quizData,
-        quizData.userName,
-        quizData.userEmail,
-      );
-      // Store it in cache for future use
-      personalizationDataCache.set(analysisId, personalizationData);
+    const paid = await findPaidOrder(res, purchaseId, analysisId);
+    if (!paid) return;
+    const { order, tier: planTier } = paid;
+    const addOns = order.addOns;
+
+    const existing = order.pdfRecordId
+      ? await repository.pdfRecords.findById(order.pdfRecordId)
+      : undefined;
+    if (existing) {
+      return res.status(200).json({
+        success: true,
+        orderId: order.id,
+        pdfRecordId: existing.pdfRecordId,
+        generatedAt: existing.generatedAt,
+        downloadUrl: createSignedDownloadUrl(existing, {
+          ttlSeconds: PURCHASE_LINK_TTL_SECONDS,
+        }),
+        message: "PDF ready",
+      });
     }
 
-    if (!personalizationData) {
+    const quizResponse =
+      await repository.quizResponses.findByAnalysisId(analysisId);
+    if (!quizResponse) {
       return res.status(404).json({
         success: false,
         message: "Analysis not found. Please complete the quiz first.",
       });
     }
 
-    // Create order
-    const order = createOrder(
-      analysisId,
-      planTier as any,
-      addOns,
-      getTierPrice(planTier),
-    );
+    // Built from the validated quiz when it was stored, with the buyer's name
+    const { personalizationData } = quizResponse;
 
     // Generate personalized PDF
     const pdfChunks = await generatePersonalizedPDF(personalizationData, {
-      tier: planTier as any,
+      tier: planTier,
       addOns,
-      orderId: order.orderId,
+      orderId: order.id,
       timestamp: new Date().toISOString(),
       language: (language || "en") as "en" | "hi",
     });
 
     // Store PDF file
-    const pdfRecord = storePDFFile(
+    const pdfRecord = await pdfStorage.storePDFFile(
       pdfChunks.buffer,
       pdfChunks.filename,
-      order.orderId,
+      order.id,
       analysisId,
+      order.userId,
       planTier,
       addOns,
       personalizationData.profile.name,
     );
+    await repository.orders.attachPDF(order.id, pdfRecord.pdfRecordId);
 
     res.status(200).json({
       success: true,
-      orderId: order.orderId,
+      orderId: order.id,
       pdfRecordId: pdfRecord.pdfRecordId,
-      downloadUrl: `/api/wellness/download-pdf/${pdfRecord.pdfRecordId}`,
+      generatedAt: pdfRecord.generatedAt,
+      downloadUrl: createSignedDownloadUrl(pdfRecord, {
+        ttlSeconds: PURCHASE_LINK_TTL_SECONDS,
+      }),
       pageCount: pdfChunks.pageCount,
       message: "PDF generated successfully!",
     });
@@ -201,49 +303,93 @@ export const handleWellnessPurchase: RequestHandler = async (req, res) => {
   }
 };
 
+const DOWNLOAD_DENIALS: Record<
+  DownloadDenial,
+  { status: number; message: string }
+> = {
+  missing_token: { status: 401, message: "Download link required" },
+  invalid_signature: { status: 403, message: "Invalid download link" },
+  wrong_record: { status: 403, message: "Invalid download link" },
+  not_owner: { status: 403, message: "Invalid download link" },
+  not_found: { status: 404, message: "PDF not found" },
+  expired: { status: 410, message: "Download link has expired" },
+  limit_reached: {
+    status: 410,
+    message: "Download link has already been used",
+  },
+};
+
+interface AuthorizedPDFRequest {
+  pdfRecord: StoredPDFRecord;
+  link: DownloadLinkPayload;
+}
+
+// Verifies the signed link on a download request. Sends the refusal and returns undefined when it fails.
+async function authorizePDFRequest(
+  req: Request,
+  res: Response,
+): Promise<AuthorizedPDFRequest | undefined> {
+  const { pdfRecordId } = req.params;
+  const pdfRecord = await pdfStorage.getPDFRecord(pdfRecordId);
+  const authorization = await authorizeDownload({
+    pdfRecordId,
+    pdfRecord,
+    token: typeof req.query.token === "string" ? req.query.token : undefined,
+    ipAddress: req.ip,
+    userAgent: req.get("user-agent"),
+  });
+
+  if (!authorization.granted) {
+    console.warn(
+      `PDF download refused for ${pdfRecordId}: ${authorization.reason}`,
+    );
+    const { status, message } = DOWNLOAD_DENIALS[authorization.reason];
+    res.status(status).json({ success: false, message });
+    return undefined;
+  }
+
+  return { pdfRecord: pdfRecord!, link: authorization.link! };
+}
+
+// Logs a granted request once answered. The response is already sent, so a failure is only logged.
+async function logGrantedRequest(
+  req: Request,
+  { pdfRecord, link }: AuthorizedPDFRequest,
+  outcome: GrantedDownloadOutcome,
+) {
+  await recordGrantedDownload({
+    pdfRecordId: pdfRecord.pdfRecordId,
+    link,
+    outcome,
+    ipAddress: req.ip,
+    userAgent: req.get("user-agent"),
+  }).catch((error) => {
+    console.error("Error logging PDF download:", error);
+  });
+}
+
+const wantsInline = (req: Request) => req.query.disposition === "inline";
+
 /**
- * GET /api/wellness/download-pdf/:pdfRecordId
- * Downloads the personalized PDF
+ * GET /api/wellness/download-pdf/:pdfRecordId?token=...[&disposition=inline]
+ * Streams the personalized PDF through a signed link (supports Range and ETag)
  */
 export const handlePDFDownload: RequestHandler = async (req, res) => {
   try {
     const { pdfRecordId } = req.params;
     console.log(`PDF Download requested for: ${pdfRecordId}`);
 
-    const pdfRecord = getPDFRecord(pdfRecordId);
-    if (!pdfRecord) {
-      console.error(`PDF record not found: ${pdfRecordId}`);
-      console.log(
-        `Available PDF records: ${Array.from((STORAGE.pdfRecords || new Map()).keys()).join(", ")}`,
-      );
-      return res.status(404).json({
-        success: false,
-        message: "PDF not found",
-      });
-    }
-
-    console.log(`PDF record found:`, pdfRecord);
-    const buffer = getPDFBuffer(pdfRecordId);
-    if (!buffer) {
-      console.error(`PDF buffer not accessible: ${pdfRecord.filepath}`);
-      return res.status(404).json({
-        success: false,
-        message: "PDF file not accessible",
-      });
-    }
+    const authorized = await authorizePDFRequest(req, res);
+    if (!authorized) return;
 
-    console.log(
-      `Sending PDF: ${pdfRecord.filename}, size: ${buffer.length} bytes`,
+    // A viewer seeking with Range requests doesn't use up a limited link - only whole files do
+    const wholeFile = await sendPDF(
+      req,
+      res,
+      pdfStorage.getPDFSource(authorized.pdfRecord),
+      { inline: wantsInline(req) },
     );
-
-    // Send as download
-    res.setHeader("Content-Type", "application/pdf");
-    res.setHeader(
-      "Content-Disposition",
-      `attachment; filename="${pdfRecord.filename}"`,
-    );
-    res.setHeader("Content-Length", buffer.length);
-    res.send(buffer);
+    await logGrantedRequest(req, authorized, wholeFile ? "granted" : "partial");
   } catch (error) {
     console.error("PDF download error:", error);
     res.status(500).json({
@@ -254,40 +400,36 @@ export const handlePDFDownload: RequestHandler = async (req, res) => {
 };
 
 /**
- * GET /api/wellness/download-pdf-base64/:pdfRecordId
- * Returns PDF as base64 data URL for inline viewing
+ * GET /api/wellness/download-pdf-base64/:pdfRecordId?token=...
+ * Returns a short-lived URL for viewing the PDF inline. (Named for the base64 data URL it used to return.)
  */
 export const handlePDFDownloadBase64: RequestHandler = async (req, res) => {
   try {
-    const { pdfRecordId } = req.params;
+    const authorized = await authorizePDFRequest(req, res);
+    if (!authorized) return;
+    const { pdfRecord, link } = authorized;
 
-    const pdfRecord = getPDFRecord(pdfRecordId);
-    if (!pdfRecord) {
-      return res.status(404).json({
-        success: false,
-        message: "PDF not found",
-      });
-    }
-
-    const buffer = getPDFBuffer(pdfRecordId);
-    if (!buffer) {
-      return res.status(404).json({
-        success: false,
-        message: "PDF file not accessible",
-      });
-    }
-
-    const base64 = buffer.toString("base64");
-    const dataUrl = `data:application/pdf;base64,${base64}`;
+    const expiresAt = new Date(
+      Math.min(
+        Date.now() + INLINE_LINK_TTL_SECONDS * 1000,
+        new Date(pdfRecord.expiresAt).getTime(),
+      ),
+    ).toISOString();
 
     const response: DownloadResponse = {
       success: true,
-      pdfUrl: dataUrl,
+      // Shares the link's id and limit, so viewing counts against the same downloads
+      pdfUrl: `${createSignedDownloadUrl(pdfRecord, {
+        ttlSeconds: INLINE_LINK_TTL_SECONDS,
+        linkId: link.jti,
+        maxDownloads: link.max,
+      })}&disposition=inline`,
       filename: pdfRecord.filename,
-      expiresAt: pdfRecord.expiresAt,
+      expiresAt,
     };
 
     res.status(200).json(response);
+    await logGrantedRequest(req, authorized, "link_issued");
   } catch (error) {
     console.error("PDF base64 download error:", error);
     res.status(500).json({
@@ -299,25 +441,12 @@ export const handlePDFDownloadBase64: RequestHandler = async (req, res) => {
 
 /**
  * GET /api/wellness/pdfs
- * Lists all PDFs for a user (requires email or userId in query)
+ * Lists the signed-in user's PDFs with fresh download links
  */
 export const handleListUserPDFs: RequestHandler = async (req, res) => {
   try {
-    const { email, userId } = req.query;
-
-    // Find user
-    let userPdfs: any[] = [];
-
-    if (userId) {
-      userPdfs = getPDFRecordsByUserId(userId as string);
-    } else if (email) {
-      // Find user by email and get their PDFs
-      const users = Array.from(STORAGE.users.values());
-      const user = users.find((u) => u.email === email);
-      if (user) {
-        userPdfs = getPDFRecordsByUserId(user.id);
-      }
-    }
+    const user: User = res.locals.user;
+    const userPdfs = await pdfStorage.getPDFRecordsByUserId(user.id);
 
     const pdfs = userPdfs.map((p) => ({
       pdfRecordId: p.pdfRecordId,
@@ -327,7 +456,9 @@ export const handleListUserPDFs: RequestHandler = async (req, res) => {
       userName: p.userName,
       generatedAt: p.generatedAt,
       expiresAt: p.expiresAt,
-      downloadUrl: `/api/wellness/download-pdf/${p.pdfRecordId}`,
+      downloadUrl: createSignedDownloadUrl(p, {
+        ttlSeconds: PURCHASE_LINK_TTL_SECONDS,
+      }),
     }));
 
     res.status(200).json({
@@ -346,23 +477,53 @@ export const handleListUserPDFs: RequestHandler = async (req, res) => {
 
 /**
  * GET /api/wellness/dashboard/:userId
- * Returns user dashboard with all their data
+ * Returns the signed-in user's dashboard with all their data - other users' ids are not found
  */
 export const handleUserDashboard: RequestHandler = async (req, res) => {
   try {
     const { userId } = req.params;
+    const account: User = res.locals.user;
 
-    const dashboard = getUserDashboard(userId);
-    if (!dashboard) {
+    const user =
+      userId === account.id
+        ? await repository.users.findById(userId)
+        : undefined;
+    if (!user) {
       return res.status(404).json({
         success: false,
         message: "User not found",
       });
     }
 
+    const [quizResponses, orders, pdfs] = await Promise.all([
+      repository.quizResponses.listByUser(userId),
+      repository.orders.listByUser(userId),
+      pdfStorage.getPDFRecordsByUserId(userId),
+    ]);
+
     res.status(200).json({
       success: true,
-      ...dashboard,
+      user: toPublicUser(user),
+      quizCount: quizResponses.length,
+      orderCount: orders.length,
+      pdfCount: pdfs.length,
+      lastQuizDate: quizResponses[0]?.createdAt || null,
+      lastOrderDate: orders[0]?.createdAt || null,
+      lastPDFDate: pdfs[0]?.generatedAt || null,
+      orders: orders.map((o) => ({
+        orderId: o.id,
+        planTier: o.planId,
+        createdAt: o.createdAt,
+        pdfRecordId: o.pdfRecordId,
+      })),
+      pdfs: pdfs.map((p) => ({
+        pdfRecordId: p.pdfRecordId,
+        orderId: p.orderId,
+        filename: p.filename,
+        planTier: p.planTier,
+        generatedAt: p.generatedAt,
+        expiresAt: p.expiresAt,
+      })),
     });
   } catch (error) {
     console.error("Dashboard error:", error);
@@ -379,10 +540,19 @@ export const handleUserDashboard: RequestHandler = async (req, res) => {
  */
 export const handleStorageStats: RequestHandler = async (req, res) => {
   try {
-    const stats = getStorageStats();
+    const [totalUsers, totalQuizResponses, totalOrders, storageStats] =
+      await Promise.all([
+        repository.users.count(),
+        repository.quizResponses.count(),
+        repository.orders.count(),
+        pdfStorage.getStorageStats(),
+      ]);
     res.status(200).json({
       success: true,
-      ...stats,
+      totalUsers,
+      totalQuizResponses,
+      totalOrders,
+      ...storageStats,
     });
   } catch (error) {
     console.error("Stats error:", error);
@@ -393,12 +563,35 @@ export const handleStorageStats: RequestHandler = async (req, res) => {
   }
 };
 
+// Demo PDFs are generated once per process: the content doesn't change, and Range/ETag need a stable file
+let samplePDF: Promise<PDFSource> | undefined;
+const productPDFs = new Map<string, Promise<PDFSource>>();
+
+// Caches a generated PDF, forgetting failures so the next request retries
+function cachePDF(
+  generate: () => Promise<PDFSource>,
+  store: (source: Promise<PDFSource> | undefined) => void,
+): Promise<PDFSource> {
+  const source = generate().catch((error) => {
+    store(undefined);
+    throw error;
+  });
+  store(source);
+  return source;
+}
+
 /**
- * GET /api/wellness/sample-pdf
- * Returns a sample wellness blueprint PDF for demo purposes
+ * GET /api/wellness/sample-pdf[?disposition=inline]
+ * Streams a sample wellness blueprint PDF for demo purposes
  */
 export const handleSamplePDF: RequestHandler = async (req, res) => {
   try {
+    const sampleSleepWakePlan = planSleepWake({
+      age: 30,
+      wakeUpTime: "6-8",
+      sleepHours: "7-8",
+      workSchedule: "9-to-5",
+    });
     const samplePersonalizationData: PersonalizationData = {
       profile: {
         name: "Sample User",
@@ -409,6 +602,10 @@ export const handleSamplePDF: RequestHandler = async (req, res) => {
         estimatedWeightKg: 75,
         estimatedBMR: 1750,
         estimatedTDEE: 2400,
+        bmrFormula: "mifflin-st-jeor",
+        metricSources: { height: "measured", weight: "measured" },
+        bmi: 24.5,
+        bmiCategory: "overweight",
         proteinGrams: 135,
         carbsGrams: 300,
         fatsGrams: 80,
@@ -420,8 +617,9 @@ export const handleSamplePDF: RequestHandler = async (req, res) => {
         digestiveIssues: [],
         foodIntolerances: [],
         skinConcerns: [],
-        dietaryPreference: "omnivore",
+        dietaryPreference: "non-veg",
         exercisePreference: ["gym", "cardio"],
+        exerciseEquipment: "gym",
         workSchedule: "9-to-5",
         region: "India",
         recommendedTests: [
@@ -437,7 +635,7 @@ export const handleSamplePDF: RequestHandler = async (req, res) => {
         supplementPriority: [
           "Vitamin D3 2000-4000 IU daily",
           "Omega-3 (fish oil) 2-3g EPA+DHA daily",
-          "Magnesium Glycinate 300-400mg before bed"
+          "Magnesium Glycinate 200-350mg before bed"
         ],
         exerciseIntensity: "moderate",
         mealFrequency: 3,
@@ -445,7 +643,9 @@ export const handleSamplePDF: RequestHandler = async (req, res) => {
       },
       insights: {
         metabolicInsight: "Your moderate metabolism and 9-to-5 schedule suggest optimal results with structured meal timing and consistent strength training 3-4x per week.",
-        recommendedMealTimes: ["8:00 AM", "1:00 PM", "7:00 PM"],
+        bodyCompositionInsight: "Your BMI is 24.5 (overweight). Asian Indians face metabolic risk at lower BMIs than the WHO ranges assume, so we use the Indian consensus cut-offs: below 18.5 underweight, 18.5-22.9 normal, 23-24.9 overweight, 25 and above obese.",
+        recommendedMealTimes: sampleSleepWakePlan.schedule.meals.map((meal) => meal.window),
+        sleepWakePlan: sampleSleepWakePlan,
         calorieRange: { min: 2100, max: 2700 },
         macroRatios: { protein: 22.5, carbs: 50, fats: 27.5 },
         supplementStack: [
@@ -455,26 +655,36 @@ export const handleSamplePDF: RequestHandler = async (req, res) => {
         ],
         workoutStrategy: "3-4 days per week with compound movements. Monday/Wednesday/Friday strength training, Tuesday/Thursday optional cardio. Focus on progressive overload and proper form.",
         sleepStrategy: "Target 7-8 hours nightly with consistent 10:30 PM bedtime and 6:30 AM wake time. Dark, cool room with minimal screen time 1 hour before sleep.",
-        stressStrategy: "5-10 minute daily breathing exercises, 30 min walks 3x weekly, and regular strength training which naturally reduces cortisol and anxiety."
+        stressStrategy: "5-10 minute daily breathing exercises, 30 min walks 3x weekly, and regular strength training which naturally reduces cortisol and anxiety.",
+        supplementWarnings: [],
+        conditionGuidance: [],
+        foodRecommendations: { bestFoods: [], worstFoods: [] }
       }
     };
 
-    const pdfChunks = await generatePersonalizedPDF(samplePersonalizationData, {
-      tier: "premium",
-      addOns: [],
-      orderId: `sample_${Date.now()}`,
-      timestamp: new Date().toISOString(),
-      language: "en",
-    });
-
-    const base64 = pdfChunks.buffer.toString("base64");
-    const dataUrl = `data:application/pdf;base64,${base64}`;
+    const source =
+      samplePDF ||
+      cachePDF(
+        async () => {
+          const pdfChunks = await generatePersonalizedPDF(
+            samplePersonalizationData,
+            {
+              tier: "premium",
+              addOns: [],
+              orderId: `sample_${Date.now()}`,
+              timestamp: new Date().toISOString(),
+              language: "en",
+            },
+          );
+          return bufferPDFSource(
+            pdfChunks.buffer,
+            "sample-wellness-blueprint.pdf",
+          );
+        },
+        (cached) => (samplePDF = cached),
+      );
 
-    res.status(200).json({
-      success: true,
-      pdfUrl: dataUrl,
-      filename: "sample-wellness-blueprint.pdf",
-    });
+    await sendPDF(req, res, await source, { inline: wantsInline(req) });
   } catch (error) {
     console.error("Sample PDF error:", error);
     res.status(500).json({
@@ -488,85 +698,11 @@ export const handleSamplePDF: RequestHandler = async (req, res) => {
 // LEGACY ENDPOINTS (for backward compatibility)
 // ============================================
 
-export const handleWellnessPayment: RequestHandler = async (req, res) => {
-  // Deprecated - use handleWellnessPurchase instead
-  try {
-    const { analysisId, email, planType, amount } = req.body;
-
-    if (!analysisId || !email || !planType) {
-      return res.status(400).json({
-        success: false,
-        message: "Missing required payment information",
-      });
-    }
-
-    const paymentId = `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    const response: PaymentResponse = {
-      success: true,
-      paymentId,
-      downloadUrl: `/api/wellness/download/${analysisId}`,
-      message: "Payment successful! Your blueprint is ready for download.",
-    };
-
-    res.status(200).json(response);
-  } catch (error) {
-    console.error("Payment processing error:", error);
-    res.status(500).json({
-      success: false,
-      message: "Payment processing failed",
-    });
-  }
-};
-
-export const handleWellnessDownload: RequestHandler = async (req, res) => {
-  // Legacy endpoint - try to find and return a PDF
-  try {
-    const { analysisId } = req.params;
-
-    // Try to find a PDF for this analysis
-    const pdfs = Array.from(STORAGE.pdfRecords.values()).filter(
-      (p) => p.analysisId === analysisId,
-    );
-
-    if (pdfs.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: "No PDF found for this analysis",
-      });
-    }
-
-    const pdfRecord = pdfs[0];
-    const buffer = getPDFBuffer(pdfRecord.pdfRecordId);
-
-    if (!buffer) {
-      return res.status(404).json({
-        success: false,
-        message: "PDF file not accessible",
-      });
-    }
-
-    const base64 = buffer.toString("base64");
-
-    const response: DownloadResponse = {
-      success: true,
-      pdfUrl: `data:application/pdf;base64,${base64}`,
-      filename: pdfRecord.filename,
-      expiresAt: pdfRecord.expiresAt,
-    };
-
-    res.status(200).json(response);
-  } catch (error) {
-    console.error("Download error:", error);
-    res.status(500).json({
-      success: false,
-      message: "Failed to generate download",
-    });
-  }
-};
-
+/**
+ * GET /api/products/download/:productId
+ * Legacy endpoint - streams a PDF generated from the product template
+ */
 export const handleProductDownload: RequestHandler = async (req, res) => {
-  // Legacy endpoint for product templates
   try {
     const { productId } = req.params;
 
@@ -579,35 +715,43 @@ export const handleProductDownload: RequestHandler = async (req, res) => {
     }
 
     // Create a generic PDF from product template
-    const PDFDocument = require("pdfkit");
-    const doc = new PDFDocument();
-    const chunks: Buffer[] = [];
-
-    doc.on("data", (d: any) => chunks.push(d as Buffer));
-
-    doc.fontSize(24).text(product.name);
-    doc.moveDown();
-    doc.fontSize(12).text(product.description);
-    doc.moveDown();
-    doc.text("Features:");
-    product.details.forEach((detail: string) => {
-      doc.text(`• ${detail}`);
-    });
-
-    doc.end();
-
-    const buffer: Buffer = await new Promise((resolve) => {
-      doc.on("end", () => resolve(Buffer.concat(chunks)));
-    });
-
-    const base64 = buffer.toString("base64");
+    const source =
+      productPDFs.get(productId) ||
+      cachePDF(
+        async () => {
+          const PDFDocument = require("pdfkit");
+          const doc = new PDFDocument();
+          const chunks: Buffer[] = [];
+
+          doc.on("data", (d: any) => chunks.push(d as Buffer));
+
+          doc.fontSize(24).text(product.name);
+          doc.moveDown();
+          doc.fontSize(12).text(product.description);
+          doc.moveDown();
+          doc.text("Features:");
+          product.details.forEach((detail: string) => {
+            doc.text(`• ${detail}`);
+          });
+
+          doc.end();
+
+          const buffer: Buffer = await new Promise((resolve) => {
+            doc.on("end", () => resolve(Buffer.concat(chunks)));
+          });
+
+          return bufferPDFSource(
+            buffer,
+            `${product.name.toLowerCase().replace(/\s+/g, "-")}.pdf`,
+          );
+        },
+        (cached) =>
+          cached
+            ? productPDFs.set(productId, cached)
+            : productPDFs.delete(productId),
+      );
 
-    res.status(200).json({
-      success: true,
-      pdfUrl: `data:application/pdf;base64,${base64}`,
-      filename: `${product.name.toLowerCase().replace(/\s+/g, "-")}.pdf`,
-      expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
-    });
+    await sendPDF(req, res, await source, { inline: wantsInline(req) });
   } catch (error) {
     console.error("Product download error:", error);
     res.status(500).json({
@@ -625,6 +769,30 @@ function createBlueprintFromPersonalization(
   data: PersonalizationData,
 ): WellnessBlueprint {
   const { profile, insights } = data;
+  const { schedule } = insights.sleepWakePlan;
+  const program = generateTrainingProgram(profile);
+  const [firstWeek] = program.weeks;
+  // The first week's strength work in versions that need no more than dumbbells or bands
+  const homeExercises = new Map(
+    firstWeek.sessions
+      .filter((session) => session.type === "strength")
+      .flatMap((session) => session.exercises)
+      .map((exercise) => {
+        const home = exerciseFor(
+          exercise.pattern,
+          program.equipment === "gym" ? "home-basics" : program.equipment,
+        );
+        return [
+          home.name,
+          {
+            name: home.name,
+            sets: `${exercise.sets} sets`,
+            reps: exercise.reps,
+            description: home.cues.join(". "),
+          },
+        ] as const;
+      }),
+  );
 
   return {
     metabolismType: {
@@ -638,13 +806,8 @@ function createBlueprintFromPersonalization(
     },
 
     nutritionPlan: {
-      bestFoods: [
-        "Lean proteins",
-        "Whole grains",
-        "Fresh vegetables",
-        "Healthy fats",
-      ],
-      worstFoods: ["Processed foods", "Refined sugars", "Trans fats"],
+      bestFoods: insights.foodRecommendations.bestFoods,
+      worstFoods: insights.foodRecommendations.worstFoods,
       mealTiming: {
         breakfast: insights.recommendedMealTimes[0],
         lunch: insights.recommendedMealTimes[1],
@@ -652,9 +815,9 @@ function createBlueprintFromPersonalization(
         snacks: ["Mid-morning", "Mid-afternoon"],
       },
       fastingWindow: {
-        startTime: "8:00 PM",
-        endTime: "8:00 AM",
-        duration: "12 hours",
+        startTime: schedule.fastingWindow.start,
+        endTime: schedule.fastingWindow.end,
+        duration: `${schedule.fastingWindow.hours} hours`,
         benefits: ["Improved digestion", "Better energy", "Weight management"],
       },
       hydrationSchedule: [
@@ -672,42 +835,16 @@ function createBlueprintFromPersonalization(
 
     fitnessRoutine: {
       workoutType: profile.exercisePreference,
-      frequency: profile.mealFrequency,
-      duration: profile.exerciseIntensity === "low" ? 20 : 30,
-      weeklyPlan: [
-        {
-          day: "Monday",
-          activity: "Strength Training",
-          duration: "30 min",
-          intensity: profile.exerciseIntensity,
-        },
-        {
-          day: "Wednesday",
-          activity: "Cardio",
-          duration: "25 min",
-          intensity: profile.exerciseIntensity,
-        },
-        {
-          day: "Friday",
-          activity: "Flexibility",
-          duration: "20 min",
-          intensity: "low",
-        },
-      ],
-      homeExercises: [
-        {
-          name: "Push-ups",
-          sets: "3 sets",
-          reps: "10-15 reps",
-          description: "Upper body strength",
-        },
-        {
-          name: "Squats",
-          sets: "3 sets",
-          reps: "15-20 reps",
-          description: "Lower body strength",
-        },
-      ],
+      frequency: program.daysPerWeek,
+      duration: program.sessionMinutes,
+      weeklyPlan: firstWeek.sessions.map((session) => ({
+        day: session.day,
+        activity: session.title,
+        duration: `${session.durationMin} min`,
+        intensity: session.intensity,
+      })),
+      homeExercises: [...homeExercises.values()],
+      progression: programProgression(program),
     },
 
     stressManagement: {
@@ -745,15 +882,19 @@ function createBlueprintFromPersonalization(
     },
 
     sleepOptimization: {
-      bedtime: "10:30 PM",
-      wakeTime: "6:30 AM",
+      bedtime: schedule.bedtime,
+      wakeTime: schedule.wakeTime,
       sleepHygiene: [
         "Dark room",
         "Cool temperature",
-        "No screens 60 min before bed",
-        "Consistent schedule",
+        `No caffeine after ${schedule.caffeineCutoff}`,
+        `Dim lights and put screens away from ${schedule.dimLightFrom}`,
+        "Same wake time every day, weekends included",
       ],
       environmentTips: [
+        ...schedule.lightExposure.map(
+          (light) => `${light.window}: ${light.advice}`,
+        ),
         "Blackout curtains",
         "White noise machine",
         "Comfortable bedding",
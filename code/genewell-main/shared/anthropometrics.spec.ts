@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateBMI,
+  calculateWaistToHeightRatio,
+  classifyBMI,
+  cmToFeetInches,
+  feetInchesToCm,
+  katchMcArdleBMR,
+  kgToLb,
+  lbToKg,
+  mifflinStJeorBMR,
+} from "./anthropometrics";
+
+describe("anthropometrics", () => {
+  it("should convert imperial entries to metric and back", () => {
+    expect(feetInchesToCm(5, 7)).toBe(170.2);
+    expect(cmToFeetInches(170.2)).toEqual({ feet: 5, inches: 7 });
+    expect(lbToKg(150)).toBe(68);
+    expect(kgToLb(68)).toBe(149.9);
+  });
+
+  it("should apply Mifflin-St Jeor and Katch-McArdle", () => {
+    expect(
+      mifflinStJeorBMR({
+        weightKg: 70,
+        heightCm: 175,
+        age: 30,
+        gender: "male",
+      }),
+    ).toBe(1648.75);
+    expect(
+      mifflinStJeorBMR({
+        weightKg: 60,
+        heightCm: 160,
+        age: 30,
+        gender: "female",
+      }),
+    ).toBe(1289);
+    // 70kg at 20% body fat = 56kg lean mass
+    expect(katchMcArdleBMR(70, 20)).toBeCloseTo(1579.6);
+  });
+
+  it("should use the Asian-Indian BMI cut-offs", () => {
+    expect(calculateBMI(62, 158)).toBe(24.8);
+    expect(classifyBMI(18.4)).toBe("underweight");
+    expect(classifyBMI(22.9)).toBe("normal");
+    expect(classifyBMI(23)).toBe("overweight");
+    expect(classifyBMI(25)).toBe("obese");
+  });
+
+  it("should compute waist-to-height ratio", () => {
+    expect(calculateWaistToHeightRatio(94, 172)).toBe(0.55);
+  });
+});
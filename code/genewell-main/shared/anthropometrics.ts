@@ -0,0 +1,108 @@
+// Body measurement maths - unit conversion, BMR equations, BMI and waist-to-height ratio
+// Everything is metric: the quiz converts ft-in and lb entries before they reach the engine.
+
+export type BMRFormula = "mifflin-st-jeor" | "katch-mcardle";
+export type BMICategory = "underweight" | "normal" | "overweight" | "obese";
+
+const CM_PER_INCH = 2.54;
+const KG_PER_LB = 0.45359237;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// ==========================================
+// UNIT CONVERSION
+// ==========================================
+
+export function inchesToCm(inches: number): number {
+  return round1(inches * CM_PER_INCH);
+}
+
+export function cmToInches(cm: number): number {
+  return round1(cm / CM_PER_INCH);
+}
+
+export function feetInchesToCm(feet: number, inches = 0): number {
+  return round1((feet * 12 + inches) * CM_PER_INCH);
+}
+
+export function cmToFeetInches(cm: number): { feet: number; inches: number } {
+  const totalInches = Math.round(cm / CM_PER_INCH);
+  return { feet: Math.floor(totalInches / 12), inches: totalInches % 12 };
+}
+
+export function lbToKg(lb: number): number {
+  return round1(lb * KG_PER_LB);
+}
+
+export function kgToLb(kg: number): number {
+  return round1(kg / KG_PER_LB);
+}
+
+// ==========================================
+// ENERGY EXPENDITURE
+// ==========================================
+
+/**
+ * Mifflin-St Jeor (1990) - the most accurate height/weight/age equation for most adults
+ */
+export function mifflinStJeorBMR({
+  weightKg,
+  heightCm,
+  age,
+  gender,
+}: {
+  weightKg: number;
+  heightCm: number;
+  age: number;
+  gender: string;
+}): number {
+  // BMR = (10 × weight_kg) + (6.25 × height_cm) - (5 × age) + (5 for males, -161 for females)
+  const genderFactor = gender === "male" ? 5 : -161;
+  return 10 * weightKg + 6.25 * heightCm - 5 * age + genderFactor;
+}
+
+/**
+ * Katch-McArdle - works from lean mass, so it stays accurate for very lean or heavier
+ * bodies where weight alone misleads. Needs a body-fat measurement.
+ */
+export function katchMcArdleBMR(
+  weightKg: number,
+  bodyFatPercent: number,
+): number {
+  const leanMassKg = weightKg * (1 - bodyFatPercent / 100);
+  return 370 + 21.6 * leanMassKg;
+}
+
+// ==========================================
+// BODY COMPOSITION
+// ==========================================
+
+// Consensus cut-offs for Asian Indians (Misra et al., 2009) - lower than WHO's 25/30
+// because South Asians carry more visceral fat, and metabolic risk, at the same BMI
+export const ASIAN_INDIAN_BMI_CUTOFFS = {
+  underweight: 18.5,
+  overweight: 23,
+  obese: 25,
+};
+
+// Above half your height, waist size signals raised cardiometabolic risk whatever the BMI
+export const WAIST_TO_HEIGHT_RISK_RATIO = 0.5;
+
+export function calculateBMI(weightKg: number, heightCm: number): number {
+  const heightM = heightCm / 100;
+  return round1(weightKg / (heightM * heightM));
+}
+
+export function classifyBMI(bmi: number): BMICategory {
+  if (bmi < ASIAN_INDIAN_BMI_CUTOFFS.underweight) return "underweight";
+  if (bmi < ASIAN_INDIAN_BMI_CUTOFFS.overweight) return "normal";
+  if (bmi < ASIAN_INDIAN_BMI_CUTOFFS.obese) return "overweight";
+  return "obese";
+}
+
+export function calculateWaistToHeightRatio(
+  waistCm: number,
+  heightCm: number,
+): number {
+  return Math.round((waistCm / heightCm) * 100) / 100;
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { CheckoutPrice, isAddOnId, isPlanId } from "./catalog";
 
 // User Management Types
 export const UserSchema = z.object({
@@ -27,7 +28,27 @@ export const AuthLoginSchema = z.object({
   password: z.string().min(8),
 });
 
+export const AuthRefreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
 // Enhanced Wellness Quiz Types
+
+// Optional body measurements, always metric - the quiz converts ft-in and lb on entry
+export const BodyMeasurementsSchema = z.object({
+  heightCm: z.number().min(120).max(230).optional(),
+  weightKg: z.number().min(30).max(250).optional(),
+  waistCm: z.number().min(40).max(200).optional(),
+  bodyFatPercent: z.number().min(3).max(60).optional(),
+});
+
+// Optional extended sleep assessment: for each question in shared/sleep-assessment.ts,
+// keyed by its id, the index of the option the user picked
+export const SleepAssessmentAnswersSchema = z.record(
+  z.string(),
+  z.number().int().min(0).max(4),
+);
+
 export const WellnessQuizSchema = z.object({
   age: z.number().min(16).max(60),
   gender: z.enum(["male", "female", "non-binary", "prefer-not-to-say"]),
@@ -62,6 +83,8 @@ export const WellnessQuizSchema = z.object({
     "none",
     "prefer-not-to-say",
   ]),
+  // Regular medicines as the user typed them, e.g. "thyronorm, metformin" - checked against supplements
+  medications: z.string().trim().max(500).optional(),
   eatingOut: z.enum(["daily", "3-5-times", "1-2-times", "rarely"]),
 
   // Additional enhanced questions
@@ -91,6 +114,15 @@ export const WellnessQuizSchema = z.object({
     "walking",
     "none",
   ]),
+  exerciseEquipment: z.enum(["none", "home-basics", "gym"]),
+  dietaryPreference: z.enum([
+    "non-veg",
+    "pescatarian",
+    "eggetarian",
+    "vegetarian",
+    "jain",
+    "vegan",
+  ]),
   foodIntolerances: z.array(
     z.enum(["lactose", "gluten", "nuts", "seafood", "eggs", "none"]),
   ),
@@ -108,6 +140,11 @@ export const WellnessQuizSchema = z.object({
     "student",
     "homemaker",
   ]),
+  // Only asked of shift workers
+  shiftType: z.enum(["night", "evening", "rotating"]).optional(),
+  sleepAssessment: SleepAssessmentAnswersSchema.optional(),
+
+  ...BodyMeasurementsSchema.shape,
 });
 
 // Wellness Blueprint Types
@@ -162,6 +199,16 @@ export const WellnessBlueprintSchema = z.object({
         description: z.string(),
       }),
     ),
+    progression: z.array(
+      z.object({
+        week: z.number(),
+        phase: z.string(),
+        deload: z.boolean(),
+        sets: z.number(),
+        reps: z.string(),
+        rpe: z.number(),
+      }),
+    ),
   }),
 
   stressManagement: z.object({
@@ -244,6 +291,10 @@ export const WellnessBlueprintSchema = z.object({
 export type User = z.infer<typeof UserSchema>;
 export type AuthRegister = z.infer<typeof AuthRegisterSchema>;
 export type AuthLogin = z.infer<typeof AuthLoginSchema>;
+export type BodyMeasurements = z.infer<typeof BodyMeasurementsSchema>;
+export type SleepAssessmentAnswers = z.infer<
+  typeof SleepAssessmentAnswersSchema
+>;
 export type WellnessQuiz = z.infer<typeof WellnessQuizSchema>;
 export type WellnessBlueprint = z.infer<typeof WellnessBlueprintSchema>;
 
@@ -310,6 +361,33 @@ export const PersonalizedRecommendationsSchema = z.object({
 });
 
 export type GeneticMarkers = z.infer<typeof GeneticMarkersSchema>;
+
+// How each GeneticMarkers field was derived from the user's genotypes
+export interface TraitDriver {
+  ruleId: string;
+  gene: string;
+  // Variant-level detail - dropped when the upload's privacyLevel is above "basic"
+  rsid?: string;
+  genotype?: string;
+  effectAlleleCount?: number;
+  value: string;
+  effect: "favorable" | "neutral" | "unfavorable";
+  evidence: {
+    key: string; // SCIENTIFIC_EVIDENCE.dna_variants entry
+    title: string;
+    recommendation: string;
+    urls: string[];
+  };
+}
+
+export interface TraitInterpretation {
+  trait: string; // e.g. "foodSensitivities.caffeine"
+  value: string;
+  status: "genotyped" | "not_genotyped";
+  drivers: TraitDriver[];
+  missingVariants: string[]; // rsids in the rule table absent from the file
+}
+
 export type PersonalizedRecommendations = z.infer<
   typeof PersonalizedRecommendationsSchema
 >;
@@ -325,23 +403,306 @@ export const DNAUploadSchema = z.object({
 });
 
 export type DNAUpload = z.infer<typeof DNAUploadSchema>;
+export type PrivacyLevel = DNAUpload["privacyLevel"];
+
+// Genetic data retention (GET /api/dna/retention-report)
+export type GeneticDataItem =
+  | "raw_upload"
+  | "genotype_table"
+  | "analysis_results"
+  | "processing_job";
+
+export interface RetentionPolicySummary {
+  privacyLevel: PrivacyLevel;
+  description: string;
+  keeps: string[];
+  rawGenotypeDays: number;
+  derivedDataDays: number;
+}
+
+export interface RetainedDataItem {
+  item: GeneticDataItem;
+  processingId: string;
+  description: string;
+  storedAt: string;
+  deleteAt: string;
+}
+
+export interface RetentionAuditEntry {
+  id: string;
+  processingId: string;
+  item: GeneticDataItem;
+  reason:
+    | "delete_after_processing"
+    | "privacy_level"
+    | "retention_expired"
+    | "replaced_by_new_upload"
+    | "replaced_by_genotype_table" // The raw upload, once parsed into a kept genotype table
+    | "processing_failed";
+  detail?: string;
+  deletedAt: string;
+}
+
+export interface RetentionReportResponse {
+  success: boolean;
+  policy?: RetentionPolicySummary;
+  items: RetainedDataItem[];
+  deletions: RetentionAuditEntry[];
+  message?: string;
+}
+
+// Raw genotype parsing report (returned with every DNA upload)
+export type GenotypeProvider =
+  | "23andme"
+  | "ancestrydna"
+  | "myheritage"
+  | "ftdna"
+  | "unknown";
+export type GenomeBuild = "GRCh37" | "GRCh38" | "unknown";
+
+export interface MalformedGenotypeLine {
+  lineNumber: number;
+  reason: string;
+  content: string;
+}
+
+export interface GenotypeParseReport {
+  provider: GenotypeProvider;
+  build: GenomeBuild;
+  buildSource: "header" | "positions" | "none";
+  totalLines: number;
+  commentLines: number;
+  variantCount: number;
+  calledCount: number;
+  noCallCount: number;
+  callRate: number; // 0-1
+  duplicateCount: number;
+  malformedCount: number;
+  malformedSamples: MalformedGenotypeLine[]; // First few malformed lines for debugging
+  bytesRead: number;
+}
+
+// DNA processing jobs (polled by the Upload page)
+export type DNAJobStatus =
+  | "queued"
+  | "parsing"
+  | "interpreting"
+  | "complete"
+  | "failed";
+
+export interface DNAJob {
+  processingId: string;
+  status: DNAJobStatus;
+  progress: number; // 0-100
+  fileName: string;
+  error?: { code: string; message: string };
+  parseReport?: GenotypeParseReport;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// Supplement safety check (POST /api/wellness/supplement-check)
+export const SupplementCheckRequestSchema = z.object({
+  supplements: z.array(z.string().trim().min(1).max(200)).min(1).max(40), // e.g. "Vitamin D3 5000 IU"
+  medications: z.array(z.string().trim().min(1).max(200)).max(40).default([]),
+  medicalConditions: z
+    .array(WellnessQuizSchema.shape.medicalConditions)
+    .default([]),
+  foodIntolerances: WellnessQuizSchema.shape.foodIntolerances.default([]),
+  dietaryPreference:
+    WellnessQuizSchema.shape.dietaryPreference.default("non-veg"),
+  supplementUsage: WellnessQuizSchema.shape.supplementUsage.default("none"),
+});
+
+export type SupplementCheckRequest = z.infer<
+  typeof SupplementCheckRequestSchema
+>;
+
+export type SupplementWarningType =
+  | "duplicate"
+  | "upper-limit"
+  | "medication"
+  | "condition"
+  | "intolerance"
+  | "diet"
+  | "unrecognized";
+
+export interface SupplementWarning {
+  supplement: string;
+  type: SupplementWarningType;
+  severity: "info" | "caution" | "avoid";
+  message: string;
+  alternative?: string; // A substitute that avoids the problem
+}
+
+export interface CheckedSupplement {
+  id?: string; // Knowledge-base id - absent when the name wasn't recognized
+  name: string;
+  listedAs: string[]; // Every entry that resolved to it
+  source: "listed" | "current"; // "current" comes from the quiz's supplementUsage answer
+  dose?: { amount: number; unit: string }; // Highest listed daily dose
+  upperLimit?: { amount: number; unit: string; basis: string };
+  alternative?: string; // Set when the diet or an intolerance rules it out
+}
+
+export interface SupplementCheckResponse {
+  success: boolean;
+  supplements: CheckedSupplement[];
+  warnings: SupplementWarning[];
+  message?: string;
+}
+
+// 7-day meal plan (GET /api/wellness/meal-plan/:analysisId)
+export type MealSlot = "breakfast" | "lunch" | "snack" | "dinner";
+
+export interface MacroTotals {
+  kcal: number;
+  proteinG: number;
+  carbsG: number;
+  fatG: number;
+}
+
+export interface MealPlanItem extends MacroTotals {
+  food: string;
+  portion: string; // "1 katori (150g) × 1.5"
+  servings: number;
+}
+
+export interface PlannedMeal {
+  slot: MealSlot;
+  time: string;
+  items: MealPlanItem[];
+  totals: MacroTotals;
+}
+
+export interface MealPlanDay {
+  day: string;
+  meals: PlannedMeal[];
+  totals: MacroTotals;
+  withinTolerance: boolean; // Every daily total within MEAL_PLAN_TOLERANCE of target
+}
+
+export interface GroceryListItem {
+  name: string;
+  aisle: string;
+  amount: number;
+  unit: "g" | "ml" | "pcs";
+}
+
+export interface MealPlan {
+  targets: MacroTotals;
+  days: MealPlanDay[];
+  groceryList: GroceryListItem[]; // Whole week, grouped by aisle
+}
+
+export interface MealPlanResponse {
+  success: boolean;
+  mealPlan?: MealPlan;
+  message?: string;
+}
 
 // Payment Types
+// UPI is collected through Razorpay's UPI payment links; mock is the offline gateway for development
+export const PAYMENT_GATEWAYS = [
+  "instamojo",
+  "razorpay",
+  "stripe",
+  "upi",
+  "mock",
+] as const;
+
+export type PaymentGatewayId = (typeof PAYMENT_GATEWAYS)[number];
+
 export const PaymentSchema = z.object({
   amount: z.number(),
   currency: z.string().default("INR"),
   planType: z.enum(["basic-99", "premium-199", "advanced-299"]),
-  paymentMethod: z.enum(["razorpay", "stripe", "upi"]),
+  paymentMethod: z.enum(PAYMENT_GATEWAYS),
   userEmail: z.string().email(),
 });
 
 export type Payment = z.infer<typeof PaymentSchema>;
 
+export interface PaymentGatewayOption {
+  id: PaymentGatewayId;
+  label: string;
+}
+
+export interface PaymentGatewaysResponse {
+  success: boolean;
+  gateways: PaymentGatewayOption[]; // Configured on this server
+  defaultGateway: PaymentGatewayId;
+}
+
+// Checkout Types
+export const CheckoutQuoteRequestSchema = z.object({
+  planId: z.string().min(1),
+  addOns: z.array(z.string()).max(20).default([]),
+  promoCode: z.string().trim().max(40).optional(),
+  email: z.string().email().optional(), // Lets per-buyer promotion rules be checked up front
+});
+
+export type CheckoutQuoteRequest = z.infer<typeof CheckoutQuoteRequestSchema>;
+
+// The server's price for an order - payment creation takes the quoteId, never an amount
+export interface CheckoutQuote extends CheckoutPrice {
+  quoteId: string;
+  expiresAt: string;
+}
+
+export interface CheckoutQuoteResponse {
+  success: boolean;
+  quote?: CheckoutQuote;
+  message?: string;
+}
+
+export interface CheckoutCompleteResponse {
+  success: boolean;
+  purchaseId?: string;
+  message?: string;
+}
+
+// Created by the server on first start - the checkout page offers it by name
+export const LAUNCH_OFFER_CODE = "LAUNCH45";
+
+export const PromotionCreateSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_-]{3,40}$/),
+    description: z.string().trim().max(200).default(""),
+    kind: z.enum(["percent", "flat"]),
+    value: z.number().positive(), // Percent off, or rupees off
+    appliesTo: z // Plan and add-on ids, empty for the whole order
+      .array(z.string().refine((id) => isPlanId(id) || isAddOnId(id)))
+      .default([]),
+    startsAt: z.string().datetime().optional(),
+    endsAt: z.string().datetime().optional(),
+    maxRedemptions: z.number().int().positive().optional(),
+    maxRedemptionsPerUser: z.number().int().positive().optional(),
+    firstPurchaseOnly: z.boolean().default(false),
+    active: z.boolean().default(true),
+  })
+  .refine((p) => p.kind !== "percent" || p.value <= 100, {
+    message: "A percentage discount can be at most 100",
+    path: ["value"],
+  })
+  .refine((p) => !p.startsAt || !p.endsAt || p.startsAt < p.endsAt, {
+    message: "endsAt must be after startsAt",
+    path: ["endsAt"],
+  });
+
+export type PromotionCreate = z.infer<typeof PromotionCreateSchema>;
+
 // API Response Interfaces
 export interface AuthResponse {
   success: boolean;
   user?: User;
-  token?: string;
+  token?: string; // Short-lived access token
+  refreshToken?: string;
+  expiresIn?: number; // Access token lifetime in seconds
   message?: string;
 }
 
@@ -375,12 +736,20 @@ export interface DNAProcessingResponse {
   message: string;
 }
 
+export interface DNAJobStatusResponse {
+  success: boolean;
+  job?: DNAJob;
+  message?: string;
+}
+
 export interface AnalysisResultResponse {
   success: boolean;
   geneticMarkers: GeneticMarkers;
   recommendations: PersonalizedRecommendations;
   reportUrl?: string;
   confidence: number;
+  genotypeSummary?: GenotypeParseReport;
+  traitInterpretations?: TraitInterpretation[];
 }
 
 export interface UserDashboardResponse {
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { ADDON_IDS, getTierPrice, PLAN_IDS, priceCheckout } from "./catalog";
+
+describe("priceCheckout", () => {
+  it("should price a plan and its add-ons with GST broken out", () => {
+    const { price } = priceCheckout(PLAN_IDS.PREMIUM, [
+      ADDON_IDS.DNA,
+      ADDON_IDS.DNA,
+    ]);
+
+    expect(price.lines.map((line) => line.amount)).toEqual([1499, 1499]);
+    expect(price.addOns).toEqual([ADDON_IDS.DNA]);
+    expect(price).toMatchObject({
+      subtotal: 2998,
+      discount: 0,
+      total: 2998,
+      taxableValue: 2540.68,
+      gst: 457.32,
+      currency: "INR",
+    });
+  });
+
+  it("should take discounts off in order without going below zero", () => {
+    const { price } = priceCheckout(
+      PLAN_IDS.ESSENTIAL,
+      [],
+      [
+        { code: "HALF", label: "Half off", amount: 299.5 },
+        { label: "Everything else", amount: 1000 },
+      ],
+    );
+
+    expect(price.discounts.map((d) => d.amount)).toEqual([299.5, 299.5]);
+    expect(price).toMatchObject({ discount: 599, total: 0, gst: 0 });
+  });
+
+  it("should refuse ids that aren't in the catalog", () => {
+    expect(priceCheckout("gold_blueprint").error).toBe("unknown_plan");
+    expect(priceCheckout(PLAN_IDS.PREMIUM, ["addon_yoga"]).error).toBe(
+      "unknown_add_on",
+    );
+    expect(priceCheckout("toString").error).toBe("unknown_plan");
+  });
+
+  it("should price report tiers from the same list", () => {
+    expect(getTierPrice("coaching")).toBe(9999);
+    expect(getTierPrice("platinum")).toBe(0);
+  });
+});
@@ -0,0 +1,168 @@
+// The price list for plans and add-ons, and the checkout arithmetic
+// The server prices every checkout from here; client/lib/products.ts only adds the marketing copy.
+// Prices are whole rupees and include GST, so the figure on the pricing page is what the buyer pays.
+
+export const PLAN_IDS = {
+  FREE: "free_blueprint",
+  ESSENTIAL: "essential_blueprint",
+  PREMIUM: "premium_blueprint",
+  COACHING: "coaching_blueprint",
+} as const;
+
+export const ADDON_IDS = {
+  DNA: "addon_dna",
+  SUPPLEMENT: "addon_supplement",
+  ATHLETE: "addon_athlete",
+  FAMILY: "addon_family",
+  WOMEN_HORMONE: "addon_women_hormone",
+  MEN_FITNESS: "addon_men_fitness",
+} as const;
+
+export type PlanId = (typeof PLAN_IDS)[keyof typeof PLAN_IDS];
+export type AddOnId = (typeof ADDON_IDS)[keyof typeof ADDON_IDS];
+export type PlanTier = "free" | "essential" | "premium" | "coaching";
+
+export interface CatalogItem {
+  name: string;
+  price: number; // Rupees, GST included
+}
+
+export interface CatalogPlan extends CatalogItem {
+  tier: PlanTier; // The report tier the PDF generator builds
+}
+
+export const PLAN_CATALOG: Record<PlanId, CatalogPlan> = {
+  [PLAN_IDS.FREE]: { name: "Free Blueprint", tier: "free", price: 0 },
+  [PLAN_IDS.ESSENTIAL]: {
+    name: "Essential Blueprint",
+    tier: "essential",
+    price: 599,
+  },
+  [PLAN_IDS.PREMIUM]: {
+    name: "Premium Blueprint",
+    tier: "premium",
+    price: 1499,
+  },
+  [PLAN_IDS.COACHING]: {
+    name: "Complete Coaching",
+    tier: "coaching",
+    price: 9999,
+  },
+};
+
+export const ADDON_CATALOG: Record<AddOnId, CatalogItem> = {
+  [ADDON_IDS.DNA]: { name: "DNA Analysis Add-on", price: 1499 },
+  [ADDON_IDS.SUPPLEMENT]: { name: "Advanced Supplement Stack", price: 2999 },
+  [ADDON_IDS.ATHLETE]: { name: "Athletic Performance Add-on", price: 1999 },
+  [ADDON_IDS.FAMILY]: { name: "Family Nutrition Plan", price: 3499 },
+  [ADDON_IDS.WOMEN_HORMONE]: {
+    name: "Women's Hormonal Health Add-on",
+    price: 1799,
+  },
+  [ADDON_IDS.MEN_FITNESS]: {
+    name: "Men's Fitness Optimization Add-on",
+    price: 1799,
+  },
+};
+
+// Digital services are taxed at 18% GST in India
+export const GST_RATE = 0.18;
+
+export const CURRENCY = "INR";
+
+export const isPlanId = (id: string): id is PlanId =>
+  Object.prototype.hasOwnProperty.call(PLAN_CATALOG, id);
+
+export const isAddOnId = (id: string): id is AddOnId =>
+  Object.prototype.hasOwnProperty.call(ADDON_CATALOG, id);
+
+/** The price of a report tier ("premium"), 0 for an unknown tier */
+export function getTierPrice(tier: string): number {
+  const plan = Object.values(PLAN_CATALOG).find((p) => p.tier === tier);
+  return plan ? plan.price : 0;
+}
+
+// ==========================================
+// CHECKOUT PRICING
+// ==========================================
+
+export interface PriceLine {
+  id: string; // Plan or add-on id
+  name: string;
+  amount: number;
+}
+
+// A reduction applied to the whole order, e.g. a promotion code
+export interface PriceDiscount {
+  code?: string;
+  label: string;
+  amount: number; // Rupees off, capped at what is left to pay
+}
+
+export interface CheckoutPrice {
+  planId: PlanId;
+  addOns: AddOnId[];
+  lines: PriceLine[];
+  subtotal: number;
+  discounts: PriceDiscount[];
+  discount: number; // Sum of the discounts
+  total: number; // What the buyer pays, GST included
+  taxableValue: number; // total less GST
+  gst: number;
+  gstRate: number;
+  currency: typeof CURRENCY;
+}
+
+export type CheckoutPricingError = "unknown_plan" | "unknown_add_on";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Prices a plan and its add-ons from the catalog. Unknown ids are refused rather than
+ * skipped, and repeated add-ons are charged once.
+ */
+export function priceCheckout(
+  planId: string,
+  addOnIds: string[] = [],
+  discounts: PriceDiscount[] = [],
+): { price?: CheckoutPrice; error?: CheckoutPricingError } {
+  if (!isPlanId(planId)) return { error: "unknown_plan" };
+  if (!addOnIds.every(isAddOnId)) return { error: "unknown_add_on" };
+
+  const addOns = Array.from(new Set(addOnIds as AddOnId[]));
+  const plan = PLAN_CATALOG[planId];
+  const lines: PriceLine[] = [
+    { id: planId, name: plan.name, amount: plan.price },
+    ...addOns.map((id) => ({
+      id,
+      name: ADDON_CATALOG[id].name,
+      amount: ADDON_CATALOG[id].price,
+    })),
+  ];
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  let remaining = subtotal;
+  const applied = discounts.map((discount) => {
+    const amount = round2(Math.min(Math.max(discount.amount, 0), remaining));
+    remaining = round2(remaining - amount);
+    return { ...discount, amount };
+  });
+
+  const total = remaining;
+  const taxableValue = round2(total / (1 + GST_RATE));
+  return {
+    price: {
+      planId,
+      addOns,
+      lines,
+      subtotal,
+      discounts: applied,
+      discount: round2(subtotal - total),
+      total,
+      taxableValue,
+      gst: round2(total - taxableValue),
+      gstRate: GST_RATE,
+      currency: CURRENCY,
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatWindow,
+  planSleepWake,
+  SleepWakeProfile,
+} from "./circadian-schedule";
+
+const dayWorker: SleepWakeProfile = {
+  age: 30,
+  wakeUpTime: "6-8",
+  sleepHours: "7-8",
+  workSchedule: "9-to-5",
+};
+
+describe("planSleepWake", () => {
+  it("should hang the day off the wake time and sleep need", () => {
+    const { schedule, nightShift, transitions } = planSleepWake(dayWorker);
+
+    expect(schedule).toMatchObject({
+      wakeTime: "7:00 AM",
+      bedtime: "10:45 PM",
+      dimLightFrom: "8:45 PM",
+      caffeineCutoff: "2:45 PM",
+      meals: [
+        { meal: "Breakfast", window: "7:30-8:30 AM" },
+        { meal: "Lunch", window: "12:30-1:30 PM" },
+        { meal: "Dinner", window: "6:45-7:45 PM" },
+      ],
+      fastingWindow: { start: "7:45 PM", end: "7:30 AM", hours: 12 },
+    });
+    expect(nightShift).toBeUndefined();
+    expect(transitions).toEqual([]);
+  });
+
+  it("should give teenagers more sleep", () => {
+    const { sleepNeedHours, schedule } = planSleepWake({
+      ...dayWorker,
+      age: 17,
+    });
+
+    expect(sleepNeedHours).toBe(9);
+    expect(schedule.bedtime).toBe("9:45 PM");
+  });
+
+  it("should stop evening types' caffeine and light earlier", () => {
+    const { schedule } = planSleepWake({ ...dayWorker, chronotype: "evening" });
+
+    expect(schedule.caffeineCutoff).toBe("12:45 PM");
+    expect(schedule.dimLightFrom).toBe("7:45 PM");
+  });
+
+  it("should plan fixed night shifts around sleep after the shift", () => {
+    const { schedule, transitions, notes } = planSleepWake({
+      ...dayWorker,
+      workSchedule: "shift-work",
+      shiftType: "night",
+    });
+
+    expect(schedule).toMatchObject({
+      label: "Night shift schedule",
+      bedtime: "7:00 AM",
+      wakeTime: "3:15 PM",
+      caffeineCutoff: "2:00 AM",
+    });
+    expect(schedule.meals.map((meal) => meal.window)).toEqual([
+      "3:45-4:45 PM",
+      "7:30-8:30 PM",
+      "12:00-1:00 AM",
+    ]);
+    expect(transitions.map((transition) => transition.label)).toEqual([
+      "Days off",
+    ]);
+    expect(notes.join(" ")).toContain("midnight and 6 AM");
+  });
+
+  it("should give rotating workers both schedules and switch-over plans", () => {
+    const plan = planSleepWake({ ...dayWorker, workSchedule: "shift-work" });
+
+    expect(plan.schedule.label).toBe("Day schedule");
+    expect(plan.nightShift.label).toBe("Night shift schedule");
+    expect(plan.transitions.map((transition) => transition.label)).toEqual([
+      "Going onto nights",
+      "Coming off nights",
+    ]);
+  });
+
+  it("should ease short sleepers towards the target bedtime", () => {
+    const { notes } = planSleepWake({ ...dayWorker, sleepHours: "5-6" });
+
+    expect(notes).toEqual([
+      "You sleep about 5.5 hours now. Keep your wake time fixed and move bedtime 15 minutes earlier every 3-4 nights until you reach 10:45 PM.",
+    ]);
+  });
+});
+
+describe("formatWindow", () => {
+  it("should only repeat AM/PM when the window crosses noon or midnight", () => {
+    expect(formatWindow(8 * 60, 9 * 60)).toBe("8:00-9:00 AM");
+    expect(formatWindow(11 * 60, 12 * 60)).toBe("11:00 AM-12:00 PM");
+    expect(formatWindow(22 * 60, 26 * 60)).toBe("10:00 PM-2:00 AM");
+  });
+});
@@ -0,0 +1,343 @@
+// Circadian schedule - plans bedtime, wake time, light exposure, caffeine cut-off, meal
+// windows and the overnight fast from the user's wake time, sleep need, work schedule and
+// chronotype. Shift workers get a schedule built around the shift, and rotating workers
+// a night-shift schedule plus plans for the days they switch over.
+// Pure and browser-safe: the engine, the blueprint and both PDF generators use it.
+
+import type { WellnessQuiz } from "./api";
+import {
+  answerOr,
+  Chronotype,
+  SHIFT_HOURS,
+  ShiftType,
+  SLEEP_HOURS,
+  WAKE_CHRONOTYPES,
+  WAKE_TIMES,
+} from "./quiz-answers";
+
+export type SleepWakeProfile = Pick<
+  WellnessQuiz,
+  "age" | "wakeUpTime" | "sleepHours" | "workSchedule" | "shiftType"
+> & {
+  chronotype?: Chronotype; // From a chronotype questionnaire; wake time stands in without one
+};
+
+export interface TimeWindow {
+  window: string; // "7:00-7:30 AM"
+  advice: string;
+}
+
+export interface ScheduledMeal {
+  meal: string;
+  window: string;
+}
+
+export interface DailySchedule {
+  label: string;
+  wakeTime: string; // "7:00 AM"
+  bedtime: string;
+  lightExposure: TimeWindow[];
+  dimLightFrom: string; // Screens down, lamps low
+  caffeineCutoff: string;
+  meals: ScheduledMeal[]; // Always three, in the order they're eaten
+  fastingWindow: { start: string; end: string; hours: number };
+}
+
+// What to do on a day the body clock has to move, e.g. the day before the first night shift
+export interface TransitionPlan {
+  label: string;
+  steps: string[];
+}
+
+export interface SleepWakePlan {
+  chronotype: Chronotype;
+  sleepNeedHours: number;
+  schedule: DailySchedule; // The one the user lives on most days
+  nightShift?: DailySchedule; // Rotating shift workers' night weeks
+  transitions: TransitionPlan[];
+  notes: string[];
+}
+
+const DAY = 24 * 60;
+const FALL_ASLEEP_MINUTES = 15;
+const NAP_MINUTES = 90; // One full sleep cycle, so you don't wake groggy
+
+// Caffeine's half-life is 5-6 hours; evening types metabolise it no faster but sleep later
+// relative to their clock, so they stop earlier
+const CAFFEINE_CUTOFF_HOURS: Record<Chronotype, number> = {
+  morning: 8,
+  intermediate: 8,
+  evening: 10,
+};
+
+// Evening types' melatonin onset is easily pushed later by light, so they dim earlier
+const DIM_LIGHT_HOURS: Record<Chronotype, number> = {
+  morning: 2,
+  intermediate: 2,
+  evening: 3,
+};
+
+// National Sleep Foundation ranges: 8-10 hours for teenagers, 7-9 for adults
+export function sleepNeedHours(age: number): number {
+  return age < 18 ? 9 : 8;
+}
+
+const wrap = (minutes: number) => ((minutes % DAY) + DAY) % DAY;
+
+// "7:00 AM", "12:30 PM"
+export function formatClock(minutes: number): string {
+  const time = wrap(minutes);
+  const hours = Math.floor(time / 60);
+  const mins = String(time % 60).padStart(2, "0");
+  return `${hours % 12 || 12}:${mins} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+// "8:00-9:00 AM", "11:00 AM-12:00 PM"
+export function formatWindow(start: number, end: number): string {
+  const from = formatClock(start);
+  const to = formatClock(end);
+  return from.slice(-2) === to.slice(-2)
+    ? `${from.slice(0, -3)}-${to}`
+    : `${from}-${to}`;
+}
+
+function fastBetween(lastMealEnd: number, firstMealStart: number) {
+  return {
+    start: formatClock(lastMealEnd),
+    end: formatClock(firstMealStart),
+    hours: Math.round((wrap(firstMealStart - lastMealEnd) / 60) * 2) / 2,
+  };
+}
+
+// Wake at a fixed time, sleep need plus time to fall asleep before it
+function daySchedule(
+  wake: number,
+  needMinutes: number,
+  chronotype: Chronotype,
+): DailySchedule {
+  const bed = wake - needMinutes - FALL_ASLEEP_MINUTES;
+  const breakfast = wake + 30;
+  const dinnerEnd = bed - 180; // Three hours to digest before lying down
+
+  const lightExposure: TimeWindow[] = [
+    {
+      window: formatWindow(wake, wake + 30),
+      advice:
+        "Outdoor daylight for 10-30 minutes, no sunglasses - sets your body clock for the day",
+    },
+  ];
+  if (chronotype === "morning") {
+    lightExposure.push({
+      window: formatWindow(bed - 330, bed - 240),
+      advice:
+        "Late-afternoon daylight keeps you from getting sleepy too early in the evening",
+    });
+  }
+
+  return {
+    label: "Day schedule",
+    wakeTime: formatClock(wake),
+    bedtime: formatClock(bed),
+    lightExposure,
+    dimLightFrom: formatClock(bed - DIM_LIGHT_HOURS[chronotype] * 60),
+    caffeineCutoff: formatClock(bed - CAFFEINE_CUTOFF_HOURS[chronotype] * 60),
+    meals: [
+      { meal: "Breakfast", window: formatWindow(breakfast, wake + 90) },
+      { meal: "Lunch", window: formatWindow(wake + 330, wake + 390) },
+      { meal: "Dinner", window: formatWindow(bed - 240, dinnerEnd) },
+    ],
+    fastingWindow: fastBetween(dinnerEnd, breakfast),
+  };
+}
+
+// Sleep straight after the shift in a dark room; light early in the shift, none on the way home
+function nightShiftSchedule(
+  start: number,
+  end: number,
+  needMinutes: number,
+): DailySchedule {
+  const bed = end + 60;
+  const wake = bed + needMinutes + FALL_ASLEEP_MINUTES;
+  const shiftMinutes = wrap(end - start);
+  const firstMeal = wake + 30;
+  const snackEnd = start + 180;
+
+  return {
+    label: "Night shift schedule",
+    wakeTime: formatClock(wake),
+    bedtime: formatClock(bed),
+    lightExposure: [
+      {
+        window: formatWindow(wake, wake + 30),
+        advice: "Daylight after waking, outdoors if it's still light",
+      },
+      {
+        window: formatWindow(start, start + shiftMinutes / 2),
+        advice: "Bright light at work - sit or stand near the brightest lights",
+      },
+      {
+        window: formatWindow(end, bed),
+        advice:
+          "Wear dark sunglasses on the way home, even when it's cloudy - morning light tells your body it's daytime",
+      },
+    ],
+    dimLightFrom: formatClock(end),
+    caffeineCutoff: formatClock(start + shiftMinutes / 2),
+    meals: [
+      { meal: "First meal", window: formatWindow(firstMeal, wake + 90) },
+      { meal: "Pre-shift meal", window: formatWindow(start - 150, start - 90) },
+      {
+        meal: "Light mid-shift snack",
+        window: formatWindow(start + 120, snackEnd),
+      },
+    ],
+    fastingWindow: fastBetween(snackEnd, firstMeal),
+  };
+}
+
+// Sleep late after the shift; the main meal moves into the break
+function eveningShiftSchedule(
+  start: number,
+  end: number,
+  needMinutes: number,
+  chronotype: Chronotype,
+): DailySchedule {
+  const bed = end + 120; // Time to wind down after work
+  const wake = bed + needMinutes + FALL_ASLEEP_MINUTES;
+  const breakfast = wake + 30;
+  const breakEnd = start + wrap(end - start) / 2 + 60;
+
+  return {
+    label: "Evening shift schedule",
+    wakeTime: formatClock(wake),
+    bedtime: formatClock(bed),
+    lightExposure: [
+      {
+        window: formatWindow(wake, wake + 30),
+        advice: "Outdoor daylight for 10-30 minutes, no sunglasses",
+      },
+    ],
+    dimLightFrom: formatClock(end),
+    caffeineCutoff: formatClock(bed - CAFFEINE_CUTOFF_HOURS[chronotype] * 60),
+    meals: [
+      { meal: "Breakfast", window: formatWindow(breakfast, wake + 90) },
+      { meal: "Lunch", window: formatWindow(start - 90, start - 30) },
+      {
+        meal: "Dinner (shift break)",
+        window: formatWindow(breakEnd - 60, breakEnd),
+      },
+    ],
+    fastingWindow: fastBetween(breakEnd, breakfast),
+  };
+}
+
+/**
+ * The user's daily sleep-wake schedule. Day workers keep their own wake time; shift
+ * workers sleep after their shift. Rotating workers get both schedules and transition
+ * plans for switching; fixed night workers get a days-off plan that stays close to nights.
+ */
+export function planSleepWake(profile: SleepWakeProfile): SleepWakePlan {
+  const wakeUpTime = answerOr(WAKE_TIMES, profile.wakeUpTime, "6-8");
+  const chronotype = profile.chronotype || WAKE_CHRONOTYPES[wakeUpTime];
+  const needHours = sleepNeedHours(profile.age);
+  const needMinutes = needHours * 60;
+  const shiftType =
+    profile.workSchedule === "shift-work"
+      ? answerOr<ShiftType>(SHIFT_HOURS, profile.shiftType, "rotating")
+      : undefined;
+
+  const wake = WAKE_TIMES[wakeUpTime];
+  const day = daySchedule(wake, needMinutes, chronotype);
+  const transitions: TransitionPlan[] = [];
+  const notes: string[] = [];
+  let schedule = day;
+  let nightShift: DailySchedule | undefined;
+
+  if (shiftType === "evening") {
+    const { start, end } = SHIFT_HOURS.evening;
+    schedule = eveningShiftSchedule(start, end, needMinutes, chronotype);
+    notes.push(
+      `Keep the same ${schedule.bedtime} bedtime on days off - a steady late schedule is healthier than switching back and forth.`,
+    );
+  } else if (shiftType) {
+    const { start, end } = SHIFT_HOURS[shiftType];
+    const nights = nightShiftSchedule(start, end, needMinutes);
+    const napStart = start - 360;
+
+    if (shiftType === "rotating") {
+      nightShift = nights;
+      transitions.push(
+        {
+          label: "Going onto nights",
+          steps: [
+            `The night before your first shift, go to bed around ${formatClock(wake - needMinutes - FALL_ASLEEP_MINUTES + 120)} and sleep in`,
+            `Nap for ${NAP_MINUTES} minutes, ${formatWindow(napStart, napStart + NAP_MINUTES)}, before the first shift`,
+            "Save your caffeine for the start of the shift",
+          ],
+        },
+        {
+          label: "Coming off nights",
+          steps: [
+            `After your last shift, sleep only about 4 hours (${formatWindow(end + 60, end + 300)})`,
+            "Get outdoors in the afternoon daylight",
+            `Go to bed at your usual ${day.bedtime} - you'll be tired enough to sleep through`,
+          ],
+        },
+      );
+    } else {
+      schedule = nights;
+      transitions.push({
+        label: "Days off",
+        steps: [
+          `Sleep about 4 hours earlier than on work days, ${formatWindow(end - 180, end - 180 + needMinutes)}, so you can see people in the evening without losing your night rhythm`,
+          "Keep the blackout curtains and sunglasses habits",
+        ],
+      });
+    }
+
+    notes.push(
+      "Avoid heavy meals between midnight and 6 AM - your gut handles food poorly at night, which raises blood sugar and triglycerides",
+      `If you can't sleep ${needHours} hours in one go after a night shift, split it: a main sleep plus a ${NAP_MINUTES}-minute nap before the shift`,
+    );
+    if (chronotype === "morning") {
+      notes.push(
+        "Morning types find night shifts hardest - protect the pre-shift nap and ask for earlier shifts where you can",
+      );
+    }
+  }
+
+  const sleptHours =
+    SLEEP_HOURS[answerOr(SLEEP_HOURS, profile.sleepHours, "7-8")];
+  if (sleptHours < needHours - 1) {
+    notes.push(
+      `You sleep about ${sleptHours} hours now. Keep your wake time fixed and move bedtime 15 minutes earlier every 3-4 nights until you reach ${schedule.bedtime}.`,
+    );
+  } else if (sleptHours > needHours) {
+    notes.push(
+      "Sleeping longer than you need can be a sign of poor-quality sleep - if you wake unrefreshed, ask your doctor about sleep apnoea and check iron and thyroid levels.",
+    );
+  }
+
+  return {
+    chronotype,
+    sleepNeedHours: needHours,
+    schedule,
+    nightShift,
+    transitions,
+    notes,
+  };
+}
+
+// One line per part of the schedule, for the PDFs
+export function formatSchedule(schedule: DailySchedule): string[] {
+  const { fastingWindow } = schedule;
+  return [
+    `Bedtime ${schedule.bedtime}, wake ${schedule.wakeTime}`,
+    ...schedule.lightExposure.map(
+      (light) => `Light ${light.window}: ${light.advice}`,
+    ),
+    `Last caffeine by ${schedule.caffeineCutoff}; dim the lights from ${schedule.dimLightFrom}`,
+    schedule.meals.map((meal) => `${meal.meal} ${meal.window}`).join(" | "),
+    `Fast ${fastingWindow.start}-${fastingWindow.end} (${fastingWindow.hours} hours)`,
+  ];
+}
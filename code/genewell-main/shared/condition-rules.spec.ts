@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyConditionMacroLimits,
+  findSupplementCaution,
+  getConditionGuidance,
+} from "./condition-rules";
+
+describe("condition rules", () => {
+  it("should only return guidance for known conditions", () => {
+    const guidance = getConditionGuidance([
+      "thyroid",
+      "prefer-not-to-say",
+      "blood-pressure",
+    ]);
+
+    expect(guidance.map((entry) => entry.condition)).toEqual([
+      "thyroid",
+      "blood-pressure",
+    ]);
+    expect(guidance[0]).not.toHaveProperty("maxCarbPercentage");
+  });
+
+  it("should cap carbs for diabetes and move the calories to fats", () => {
+    const macros = { protein: 100, carbs: 300, fats: 70 };
+
+    // 40% of 2400 kcal = 240g carbs; 60g freed = 240 kcal ≈ 27g fat
+    expect(applyConditionMacroLimits(macros, 2400, ["diabetes"])).toEqual({
+      protein: 100,
+      carbs: 240,
+      fats: 97,
+    });
+    expect(applyConditionMacroLimits(macros, 2400, ["thyroid"])).toBe(macros);
+    expect(
+      applyConditionMacroLimits({ ...macros, carbs: 200 }, 2400, ["pcos"]),
+    ).toEqual({ ...macros, carbs: 200 });
+  });
+
+  it("should flag supplements by whole word", () => {
+    const guidance = getConditionGuidance(["thyroid"]);
+
+    expect(
+      findSupplementCaution("Iron supplementation (if deficient)", guidance),
+    ).toMatch(/^Thyroid Disorder: Blocks thyroid medication absorption/);
+    expect(
+      findSupplementCaution(
+        "Magnesium (supports a calm environment)",
+        guidance,
+      ),
+    ).toBeUndefined();
+    expect(findSupplementCaution("Iron", [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,228 @@
+// Medical-condition rules - how a diagnosed condition changes macros, tests and supplements
+// Each rule cites a SCIENTIFIC_EVIDENCE.conditions entry (server/lib/scientific-evidence.ts)
+// by key; the server PDF resolves the key to its citations.
+
+import type { WellnessQuiz } from "./api";
+
+export type MedicalCondition = Exclude<
+  WellnessQuiz["medicalConditions"],
+  "none" | "prefer-not-to-say"
+>;
+
+export type ConditionEvidenceKey =
+  | "pcos"
+  | "thyroid_disease"
+  | "diabetes_prevention"
+  | "hypertension";
+
+export interface SupplementCaution {
+  supplement: string;
+  keywords: string[]; // Whole lower-case words matched against supplement names
+  caution: string;
+}
+
+export interface ConditionRule {
+  title: string;
+  evidenceKey: ConditionEvidenceKey;
+  maxCarbPercentage?: number; // Cap on carbs as a share of TDEE; the freed calories go to fats
+  nutritionGuidance: string[];
+  bloodTests: string[];
+  supplementCautions: SupplementCaution[];
+}
+
+// What the report shows for one of the user's conditions
+export interface ConditionGuidance {
+  condition: MedicalCondition;
+  title: string;
+  evidenceKey: ConditionEvidenceKey;
+  nutritionGuidance: string[];
+  bloodTests: string[];
+  supplementCautions: SupplementCaution[];
+}
+
+const HBA1C = "HbA1c (3-month average blood glucose)";
+const FASTING_INSULIN = "Fasting Insulin & HOMA-IR (insulin resistance)";
+const LIPID_PROFILE =
+  "Lipid Profile: Total Cholesterol, LDL, HDL, Triglycerides, VLDL";
+const TSH = "Thyroid Function Tests (TFT): TSH, Free T3, Free T4";
+
+const LOW_GI_GUIDANCE =
+  "Build meals on low-glycemic carbs: millets (jowar, bajra, ragi), whole dals, oats and vegetables over white rice, maida and sugar";
+const CARB_PAIRING_GUIDANCE =
+  "Pair every carb with protein, fibre or fat and eat vegetables first - it blunts the post-meal glucose spike";
+
+export const CONDITION_RULES: Record<MedicalCondition, ConditionRule> = {
+  pcos: {
+    title: "PCOS (Polycystic Ovary Syndrome)",
+    evidenceKey: "pcos",
+    maxCarbPercentage: 0.4, // Most women with PCOS are insulin resistant
+    nutritionGuidance: [
+      `Carbs are capped at 40% of your calories. ${LOW_GI_GUIDANCE}`,
+      CARB_PAIRING_GUIDANCE,
+      "Resistance training 2-3 times a week improves insulin sensitivity independent of weight loss",
+    ],
+    bloodTests: [
+      FASTING_INSULIN,
+      HBA1C,
+      LIPID_PROFILE,
+      TSH,
+      "Hormone Panel: Total Testosterone, LH, FSH, SHBG",
+    ],
+    supplementCautions: [
+      {
+        supplement: "Biotin",
+        keywords: ["biotin"],
+        caution:
+          "Often taken for PCOS hair loss, but it distorts hormone and thyroid immunoassays - stop 3 days before blood tests",
+      },
+    ],
+  },
+  thyroid: {
+    title: "Thyroid Disorder",
+    evidenceKey: "thyroid_disease",
+    nutritionGuidance: [
+      "Take thyroid medication on an empty stomach with water, 30-60 minutes before breakfast or tea/coffee",
+      "Keep iron, calcium and soy 4 hours away from your thyroid dose - they block its absorption",
+      "Use iodised salt in normal amounts; don't add kelp or iodine drops on top",
+    ],
+    bloodTests: [TSH, "Anti-TPO Antibodies (autoimmune thyroiditis)"],
+    supplementCautions: [
+      {
+        supplement: "Iodine / kelp",
+        keywords: ["iodine", "kelp"],
+        caution:
+          "Extra iodine can worsen autoimmune thyroid disease - only take it if your doctor prescribes it",
+      },
+      {
+        supplement: "Biotin",
+        keywords: ["biotin"],
+        caution:
+          "Falsely lowers TSH and raises T4 on lab tests - stop 3 days before thyroid labs",
+      },
+      {
+        supplement: "Iron",
+        keywords: ["iron"],
+        caution:
+          "Blocks thyroid medication absorption - take it at least 4 hours apart from your dose",
+      },
+      {
+        supplement: "Calcium",
+        keywords: ["calcium"],
+        caution:
+          "Blocks thyroid medication absorption - take it at least 4 hours apart from your dose",
+      },
+    ],
+  },
+  diabetes: {
+    title: "Diabetes / Prediabetes",
+    evidenceKey: "diabetes_prevention",
+    maxCarbPercentage: 0.4,
+    nutritionGuidance: [
+      `Carbs are capped at 40% of your calories. ${LOW_GI_GUIDANCE}`,
+      CARB_PAIRING_GUIDANCE,
+      "Aim for 25-30g fibre a day and a 10-15 minute walk after meals",
+      "Long-term metformin lowers vitamin B12 - check it yearly",
+    ],
+    bloodTests: [
+      HBA1C,
+      FASTING_INSULIN,
+      LIPID_PROFILE,
+      "Urine Albumin-Creatinine Ratio (kidney screening)",
+      "Vitamin B12 (if on metformin)",
+    ],
+    supplementCautions: [
+      {
+        supplement: "Berberine / chromium / cinnamon extract",
+        keywords: ["berberine", "chromium", "cinnamon"],
+        caution:
+          "Adds to glucose-lowering medication and can cause hypoglycaemia - check with your doctor first",
+      },
+    ],
+  },
+  "blood-pressure": {
+    title: "High Blood Pressure",
+    evidenceKey: "hypertension",
+    nutritionGuidance: [
+      "Keep sodium under 2,000mg a day (about 1 teaspoon of salt in total) - watch pickles, papad, namkeen and restaurant food",
+      "Eat potassium-rich foods daily: coconut water, banana, spinach, dals, curd - unless your doctor has restricted potassium",
+      "Follow the DASH pattern: vegetables, fruit, low-fat dairy and whole grains at most meals",
+    ],
+    bloodTests: [
+      "Kidney Function Tests (RFT): Creatinine, BUN, Electrolytes (Sodium, Potassium)",
+      LIPID_PROFILE,
+      HBA1C,
+    ],
+    supplementCautions: [
+      {
+        supplement: "Potassium",
+        keywords: ["potassium"],
+        caution:
+          "With ACE inhibitors, ARBs or potassium-sparing diuretics, supplements can push potassium dangerously high - get it from food unless prescribed",
+      },
+      {
+        supplement: "Licorice (mulethi)",
+        keywords: ["licorice", "mulethi"],
+        caution: "Raises blood pressure and lowers potassium - avoid",
+      },
+    ],
+  },
+};
+
+export function isMedicalCondition(value: string): value is MedicalCondition {
+  return Object.prototype.hasOwnProperty.call(CONDITION_RULES, value);
+}
+
+/**
+ * The rules for each known condition the user selected, in quiz order
+ */
+export function getConditionGuidance(
+  conditions: readonly string[],
+): ConditionGuidance[] {
+  return conditions.filter(isMedicalCondition).map((condition) => {
+    const { maxCarbPercentage, ...rule } = CONDITION_RULES[condition];
+    return { condition, ...rule };
+  });
+}
+
+/**
+ * Caps carbs at the strictest limit among the user's conditions and moves the
+ * freed calories to fats. Protein is left alone.
+ */
+export function applyConditionMacroLimits(
+  macros: { protein: number; carbs: number; fats: number },
+  tdee: number,
+  conditions: readonly string[],
+): { protein: number; carbs: number; fats: number } {
+  const limits = conditions
+    .filter(isMedicalCondition)
+    .map((condition) => CONDITION_RULES[condition].maxCarbPercentage)
+    .filter((limit) => limit !== undefined);
+  if (limits.length === 0) return macros;
+
+  const maxCarbs = Math.round((tdee * Math.min(...limits)) / 4);
+  if (macros.carbs <= maxCarbs) return macros;
+
+  const freedCalories = (macros.carbs - maxCarbs) * 4;
+  return {
+    protein: macros.protein,
+    carbs: maxCarbs,
+    fats: macros.fats + Math.round(freedCalories / 9),
+  };
+}
+
+/**
+ * The caution for a supplement, if any of the user's conditions flags it
+ */
+export function findSupplementCaution(
+  supplementName: string,
+  guidance: readonly ConditionGuidance[],
+): string | undefined {
+  // Whole words, so "iron" doesn't match "environment"
+  const words = supplementName.toLowerCase().split(/[^a-z0-9]+/);
+  const cautions = guidance.flatMap((entry) =>
+    entry.supplementCautions
+      .filter(({ keywords }) => keywords.some((word) => words.includes(word)))
+      .map(({ caution }) => `${entry.title}: ${caution}`),
+  );
+  return cautions.length > 0 ? cautions.join(" ") : undefined;
+}
@@ -0,0 +1,372 @@
+// Exercise library - every movement the training program can prescribe, with coaching cues
+// Each movement pattern has a version for no equipment, for home basics (dumbbells or
+// resistance bands) and for a gym, so a session can be done wherever the user trains.
+// training-program.ts picks from it.
+
+import type { ExerciseEquipment } from "./quiz-answers";
+
+export type MovementPattern =
+  | "squat"
+  | "hinge" // Deadlifts, bridges - hips back, back flat
+  | "lunge" // Single-leg work
+  | "push" // Horizontal press
+  | "overhead-press"
+  | "pull" // Rows
+  | "core"
+  | "cardio"
+  | "mobility"
+  | "dance"
+  | "sport";
+
+export interface Exercise {
+  name: string;
+  pattern: MovementPattern;
+  equipment: ExerciseEquipment; // The least it needs
+  unit: "reps" | "seconds" | "minutes";
+  highImpact?: boolean; // Jumping or running - swapped out from 50
+  cues: string[];
+}
+
+export const EXERCISE_LIBRARY: Exercise[] = [
+  // Squat
+  {
+    name: "Bodyweight squat",
+    pattern: "squat",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "Feet shoulder-width, toes slightly out",
+      "Sit back and down until thighs are parallel",
+      "Knees track over toes, heels stay down",
+    ],
+  },
+  {
+    name: "Goblet squat",
+    pattern: "squat",
+    equipment: "home-basics",
+    unit: "reps",
+    cues: [
+      "Hold one dumbbell upright against your chest",
+      "Elbows inside the knees at the bottom",
+      "Drive up through the whole foot",
+    ],
+  },
+  {
+    name: "Barbell back squat",
+    pattern: "squat",
+    equipment: "gym",
+    unit: "reps",
+    cues: [
+      "Bar on the upper back, not the neck",
+      "Brace your core before each rep",
+      "Break at hips and knees together, chest up",
+    ],
+  },
+
+  // Hinge
+  {
+    name: "Glute bridge",
+    pattern: "hinge",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "Lie on your back, feet flat near your hips",
+      "Push through the heels and squeeze the glutes at the top",
+      "Ribs down - don't arch the lower back",
+    ],
+  },
+  {
+    name: "Dumbbell Romanian deadlift",
+    pattern: "hinge",
+    equipment: "home-basics",
+    unit: "reps",
+    cues: [
+      "Soft knees, push the hips back",
+      "Dumbbells slide down the front of the thighs",
+      "Stop when you feel the hamstrings stretch, back flat",
+    ],
+  },
+  {
+    name: "Trap-bar deadlift",
+    pattern: "hinge",
+    equipment: "gym",
+    unit: "reps",
+    cues: [
+      "Stand in the centre of the bar, grip the handles",
+      "Chest up, brace, push the floor away",
+      "Lock out with the glutes, not by leaning back",
+    ],
+  },
+
+  // Lunge
+  {
+    name: "Reverse lunge",
+    pattern: "lunge",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "Step back and lower the back knee towards the floor",
+      "Front shin stays close to vertical",
+      "Push through the front heel to stand",
+    ],
+  },
+  {
+    name: "Dumbbell split squat",
+    pattern: "lunge",
+    equipment: "home-basics",
+    unit: "reps",
+    cues: [
+      "Long stance, dumbbells at your sides",
+      "Drop straight down, torso tall",
+      "All reps on one leg, then switch",
+    ],
+  },
+  {
+    name: "Leg press",
+    pattern: "lunge",
+    equipment: "gym",
+    unit: "reps",
+    cues: [
+      "Feet hip-width in the middle of the platform",
+      "Lower until the knees reach 90 degrees",
+      "Don't lock the knees at the top",
+    ],
+  },
+
+  // Push
+  {
+    name: "Push-up",
+    pattern: "push",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "Hands just wider than shoulders, body in one straight line",
+      "Elbows at about 45 degrees to the body",
+      "Too hard? Hands on a bench or wall. Too easy? Feet up",
+    ],
+  },
+  {
+    name: "Dumbbell floor press",
+    pattern: "push",
+    equipment: "home-basics",
+    unit: "reps",
+    cues: [
+      "Lie on the floor, knees bent, dumbbells over the chest",
+      "Lower until the upper arms touch the floor",
+      "Press up and slightly together",
+    ],
+  },
+  {
+    name: "Barbell bench press",
+    pattern: "push",
+    equipment: "gym",
+    unit: "reps",
+    cues: [
+      "Shoulder blades squeezed together, feet planted",
+      "Lower the bar to mid-chest under control",
+      "Use a spotter or safety arms when working hard",
+    ],
+  },
+
+  // Overhead press
+  {
+    name: "Pike push-up",
+    pattern: "overhead-press",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "Hips high, body in an upside-down V",
+      "Lower the head towards the floor between the hands",
+      "Press back up through the shoulders",
+    ],
+  },
+  {
+    name: "Dumbbell shoulder press",
+    pattern: "overhead-press",
+    equipment: "home-basics",
+    unit: "reps",
+    cues: [
+      "Dumbbells at shoulder height, palms forward",
+      "Squeeze glutes and brace so the back doesn't arch",
+      "Press straight up, biceps by the ears",
+    ],
+  },
+  {
+    name: "Machine shoulder press",
+    pattern: "overhead-press",
+    equipment: "gym",
+    unit: "reps",
+    cues: [
+      "Seat so the handles start at shoulder height",
+      "Back flat against the pad",
+      "Press up without locking the elbows hard",
+    ],
+  },
+
+  // Pull
+  {
+    name: "Backpack row",
+    pattern: "pull",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "Load a backpack with books, hinge forward with a flat back",
+      "Pull the bag to your lower ribs",
+      "Squeeze the shoulder blades together at the top",
+    ],
+  },
+  {
+    name: "Resistance band row",
+    pattern: "pull",
+    equipment: "home-basics",
+    unit: "reps",
+    cues: [
+      "Anchor the band at chest height in a door",
+      "Pull the elbows back past the body",
+      "Control the band on the way back",
+    ],
+  },
+  {
+    name: "Seated cable row",
+    pattern: "pull",
+    equipment: "gym",
+    unit: "reps",
+    cues: [
+      "Sit tall, slight bend in the knees",
+      "Pull the handle to the belly button",
+      "Don't rock the torso to move the weight",
+    ],
+  },
+
+  // Core
+  {
+    name: "Plank",
+    pattern: "core",
+    equipment: "none",
+    unit: "seconds",
+    cues: [
+      "Elbows under shoulders, body in one straight line",
+      "Squeeze glutes and pull the belly button in",
+      "Stop when the hips sag",
+    ],
+  },
+  {
+    name: "Band Pallof press",
+    pattern: "core",
+    equipment: "home-basics",
+    unit: "seconds",
+    cues: [
+      "Band anchored at chest height to your side",
+      "Press the band straight out and hold",
+      "Don't let it twist you - that's the exercise",
+    ],
+  },
+
+  // Cardio
+  {
+    name: "Brisk walk",
+    pattern: "cardio",
+    equipment: "none",
+    unit: "minutes",
+    cues: [
+      "Fast enough to breathe harder, slow enough to talk",
+      "Arms swing from the shoulders",
+    ],
+  },
+  {
+    name: "Jog",
+    pattern: "cardio",
+    equipment: "none",
+    unit: "minutes",
+    highImpact: true,
+    cues: [
+      "Short, quick steps landing under the hips",
+      "Walk breaks are fine - keep the effort steady",
+    ],
+  },
+  {
+    name: "Skipping rope",
+    pattern: "cardio",
+    equipment: "home-basics",
+    unit: "minutes",
+    highImpact: true,
+    cues: [
+      "Small hops on the balls of the feet",
+      "Turn the rope from the wrists, not the shoulders",
+    ],
+  },
+  {
+    name: "Step-ups",
+    pattern: "cardio",
+    equipment: "home-basics",
+    unit: "minutes",
+    cues: [
+      "Use a sturdy step or the bottom stair",
+      "Whole foot on the step, switch the lead leg every minute",
+    ],
+  },
+  {
+    name: "Stationary bike",
+    pattern: "cardio",
+    equipment: "gym",
+    unit: "minutes",
+    cues: [
+      "Seat at hip height, slight knee bend at the bottom",
+      "Raise resistance rather than spinning faster",
+    ],
+  },
+
+  // Mobility
+  {
+    name: "Surya namaskar",
+    pattern: "mobility",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "One breath per movement",
+      "Bend the knees in forward folds if the hamstrings are tight",
+    ],
+  },
+  {
+    name: "Cat-cow",
+    pattern: "mobility",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "Hands under shoulders, knees under hips",
+      "Round the back on the exhale, arch on the inhale",
+    ],
+  },
+  {
+    name: "World's greatest stretch",
+    pattern: "mobility",
+    equipment: "none",
+    unit: "reps",
+    cues: [
+      "Lunge forward, hand inside the front foot",
+      "Rotate the other arm to the ceiling and follow it with your eyes",
+    ],
+  },
+
+  // Dance and sport
+  {
+    name: "Dance workout (Zumba, Bollywood)",
+    pattern: "dance",
+    equipment: "none",
+    unit: "minutes",
+    cues: [
+      "Follow a class or video at a pace you can keep going",
+      "Go low-impact (one foot always down) if your knees complain",
+    ],
+  },
+  {
+    name: "Sport or game (badminton, football, cricket nets)",
+    pattern: "sport",
+    equipment: "none",
+    unit: "minutes",
+    cues: [
+      "Warm up for 5 minutes before playing",
+      "Keep some rallies or drills at full effort",
+    ],
+  },
+];
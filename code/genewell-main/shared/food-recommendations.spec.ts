@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { recommendFoods } from "./food-recommendations";
+import { INDIAN_FOODS } from "./indian-foods";
+
+const macros = { proteinGrams: 110, carbsGrams: 250, estimatedTDEE: 2200 };
+
+const names = (foods: string[]) =>
+  foods.map((food) => food.slice(0, food.indexOf(" - ")));
+const find = (name: string) => INDIAN_FOODS.find((food) => food.name === name);
+
+describe("recommendFoods", () => {
+  it("should only use foods the diet allows", () => {
+    const { bestFoods, worstFoods } = recommendFoods({
+      ...macros,
+      dietaryPreference: "jain",
+    });
+
+    [...names(bestFoods), ...names(worstFoods)].forEach((name) => {
+      expect(find(name).sources).not.toContain("root-vegetable");
+      expect(find(name).sources).not.toContain("egg");
+    });
+    expect(names(worstFoods)).not.toContain("Samosa");
+  });
+
+  it("should keep intolerances and digestive triggers out of the best foods", () => {
+    const { bestFoods, worstFoods } = recommendFoods({
+      ...macros,
+      dietaryPreference: "vegetarian",
+      foodIntolerances: ["lactose"],
+      digestiveIssues: ["gas"],
+    });
+
+    names(bestFoods).forEach((name) => {
+      expect(find(name).allergens).not.toContain("lactose");
+      expect(find(name).traits).not.toContain("gas-forming");
+    });
+    expect(worstFoods).toContain(
+      "Dal makhani - contains lactose, can worsen gas and bloating",
+    );
+  });
+
+  it("should limit high-GI foods when a condition caps carbs", () => {
+    const { bestFoods, worstFoods } = recommendFoods({
+      ...macros,
+      medicalConditions: ["diabetes"],
+    });
+
+    names(bestFoods).forEach((name) => {
+      expect(find(name).glycemicIndex).not.toBe("high");
+    });
+    expect(worstFoods).toContain(
+      "White rice - high glycaemic, spikes blood sugar, refined flour or grain",
+    );
+  });
+
+  it("should not repeat a reason a condition already gives", () => {
+    const { worstFoods } = recommendFoods({
+      ...macros,
+      medicalConditions: ["blood-pressure"],
+    });
+
+    expect(worstFoods).toContain("Achaar (pickle) - high in sodium");
+  });
+
+  it("should fall back to non-veg for unknown diets", () => {
+    expect(
+      recommendFoods({ ...macros, dietaryPreference: "omnivore" }),
+    ).toEqual(recommendFoods(macros));
+  });
+});
@@ -0,0 +1,229 @@
+// Food recommendations - picks the user's best and worst everyday foods from the Indian
+// food database, within their diet and intolerances, for their macros, gut and conditions.
+// Pure: the engine calls it and the blueprint shows the result.
+
+import {
+  CONDITION_RULES,
+  isMedicalCondition,
+  MedicalCondition,
+} from "./condition-rules";
+import {
+  FoodTrait,
+  GlycemicIndex,
+  INDIAN_FOODS,
+  IndianFood,
+} from "./indian-foods";
+import {
+  answerOr,
+  DIET_EXCLUDED_SOURCES,
+  DigestiveIssue,
+} from "./quiz-answers";
+
+export interface FoodProfile {
+  dietaryPreference?: string;
+  foodIntolerances?: readonly string[];
+  digestiveIssues?: readonly string[];
+  medicalConditions?: readonly string[];
+  proteinGrams: number;
+  carbsGrams: number;
+  estimatedTDEE: number;
+}
+
+export interface FoodRecommendations {
+  bestFoods: string[]; // "Moong dal - 1 katori (150g): 10.5g protein, 155 kcal"
+  worstFoods: string[]; // "Samosa - fried or oily, refined flour or grain"
+}
+
+interface FoodLimit {
+  matches: (food: IndianFood) => boolean;
+  reason: string;
+}
+
+const MAX_FOODS = 8;
+const MAX_PER_CATEGORY = 2;
+
+const GI_POINTS: Record<GlycemicIndex, number> = {
+  low: 1,
+  medium: 0,
+  high: -1,
+};
+
+const withTrait =
+  (...traits: FoodTrait[]): FoodLimit["matches"] =>
+  (food) =>
+    food.traits.some((trait) => traits.includes(trait));
+const HIGH_GI: FoodLimit["matches"] = (food) => food.glycemicIndex === "high";
+const SALTY = withTrait("salty");
+
+// Foods that make each digestive complaint worse
+const DIGESTIVE_LIMITS: Record<DigestiveIssue, FoodLimit> = {
+  acidity: {
+    matches: withTrait("spicy", "sour", "fried"),
+    reason: "can trigger acidity",
+  },
+  gas: {
+    matches: withTrait("gas-forming"),
+    reason: "can worsen gas and bloating",
+  },
+  "loose-motions": {
+    matches: withTrait("spicy", "fried", "gas-forming"),
+    reason: "hard on a loose stomach",
+  },
+  constipation: {
+    matches: withTrait("refined"),
+    reason: "little fibre, can worsen constipation",
+  },
+};
+
+// Foods each condition's nutrition guidance (condition-rules.ts) says to cut back on
+const CONDITION_LIMITS: Partial<Record<MedicalCondition, FoodLimit>> = {
+  diabetes: { matches: HIGH_GI, reason: "high glycaemic, spikes blood sugar" },
+  pcos: {
+    matches: HIGH_GI,
+    reason: "high glycaemic, worsens insulin resistance",
+  },
+  "blood-pressure": { matches: SALTY, reason: "high in sodium" },
+};
+
+// Worth limiting for everyone
+const GENERAL_LIMITS: FoodLimit[] = [
+  { matches: withTrait("fried"), reason: "fried or oily" },
+  { matches: withTrait("sugary"), reason: "added sugar" },
+  { matches: withTrait("refined"), reason: "refined flour or grain" },
+  { matches: SALTY, reason: "very salty" },
+];
+
+// Highest-ranked first, at most MAX_PER_CATEGORY of each kind so the list stays varied
+function pickVaried(ranked: IndianFood[]): IndianFood[] {
+  const perCategory = new Map<string, number>();
+  return ranked
+    .filter((food) => {
+      const count = perCategory.get(food.category) || 0;
+      perCategory.set(food.category, count + 1);
+      return count < MAX_PER_CATEGORY;
+    })
+    .slice(0, MAX_FOODS);
+}
+
+// The user's view of the database: what their diet allows, what bothers them and how well
+// each food fits their targets
+function assessFoods(profile: FoodProfile) {
+  const {
+    foodIntolerances = [],
+    digestiveIssues = [],
+    medicalConditions = [],
+  } = profile;
+  const excludedSources =
+    DIET_EXCLUDED_SOURCES[
+      answerOr(DIET_EXCLUDED_SOURCES, profile.dietaryPreference, "non-veg")
+    ];
+  const allowed = INDIAN_FOODS.filter(
+    (food) => !food.sources.some((source) => excludedSources.includes(source)),
+  );
+
+  const conditions = medicalConditions.filter(isMedicalCondition);
+  const personalLimits: FoodLimit[] = [
+    ...digestiveIssues
+      .filter((issue): issue is DigestiveIssue =>
+        Object.prototype.hasOwnProperty.call(DIGESTIVE_LIMITS, issue),
+      )
+      .map((issue) => DIGESTIVE_LIMITS[issue]),
+    ...conditions
+      .map((condition) => CONDITION_LIMITS[condition])
+      .filter(Boolean),
+  ];
+  const intolerancesIn = (food: IndianFood) =>
+    food.allergens.filter((allergen) => foodIntolerances.includes(allergen));
+
+  // Weights follow the user's targets and gut
+  const proteinShare = (profile.proteinGrams * 4) / profile.estimatedTDEE;
+  const carbShare = (profile.carbsGrams * 4) / profile.estimatedTDEE;
+  const proteinWeight = proteinShare >= 0.25 ? 1.5 : 1;
+  const carbsCapped =
+    conditions.some(
+      (condition) => CONDITION_RULES[condition].maxCarbPercentage,
+    ) || carbShare <= 0.4;
+  const glycemicWeight = carbsCapped ? 2 : 1;
+  const fiberWeight = digestiveIssues.includes("constipation")
+    ? 2
+    : digestiveIssues.includes("loose-motions")
+      ? 0.5
+      : 1;
+  const gentleBonus = digestiveIssues.includes("loose-motions") ? 2 : 0;
+
+  const score = (food: IndianFood) =>
+    ((food.proteinG * proteinWeight + food.fiberG * fiberWeight) * 100) /
+      food.kcal +
+    GI_POINTS[food.glycemicIndex] * glycemicWeight +
+    (food.traits.includes("gentle") ? gentleBonus : 0);
+
+  const suitable = allowed
+    .filter(
+      (food) =>
+        intolerancesIn(food).length === 0 &&
+        ![...personalLimits, ...GENERAL_LIMITS].some((limit) =>
+          limit.matches(food),
+        ),
+    )
+    .sort((a, b) => score(b) - score(a));
+
+  return { allowed, personalLimits, intolerancesIn, suitable };
+}
+
+/**
+ * Every food the user's diet allows that neither their intolerances, gut, conditions nor
+ * the general limits rule out, best first: by protein and fibre per calorie and glycaemic
+ * index, with the glycaemic index counting double when carbs are capped.
+ */
+export function rankSuitableFoods(profile: FoodProfile): IndianFood[] {
+  return assessFoods(profile).suitable;
+}
+
+/**
+ * The foods to build meals around and the ones to limit, from what the user's diet allows
+ */
+export function recommendFoods(profile: FoodProfile): FoodRecommendations {
+  const { allowed, personalLimits, intolerancesIn, suitable } =
+    assessFoods(profile);
+  const best = pickVaried(suitable);
+
+  // Reasons that are about this user outrank the ones that apply to everyone
+  const worst = allowed
+    .map((food) => {
+      const intolerances = intolerancesIn(food);
+      const personal = [
+        ...(intolerances.length > 0
+          ? [`contains ${intolerances.join(" and ")}`]
+          : []),
+        ...personalLimits
+          .filter((limit) => limit.matches(food))
+          .map((limit) => limit.reason),
+      ];
+      // Drop general reasons a personal one already covers ("high in sodium" and "very salty")
+      const general = GENERAL_LIMITS.filter(
+        (limit) =>
+          limit.matches(food) &&
+          !personalLimits.some(
+            (personal) => personal.matches === limit.matches,
+          ),
+      ).map((limit) => limit.reason);
+      return { food, personal, general, reasons: [...personal, ...general] };
+    })
+    .filter(({ reasons }) => reasons.length > 0)
+    .sort(
+      (a, b) =>
+        b.personal.length - a.personal.length ||
+        b.general.length - a.general.length,
+    );
+  const reasonsFor = new Map(worst.map(({ food, reasons }) => [food, reasons]));
+
+  return {
+    bestFoods: best.map(
+      (food) =>
+        `${food.name} - ${food.serving}: ${food.proteinG}g protein, ${food.kcal} kcal`,
+    ),
+    worstFoods: pickVaried(worst.map(({ food }) => food)).map(
+      (food) => `${food.name} - ${reasonsFor.get(food).join(", ")}`,
+    ),
+  };
+}
@@ -0,0 +1,61 @@
+// ==========================================
+// GST STATES AND GSTINS
+// ==========================================
+// A GSTIN starts with its holder's two-digit state code, which is also how a tax invoice names the
+// place of supply. Whether that matches the seller's state decides CGST + SGST or IGST.
+
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+// State code, PAN, entity number, "Z", check character
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isGstStateCode = (code: string): boolean =>
+  Object.prototype.hasOwnProperty.call(GST_STATES, code);
+
+/** Checks the format and state code, not that the GSTIN is registered */
+export const isGstin = (gstin: string): boolean =>
+  GSTIN_PATTERN.test(gstin) && isGstStateCode(gstin.slice(0, 2));
+
+export const gstinStateCode = (gstin: string): string => gstin.slice(0, 2);
+
+/** "Karnataka (29)" */
+export const formatGstState = (code: string): string =>
+  GST_STATES[code] ? `${GST_STATES[code]} (${code})` : code;
@@ -0,0 +1,1599 @@
+// Indian food database - everyday dishes with macros per household serving
+// Values are approximate, per serving as usually cooked at home (ICMR-NIN Indian Food
+// Composition Tables 2017 for raw ingredients, standard recipes for the dishes).
+// All the food knowledge lives here; food-recommendations.ts scores it and meal-planner.ts
+// builds plates from it.
+
+import type { FoodIntolerance, FoodSource } from "./quiz-answers";
+
+export type FoodCategory =
+  | "dal"
+  | "bread"
+  | "rice"
+  | "breakfast"
+  | "protein"
+  | "dairy"
+  | "vegetable"
+  | "fat"
+  | "fruit"
+  | "snack"
+  | "sweet"
+  | "drink";
+
+export type GlycemicIndex = "low" | "medium" | "high";
+
+// How a food sits with the gut and with long-term health
+export type FoodTrait =
+  | "fried" // Deep-fried or very oily
+  | "spicy"
+  | "sour" // Tamarind, pickles, vinegar - acidity triggers
+  | "gas-forming" // Whole pulses, rajma, chole
+  | "gentle" // Easy on an upset stomach
+  | "fermented"
+  | "refined" // Maida or polished grain with the fibre stripped out
+  | "sugary" // Added sugar
+  | "salty"; // Pickles, namkeen, papad
+
+// The part of a meal a food can play when the meal planner builds a plate
+export type MealRole =
+  | "breakfast" // A breakfast dish on its own
+  | "staple" // Roti or rice alongside a main
+  | "main" // Dal, curry or other protein centre of lunch and dinner
+  | "vegetable" // Sabzi or salad
+  | "side" // Curd, eggs, milk or fruit added to a meal
+  | "fat" // Ghee or oil, by the teaspoon
+  | "snack";
+
+export type GroceryAisle =
+  | "Dals & pulses"
+  | "Grains & flours"
+  | "Vegetables"
+  | "Fruit"
+  | "Dairy & eggs"
+  | "Meat & fish"
+  | "Nuts & snacks";
+
+export type Grocery =
+  | "almonds"
+  | "apple"
+  | "baingan"
+  | "bajra-atta"
+  | "banana"
+  | "besan"
+  | "bhindi"
+  | "brown-rice"
+  | "cabbage"
+  | "capsicum"
+  | "chana-dal"
+  | "chicken"
+  | "coconut"
+  | "cucumber"
+  | "curd"
+  | "daliya"
+  | "eggs"
+  | "fish"
+  | "ghee"
+  | "groundnut-oil"
+  | "french-beans"
+  | "guava"
+  | "idli-dosa-batter"
+  | "jowar-atta"
+  | "kabuli-chana"
+  | "kala-chana"
+  | "lauki"
+  | "makhana"
+  | "masoor-dal"
+  | "matki"
+  | "matta-rice"
+  | "methi"
+  | "milk"
+  | "mixed-vegetables"
+  | "moong-dal"
+  | "onion"
+  | "paneer"
+  | "papaya"
+  | "peanuts"
+  | "poha"
+  | "potato"
+  | "prawns"
+  | "ragi-atta"
+  | "rajma"
+  | "roasted-chana"
+  | "sattu"
+  | "soya-chunks"
+  | "spinach"
+  | "tinda"
+  | "tofu"
+  | "tomato"
+  | "toor-dal"
+  | "turai"
+  | "urad-dal"
+  | "wheat-atta"
+  | "whole-moong";
+
+export interface GroceryInfo {
+  name: string;
+  aisle: GroceryAisle;
+  unit: "g" | "ml" | "pcs";
+}
+
+export interface IndianFood {
+  name: string;
+  serving: string; // Household measure, e.g. "1 katori (150g)"
+  category: FoodCategory;
+  kcal: number;
+  proteinG: number;
+  carbsG: number;
+  fatG: number;
+  fiberG: number;
+  glycemicIndex: GlycemicIndex;
+  sources: FoodSource[]; // What a diet might rule out; empty means vegan
+  allergens: FoodIntolerance[];
+  traits: FoodTrait[];
+  region?: string; // Where the dish is an everyday staple; omitted means pan-Indian
+  mealRoles?: MealRole[]; // Omitted for foods the meal planner never serves
+  ingredients?: Partial<Record<Grocery, number>>; // Raw amount per serving, in GROCERIES units
+}
+
+// Spices and salt are left to the pantry; cooking fat is planned like any other food
+export const GROCERIES: Record<Grocery, GroceryInfo> = {
+  "moong-dal": {
+    name: "Moong dal (yellow)",
+    aisle: "Dals & pulses",
+    unit: "g",
+  },
+  "masoor-dal": { name: "Masoor dal", aisle: "Dals & pulses", unit: "g" },
+  "toor-dal": { name: "Toor dal", aisle: "Dals & pulses", unit: "g" },
+  "chana-dal": { name: "Chana dal", aisle: "Dals & pulses", unit: "g" },
+  "urad-dal": { name: "Whole urad", aisle: "Dals & pulses", unit: "g" },
+  "whole-moong": {
+    name: "Whole moong (for sprouting)",
+    aisle: "Dals & pulses",
+    unit: "g",
+  },
+  matki: { name: "Matki (moth beans)", aisle: "Dals & pulses", unit: "g" },
+  rajma: { name: "Rajma", aisle: "Dals & pulses", unit: "g" },
+  "kabuli-chana": { name: "Kabuli chana", aisle: "Dals & pulses", unit: "g" },
+  "kala-chana": { name: "Kala chana", aisle: "Dals & pulses", unit: "g" },
+  besan: { name: "Besan", aisle: "Dals & pulses", unit: "g" },
+  sattu: { name: "Sattu", aisle: "Dals & pulses", unit: "g" },
+  "soya-chunks": { name: "Soya chunks", aisle: "Dals & pulses", unit: "g" },
+  tofu: { name: "Tofu", aisle: "Dals & pulses", unit: "g" },
+  "wheat-atta": {
+    name: "Whole wheat atta",
+    aisle: "Grains & flours",
+    unit: "g",
+  },
+  "bajra-atta": { name: "Bajra atta", aisle: "Grains & flours", unit: "g" },
+  "jowar-atta": { name: "Jowar atta", aisle: "Grains & flours", unit: "g" },
+  "ragi-atta": { name: "Ragi atta", aisle: "Grains & flours", unit: "g" },
+  "brown-rice": { name: "Brown rice", aisle: "Grains & flours", unit: "g" },
+  "matta-rice": {
+    name: "Kerala matta rice",
+    aisle: "Grains & flours",
+    unit: "g",
+  },
+  "idli-dosa-batter": {
+    name: "Idli/dosa batter",
+    aisle: "Grains & flours",
+    unit: "g",
+  },
+  daliya: {
+    name: "Daliya (broken wheat)",
+    aisle: "Grains & flours",
+    unit: "g",
+  },
+  poha: { name: "Poha", aisle: "Grains & flours", unit: "g" },
+  spinach: { name: "Spinach (palak)", aisle: "Vegetables", unit: "g" },
+  methi: { name: "Methi leaves", aisle: "Vegetables", unit: "g" },
+  bhindi: { name: "Bhindi", aisle: "Vegetables", unit: "g" },
+  lauki: { name: "Lauki", aisle: "Vegetables", unit: "g" },
+  turai: { name: "Turai", aisle: "Vegetables", unit: "g" },
+  tinda: { name: "Tinda", aisle: "Vegetables", unit: "g" },
+  baingan: { name: "Baingan", aisle: "Vegetables", unit: "g" },
+  capsicum: { name: "Capsicum", aisle: "Vegetables", unit: "g" },
+  "french-beans": { name: "French beans", aisle: "Vegetables", unit: "g" },
+  cabbage: { name: "Cabbage", aisle: "Vegetables", unit: "g" },
+  "mixed-vegetables": {
+    name: "Mixed vegetables (carrot, peas, beans)",
+    aisle: "Vegetables",
+    unit: "g",
+  },
+  potato: { name: "Potato", aisle: "Vegetables", unit: "g" },
+  onion: { name: "Onion", aisle: "Vegetables", unit: "g" },
+  tomato: { name: "Tomato", aisle: "Vegetables", unit: "g" },
+  cucumber: { name: "Cucumber", aisle: "Vegetables", unit: "g" },
+  coconut: { name: "Fresh coconut", aisle: "Vegetables", unit: "g" },
+  guava: { name: "Guava", aisle: "Fruit", unit: "pcs" },
+  banana: { name: "Banana", aisle: "Fruit", unit: "pcs" },
+  apple: { name: "Apple", aisle: "Fruit", unit: "pcs" },
+  papaya: { name: "Papaya", aisle: "Fruit", unit: "g" },
+  paneer: { name: "Paneer", aisle: "Dairy & eggs", unit: "g" },
+  curd: { name: "Curd (dahi)", aisle: "Dairy & eggs", unit: "g" },
+  milk: { name: "Toned milk", aisle: "Dairy & eggs", unit: "ml" },
+  eggs: { name: "Eggs", aisle: "Dairy & eggs", unit: "pcs" },
+  ghee: { name: "Ghee", aisle: "Dairy & eggs", unit: "g" },
+  chicken: { name: "Chicken (boneless)", aisle: "Meat & fish", unit: "g" },
+  fish: { name: "Fish (rohu or pomfret)", aisle: "Meat & fish", unit: "g" },
+  prawns: { name: "Prawns", aisle: "Meat & fish", unit: "g" },
+  almonds: { name: "Almonds", aisle: "Nuts & snacks", unit: "g" },
+  peanuts: { name: "Peanuts", aisle: "Nuts & snacks", unit: "g" },
+  "roasted-chana": { name: "Roasted chana", aisle: "Nuts & snacks", unit: "g" },
+  makhana: { name: "Makhana", aisle: "Nuts & snacks", unit: "g" },
+  "groundnut-oil": {
+    name: "Cold-pressed groundnut oil",
+    aisle: "Nuts & snacks",
+    unit: "ml",
+  },
+};
+
+export const INDIAN_FOODS: IndianFood[] = [
+  // Dals and pulses
+  {
+    name: "Moong dal",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 155,
+    proteinG: 10.5,
+    carbsG: 24,
+    fatG: 2.5,
+    fiberG: 5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { "moong-dal": 40 },
+    traits: ["gentle"],
+  },
+  {
+    name: "Masoor dal",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 165,
+    proteinG: 11,
+    carbsG: 25,
+    fatG: 2.5,
+    fiberG: 6,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { "masoor-dal": 40 },
+    traits: [],
+  },
+  {
+    name: "Toor dal",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 170,
+    proteinG: 10,
+    carbsG: 27,
+    fatG: 3,
+    fiberG: 6,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { "toor-dal": 40 },
+    traits: [],
+  },
+  {
+    name: "Chana dal",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 185,
+    proteinG: 11,
+    carbsG: 28,
+    fatG: 3.5,
+    fiberG: 8,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { "chana-dal": 45 },
+    traits: ["gas-forming"],
+  },
+  {
+    name: "Sambar",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 130,
+    proteinG: 6,
+    carbsG: 18,
+    fatG: 4,
+    fiberG: 5,
+    glycemicIndex: "low",
+    sources: ["root-vegetable"],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { "toor-dal": 25, "mixed-vegetables": 60 },
+    traits: ["sour", "spicy"],
+    region: "South India",
+  },
+  {
+    name: "Rajma",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 210,
+    proteinG: 11,
+    carbsG: 30,
+    fatG: 5,
+    fiberG: 9,
+    glycemicIndex: "low",
+    sources: ["root-vegetable"],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { rajma: 50, onion: 30, tomato: 40 },
+    traits: ["gas-forming"],
+    region: "North India",
+  },
+  {
+    name: "Chole",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 240,
+    proteinG: 11,
+    carbsG: 32,
+    fatG: 8,
+    fiberG: 9,
+    glycemicIndex: "low",
+    sources: ["root-vegetable"],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { "kabuli-chana": 50, onion: 30, tomato: 40 },
+    traits: ["gas-forming", "spicy"],
+    region: "North India",
+  },
+  {
+    name: "Dal makhani",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 280,
+    proteinG: 11,
+    carbsG: 28,
+    fatG: 14,
+    fiberG: 7,
+    glycemicIndex: "medium",
+    sources: ["dairy", "root-vegetable"],
+    allergens: ["lactose"],
+    mealRoles: ["main"],
+    ingredients: { "urad-dal": 45, rajma: 10 },
+    traits: ["gas-forming"],
+    region: "Punjab",
+  },
+  {
+    name: "Sprouted moong salad",
+    serving: "1 bowl (150g)",
+    category: "dal",
+    kcal: 140,
+    proteinG: 10,
+    carbsG: 22,
+    fatG: 1,
+    fiberG: 6,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main", "snack"],
+    ingredients: { "whole-moong": 50, tomato: 30, cucumber: 30 },
+    traits: [],
+  },
+  {
+    name: "Kala chana",
+    serving: "1 katori boiled (100g)",
+    category: "dal",
+    kcal: 165,
+    proteinG: 9,
+    carbsG: 27,
+    fatG: 2.5,
+    fiberG: 8,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main", "snack"],
+    ingredients: { "kala-chana": 40 },
+    traits: ["gas-forming"],
+  },
+  {
+    name: "Dal palak",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 150,
+    proteinG: 9.5,
+    carbsG: 20,
+    fatG: 3.5,
+    fiberG: 6,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { "toor-dal": 35, spinach: 80 },
+    traits: [],
+  },
+  {
+    name: "Panchmel dal",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 175,
+    proteinG: 11,
+    carbsG: 27,
+    fatG: 3,
+    fiberG: 6.5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: {
+      "toor-dal": 10,
+      "chana-dal": 10,
+      "moong-dal": 10,
+      "masoor-dal": 10,
+      "urad-dal": 5,
+    },
+    traits: ["gas-forming"],
+    region: "Rajasthan",
+  },
+  {
+    name: "Matki usal",
+    serving: "1 katori (150g)",
+    category: "dal",
+    kcal: 170,
+    proteinG: 11,
+    carbsG: 26,
+    fatG: 3,
+    fiberG: 7,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { matki: 50, tomato: 30 },
+    traits: ["spicy"],
+    region: "Maharashtra",
+  },
+
+  // Rotis and breads
+  {
+    name: "Whole wheat roti",
+    serving: "1 medium (40g)",
+    category: "bread",
+    kcal: 105,
+    proteinG: 3.5,
+    carbsG: 20,
+    fatG: 0.5,
+    fiberG: 3,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: ["gluten"],
+    mealRoles: ["staple"],
+    ingredients: { "wheat-atta": 30 },
+    traits: [],
+  },
+  {
+    name: "Bajra roti",
+    serving: "1 medium (40g flour)",
+    category: "bread",
+    kcal: 145,
+    proteinG: 4.5,
+    carbsG: 27,
+    fatG: 2,
+    fiberG: 4.5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["staple"],
+    ingredients: { "bajra-atta": 40 },
+    traits: [],
+    region: "Rajasthan and Gujarat",
+  },
+  {
+    name: "Jowar bhakri",
+    serving: "1 medium (40g flour)",
+    category: "bread",
+    kcal: 140,
+    proteinG: 4,
+    carbsG: 29,
+    fatG: 0.7,
+    fiberG: 4,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["staple"],
+    ingredients: { "jowar-atta": 40 },
+    traits: [],
+    region: "Maharashtra and Karnataka",
+  },
+  {
+    name: "Ragi roti",
+    serving: "1 medium (35g flour)",
+    category: "bread",
+    kcal: 115,
+    proteinG: 2.5,
+    carbsG: 25,
+    fatG: 0.5,
+    fiberG: 4,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["staple"],
+    ingredients: { "ragi-atta": 35 },
+    traits: [],
+    region: "Karnataka",
+  },
+  {
+    name: "Aloo paratha",
+    serving: "1 medium (100g)",
+    category: "bread",
+    kcal: 260,
+    proteinG: 5,
+    carbsG: 35,
+    fatG: 11,
+    fiberG: 3,
+    glycemicIndex: "high",
+    sources: ["root-vegetable"],
+    allergens: ["gluten"],
+    traits: ["fried"],
+    region: "North India",
+  },
+  {
+    name: "Butter naan",
+    serving: "1 piece (90g)",
+    category: "bread",
+    kcal: 290,
+    proteinG: 8,
+    carbsG: 45,
+    fatG: 8,
+    fiberG: 2,
+    glycemicIndex: "high",
+    sources: ["dairy"],
+    allergens: ["gluten", "lactose"],
+    traits: ["refined"],
+  },
+  {
+    name: "Puri",
+    serving: "2 pieces (50g)",
+    category: "bread",
+    kcal: 200,
+    proteinG: 3,
+    carbsG: 22,
+    fatG: 11,
+    fiberG: 1.5,
+    glycemicIndex: "high",
+    sources: [],
+    allergens: ["gluten"],
+    traits: ["fried"],
+  },
+
+  // Rice
+  {
+    name: "White rice",
+    serving: "1 katori cooked (150g)",
+    category: "rice",
+    kcal: 195,
+    proteinG: 4,
+    carbsG: 43,
+    fatG: 0.4,
+    fiberG: 0.6,
+    glycemicIndex: "high",
+    sources: [],
+    allergens: [],
+    traits: ["refined", "gentle"],
+  },
+  {
+    name: "Brown rice",
+    serving: "1 katori cooked (150g)",
+    category: "rice",
+    kcal: 165,
+    proteinG: 3.8,
+    carbsG: 34,
+    fatG: 1.3,
+    fiberG: 2.7,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["staple"],
+    ingredients: { "brown-rice": 50 },
+    traits: [],
+  },
+  {
+    name: "Kerala matta rice",
+    serving: "1 katori cooked (150g)",
+    category: "rice",
+    kcal: 170,
+    proteinG: 4,
+    carbsG: 36,
+    fatG: 1,
+    fiberG: 3,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["staple"],
+    ingredients: { "matta-rice": 50 },
+    traits: [],
+    region: "Kerala",
+  },
+  {
+    name: "Moong dal khichdi",
+    serving: "1 bowl (200g)",
+    category: "rice",
+    kcal: 220,
+    proteinG: 8,
+    carbsG: 38,
+    fatG: 4,
+    fiberG: 4,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    traits: ["gentle"],
+  },
+  {
+    name: "Curd rice",
+    serving: "1 bowl (200g)",
+    category: "rice",
+    kcal: 230,
+    proteinG: 7,
+    carbsG: 35,
+    fatG: 6,
+    fiberG: 1,
+    glycemicIndex: "medium",
+    sources: ["dairy"],
+    allergens: ["lactose"],
+    traits: ["gentle", "fermented"],
+    region: "South India",
+  },
+  {
+    name: "Chicken biryani",
+    serving: "1 plate (250g)",
+    category: "rice",
+    kcal: 450,
+    proteinG: 22,
+    carbsG: 50,
+    fatG: 17,
+    fiberG: 2,
+    glycemicIndex: "high",
+    sources: ["meat", "dairy", "root-vegetable"],
+    allergens: ["lactose"],
+    traits: ["fried", "spicy"],
+    region: "Hyderabad",
+  },
+
+  // Breakfasts
+  {
+    name: "Idli with sambar",
+    serving: "2 idlis + 1 katori sambar",
+    category: "breakfast",
+    kcal: 270,
+    proteinG: 10.5,
+    carbsG: 46,
+    fatG: 4.5,
+    fiberG: 6.5,
+    glycemicIndex: "medium",
+    sources: ["root-vegetable"],
+    allergens: [],
+    mealRoles: ["breakfast"],
+    ingredients: {
+      "idli-dosa-batter": 120,
+      "toor-dal": 25,
+      "mixed-vegetables": 60,
+    },
+    traits: ["fermented", "sour"],
+    region: "South India",
+  },
+  {
+    name: "Plain dosa",
+    serving: "1 medium (80g)",
+    category: "breakfast",
+    kcal: 170,
+    proteinG: 4,
+    carbsG: 27,
+    fatG: 5,
+    fiberG: 1,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["breakfast"],
+    ingredients: { "idli-dosa-batter": 80 },
+    traits: ["fermented"],
+    region: "South India",
+  },
+  {
+    name: "Masala dosa",
+    serving: "1 medium (150g)",
+    category: "breakfast",
+    kcal: 330,
+    proteinG: 7,
+    carbsG: 45,
+    fatG: 14,
+    fiberG: 3,
+    glycemicIndex: "high",
+    sources: ["root-vegetable"],
+    allergens: [],
+    traits: ["fried", "fermented"],
+    region: "South India",
+  },
+  {
+    name: "Besan chilla",
+    serving: "2 medium (100g)",
+    category: "breakfast",
+    kcal: 200,
+    proteinG: 10,
+    carbsG: 22,
+    fatG: 8,
+    fiberG: 4,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["breakfast"],
+    ingredients: { besan: 50, tomato: 20 },
+    traits: [],
+  },
+  {
+    name: "Moong dal chilla",
+    serving: "2 medium (100g)",
+    category: "breakfast",
+    kcal: 190,
+    proteinG: 12,
+    carbsG: 24,
+    fatG: 5,
+    fiberG: 4,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["breakfast"],
+    ingredients: { "moong-dal": 50 },
+    traits: ["gentle"],
+  },
+  {
+    name: "Dhokla",
+    serving: "4 pieces (100g)",
+    category: "breakfast",
+    kcal: 160,
+    proteinG: 7,
+    carbsG: 22,
+    fatG: 5,
+    fiberG: 2,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["breakfast"],
+    ingredients: { besan: 45 },
+    traits: ["fermented"],
+    region: "Gujarat",
+  },
+  {
+    name: "Poha",
+    serving: "1 plate (150g)",
+    category: "breakfast",
+    kcal: 245,
+    proteinG: 5,
+    carbsG: 40,
+    fatG: 7,
+    fiberG: 2,
+    glycemicIndex: "medium",
+    sources: ["root-vegetable"],
+    allergens: ["nuts"],
+    mealRoles: ["breakfast"],
+    ingredients: { poha: 50, peanuts: 10, onion: 30 },
+    traits: [],
+    region: "Maharashtra and Madhya Pradesh",
+  },
+  {
+    name: "Rava upma",
+    serving: "1 plate (150g)",
+    category: "breakfast",
+    kcal: 230,
+    proteinG: 6,
+    carbsG: 34,
+    fatG: 7,
+    fiberG: 2,
+    glycemicIndex: "high",
+    sources: ["root-vegetable"],
+    allergens: ["gluten"],
+    traits: ["refined"],
+    region: "South India",
+  },
+  {
+    name: "Vegetable daliya",
+    serving: "1 bowl (200g)",
+    category: "breakfast",
+    kcal: 210,
+    proteinG: 7,
+    carbsG: 38,
+    fatG: 3.5,
+    fiberG: 6,
+    glycemicIndex: "low",
+    sources: ["root-vegetable"],
+    allergens: ["gluten"],
+    mealRoles: ["breakfast"],
+    ingredients: { daliya: 50, "mixed-vegetables": 50 },
+    traits: ["gentle"],
+  },
+  {
+    name: "Ragi dosa",
+    serving: "1 medium (80g)",
+    category: "breakfast",
+    kcal: 150,
+    proteinG: 4,
+    carbsG: 26,
+    fatG: 3.5,
+    fiberG: 3.5,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["breakfast"],
+    ingredients: { "ragi-atta": 35, "idli-dosa-batter": 30 },
+    traits: ["fermented"],
+    region: "Karnataka",
+  },
+
+  // Paneer, tofu, soya, eggs, meat and fish
+  {
+    name: "Paneer",
+    serving: "100g",
+    category: "protein",
+    kcal: 265,
+    proteinG: 18,
+    carbsG: 1.2,
+    fatG: 21,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: ["dairy"],
+    allergens: ["lactose"],
+    mealRoles: ["main"],
+    ingredients: { paneer: 100 },
+    traits: [],
+  },
+  {
+    name: "Tofu bhurji",
+    serving: "1 katori (150g)",
+    category: "protein",
+    kcal: 190,
+    proteinG: 17,
+    carbsG: 5,
+    fatG: 11,
+    fiberG: 1.5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { tofu: 120, tomato: 30 },
+    traits: [],
+  },
+  {
+    name: "Tofu tikka",
+    serving: "2 skewers (120g tofu)",
+    category: "protein",
+    kcal: 200,
+    proteinG: 18,
+    carbsG: 6,
+    fatG: 12,
+    fiberG: 1.5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { tofu: 120, capsicum: 50 },
+    traits: [],
+  },
+  {
+    name: "Soya chunks curry",
+    serving: "1 katori (30g dry chunks)",
+    category: "protein",
+    kcal: 150,
+    proteinG: 16,
+    carbsG: 12,
+    fatG: 4,
+    fiberG: 4,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { "soya-chunks": 30, tomato: 50 },
+    traits: [],
+  },
+  {
+    name: "Boiled eggs",
+    serving: "2 eggs (100g)",
+    category: "protein",
+    kcal: 155,
+    proteinG: 13,
+    carbsG: 1,
+    fatG: 11,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: ["egg"],
+    allergens: ["eggs"],
+    mealRoles: ["side"],
+    ingredients: { eggs: 2 },
+    traits: ["gentle"],
+  },
+  {
+    name: "Egg bhurji",
+    serving: "2 eggs",
+    category: "protein",
+    kcal: 200,
+    proteinG: 13,
+    carbsG: 3,
+    fatG: 15,
+    fiberG: 0.5,
+    glycemicIndex: "low",
+    sources: ["egg", "root-vegetable"],
+    allergens: ["eggs"],
+    mealRoles: ["main", "breakfast"],
+    ingredients: { eggs: 2, onion: 20, tomato: 20 },
+    traits: ["spicy"],
+  },
+  {
+    name: "Tandoori chicken",
+    serving: "2 pieces (150g)",
+    category: "protein",
+    kcal: 220,
+    proteinG: 32,
+    carbsG: 4,
+    fatG: 8,
+    fiberG: 0.5,
+    glycemicIndex: "low",
+    sources: ["meat", "dairy"],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { chicken: 180, curd: 20 },
+    traits: ["spicy"],
+    region: "Punjab",
+  },
+  {
+    name: "Home-style chicken curry",
+    serving: "1 katori (150g)",
+    category: "protein",
+    kcal: 240,
+    proteinG: 25,
+    carbsG: 6,
+    fatG: 13,
+    fiberG: 1,
+    glycemicIndex: "low",
+    sources: ["meat", "root-vegetable"],
+    allergens: [],
+    mealRoles: ["main"],
+    ingredients: { chicken: 120, onion: 40, tomato: 40 },
+    traits: ["spicy"],
+  },
+  {
+    name: "Mutton curry",
+    serving: "1 katori (150g)",
+    category: "protein",
+    kcal: 330,
+    proteinG: 24,
+    carbsG: 6,
+    fatG: 23,
+    fiberG: 1,
+    glycemicIndex: "low",
+    sources: ["meat", "root-vegetable"],
+    allergens: [],
+    traits: ["fried", "spicy"],
+  },
+  {
+    name: "Macher jhol (fish curry)",
+    serving: "1 katori (150g)",
+    category: "protein",
+    kcal: 190,
+    proteinG: 22,
+    carbsG: 5,
+    fatG: 9,
+    fiberG: 1,
+    glycemicIndex: "low",
+    sources: ["fish", "root-vegetable"],
+    allergens: ["seafood"],
+    mealRoles: ["main"],
+    ingredients: { fish: 130, potato: 40 },
+    traits: [],
+    region: "Bengal",
+  },
+  {
+    name: "Tawa fish",
+    serving: "1 fillet (120g)",
+    category: "protein",
+    kcal: 180,
+    proteinG: 24,
+    carbsG: 2,
+    fatG: 8,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: ["fish"],
+    allergens: ["seafood"],
+    mealRoles: ["main"],
+    ingredients: { fish: 130 },
+    traits: [],
+    region: "Coastal India",
+  },
+  {
+    name: "Prawn masala",
+    serving: "1 katori (150g)",
+    category: "protein",
+    kcal: 200,
+    proteinG: 24,
+    carbsG: 6,
+    fatG: 9,
+    fiberG: 1,
+    glycemicIndex: "low",
+    sources: ["fish", "root-vegetable"],
+    allergens: ["seafood"],
+    mealRoles: ["main"],
+    ingredients: { prawns: 130, onion: 30, tomato: 30 },
+    traits: ["spicy", "sour"],
+    region: "Goa and Kerala",
+  },
+
+  // Dairy
+  {
+    name: "Dahi (curd)",
+    serving: "1 katori (150g)",
+    category: "dairy",
+    kcal: 90,
+    proteinG: 5,
+    carbsG: 7,
+    fatG: 5,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: ["dairy"],
+    allergens: ["lactose"],
+    mealRoles: ["side"],
+    ingredients: { curd: 150 },
+    traits: ["fermented", "gentle"],
+  },
+  {
+    name: "Hung curd",
+    serving: "1 katori (100g)",
+    category: "dairy",
+    kcal: 100,
+    proteinG: 10,
+    carbsG: 4,
+    fatG: 5,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: ["dairy"],
+    allergens: ["lactose"],
+    mealRoles: ["side", "snack"],
+    ingredients: { curd: 200 },
+    traits: ["fermented"],
+  },
+  {
+    name: "Chaas (buttermilk)",
+    serving: "1 glass (250ml)",
+    category: "dairy",
+    kcal: 40,
+    proteinG: 2.5,
+    carbsG: 4.5,
+    fatG: 1.5,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: ["dairy"],
+    allergens: ["lactose"],
+    mealRoles: ["side", "snack"],
+    ingredients: { curd: 100 },
+    traits: ["fermented", "gentle"],
+  },
+  {
+    name: "Toned milk",
+    serving: "1 glass (200ml)",
+    category: "dairy",
+    kcal: 120,
+    proteinG: 6.5,
+    carbsG: 9.5,
+    fatG: 6,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: ["dairy"],
+    allergens: ["lactose"],
+    mealRoles: ["side"],
+    ingredients: { milk: 200 },
+    traits: [],
+  },
+
+  // Vegetables
+  {
+    name: "Palak sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 90,
+    proteinG: 4,
+    carbsG: 8,
+    fatG: 5,
+    fiberG: 4,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { spinach: 200 },
+    traits: [],
+  },
+  {
+    name: "Bhindi sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 120,
+    proteinG: 3,
+    carbsG: 12,
+    fatG: 7,
+    fiberG: 5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { bhindi: 150 },
+    traits: [],
+  },
+  {
+    name: "Lauki sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 60,
+    proteinG: 1.5,
+    carbsG: 8,
+    fatG: 3,
+    fiberG: 3,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { lauki: 180 },
+    traits: ["gentle"],
+  },
+  {
+    name: "Baingan bharta",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 110,
+    proteinG: 2.5,
+    carbsG: 12,
+    fatG: 6,
+    fiberG: 5,
+    glycemicIndex: "low",
+    sources: ["root-vegetable"],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { baingan: 200, onion: 30 },
+    traits: ["spicy"],
+    region: "North India",
+  },
+  {
+    name: "Avial",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 150,
+    proteinG: 3,
+    carbsG: 12,
+    fatG: 10,
+    fiberG: 4,
+    glycemicIndex: "low",
+    sources: ["dairy", "root-vegetable"],
+    allergens: ["lactose"],
+    mealRoles: ["vegetable"],
+    ingredients: { "mixed-vegetables": 150, coconut: 20, curd: 30 },
+    traits: [],
+    region: "Kerala",
+  },
+  {
+    name: "Aloo sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 170,
+    proteinG: 3,
+    carbsG: 24,
+    fatG: 7,
+    fiberG: 3,
+    glycemicIndex: "high",
+    sources: ["root-vegetable"],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { potato: 150 },
+    traits: [],
+  },
+  {
+    name: "Kachumber salad",
+    serving: "1 bowl (150g)",
+    category: "vegetable",
+    kcal: 40,
+    proteinG: 1.5,
+    carbsG: 8,
+    fatG: 0.2,
+    fiberG: 2.5,
+    glycemicIndex: "low",
+    sources: ["root-vegetable"],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { cucumber: 60, tomato: 50, onion: 30 },
+    traits: [],
+  },
+  {
+    name: "Methi sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 100,
+    proteinG: 4.5,
+    carbsG: 9,
+    fatG: 5.5,
+    fiberG: 5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { methi: 150 },
+    traits: [],
+  },
+  {
+    name: "Turai sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 70,
+    proteinG: 2,
+    carbsG: 9,
+    fatG: 3,
+    fiberG: 3,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { turai: 180 },
+    traits: ["gentle"],
+  },
+  {
+    name: "Tinda sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 70,
+    proteinG: 1.8,
+    carbsG: 8,
+    fatG: 3.5,
+    fiberG: 3,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { tinda: 180 },
+    traits: ["gentle"],
+    region: "North India",
+  },
+  {
+    name: "Shimla mirch sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 95,
+    proteinG: 2,
+    carbsG: 10,
+    fatG: 5.5,
+    fiberG: 3,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { capsicum: 180 },
+    traits: [],
+  },
+  {
+    name: "Beans poriyal",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 110,
+    proteinG: 3,
+    carbsG: 11,
+    fatG: 6,
+    fiberG: 5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { "french-beans": 150, coconut: 15 },
+    traits: [],
+    region: "South India",
+  },
+  {
+    name: "Cabbage sabzi",
+    serving: "1 katori (150g)",
+    category: "vegetable",
+    kcal: 90,
+    proteinG: 2.5,
+    carbsG: 10,
+    fatG: 4.5,
+    fiberG: 4,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["vegetable"],
+    ingredients: { cabbage: 180 },
+    traits: ["gas-forming"],
+  },
+
+  // Cooking fats
+  {
+    name: "Ghee",
+    serving: "1 tsp (5g)",
+    category: "fat",
+    kcal: 45,
+    proteinG: 0,
+    carbsG: 0,
+    fatG: 5,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: ["dairy"],
+    allergens: [],
+    mealRoles: ["fat"],
+    ingredients: { ghee: 5 },
+    traits: [],
+  },
+  {
+    name: "Groundnut oil",
+    serving: "1 tsp (5ml)",
+    category: "fat",
+    kcal: 45,
+    proteinG: 0,
+    carbsG: 0,
+    fatG: 5,
+    fiberG: 0,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: ["nuts"],
+    mealRoles: ["fat"],
+    ingredients: { "groundnut-oil": 5 },
+    traits: [],
+  },
+
+  // Fruits
+  {
+    name: "Guava",
+    serving: "1 medium (150g)",
+    category: "fruit",
+    kcal: 100,
+    proteinG: 4,
+    carbsG: 21,
+    fatG: 1.4,
+    fiberG: 8,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["snack", "side"],
+    ingredients: { guava: 1 },
+    traits: [],
+  },
+  {
+    name: "Papaya",
+    serving: "1 bowl (150g)",
+    category: "fruit",
+    kcal: 65,
+    proteinG: 0.7,
+    carbsG: 16,
+    fatG: 0.4,
+    fiberG: 2.5,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["snack", "side"],
+    ingredients: { papaya: 150 },
+    traits: ["gentle"],
+  },
+  {
+    name: "Banana",
+    serving: "1 medium (100g)",
+    category: "fruit",
+    kcal: 105,
+    proteinG: 1.3,
+    carbsG: 27,
+    fatG: 0.4,
+    fiberG: 2.6,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["snack", "side"],
+    ingredients: { banana: 1 },
+    traits: ["gentle"],
+  },
+  {
+    name: "Apple",
+    serving: "1 medium (150g)",
+    category: "fruit",
+    kcal: 80,
+    proteinG: 0.4,
+    carbsG: 21,
+    fatG: 0.3,
+    fiberG: 3.6,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["snack", "side"],
+    ingredients: { apple: 1 },
+    traits: [],
+  },
+
+  // Snacks
+  {
+    name: "Roasted chana",
+    serving: "1 handful (30g)",
+    category: "snack",
+    kcal: 110,
+    proteinG: 6,
+    carbsG: 17,
+    fatG: 1.6,
+    fiberG: 5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["snack"],
+    ingredients: { "roasted-chana": 30 },
+    traits: [],
+  },
+  {
+    name: "Almonds",
+    serving: "10 almonds (15g)",
+    category: "snack",
+    kcal: 90,
+    proteinG: 3,
+    carbsG: 3,
+    fatG: 8,
+    fiberG: 2,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: ["nuts"],
+    mealRoles: ["snack"],
+    ingredients: { almonds: 15 },
+    traits: [],
+  },
+  {
+    name: "Roasted peanuts",
+    serving: "1 handful (30g)",
+    category: "snack",
+    kcal: 170,
+    proteinG: 7.5,
+    carbsG: 5,
+    fatG: 14,
+    fiberG: 2.5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: ["nuts"],
+    mealRoles: ["snack"],
+    ingredients: { peanuts: 30 },
+    traits: [],
+  },
+  {
+    name: "Roasted makhana",
+    serving: "1 bowl (30g)",
+    category: "snack",
+    kcal: 105,
+    proteinG: 3,
+    carbsG: 23,
+    fatG: 0.3,
+    fiberG: 2,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: [],
+    mealRoles: ["snack"],
+    ingredients: { makhana: 30 },
+    traits: [],
+  },
+  {
+    name: "Sattu drink",
+    serving: "1 glass (40g sattu)",
+    category: "drink",
+    kcal: 165,
+    proteinG: 9,
+    carbsG: 26,
+    fatG: 2.5,
+    fiberG: 6,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    mealRoles: ["snack"],
+    ingredients: { sattu: 40 },
+    traits: [],
+    region: "Bihar",
+  },
+  {
+    name: "Samosa",
+    serving: "1 piece (100g)",
+    category: "snack",
+    kcal: 260,
+    proteinG: 4,
+    carbsG: 30,
+    fatG: 14,
+    fiberG: 2,
+    glycemicIndex: "high",
+    sources: ["root-vegetable"],
+    allergens: ["gluten"],
+    traits: ["fried", "refined", "spicy"],
+  },
+  {
+    name: "Pakoras",
+    serving: "4 pieces (80g)",
+    category: "snack",
+    kcal: 240,
+    proteinG: 6,
+    carbsG: 20,
+    fatG: 15,
+    fiberG: 3,
+    glycemicIndex: "medium",
+    sources: ["root-vegetable"],
+    allergens: [],
+    traits: ["fried"],
+  },
+  {
+    name: "Namkeen bhujia",
+    serving: "1 small bowl (30g)",
+    category: "snack",
+    kcal: 160,
+    proteinG: 4,
+    carbsG: 12,
+    fatG: 11,
+    fiberG: 2,
+    glycemicIndex: "medium",
+    sources: [],
+    allergens: ["nuts"],
+    traits: ["fried", "salty"],
+  },
+  {
+    name: "Achaar (pickle)",
+    serving: "1 tbsp (15g)",
+    category: "snack",
+    kcal: 30,
+    proteinG: 0.2,
+    carbsG: 1,
+    fatG: 3,
+    fiberG: 0.5,
+    glycemicIndex: "low",
+    sources: [],
+    allergens: [],
+    traits: ["salty", "sour", "spicy"],
+  },
+
+  // Sweets and drinks
+  {
+    name: "Gulab jamun",
+    serving: "2 pieces (80g)",
+    category: "sweet",
+    kcal: 300,
+    proteinG: 4,
+    carbsG: 45,
+    fatG: 12,
+    fiberG: 0.5,
+    glycemicIndex: "high",
+    sources: ["dairy"],
+    allergens: ["gluten", "lactose"],
+    traits: ["fried", "sugary", "refined"],
+  },
+  {
+    name: "Jalebi",
+    serving: "2 pieces (60g)",
+    category: "sweet",
+    kcal: 250,
+    proteinG: 1.5,
+    carbsG: 40,
+    fatG: 10,
+    fiberG: 0.3,
+    glycemicIndex: "high",
+    sources: [],
+    allergens: ["gluten"],
+    traits: ["fried", "sugary", "refined"],
+  },
+  {
+    name: "Masala chai with sugar",
+    serving: "1 cup (150ml)",
+    category: "drink",
+    kcal: 90,
+    proteinG: 2.5,
+    carbsG: 13,
+    fatG: 3,
+    fiberG: 0,
+    glycemicIndex: "medium",
+    sources: ["dairy"],
+    allergens: ["lactose"],
+    traits: ["sugary"],
+  },
+  {
+    name: "Packaged fruit juice",
+    serving: "1 glass (200ml)",
+    category: "drink",
+    kcal: 100,
+    proteinG: 0,
+    carbsG: 25,
+    fatG: 0,
+    fiberG: 0,
+    glycemicIndex: "high",
+    sources: [],
+    allergens: [],
+    traits: ["sugary"],
+  },
+];
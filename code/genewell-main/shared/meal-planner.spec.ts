@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import type { MealPlan, WellnessQuiz } from "./api";
+import { INDIAN_FOODS } from "./indian-foods";
+import {
+  formatGroceryAmount,
+  generateMealPlan,
+  MAX_DISH_REPEATS,
+} from "./meal-planner";
+import { analyzeQuizData } from "./personalization-engine";
+
+const planFor = (answers: Partial<WellnessQuiz>) =>
+  generateMealPlan(analyzeQuizData(answers as WellnessQuiz));
+
+const find = (name: string) => INDIAN_FOODS.find((food) => food.name === name);
+const servedFoods = (plan: MealPlan) =>
+  plan.days.flatMap((day) =>
+    day.meals.flatMap((meal) => meal.items.map((item) => find(item.food))),
+  );
+
+describe("generateMealPlan", () => {
+  it.each([
+    ["non-veg", {}],
+    [
+      "jain with gas and lactose intolerance",
+      {
+        dietaryPreference: "jain",
+        digestiveIssues: "gas",
+        foodIntolerances: ["lactose"],
+      },
+    ],
+    [
+      "gluten-free jain",
+      { dietaryPreference: "jain", foodIntolerances: ["gluten", "lactose"] },
+    ],
+    [
+      "vegan with diabetes",
+      {
+        dietaryPreference: "vegan",
+        medicalConditions: "diabetes",
+      },
+    ],
+    [
+      "muscle gain",
+      {
+        gender: "male",
+        activityLevel: "highly-active",
+        weightGoal: "gain-weight",
+      },
+    ],
+  ] as Array<[string, Partial<WellnessQuiz>]>)(
+    "should keep every day within tolerance for %s",
+    (_, answers) => {
+      const plan = planFor(answers);
+
+      expect(plan.days).toHaveLength(7);
+      expect(plan.days.filter((day) => !day.withinTolerance)).toEqual([]);
+      plan.days.forEach((day) => {
+        expect(day.meals.map((meal) => meal.slot)).toEqual([
+          "breakfast",
+          "lunch",
+          "snack",
+          "dinner",
+        ]);
+      });
+    },
+  );
+
+  it("should not serve a dish more than twice a week", () => {
+    const counts = new Map<string, number>();
+    servedFoods(planFor({}))
+      // Staples and cooking fats are everyday foods
+      .filter(
+        (food) =>
+          !food.mealRoles.includes("staple") && !food.mealRoles.includes("fat"),
+      )
+      .forEach((food) =>
+        counts.set(food.name, (counts.get(food.name) || 0) + 1),
+      );
+
+    counts.forEach((count) =>
+      expect(count).toBeLessThanOrEqual(MAX_DISH_REPEATS),
+    );
+  });
+
+  it("should respect diet and intolerances", () => {
+    servedFoods(
+      planFor({ dietaryPreference: "vegan", foodIntolerances: ["gluten"] }),
+    ).forEach((food) => {
+      expect(food.sources).not.toContain("dairy");
+      expect(food.sources).not.toContain("meat");
+      expect(food.allergens).not.toContain("gluten");
+    });
+  });
+
+  it("should total the week's ingredients into the grocery list", () => {
+    const plan = planFor({ dietaryPreference: "vegetarian" });
+    const aisles = plan.groceryList.map((item) => item.aisle);
+
+    expect(plan.groceryList.length).toBeGreaterThan(10);
+    plan.groceryList.forEach((item) => expect(item.amount).toBeGreaterThan(0));
+    // Grouped by aisle
+    expect(aisles).toEqual(
+      [...new Set(aisles)].flatMap((aisle) =>
+        aisles.filter((other) => other === aisle),
+      ),
+    );
+  });
+});
+
+describe("formatGroceryAmount", () => {
+  it("should switch to kg and litres from 1000", () => {
+    expect(formatGroceryAmount({ amount: 450, unit: "g" })).toBe("450 g");
+    expect(formatGroceryAmount({ amount: 1250, unit: "g" })).toBe("1.3 kg");
+    expect(formatGroceryAmount({ amount: 2000, unit: "ml" })).toBe("2 L");
+    expect(formatGroceryAmount({ amount: 14, unit: "pcs" })).toBe("14");
+  });
+});
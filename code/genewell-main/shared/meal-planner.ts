@@ -0,0 +1,374 @@
+// Meal planner - builds a 7-day Indian meal plan whose daily totals land on the user's
+// calorie and macro targets, plus the week's grocery list.
+// Pure and browser-safe: both PDF generators and the meal-plan endpoint call it.
+
+import type {
+  GroceryListItem,
+  MacroTotals,
+  MealPlan,
+  MealPlanDay,
+  MealSlot,
+  PlannedMeal,
+} from "./api";
+import { rankSuitableFoods } from "./food-recommendations";
+import { Grocery, GROCERIES, IndianFood, MealRole } from "./indian-foods";
+import type { PersonalizationData } from "./personalization-engine";
+
+export const WEEK_DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+// How far each daily total may miss its target, as a share of the target
+export const MEAL_PLAN_TOLERANCE: Record<keyof MacroTotals, number> = {
+  kcal: 0.1,
+  proteinG: 0.15,
+  carbsG: 0.2,
+  fatG: 0.25,
+};
+
+// A dish appears at most this often a week; staples (roti, rice) and cooking fats are exempt.
+// A day that can't reach its targets otherwise may go over it - targets come before variety.
+export const MAX_DISH_REPEATS = 2;
+const EVERYDAY_ROLES: MealRole[] = ["staple", "fat"];
+
+interface MealTemplate {
+  share: number; // Of the day's calories
+  components: Array<{ role: MealRole; optional?: boolean }>; // Optional ones may be dropped
+}
+
+const MEAL_TEMPLATES: Record<MealSlot, MealTemplate> = {
+  breakfast: {
+    share: 0.25,
+    components: [{ role: "breakfast" }, { role: "side", optional: true }],
+  },
+  lunch: {
+    share: 0.35,
+    components: [
+      { role: "staple" },
+      { role: "main" },
+      { role: "vegetable" },
+      { role: "fat", optional: true },
+      { role: "side", optional: true },
+    ],
+  },
+  snack: { share: 0.1, components: [{ role: "snack" }] },
+  dinner: {
+    share: 0.3,
+    components: [
+      { role: "staple" },
+      { role: "main" },
+      { role: "vegetable" },
+      { role: "fat", optional: true },
+    ],
+  },
+};
+
+const SLOTS: MealSlot[] = ["breakfast", "lunch", "snack", "dinner"];
+
+// Relative cost of missing each daily target, and of a meal drifting from its share
+const TARGET_WEIGHTS: Record<keyof MacroTotals, number> = {
+  kcal: 4,
+  proteinG: 2,
+  carbsG: 1,
+  fatG: 1,
+};
+const MEAL_SHARE_WEIGHT = 0.5;
+
+// Alternatives tried for each dish when fitting a day
+const SWAP_CANDIDATES = 6;
+
+interface MealPick {
+  slot: MealSlot;
+  role: MealRole;
+  optional: boolean;
+  food: IndianFood;
+}
+
+interface Portion {
+  food: IndianFood;
+  slot: MealSlot;
+  servings: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+function portionFor({ food, slot, optional }: MealPick): Portion {
+  // Rotis come whole and fats by the teaspoon; everything else in half servings
+  const whole = food.category === "bread" || food.category === "fat";
+  const step = whole ? 1 : 0.5;
+  return {
+    food,
+    slot,
+    servings: 1,
+    min: optional ? 0 : step,
+    max: whole ? 3 : 2.5,
+    step,
+  };
+}
+
+function macrosOf(
+  portions: Array<Pick<Portion, "food" | "servings">>,
+): MacroTotals {
+  return portions.reduce(
+    (totals, { food, servings }) => ({
+      kcal: totals.kcal + food.kcal * servings,
+      proteinG: totals.proteinG + food.proteinG * servings,
+      carbsG: totals.carbsG + food.carbsG * servings,
+      fatG: totals.fatG + food.fatG * servings,
+    }),
+    { kcal: 0, proteinG: 0, carbsG: 0, fatG: 0 },
+  );
+}
+
+function roundMacros(totals: MacroTotals): MacroTotals {
+  return {
+    kcal: Math.round(totals.kcal),
+    proteinG: Math.round(totals.proteinG),
+    carbsG: Math.round(totals.carbsG),
+    fatG: Math.round(totals.fatG),
+  };
+}
+
+const relativeMiss = (actual: number, target: number) =>
+  (actual - target) / target;
+
+function planError(portions: Portion[], targets: MacroTotals): number {
+  const totals = macrosOf(portions);
+  const targetError = (
+    Object.keys(TARGET_WEIGHTS) as Array<keyof MacroTotals>
+  ).reduce(
+    (error, key) =>
+      error +
+      TARGET_WEIGHTS[key] * relativeMiss(totals[key], targets[key]) ** 2,
+    0,
+  );
+  const shareError = SLOTS.reduce((error, slot) => {
+    const expected = MEAL_TEMPLATES[slot].share * targets.kcal;
+    const actual = macrosOf(portions.filter((p) => p.slot === slot)).kcal;
+    return error + MEAL_SHARE_WEIGHT * relativeMiss(actual, expected) ** 2;
+  }, 0);
+  return targetError + shareError;
+}
+
+// Coordinate descent over whole steps: nudge one portion at a time while it helps
+function solvePortions(portions: Portion[], targets: MacroTotals): void {
+  let error = planError(portions, targets);
+  let improved = true;
+  for (let pass = 0; improved && pass < 200; pass++) {
+    improved = false;
+    portions.forEach((portion) => {
+      [portion.step, -portion.step].forEach((delta) => {
+        const servings = portion.servings + delta;
+        if (servings < portion.min || servings > portion.max) return;
+        portion.servings = servings;
+        const next = planError(portions, targets);
+        if (next < error - 1e-9) {
+          error = next;
+          improved = true;
+        } else {
+          portion.servings -= delta;
+        }
+      });
+    });
+  }
+}
+
+function solveDay(picks: MealPick[], targets: MacroTotals) {
+  const portions = picks.map(portionFor);
+  solvePortions(portions, targets);
+  return { portions, error: planError(portions, targets) };
+}
+
+/**
+ * The daily targets the plan aims for: the profile's macros, with calories kept inside
+ * the recommended range
+ */
+export function mealPlanTargets({
+  profile,
+  insights,
+}: PersonalizationData): MacroTotals {
+  const kcal =
+    profile.proteinGrams * 4 + profile.carbsGrams * 4 + profile.fatsGrams * 9;
+  return {
+    kcal: Math.round(
+      Math.min(
+        Math.max(kcal, insights.calorieRange.min),
+        insights.calorieRange.max,
+      ),
+    ),
+    proteinG: profile.proteinGrams,
+    carbsG: profile.carbsGrams,
+    fatG: profile.fatsGrams,
+  };
+}
+
+export function isWithinTolerance(
+  totals: MacroTotals,
+  targets: MacroTotals,
+): boolean {
+  return (Object.keys(MEAL_PLAN_TOLERANCE) as Array<keyof MacroTotals>).every(
+    (key) =>
+      Math.abs(relativeMiss(totals[key], targets[key])) <=
+      MEAL_PLAN_TOLERANCE[key],
+  );
+}
+
+/**
+ * A 7-day plan from foods that suit the user's diet, intolerances, gut and conditions.
+ * Each day takes the best-ranked dishes that haven't yet appeared MAX_DISH_REPEATS times
+ * this week, swaps in alternatives that fit its targets better and solves the portions.
+ */
+export function generateMealPlan(data: PersonalizationData): MealPlan {
+  const { profile, insights } = data;
+  const targets = mealPlanTargets(data);
+  const ranked = rankSuitableFoods(profile);
+  const mealTimes: Record<MealSlot, string> = {
+    breakfast: insights.recommendedMealTimes[0],
+    lunch: insights.recommendedMealTimes[1],
+    snack: "Mid-afternoon",
+    dinner: insights.recommendedMealTimes[2],
+  };
+
+  const weekUses = new Map<IndianFood, number>();
+  const uses = (food: IndianFood) => weekUses.get(food) || 0;
+  const underCap = (food: IndianFood) => uses(food) < MAX_DISH_REPEATS;
+  const leastUsed = (foods: IndianFood[]) =>
+    foods.reduce<IndianFood | undefined>(
+      (best, food) => (!best || uses(food) < uses(best) ? food : best),
+      undefined,
+    );
+  // Foods for a role that aren't already on the day's menu
+  const candidatesFor = (role: MealRole, picks: MealPick[]) =>
+    ranked.filter(
+      (food) =>
+        food.mealRoles?.includes(role) &&
+        !picks.some((pick) => pick.food === food),
+    );
+  const groceryTotals = new Map<Grocery, number>();
+
+  const days = WEEK_DAYS.map((day): MealPlanDay => {
+    // One dish per template component: everyday foods rotate for variety, the rest go
+    // best-ranked first until they hit the weekly cap
+    const picks: MealPick[] = [];
+    SLOTS.forEach((slot) => {
+      MEAL_TEMPLATES[slot].components.forEach(({ role, optional }) => {
+        const candidates = candidatesFor(role, picks);
+        const food = EVERYDAY_ROLES.includes(role)
+          ? leastUsed(candidates)
+          : candidates.find(underCap) || leastUsed(candidates);
+        if (food) picks.push({ slot, role, optional: Boolean(optional), food });
+      });
+    });
+
+    // Then swap in whichever alternative brings the day closest to its targets
+    let best = solveDay(picks, targets);
+    const swapDishes = (eligible: (food: IndianFood) => boolean) =>
+      picks
+        .filter((pick) => !EVERYDAY_ROLES.includes(pick.role))
+        .forEach((pick) => {
+          let bestFood = pick.food;
+          candidatesFor(pick.role, picks)
+            .filter(eligible)
+            .slice(0, SWAP_CANDIDATES)
+            .forEach((food) => {
+              pick.food = food;
+              const trial = solveDay(picks, targets);
+              if (trial.error < best.error) {
+                best = trial;
+                bestFood = food;
+              }
+            });
+          pick.food = bestFood;
+        });
+    swapDishes(underCap);
+    // Late in the week the cap can leave too few dishes that fit - allow repeats then
+    if (!isWithinTolerance(macrosOf(best.portions), targets)) {
+      swapDishes(() => true);
+    }
+
+    const served = best.portions.filter((portion) => portion.servings > 0);
+    served.forEach(({ food }) => weekUses.set(food, uses(food) + 1));
+
+    served.forEach(({ food, servings }) => {
+      Object.entries(food.ingredients || {}).forEach(([grocery, amount]) => {
+        const key = grocery as Grocery;
+        groceryTotals.set(
+          key,
+          (groceryTotals.get(key) || 0) + amount * servings,
+        );
+      });
+    });
+
+    const totals = roundMacros(macrosOf(served));
+    return {
+      day,
+      meals: SLOTS.map((slot) => {
+        const inMeal = served.filter((portion) => portion.slot === slot);
+        return {
+          slot,
+          time: mealTimes[slot],
+          items: inMeal.map(({ food, servings }) => ({
+            food: food.name,
+            portion:
+              servings === 1 ? food.serving : `${food.serving} × ${servings}`,
+            servings,
+            ...roundMacros(macrosOf([{ food, servings }])),
+          })),
+          totals: roundMacros(macrosOf(inMeal)),
+        };
+      }),
+      totals,
+      withinTolerance: isWithinTolerance(totals, targets),
+    };
+  });
+
+  // Whole week, in GROCERIES order (grouped by aisle), rounded up to what a shop sells
+  const groceryList = (Object.keys(GROCERIES) as Grocery[])
+    .filter((grocery) => groceryTotals.has(grocery))
+    .map((grocery): GroceryListItem => {
+      const { name, aisle, unit } = GROCERIES[grocery];
+      const amount = groceryTotals.get(grocery);
+      return {
+        name,
+        aisle,
+        unit,
+        amount:
+          unit === "pcs" ? Math.ceil(amount) : Math.ceil(amount / 50) * 50,
+      };
+    });
+
+  return { targets, days, groceryList };
+}
+
+// "1.2 kg", "450 g", "1.4 L", "14"
+export function formatGroceryAmount({
+  amount,
+  unit,
+}: Pick<GroceryListItem, "amount" | "unit">): string {
+  if (unit === "pcs") return `${amount}`;
+  const large = unit === "g" ? "kg" : "L";
+  return amount >= 1000
+    ? `${parseFloat((amount / 1000).toFixed(1))} ${large}`
+    : `${amount} ${unit}`;
+}
+
+const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  snack: "Snack",
+  dinner: "Dinner",
+};
+
+// "Lunch (1:00-2:00 PM): Bajra roti 1 medium (40g flour) + Toor dal 1 katori (150g) × 1.5"
+export function formatMeal({ slot, time, items }: PlannedMeal): string {
+  return `${MEAL_SLOT_LABELS[slot]} (${time}): ${items
+    .map((item) => `${item.food} ${item.portion}`)
+    .join(" + ")}`;
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import type { WellnessQuiz } from "./api";
+import { analyzeQuizData } from "./personalization-engine";
+
+const baseQuiz: WellnessQuiz = {
+  age: 30,
+  gender: "female",
+  wakeUpTime: "6-8",
+  mealsPerDay: "3",
+  tiredTime: "afternoon",
+  bloatingFrequency: "rarely",
+  stressLevel: "moderate",
+  hungerFrequency: "3-4-hours",
+  weightGoal: "maintain",
+  sleepHours: "7-8",
+  activityLevel: "moderately-active",
+  cravings: "no-cravings",
+  dnaUpload: "dont-have",
+  digestiveIssues: "none",
+  medicalConditions: "none",
+  eatingOut: "1-2-times",
+  energyLevels: "moderate",
+  skinConcerns: ["none"],
+  moodPatterns: "stable",
+  hydrationHabits: "6-8-glasses",
+  exercisePreference: "walking",
+  exerciseEquipment: "none",
+  dietaryPreference: "non-veg",
+  foodIntolerances: ["none"],
+  supplementUsage: "none",
+  workSchedule: "9-to-5",
+};
+
+// Every answer that changes the output appears in at least one case
+const QUIZ_MATRIX: Record<string, Partial<WellnessQuiz>> = {
+  baseline: {},
+  "male-sedentary-lose-weight": {
+    gender: "male",
+    activityLevel: "sedentary",
+    weightGoal: "lose-weight",
+  },
+  "male-highly-active-gain-weight": {
+    gender: "male",
+    activityLevel: "highly-active",
+    weightGoal: "gain-weight",
+    exercisePreference: "strength",
+  },
+  "female-lightly-active-no-goal": {
+    activityLevel: "lightly-active",
+    weightGoal: "no-goal",
+  },
+  "non-binary-over-40": { gender: "non-binary", age: 45 },
+  "prefer-not-to-say-student": {
+    gender: "prefer-not-to-say",
+    age: 19,
+    workSchedule: "student",
+  },
+  "female-over-35": { age: 38 },
+  "very-high-stress-short-sleep": {
+    stressLevel: "very-high",
+    sleepHours: "less-than-5",
+  },
+  "low-stress-5-6-sleep": { stressLevel: "low", sleepHours: "5-6" },
+  "minimal-stress-long-sleep": {
+    stressLevel: "minimal",
+    sleepHours: "more-than-8",
+  },
+  "low-energy-early-riser": {
+    energyLevels: "very-low",
+    wakeUpTime: "before-6",
+  },
+  "high-energy-late-riser": {
+    energyLevels: "very-high",
+    wakeUpTime: "after-10",
+  },
+  "conditions-and-sensitivities": {
+    medicalConditions: "pcos",
+    digestiveIssues: "acidity",
+    foodIntolerances: ["lactose", "gluten"],
+    skinConcerns: ["acne", "dryness"],
+  },
+  "diabetes-gain-weight": {
+    medicalConditions: "diabetes",
+    weightGoal: "gain-weight",
+  },
+  "thyroid-female-over-35": { medicalConditions: "thyroid", age: 38 },
+  "thyroid-on-levothyroxine-high-stress": {
+    medicalConditions: "thyroid",
+    medications: "Thyronorm 50mcg",
+    stressLevel: "very-high",
+  },
+  "blood-pressure-male-over-40": {
+    medicalConditions: "blood-pressure",
+    gender: "male",
+    age: 52,
+  },
+  "seafood-intolerance-on-multivitamin": {
+    foodIntolerances: ["seafood"],
+    supplementUsage: "multivitamin",
+    stressLevel: "very-high",
+    sleepHours: "5-6",
+  },
+  "pescatarian-loose-motions": {
+    dietaryPreference: "pescatarian",
+    digestiveIssues: "loose-motions",
+  },
+  "eggetarian-constipation": {
+    dietaryPreference: "eggetarian",
+    digestiveIssues: "constipation",
+  },
+  "vegetarian-lose-weight": {
+    dietaryPreference: "vegetarian",
+    weightGoal: "lose-weight",
+  },
+  "jain-gas-lactose-intolerant": {
+    dietaryPreference: "jain",
+    digestiveIssues: "gas",
+    foodIntolerances: ["lactose"],
+  },
+  "vegan-on-protein-powder": {
+    dietaryPreference: "vegan",
+    supplementUsage: "protein",
+  },
+  "measured-height-and-weight": { heightCm: 158, weightKg: 62 },
+  "measured-weight-only": { weightKg: 70, activityLevel: "highly-active" },
+  "measured-with-high-waist": {
+    gender: "male",
+    heightCm: 172,
+    weightKg: 84,
+    waistCm: 94,
+  },
+  "measured-with-body-fat": {
+    heightCm: 165,
+    weightKg: 58,
+    waistCm: 76,
+    bodyFatPercent: 28,
+  },
+  "dna-consent-shift-work": {
+    dnaUpload: "yes-upload",
+    workSchedule: "shift-work",
+  },
+};
+
+describe("analyzeQuizData", () => {
+  it.each(Object.entries(QUIZ_MATRIX))(
+    "should match the golden output for %s",
+    async (name, answers) => {
+      const result = analyzeQuizData(
+        { ...baseQuiz, ...answers },
+        "Asha",
+        "asha@example.com",
+      );
+
+      await expect(JSON.stringify(result, null, 2) + "\n").toMatchFileSnapshot(
+        `./__golden__/personalization/${name}.json`,
+      );
+    },
+  );
+
+  it("should fill in answers missing from older saved quizzes", () => {
+    const { profile } = analyzeQuizData({} as WellnessQuiz);
+
+    expect(profile).toMatchObject({
+      name: "User",
+      age: 30,
+      gender: "female",
+      medicalConditions: [],
+      dietaryPreference: "non-veg",
+      exercisePreference: ["walking"],
+    });
+  });
+
+  it("should reject non-object input", () => {
+    expect(() => analyzeQuizData(null)).toThrow(/expected an object/);
+  });
+});
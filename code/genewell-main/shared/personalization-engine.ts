@@ -0,0 +1,675 @@
+// Personalization engine - turns quiz answers into a profile and insights
+// 100% evidence-based science: Exercise physiology, nutrition science, sleep neurobiology, behavioral psychology, stress neuroscience
+// Pure and browser-safe: the quiz page previews with it and the server builds PDFs with it, so both show the same numbers.
+
+import type { SupplementWarning, WellnessQuiz } from "./api";
+import {
+  ASIAN_INDIAN_BMI_CUTOFFS,
+  BMICategory,
+  BMRFormula,
+  calculateBMI,
+  calculateWaistToHeightRatio,
+  classifyBMI,
+  katchMcArdleBMR,
+  mifflinStJeorBMR,
+  WAIST_TO_HEIGHT_RISK_RATIO,
+} from "./anthropometrics";
+import {
+  applyConditionMacroLimits,
+  CONDITION_RULES,
+  ConditionGuidance,
+  findSupplementCaution,
+  getConditionGuidance,
+  isMedicalCondition,
+} from "./condition-rules";
+import { planSleepWake, SleepWakePlan } from "./circadian-schedule";
+import { FoodRecommendations, recommendFoods } from "./food-recommendations";
+import {
+  ACTIVITY_MULTIPLIERS,
+  ACTIVITY_SCORES,
+  answerOr,
+  BloodTestPanel,
+  DIET_EXCLUDED_SOURCES,
+  DietaryPreference,
+  ENERGY_SCORES,
+  EQUIPMENT_LEVELS,
+  ExerciseEquipment,
+  GOAL_BLOOD_TEST_PANELS,
+  GOAL_MACRO_TARGETS,
+  SLEEP_SCORES,
+  STRESS_SCORES,
+  WeightGoal,
+} from "./quiz-answers";
+import {
+  scoreSleepAssessment,
+  SleepAssessmentResult,
+} from "./sleep-assessment";
+import { reconcileSupplementStack } from "./supplement-checker";
+
+export type MetricSource = "measured" | "estimated";
+
+export interface UserProfile {
+  // Personal info
+  name: string;
+  email: string;
+  age: number;
+  gender: "male" | "female" | "non-binary" | "prefer-not-to-say";
+
+  // Body metrics - evidence-based, Mifflin-St Jeor / Katch-McArdle and Harris-Benedict models
+  estimatedHeightCm: number; // Measured when the user gave it, see metricSources
+  estimatedWeightKg: number;
+  estimatedBMR: number; // Basal Metabolic Rate (science-based)
+  estimatedTDEE: number; // Total Daily Energy Expenditure
+  bmrFormula: BMRFormula;
+  metricSources: { height: MetricSource; weight: MetricSource };
+  waistCm?: number;
+  bodyFatPercent?: number;
+  bmi?: number; // Only from measured height and weight - an estimated BMI says nothing
+  bmiCategory?: BMICategory; // Asian-Indian cut-offs
+  waistToHeightRatio?: number;
+
+  // Macronutrients
+  proteinGrams: number;
+  carbsGrams: number;
+  fatsGrams: number;
+
+  // Health & Lifestyle scores (1-100)
+  stressScore: number;
+  sleepScore: number;
+  activityScore: number;
+  energyScore: number;
+
+  // Health conditions & preferences
+  medicalConditions: string[];
+  digestiveIssues: string[];
+  foodIntolerances: string[];
+  skinConcerns: string[];
+  dietaryPreference: DietaryPreference;
+  exercisePreference: string[];
+  exerciseEquipment: ExerciseEquipment;
+  workSchedule: string;
+  region: string;
+
+  // Health data
+  recommendedTests: string[];
+  supplementPriority: string[];
+  exerciseIntensity: "low" | "moderate" | "high";
+  mealFrequency: number;
+
+  // DNA consent (optional biomarker testing)
+  dnaConsent: boolean;
+}
+
+export interface PersonalizationData {
+  profile: UserProfile;
+  insights: {
+    metabolicInsight: string;
+    bodyCompositionInsight: string;
+    recommendedMealTimes: string[]; // Breakfast, lunch, dinner - from sleepWakePlan
+    sleepWakePlan: SleepWakePlan;
+    sleepAssessment?: SleepAssessmentResult; // When the user took the extended sleep assessment
+    calorieRange: { min: number; max: number };
+    macroRatios: { protein: number; carbs: number; fats: number };
+    supplementStack: Array<{
+      name: string;
+      reason: string;
+      dosage?: string;
+      caution?: string; // Set when one of the user's medical conditions flags it
+    }>;
+    supplementWarnings: SupplementWarning[];
+    conditionGuidance: ConditionGuidance[];
+    foodRecommendations: FoodRecommendations;
+    workoutStrategy: string;
+    sleepStrategy: string;
+    stressStrategy: string;
+  };
+}
+
+// Blood test recommendations based on goals and health conditions - evidence-based
+// Include Agilus/SRL Diagnostics-style comprehensive panels
+const BLOOD_TEST_RECOMMENDATIONS: Record<BloodTestPanel, string[]> = {
+  "weight-loss": [
+    "Fasting Blood Glucose (FBS) & Random Blood Glucose (RBS)",
+    "Lipid Profile: Total Cholesterol, LDL, HDL, Triglycerides, VLDL",
+    "Thyroid Function Tests (TFT): TSH, Free T3, Free T4",
+    "Complete Hemogram (CBC)",
+    "Liver Function Tests (LFT): SGOT, SGPT, ALP, Bilirubin",
+    "Kidney Function Tests (RFT): Creatinine, BUN, Electrolytes",
+    "Vitamin D (25-hydroxyvitamin D)",
+  ],
+  "muscle-gain": [
+    "Fasting Blood Glucose (FBS)",
+    "Lipid Panel (cholesterol, LDL, HDL, triglycerides)",
+    "Liver Function Tests (LFT)",
+    "Complete Metabolic Panel with Creatinine for kidney function",
+    "Iron Panel (Serum Iron, Ferritin, TIBC)",
+    "Vitamin B12 and Folate levels",
+    "Testosterone levels (for males)",
+    "Vitamin D (25-hydroxyvitamin D)",
+    "Albumin & Total Protein",
+  ],
+  "stress-management": [
+    "Complete Metabolic Panel (glucose, kidney, liver, electrolytes)",
+    "Thyroid Function Tests (TSH, Free T4, Free T3)",
+    "Vitamin D (25-hydroxyvitamin D)",
+    "Magnesium (blood serum)",
+    "Cortisol (optional, if chronic stress)",
+    "CBC for immune function assessment",
+  ],
+  "sleep-improvement": [
+    "Vitamin D (25-hydroxyvitamin D)",
+    "Thyroid Function (TSH, Free T4)",
+    "Iron Panel (ferritin, serum iron)",
+    "Magnesium (blood serum)",
+    "Complete Hemogram (CBC)",
+    "Liver Function Tests (to rule out metabolic issues)",
+  ],
+  "low-energy": [
+    "Complete Hemogram (CBC) - for anaemia assessment",
+    "Fasting Blood Glucose (FBS) & Random Blood Glucose (RBS)",
+    "Thyroid Function Tests (TSH, Free T3, Free T4)",
+    "Vitamin D (25-hydroxyvitamin D)",
+    "Vitamin B12 and folate",
+    "Iron Panel (Serum Iron, Ferritin, TIBC)",
+    "Liver Function Tests (LFT)",
+    "Kidney Function Tests (RFT)",
+  ],
+  "general-wellness": [
+    "Complete Hemogram (CBC)",
+    "Fasting Blood Glucose (FBS) & Random Blood Glucose (RBS)",
+    "Lipid Panel (Total Cholesterol, LDL, HDL, Triglycerides)",
+    "Liver Function Tests (LFT): SGOT, SGPT, ALP",
+    "Kidney Function Tests (RFT): Creatinine, BUN",
+    "Thyroid Function Tests (TSH, Free T4)",
+    "Vitamin D (25-hydroxyvitamin D)",
+    "Electrolytes (Sodium, Potassium, Chloride, Bicarbonate)",
+  ],
+};
+
+// Evidence-based supplement recommendations - only proven interventions
+const EVIDENCE_BASED_SUPPLEMENTS = {
+  "stress-high": [
+    "Magnesium glycinate (200-350mg, reduces cortisol and improves sleep)",
+    "Omega-3 (EPA/DHA 2-3g, reduces inflammation and supports mood)",
+  ],
+  "stress-moderate": [
+    "Magnesium (200-300mg, daily for nervous system support)",
+  ],
+  "sleep-poor": [
+    "Magnesium glycinate (200-350mg before bed, improves sleep latency and depth)",
+    "L-Theanine (100-200mg, promotes relaxation without sedation)",
+  ],
+  "digestion-issues": [
+    "Probiotics (10-50 billion CFU, supports gut microbiota and digestion)",
+    "Digestive enzymes (with meals, if needed)",
+  ],
+  "energy-low": [
+    "Vitamin D3 (2000-4000 IU daily, critical for mood and energy)",
+    "Iron (if deficient per blood test, especially women)",
+    "Vitamin B12 (if deficient or plant-based diet)",
+  ],
+  "essential-all": [
+    "Vitamin D3 (2000-4000 IU daily, supports immunity, mood, bone health)",
+    "Omega-3 (EPA/DHA 2-3g daily, anti-inflammatory, cardiovascular and mental health)",
+    "Creatine monohydrate (3-5g daily, improves strength and cognition, proven safe)",
+  ],
+};
+
+// Multi-select answers arrive as a single value or a list; "none" means nothing selected
+function selectedOptions(
+  answer: string | readonly string[] | undefined,
+): string[] {
+  const options = Array.isArray(answer) ? answer : answer ? [answer] : [];
+  return options.filter((option) => option !== "none");
+}
+
+export function analyzeQuizData(
+  quizData: WellnessQuiz,
+  userName?: string,
+  userEmail?: string,
+): PersonalizationData {
+  if (!quizData || typeof quizData !== "object") {
+    throw new Error("Invalid quiz data: expected an object");
+  }
+
+  // Extract core data - older saved quizzes may miss answers
+  const age = quizData.age || 30;
+  const gender = quizData.gender || "female";
+  const activityLevel = answerOr(
+    ACTIVITY_SCORES,
+    quizData.activityLevel,
+    "moderately-active",
+  );
+  const stressLevel = answerOr(STRESS_SCORES, quizData.stressLevel, "moderate");
+  const sleepHours = answerOr(SLEEP_SCORES, quizData.sleepHours, "7-8");
+  const energyLevels = answerOr(
+    ENERGY_SCORES,
+    quizData.energyLevels,
+    "moderate",
+  );
+  const weightGoal = answerOr(
+    GOAL_MACRO_TARGETS,
+    quizData.weightGoal,
+    "maintain",
+  );
+
+  // Calculate health scores (1-100); the extended sleep assessment beats the sleep-hours bucket
+  const sleepAssessment = scoreSleepAssessment(quizData.sleepAssessment);
+  const stressScore = STRESS_SCORES[stressLevel];
+  const sleepScore = sleepAssessment?.sleepScore || SLEEP_SCORES[sleepHours];
+  const activityScore = ACTIVITY_SCORES[activityLevel];
+  const energyScore = ENERGY_SCORES[energyLevels];
+
+  // Body metrics - measured when the user entered them, otherwise population estimates
+  const metricSources: UserProfile["metricSources"] = {
+    height: quizData.heightCm ? "measured" : "estimated",
+    weight: quizData.weightKg ? "measured" : "estimated",
+  };
+  const estimatedHeightCm =
+    quizData.heightCm || (gender === "female" ? 160 : 175);
+  let estimatedWeightKg = quizData.weightKg || (gender === "female" ? 65 : 80);
+
+  // Refine estimates based on activity level and energy (proxy for body composition)
+  if (metricSources.weight === "estimated") {
+    if (activityScore > 80) {
+      // More active = potentially leaner
+      estimatedWeightKg *= 0.95;
+    } else if (activityScore < 30) {
+      // Less active = potentially heavier
+      estimatedWeightKg *= 1.05;
+    }
+  }
+
+  // Katch-McArdle when lean mass is known, otherwise Mifflin-St Jeor (most accurate for sedentary-to-active)
+  const bodyFatPercent = quizData.bodyFatPercent;
+  const bmrFormula: BMRFormula =
+    bodyFatPercent && metricSources.weight === "measured"
+      ? "katch-mcardle"
+      : "mifflin-st-jeor";
+  const estimatedBMR = Math.round(
+    bmrFormula === "katch-mcardle"
+      ? katchMcArdleBMR(estimatedWeightKg, bodyFatPercent)
+      : mifflinStJeorBMR({
+          weightKg: estimatedWeightKg,
+          heightCm: estimatedHeightCm,
+          age,
+          gender,
+        }),
+  );
+
+  const bmi =
+    metricSources.height === "measured" && metricSources.weight === "measured"
+      ? calculateBMI(estimatedWeightKg, estimatedHeightCm)
+      : undefined;
+  const waistToHeightRatio =
+    quizData.waistCm && metricSources.height === "measured"
+      ? calculateWaistToHeightRatio(quizData.waistCm, estimatedHeightCm)
+      : undefined;
+
+  // Calculate TDEE using activity multiplier (Harris-Benedict)
+  const estimatedTDEE = Math.round(
+    estimatedBMR * ACTIVITY_MULTIPLIERS[activityLevel],
+  );
+
+  // Extract health conditions
+  const medicalConditions = selectedOptions(quizData.medicalConditions);
+
+  // Calculate macronutrients based on goal (evidence-based ranges), within any condition's carb limit
+  const macros = applyConditionMacroLimits(
+    calculateMacronutrients(estimatedTDEE, estimatedWeightKg, weightGoal),
+    estimatedTDEE,
+    medicalConditions,
+  );
+
+  const digestiveIssues = selectedOptions(quizData.digestiveIssues);
+  const foodIntolerances = selectedOptions(quizData.foodIntolerances);
+  const skinConcerns = selectedOptions(quizData.skinConcerns);
+
+  // Recommend blood tests based on goals and conditions
+  const recommendedTests = getRecommendedBloodTests(
+    weightGoal,
+    medicalConditions,
+    gender,
+    age,
+  );
+
+  // Determine supplement priority (evidence-based only), then check it against what the user
+  // already takes, their conditions and their intolerances
+  const dietaryPreference = answerOr(
+    DIET_EXCLUDED_SOURCES,
+    quizData.dietaryPreference,
+    "non-veg",
+  );
+  const supplementCheck = reconcileSupplementStack(
+    getSupplementStack(
+      gender,
+      age,
+      stressScore,
+      sleepScore,
+      digestiveIssues,
+      energyScore,
+    ),
+    {
+      medications: quizData.medications ? [quizData.medications] : [],
+      medicalConditions,
+      foodIntolerances,
+      dietaryPreference,
+      supplementUsage: quizData.supplementUsage,
+    },
+  );
+
+  // Exercise intensity based on activity level
+  const exerciseIntensity: UserProfile["exerciseIntensity"] =
+    activityScore > 80 ? "high" : activityScore > 45 ? "moderate" : "low";
+
+  // Meal frequency recommendation (science-based)
+  // More frequent, smaller meals support stable energy and adherence for many
+  const mealFrequency = 3; // Evidence shows 3 meals optimal for most; adjust per person
+
+  // Create profile
+  const profile: UserProfile = {
+    name: userName || "User",
+    email: userEmail || "user@example.com",
+    age,
+    gender,
+    estimatedHeightCm,
+    estimatedWeightKg,
+    estimatedBMR,
+    estimatedTDEE,
+    bmrFormula,
+    metricSources,
+    waistCm: quizData.waistCm,
+    bodyFatPercent,
+    bmi,
+    bmiCategory: bmi ? classifyBMI(bmi) : undefined,
+    waistToHeightRatio,
+    proteinGrams: macros.protein,
+    carbsGrams: macros.carbs,
+    fatsGrams: macros.fats,
+    stressScore,
+    sleepScore,
+    activityScore,
+    energyScore,
+    medicalConditions,
+    digestiveIssues,
+    foodIntolerances,
+    skinConcerns,
+    dietaryPreference,
+    exercisePreference: quizData.exercisePreference
+      ? [quizData.exercisePreference]
+      : ["walking"],
+    exerciseEquipment: answerOr(
+      EQUIPMENT_LEVELS,
+      quizData.exerciseEquipment,
+      "none",
+    ),
+    workSchedule: quizData.workSchedule || "9-to-5",
+    region: "India",
+    recommendedTests,
+    supplementPriority: supplementCheck.stack,
+    exerciseIntensity,
+    mealFrequency,
+    dnaConsent: quizData.dnaUpload === "yes-upload",
+  };
+
+  // Generate insights
+  const insights = generateInsights(
+    profile,
+    quizData,
+    supplementCheck.warnings,
+    sleepAssessment,
+  );
+
+  return { profile, insights };
+}
+
+export function calculateMacronutrients(
+  tdee: number,
+  weightKg: number,
+  goal: WeightGoal,
+): { protein: number; carbs: number; fats: number } {
+  // Evidence-based macronutrient recommendations
+  // Protein: 1.6-2.2 g/kg depending on goal; carbs & fats adjusted by goal
+  const { proteinGPerKg, carbPercentage, fatPercentage } =
+    GOAL_MACRO_TARGETS[goal];
+
+  // Calculate actual grams
+  const proteinGrams = Math.round(weightKg * proteinGPerKg);
+  const carbGrams = Math.round((tdee * carbPercentage) / 4);
+  const fatGrams = Math.round((tdee * fatPercentage) / 9);
+
+  return {
+    protein: proteinGrams,
+    carbs: carbGrams,
+    fats: fatGrams,
+  };
+}
+
+export function getRecommendedBloodTests(
+  goal: WeightGoal,
+  conditions: string[],
+  gender: string,
+  age: number,
+): string[] {
+  const testsSet = new Set<string>();
+
+  // Condition-specific tests come first - they matter most and the PDF lists only the top few
+  conditions.filter(isMedicalCondition).forEach((condition) => {
+    CONDITION_RULES[condition].bloodTests.forEach((t) => testsSet.add(t));
+  });
+
+  // Add tests based on goal
+  const goalTests = BLOOD_TEST_RECOMMENDATIONS[GOAL_BLOOD_TEST_PANELS[goal]];
+  goalTests.forEach((t) => testsSet.add(t));
+
+  // Add age-based tests (over 40, more comprehensive)
+  if (age > 40) {
+    testsSet.add("Lipid Panel (cholesterol, LDL, HDL, triglycerides)");
+    testsSet.add("Thyroid Function (TSH, Free T4)");
+  }
+
+  // Add gender-specific tests
+  if (gender === "female") {
+    testsSet.add("Iron Panel (ferritin, serum iron, TIBC)");
+    testsSet.add("Hemoglobin (anaemia screening)");
+  }
+
+  // Ensure core baseline tests
+  testsSet.add("Complete Metabolic Panel");
+  testsSet.add("Vitamin D (25-hydroxyvitamin D)");
+  testsSet.add("Thyroid Function (TSH, Free T4)");
+
+  return Array.from(testsSet);
+}
+
+export function getSupplementStack(
+  gender: string,
+  age: number,
+  stressScore: number,
+  sleepScore: number,
+  digestiveIssues: string[],
+  energyScore: number,
+): string[] {
+  const stack: string[] = [];
+
+  // Essential for all (proven, safe, evidence-based)
+  stack.push(
+    "Vitamin D3 (2000-4000 IU daily - supports immunity, mood, bone health)",
+  );
+  stack.push(
+    "Omega-3 (EPA+DHA 2-3g daily - anti-inflammatory, cardiovascular and mental health)",
+  );
+
+  // Stress management (neuroscience-based)
+  if (stressScore > 70) {
+    stack.push(
+      "Magnesium glycinate (200-350mg daily - reduces cortisol, improves sleep)",
+    );
+  } else if (stressScore > 50) {
+    stack.push("Magnesium (200-300mg daily - nervous system support)");
+  }
+
+  // Sleep support (if needed)
+  if (sleepScore < 65) {
+    stack.push("Magnesium glycinate (200-350mg before bed)");
+    stack.push("L-Theanine (100-200mg - promotes relaxation)");
+  }
+
+  // Digestive support (microbiome science)
+  if (digestiveIssues.length > 0) {
+    stack.push("Probiotics (10-50 billion CFU - supports gut microbiota)");
+  }
+
+  // Energy support
+  if (energyScore < 50) {
+    stack.push(
+      "Vitamin B12 (if deficient per blood test, especially plant-based diet)",
+    );
+  }
+
+  // Gender/age specific
+  if (gender === "female" && age > 35) {
+    stack.push("Iron supplementation (if deficient per blood test)");
+  }
+
+  // Limit to top evidence-backed supplements
+  return stack.slice(0, 8);
+}
+
+function generateInsights(
+  profile: UserProfile,
+  quizData: WellnessQuiz,
+  supplementWarnings: SupplementWarning[],
+  sleepAssessment: SleepAssessmentResult | undefined,
+): PersonalizationData["insights"] {
+  // Sleep, light and meal timing follow the body clock (circadian science)
+  const sleepWakePlan = planSleepWake({
+    age: profile.age,
+    wakeUpTime: quizData.wakeUpTime,
+    sleepHours: quizData.sleepHours,
+    workSchedule: quizData.workSchedule,
+    shiftType: quizData.shiftType,
+    chronotype: sleepAssessment?.morningness?.chronotype,
+  });
+  const recommendedMealTimes = sleepWakePlan.schedule.meals.map(
+    (meal) => meal.window,
+  );
+  const activityLevel = answerOr(
+    ACTIVITY_SCORES,
+    quizData.activityLevel,
+    "moderately-active",
+  );
+  const conditionGuidance = getConditionGuidance(profile.medicalConditions);
+
+  return {
+    metabolicInsight: `Based on exercise physiology research, your estimated resting metabolic rate (BMR) is ${profile.estimatedBMR} calories/day. With your ${activityLevel} activity level, your daily energy expenditure (TDEE) is approximately ${profile.estimatedTDEE} calories. This means eating at or around ${profile.estimatedTDEE} calories maintains your current weight; eat below this for fat loss, above for muscle gain.`,
+
+    bodyCompositionInsight: getBodyCompositionInsight(profile),
+
+    recommendedMealTimes,
+
+    sleepWakePlan,
+
+    sleepAssessment,
+
+    calorieRange: {
+      min: Math.round(profile.estimatedTDEE * 0.85),
+      max: Math.round(profile.estimatedTDEE * 1.15),
+    },
+
+    macroRatios: {
+      protein: Math.round(
+        ((profile.proteinGrams * 4) / profile.estimatedTDEE) * 100,
+      ),
+      carbs: Math.round(
+        ((profile.carbsGrams * 4) / profile.estimatedTDEE) * 100,
+      ),
+      fats: Math.round(((profile.fatsGrams * 9) / profile.estimatedTDEE) * 100),
+    },
+
+    supplementStack: profile.supplementPriority.map((supp) => {
+      const [name, description] = supp.includes(" (")
+        ? [
+            supp.substring(0, supp.indexOf(" (")),
+            supp.substring(supp.indexOf("(") + 1, supp.length - 1),
+          ]
+        : [supp, "Evidence-based health support"];
+      return {
+        name,
+        reason: description || "Supports optimal health and wellness",
+        caution: findSupplementCaution(name, conditionGuidance),
+      };
+    }),
+
+    supplementWarnings,
+
+    conditionGuidance,
+
+    foodRecommendations: recommendFoods(profile),
+
+    workoutStrategy: `${profile.exerciseIntensity.charAt(0).toUpperCase() + profile.exerciseIntensity.slice(1)} intensity exercise physiology indicates ${
+      profile.exerciseIntensity === "low"
+        ? "3 days/week of moderate activity (walking, yoga, light strength training) supports health without overload"
+        : profile.exerciseIntensity === "moderate"
+          ? "4-5 days/week combining resistance and cardio builds strength and aerobic capacity"
+          : "5-6 days/week with periodized training (varying volume and intensity) maximizes performance adaptations"
+    }.`,
+
+    sleepStrategy: `Sleep neurobiology research shows that your current sleep score of ${profile.sleepScore}/100 indicates ${
+      profile.sleepScore < 50
+        ? "significant sleep disruption. Prioritize consistent sleep-wake timing (even on weekends), a cool (65-68°F), dark, quiet bedroom, and consider magnesium glycinate (200-350mg 60 min before bed) after 2 weeks of protocol consistency."
+        : profile.sleepScore < 75
+          ? "room for improvement. Maintain consistent sleep-wake timing, ensure your bedroom is dark (<5 lux), quiet (<30 dB), and cool (65-68°F). A structured evening routine starting 60 min before bed (no screens, warm bath/tea) supports sleep quality."
+          : "good sleep quality. Continue your current sleep schedule and environment—consistency is key. 7-9 hours nightly supports all other health interventions."
+    }`,
+
+    stressStrategy: `Stress neuroscience shows elevated cortisol impairs sleep, immunity, and body composition. Your stress score of ${profile.stressScore}/100 suggests ${
+      profile.stressScore > 70
+        ? "high chronic stress activation. Daily evidence-based tools: Box breathing (4-4-4-4, 5 rounds) activates parasympathetic tone in 5 min. 20-30 min moderate-intensity movement (walking, cycling) reduces cortisol comparable to anti-anxiety medication. Magnesium glycinate (200-350mg) and omega-3 (2-3g EPA/DHA) support nervous system regulation."
+        : profile.stressScore > 50
+          ? "moderate stress. Incorporate 15-20 min daily of stress-reduction: walking, meditation, or breathing exercises. Consistent sleep and movement are powerful stress buffers."
+          : "low stress levels. Maintain current healthy practices—consistent sleep, regular movement, and social connection are proven stress resilience factors."
+    }`,
+  };
+}
+
+function getBodyCompositionInsight(profile: UserProfile): string {
+  const { underweight, overweight, obese } = ASIAN_INDIAN_BMI_CUTOFFS;
+  const formulaNote =
+    profile.bmrFormula === "katch-mcardle"
+      ? " Your BMR uses the Katch-McArdle equation, which works from your lean body mass rather than total weight."
+      : "";
+
+  if (!profile.bmi) {
+    const estimated = (["height", "weight"] as const).filter(
+      (metric) => profile.metricSources[metric] === "estimated",
+    );
+    return `Your ${estimated.join(" and ")} ${estimated.length > 1 ? "were" : "was"} estimated from population averages, so your BMR and calorie targets are approximate. Add your height and weight for numbers based on your own body.${formulaNote}`;
+  }
+
+  const waistNote = !profile.waistToHeightRatio
+    ? " Add your waist measurement to check abdominal fat, which BMI misses."
+    : profile.waistToHeightRatio >= WAIST_TO_HEIGHT_RISK_RATIO
+      ? ` Your waist-to-height ratio is ${profile.waistToHeightRatio}, above the ${WAIST_TO_HEIGHT_RISK_RATIO} threshold where abdominal fat raises heart and diabetes risk - your waist is the number to watch as you progress.`
+      : ` Your waist-to-height ratio is ${profile.waistToHeightRatio}, below the ${WAIST_TO_HEIGHT_RISK_RATIO} risk threshold - keep your waist under half your height.`;
+
+  return `Your BMI is ${profile.bmi} (${profile.bmiCategory}). Asian Indians face metabolic risk at lower BMIs than the WHO ranges assume, so we use the Indian consensus cut-offs: below ${underweight} underweight, ${underweight}-${overweight - 0.1} normal, ${overweight}-${obese - 0.1} overweight, ${obese} and above obese.${waistNote}${formulaNote}`;
+}
+
+export function getBMRInsight(profile: UserProfile): string {
+  return `Your estimated Basal Metabolic Rate (BMR) is ${profile.estimatedBMR} calories/day, calculated using the evidence-based Mifflin-St Jeor equation. This represents the calories you burn at complete rest. Combined with your activity level, your Total Daily Energy Expenditure (TDEE) is approximately ${profile.estimatedTDEE} calories/day—this is your maintenance calorie target.`;
+}
+
+export function getMacroBreakdown(profile: UserProfile): string {
+  const proteinPercent = Math.round(
+    ((profile.proteinGrams * 4) / profile.estimatedTDEE) * 100,
+  );
+  const carbPercent = Math.round(
+    ((profile.carbsGrams * 4) / profile.estimatedTDEE) * 100,
+  );
+  const fatPercent = Math.round(
+    ((profile.fatsGrams * 9) / profile.estimatedTDEE) * 100,
+  );
+
+  return `Based on exercise science research, your daily macronutrient targets are: Protein ${profile.proteinGrams}g (${proteinPercent}%) - preserves muscle and supports satiety; Carbohydrates ${profile.carbsGrams}g (${carbPercent}%) - fuels performance and recovery; Healthy Fats ${profile.fatsGrams}g (${fatPercent}%) - supports hormones and nutrient absorption.`;
+}
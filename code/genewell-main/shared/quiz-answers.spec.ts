@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { WellnessQuizSchema } from "./api";
+import {
+  ACTIVITY_MULTIPLIERS,
+  ACTIVITY_SCORES,
+  answerOr,
+  DIET_EXCLUDED_SOURCES,
+  ENERGY_SCORES,
+  EQUIPMENT_LEVELS,
+  GOAL_BLOOD_TEST_PANELS,
+  GOAL_MACRO_TARGETS,
+  PREFERENCE_SESSIONS,
+  SHIFT_HOURS,
+  SLEEP_HOURS,
+  SLEEP_SCORES,
+  STRESS_SCORES,
+  WAKE_CHRONOTYPES,
+  WAKE_TIMES,
+} from "./quiz-answers";
+
+const { shape } = WellnessQuizSchema;
+
+// The types already forbid missing keys; this also catches keys no quiz answer can produce
+describe.each([
+  ["STRESS_SCORES", STRESS_SCORES, shape.stressLevel.options],
+  ["SLEEP_SCORES", SLEEP_SCORES, shape.sleepHours.options],
+  ["ACTIVITY_SCORES", ACTIVITY_SCORES, shape.activityLevel.options],
+  ["ACTIVITY_MULTIPLIERS", ACTIVITY_MULTIPLIERS, shape.activityLevel.options],
+  ["ENERGY_SCORES", ENERGY_SCORES, shape.energyLevels.options],
+  ["GOAL_MACRO_TARGETS", GOAL_MACRO_TARGETS, shape.weightGoal.options],
+  ["GOAL_BLOOD_TEST_PANELS", GOAL_BLOOD_TEST_PANELS, shape.weightGoal.options],
+  ["WAKE_TIMES", WAKE_TIMES, shape.wakeUpTime.options],
+  ["WAKE_CHRONOTYPES", WAKE_CHRONOTYPES, shape.wakeUpTime.options],
+  ["SLEEP_HOURS", SLEEP_HOURS, shape.sleepHours.options],
+  ["SHIFT_HOURS", SHIFT_HOURS, shape.shiftType.unwrap().options],
+  [
+    "DIET_EXCLUDED_SOURCES",
+    DIET_EXCLUDED_SOURCES,
+    shape.dietaryPreference.options,
+  ],
+  [
+    "PREFERENCE_SESSIONS",
+    PREFERENCE_SESSIONS,
+    shape.exercisePreference.options,
+  ],
+  ["EQUIPMENT_LEVELS", EQUIPMENT_LEVELS, shape.exerciseEquipment.options],
+])("%s", (_name, table, options) => {
+  it("should interpret exactly the schema's answers", () => {
+    expect(Object.keys(table).sort()).toEqual([...options].sort());
+  });
+});
+
+describe("answerOr", () => {
+  it("should fall back for missing and retired answers", () => {
+    expect(answerOr(STRESS_SCORES, "low", "moderate")).toBe("low");
+    expect(answerOr(STRESS_SCORES, undefined, "moderate")).toBe("moderate");
+    expect(answerOr(STRESS_SCORES, "high", "moderate")).toBe("moderate");
+    expect(answerOr(STRESS_SCORES, "toString", "moderate")).toBe("moderate");
+  });
+});
@@ -0,0 +1,211 @@
+// What each quiz answer means to the personalization engine
+// Every table is keyed by the schema's own enum, so a quiz option added to WellnessQuizSchema
+// without an interpretation here fails compilation instead of falling through to a default.
+
+import type { WellnessQuiz } from "./api";
+
+export type StressLevel = WellnessQuiz["stressLevel"];
+export type SleepHours = WellnessQuiz["sleepHours"];
+export type ActivityLevel = WellnessQuiz["activityLevel"];
+export type EnergyLevel = WellnessQuiz["energyLevels"];
+export type WeightGoal = WellnessQuiz["weightGoal"];
+export type WakeUpTime = WellnessQuiz["wakeUpTime"];
+export type ShiftType = WellnessQuiz["shiftType"];
+export type DietaryPreference = WellnessQuiz["dietaryPreference"];
+export type ExercisePreference = WellnessQuiz["exercisePreference"];
+export type ExerciseEquipment = WellnessQuiz["exerciseEquipment"];
+export type FoodIntolerance = Exclude<
+  WellnessQuiz["foodIntolerances"][number],
+  "none"
+>;
+export type DigestiveIssue = Exclude<WellnessQuiz["digestiveIssues"], "none">;
+
+// Where a food or supplement comes from, as far as a diet is concerned
+export type FoodSource =
+  | "meat"
+  | "fish"
+  | "egg"
+  | "dairy"
+  | "lanolin" // Sheep's wool - the usual source of vitamin D3
+  | "root-vegetable";
+
+export type BloodTestPanel =
+  | "weight-loss"
+  | "muscle-gain"
+  | "stress-management"
+  | "sleep-improvement"
+  | "low-energy"
+  | "general-wellness";
+
+export type Chronotype = "morning" | "intermediate" | "evening";
+
+export type SessionType =
+  | "strength"
+  | "zone-2" // Steady cardio at a conversational pace
+  | "intervals"
+  | "mobility"
+  | "dance"
+  | "sport";
+
+export interface MacroTargets {
+  proteinGPerKg: number;
+  carbPercentage: number; // % of calories
+  fatPercentage: number; // % of calories
+}
+
+// ==========================================
+// HEALTH SCORES (1-100)
+// ==========================================
+
+export const STRESS_SCORES: Record<StressLevel, number> = {
+  "very-high": 85,
+  moderate: 55,
+  low: 30,
+  minimal: 10,
+};
+
+export const SLEEP_SCORES: Record<SleepHours, number> = {
+  "less-than-5": 25,
+  "5-6": 45,
+  "7-8": 85,
+  "more-than-8": 75,
+};
+
+export const ACTIVITY_SCORES: Record<ActivityLevel, number> = {
+  sedentary: 15,
+  "lightly-active": 40,
+  "moderately-active": 65,
+  "highly-active": 95,
+};
+
+export const ENERGY_SCORES: Record<EnergyLevel, number> = {
+  "very-low": 15,
+  low: 35,
+  moderate: 60,
+  high: 80,
+  "very-high": 95,
+};
+
+// ==========================================
+// ENERGY & NUTRITION
+// ==========================================
+
+// Harris-Benedict activity multipliers, BMR × multiplier = TDEE
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  "lightly-active": 1.375,
+  "moderately-active": 1.55,
+  "highly-active": 1.9,
+};
+
+// Protein: 1.6-2.2 g/kg depending on goal; carbs and fats as a share of TDEE
+export const GOAL_MACRO_TARGETS: Record<WeightGoal, MacroTargets> = {
+  // Higher protein preserves muscle during a deficit
+  "lose-weight": {
+    proteinGPerKg: 2.2,
+    carbPercentage: 0.35,
+    fatPercentage: 0.3,
+  },
+  "gain-weight": {
+    proteinGPerKg: 1.8,
+    carbPercentage: 0.5,
+    fatPercentage: 0.25,
+  },
+  maintain: { proteinGPerKg: 1.6, carbPercentage: 0.45, fatPercentage: 0.3 },
+  "no-goal": { proteinGPerKg: 1.8, carbPercentage: 0.45, fatPercentage: 0.3 },
+};
+
+export const GOAL_BLOOD_TEST_PANELS: Record<WeightGoal, BloodTestPanel> = {
+  "lose-weight": "weight-loss",
+  "gain-weight": "muscle-gain",
+  maintain: "general-wellness",
+  "no-goal": "general-wellness",
+};
+
+// ==========================================
+// SLEEP & CIRCADIAN TIMING
+// ==========================================
+
+// Middle of each wake-up bucket, in minutes after midnight; the day's schedule hangs off it
+export const WAKE_TIMES: Record<WakeUpTime, number> = {
+  "before-6": 5 * 60 + 30,
+  "6-8": 7 * 60,
+  "8-10": 9 * 60,
+  "after-10": 10 * 60 + 30,
+};
+
+// Until the user takes a chronotype questionnaire, habitual wake time is the best proxy
+export const WAKE_CHRONOTYPES: Record<WakeUpTime, Chronotype> = {
+  "before-6": "morning",
+  "6-8": "intermediate",
+  "8-10": "intermediate",
+  "after-10": "evening",
+};
+
+// Hours slept now, middle of each bucket
+export const SLEEP_HOURS: Record<SleepHours, number> = {
+  "less-than-5": 4.5,
+  "5-6": 5.5,
+  "7-8": 7.5,
+  "more-than-8": 9,
+};
+
+// Shift start and end, minutes after midnight. Rotating workers alternate day and night weeks.
+export const SHIFT_HOURS: Record<ShiftType, { start: number; end: number }> = {
+  night: { start: 22 * 60, end: 6 * 60 },
+  evening: { start: 14 * 60, end: 22 * 60 },
+  rotating: { start: 22 * 60, end: 6 * 60 }, // Their night weeks
+};
+
+// ==========================================
+// DIET
+// ==========================================
+
+// What each dietary pattern rules out
+export const DIET_EXCLUDED_SOURCES: Record<DietaryPreference, FoodSource[]> = {
+  "non-veg": [],
+  pescatarian: ["meat"],
+  eggetarian: ["meat", "fish"],
+  vegetarian: ["meat", "fish", "egg"],
+  // Jains also avoid onion, garlic, potato and other roots and tubers
+  jain: ["meat", "fish", "egg", "root-vegetable"],
+  vegan: ["meat", "fish", "egg", "dairy", "lanolin"],
+};
+
+// ==========================================
+// TRAINING
+// ==========================================
+
+// A week's sessions in order of priority; a program takes as many as it has training days.
+// Every mix has two strength sessions within its first three (WHO: muscle-strengthening on
+// 2+ days a week).
+export const PREFERENCE_SESSIONS: Record<ExercisePreference, SessionType[]> = {
+  cardio: ["zone-2", "strength", "strength", "intervals", "zone-2"],
+  strength: ["strength", "strength", "zone-2", "strength", "mobility"],
+  yoga: ["mobility", "strength", "strength", "mobility", "zone-2"],
+  dance: ["dance", "strength", "strength", "dance", "mobility"],
+  sports: ["sport", "strength", "strength", "intervals", "sport"],
+  walking: ["zone-2", "strength", "strength", "zone-2", "mobility"],
+  none: ["strength", "zone-2", "strength", "mobility", "zone-2"],
+};
+
+// Ordered so a user can do anything that needs the same or less
+export const EQUIPMENT_LEVELS: Record<ExerciseEquipment, number> = {
+  none: 0,
+  "home-basics": 1, // Dumbbells or resistance bands
+  gym: 2,
+};
+
+/**
+ * The answer if the table knows it, otherwise the fallback. Quizzes saved by older
+ * versions may miss answers or hold values the schema has since dropped.
+ */
+export function answerOr<K extends string>(
+  table: Record<K, unknown>,
+  answer: string | undefined,
+  fallback: K,
+): K {
+  return answer && Object.prototype.hasOwnProperty.call(table, answer)
+    ? (answer as K)
+    : fallback;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import type { SleepAssessmentAnswers, WellnessQuiz } from "./api";
+import { analyzeQuizData } from "./personalization-engine";
+import {
+  describeSleepAssessment,
+  scoreSleepAssessment,
+  SLEEP_INSTRUMENTS,
+  SleepInstrument,
+} from "./sleep-assessment";
+
+// The same option for every question of an instrument, clamped to the options it has
+const answerAll = (
+  instrument: SleepInstrument,
+  optionIndex: number,
+): SleepAssessmentAnswers =>
+  Object.fromEntries(
+    SLEEP_INSTRUMENTS[instrument].questions.map((question) => [
+      question.id,
+      Math.min(optionIndex, question.options.length - 1),
+    ]),
+  );
+
+describe("scoreSleepAssessment", () => {
+  it("should score the morningness scale into a chronotype", () => {
+    expect(
+      scoreSleepAssessment(answerAll("morningness", 0)).morningness,
+    ).toEqual({
+      score: 22, // 5 + 1 + 5 + 5 + 6 - very tired on waking
+      category: "Definitely morning",
+      chronotype: "morning",
+    });
+    expect(
+      scoreSleepAssessment(answerAll("morningness", 4)).morningness,
+    ).toEqual({
+      score: 7, // 1 + 4 + 1 + 1 + 0
+      category: "Definitely evening",
+      chronotype: "evening",
+    });
+  });
+
+  it("should score sleep quality and insomnia into a 1-100 sleep score", () => {
+    const best = scoreSleepAssessment({
+      ...answerAll("sleepQuality", 0),
+      ...answerAll("insomnia", 0),
+    });
+    expect(best.sleepQuality).toMatchObject({ global: 0, poor: false });
+    expect(best.insomnia).toEqual({ total: 0, severity: "none" });
+    expect(best.sleepScore).toBe(100);
+
+    const worst = scoreSleepAssessment({
+      ...answerAll("sleepQuality", 3),
+      ...answerAll("insomnia", 4),
+    });
+    expect(worst.sleepQuality).toMatchObject({ global: 21, poor: true });
+    expect(worst.insomnia).toEqual({ total: 28, severity: "severe" });
+    expect(worst.sleepScore).toBe(1);
+  });
+
+  it("should ignore a part until every question is answered", () => {
+    const { "psqi-daytime": _, ...partial } = answerAll("sleepQuality", 1);
+
+    expect(scoreSleepAssessment(partial)).toBeUndefined();
+    expect(scoreSleepAssessment({ "psqi-quality": 9 })).toBeUndefined();
+    expect(scoreSleepAssessment(undefined)).toBeUndefined();
+  });
+
+  it("should describe each sub-score and refer moderate insomnia to CBT-I", () => {
+    const lines = describeSleepAssessment(
+      scoreSleepAssessment(answerAll("insomnia", 2)),
+    );
+
+    expect(lines[0]).toBe(
+      "Insomnia severity: 14 of 28 - subthreshold insomnia (0-7 none, 8-14 subthreshold, 15-21 moderate, 22-28 severe).",
+    );
+    expect(
+      describeSleepAssessment(
+        scoreSleepAssessment(answerAll("insomnia", 3)),
+      ).join(" "),
+    ).toContain("CBT-I");
+  });
+});
+
+describe("analyzeQuizData with a sleep assessment", () => {
+  const quiz = {
+    age: 30,
+    sleepHours: "7-8",
+    wakeUpTime: "6-8",
+  } as WellnessQuiz;
+
+  it("should replace the sleep-hours score and wake-time chronotype", () => {
+    const { profile, insights } = analyzeQuizData({
+      ...quiz,
+      sleepAssessment: {
+        ...answerAll("morningness", 4),
+        ...answerAll("sleepQuality", 2),
+        ...answerAll("insomnia", 2),
+      },
+    });
+
+    expect(profile.sleepScore).toBe(42); // Average of 1 - 14/21 and 1 - 14/28
+    expect(insights.sleepWakePlan.chronotype).toBe("evening");
+    expect(insights.sleepAssessment.insomnia.severity).toBe("subthreshold");
+  });
+
+  it("should keep the sleep-hours score without one", () => {
+    const { profile, insights } = analyzeQuizData(quiz);
+
+    expect(profile.sleepScore).toBe(85);
+    expect(insights.sleepWakePlan.chronotype).toBe("intermediate");
+    expect(insights.sleepAssessment).toBeUndefined();
+  });
+});
@@ -0,0 +1,409 @@
+// Sleep assessment - the optional extended sleep questionnaire and its scoring. Three parts,
+// each modelled on a validated instrument:
+// - Morningness: the reduced Morningness-Eveningness Questionnaire (rMEQ, Adan & Almirall 1991)
+// - Sleep quality: one question per Pittsburgh Sleep Quality Index (PSQI) component
+// - Insomnia: the Insomnia Severity Index (ISI, Morin 1993)
+// A completed part replaces the sleep-hours estimate: morningness sets the chronotype, sleep
+// quality and insomnia set the sleep score. Pure and browser-safe.
+
+import type { SleepAssessmentAnswers } from "./api";
+import type { Chronotype } from "./quiz-answers";
+
+export type SleepInstrument = "morningness" | "sleepQuality" | "insomnia";
+
+export interface AssessmentQuestion {
+  id: string;
+  text: string;
+  options: Array<{ label: string; points: number }>;
+}
+
+interface Instrument {
+  title: string;
+  basedOn: string;
+  questions: AssessmentQuestion[];
+}
+
+const PAST_MONTH_FREQUENCY = [
+  { label: "Not during the past month", points: 0 },
+  { label: "Less than once a week", points: 1 },
+  { label: "Once or twice a week", points: 2 },
+  { label: "Three or more times a week", points: 3 },
+];
+
+const SEVERITY = [
+  { label: "None", points: 0 },
+  { label: "Mild", points: 1 },
+  { label: "Moderate", points: 2 },
+  { label: "Severe", points: 3 },
+  { label: "Very severe", points: 4 },
+];
+
+const EXTENT = [
+  { label: "Not at all", points: 0 },
+  { label: "A little", points: 1 },
+  { label: "Somewhat", points: 2 },
+  { label: "Much", points: 3 },
+  { label: "Very much", points: 4 },
+];
+
+export const SLEEP_INSTRUMENTS: Record<SleepInstrument, Instrument> = {
+  morningness: {
+    title: "Your body clock",
+    basedOn: "the reduced Morningness-Eveningness Questionnaire",
+    questions: [
+      {
+        id: "meq-free-wake",
+        text: "If you were entirely free to plan your day, when would you get up?",
+        options: [
+          { label: "5:00-6:30 AM", points: 5 },
+          { label: "6:30-7:45 AM", points: 4 },
+          { label: "7:45-9:45 AM", points: 3 },
+          { label: "9:45-11:00 AM", points: 2 },
+          { label: "11:00 AM-12:00 PM", points: 1 },
+        ],
+      },
+      {
+        id: "meq-morning-tiredness",
+        text: "In the first half-hour after waking, how tired do you feel?",
+        options: [
+          { label: "Very tired", points: 1 },
+          { label: "Fairly tired", points: 2 },
+          { label: "Fairly refreshed", points: 3 },
+          { label: "Very refreshed", points: 4 },
+        ],
+      },
+      {
+        id: "meq-evening-tiredness",
+        text: "When in the evening do you feel tired and in need of sleep?",
+        options: [
+          { label: "8:00-9:00 PM", points: 5 },
+          { label: "9:00-10:15 PM", points: 4 },
+          { label: "10:15 PM-12:45 AM", points: 3 },
+          { label: "12:45-2:00 AM", points: 2 },
+          { label: "2:00-3:00 AM", points: 1 },
+        ],
+      },
+      {
+        id: "meq-peak",
+        text: "At what time of day do you feel your best?",
+        options: [
+          { label: "5:00-8:00 AM", points: 5 },
+          { label: "8:00-10:00 AM", points: 4 },
+          { label: "10:00 AM-5:00 PM", points: 3 },
+          { label: "5:00-10:00 PM", points: 2 },
+          { label: "10:00 PM-5:00 AM", points: 1 },
+        ],
+      },
+      {
+        id: "meq-self-type",
+        text: "Which of these are you?",
+        options: [
+          { label: "Definitely a morning person", points: 6 },
+          { label: "More a morning than an evening person", points: 4 },
+          { label: "More an evening than a morning person", points: 2 },
+          { label: "Definitely an evening person", points: 0 },
+        ],
+      },
+    ],
+  },
+  sleepQuality: {
+    title: "Your sleep over the past month",
+    basedOn: "the Pittsburgh Sleep Quality Index",
+    questions: [
+      {
+        id: "psqi-quality",
+        text: "How would you rate your sleep quality overall?",
+        options: [
+          { label: "Very good", points: 0 },
+          { label: "Fairly good", points: 1 },
+          { label: "Fairly bad", points: 2 },
+          { label: "Very bad", points: 3 },
+        ],
+      },
+      {
+        id: "psqi-latency",
+        text: "How long does it usually take you to fall asleep?",
+        options: [
+          { label: "15 minutes or less", points: 0 },
+          { label: "16-30 minutes", points: 1 },
+          { label: "31-60 minutes", points: 2 },
+          { label: "More than an hour", points: 3 },
+        ],
+      },
+      {
+        id: "psqi-duration",
+        text: "How many hours of actual sleep do you get a night?",
+        options: [
+          { label: "More than 7 hours", points: 0 },
+          { label: "6-7 hours", points: 1 },
+          { label: "5-6 hours", points: 2 },
+          { label: "Less than 5 hours", points: 3 },
+        ],
+      },
+      {
+        id: "psqi-efficiency",
+        text: "Of the time you spend in bed, how much are you actually asleep?",
+        options: [
+          { label: "Nearly all of it (85% or more)", points: 0 },
+          { label: "Most of it (75-84%)", points: 1 },
+          { label: "About two-thirds (65-74%)", points: 2 },
+          { label: "Less than two-thirds", points: 3 },
+        ],
+      },
+      {
+        id: "psqi-disturbances",
+        text: "How often is your sleep broken - waking in the night, bathroom trips, feeling too hot or cold, pain?",
+        options: PAST_MONTH_FREQUENCY,
+      },
+      {
+        id: "psqi-medication",
+        text: "How often do you take medicine to help you sleep?",
+        options: PAST_MONTH_FREQUENCY,
+      },
+      {
+        id: "psqi-daytime",
+        text: "How often do you struggle to stay awake, or to keep up enthusiasm, during the day?",
+        options: PAST_MONTH_FREQUENCY,
+      },
+    ],
+  },
+  insomnia: {
+    title: "Sleep problems over the past two weeks",
+    basedOn: "the Insomnia Severity Index",
+    questions: [
+      {
+        id: "isi-falling-asleep",
+        text: "Difficulty falling asleep",
+        options: SEVERITY,
+      },
+      {
+        id: "isi-staying-asleep",
+        text: "Difficulty staying asleep",
+        options: SEVERITY,
+      },
+      {
+        id: "isi-early-waking",
+        text: "Waking up too early",
+        options: SEVERITY,
+      },
+      {
+        id: "isi-satisfaction",
+        text: "How satisfied are you with your current sleep?",
+        options: [
+          { label: "Very satisfied", points: 0 },
+          { label: "Satisfied", points: 1 },
+          { label: "Neither satisfied nor dissatisfied", points: 2 },
+          { label: "Dissatisfied", points: 3 },
+          { label: "Very dissatisfied", points: 4 },
+        ],
+      },
+      {
+        id: "isi-noticeable",
+        text: "How noticeable to others is the effect of your sleep problem on your life?",
+        options: EXTENT,
+      },
+      {
+        id: "isi-worry",
+        text: "How worried or distressed are you about your sleep?",
+        options: EXTENT,
+      },
+      {
+        id: "isi-interference",
+        text: "How much does your sleep problem interfere with your daily life (energy, mood, concentration, work)?",
+        options: EXTENT,
+      },
+    ],
+  },
+};
+
+export interface MorningnessScore {
+  score: number; // 4-25, higher is more of a morning type
+  category: string; // "Moderately evening"
+  chronotype: Chronotype;
+}
+
+export interface SleepQualityScore {
+  global: number; // 0-21; above 5 is poor sleep
+  poor: boolean;
+  components: Array<{ component: string; score: number }>; // Each 0-3
+}
+
+export interface InsomniaScore {
+  total: number; // 0-28
+  severity: "none" | "subthreshold" | "moderate" | "severe";
+}
+
+// Only the parts the user completed
+export interface SleepAssessmentResult {
+  morningness?: MorningnessScore;
+  sleepQuality?: SleepQualityScore;
+  insomnia?: InsomniaScore;
+  sleepScore?: number; // 1-100, from sleep quality and insomnia
+}
+
+const POOR_SLEEP_ABOVE = 5;
+
+// rMEQ cut-offs, from the lowest score up
+const MORNINGNESS_CATEGORIES: Array<{
+  from: number;
+  category: string;
+  chronotype: Chronotype;
+}> = [
+  { from: 4, category: "Definitely evening", chronotype: "evening" },
+  { from: 8, category: "Moderately evening", chronotype: "evening" },
+  {
+    from: 12,
+    category: "Neither morning nor evening",
+    chronotype: "intermediate",
+  },
+  { from: 18, category: "Moderately morning", chronotype: "morning" },
+  { from: 22, category: "Definitely morning", chronotype: "morning" },
+];
+
+const INSOMNIA_SEVERITIES: Array<{
+  from: number;
+  severity: InsomniaScore["severity"];
+}> = [
+  { from: 0, severity: "none" },
+  { from: 8, severity: "subthreshold" },
+  { from: 15, severity: "moderate" },
+  { from: 22, severity: "severe" },
+];
+
+const PSQI_COMPONENTS: Record<string, string> = {
+  "psqi-quality": "Subjective sleep quality",
+  "psqi-latency": "Time to fall asleep",
+  "psqi-duration": "Sleep duration",
+  "psqi-efficiency": "Sleep efficiency",
+  "psqi-disturbances": "Sleep disturbances",
+  "psqi-medication": "Sleep medication",
+  "psqi-daytime": "Daytime dysfunction",
+};
+
+/**
+ * Points for each of the instrument's questions, or undefined unless every question has a
+ * valid answer - a partly filled questionnaire isn't a valid score
+ */
+function instrumentPoints(
+  instrument: SleepInstrument,
+  answers: SleepAssessmentAnswers,
+): number[] | undefined {
+  const points = SLEEP_INSTRUMENTS[instrument].questions.map(
+    (question) => question.options[answers[question.id]]?.points,
+  );
+  return points.every((point) => point !== undefined) ? points : undefined;
+}
+
+const sum = (points: number[]) =>
+  points.reduce((total, point) => total + point, 0);
+
+const bandFor = <T extends { from: number }>(bands: T[], score: number): T =>
+  bands.filter((band) => score >= band.from).pop();
+
+export function isInstrumentComplete(
+  instrument: SleepInstrument,
+  answers: SleepAssessmentAnswers | undefined,
+): boolean {
+  return Boolean(answers && instrumentPoints(instrument, answers));
+}
+
+export function scoreSleepAssessment(
+  answers: SleepAssessmentAnswers | undefined,
+): SleepAssessmentResult | undefined {
+  if (!answers) return undefined;
+  const result: SleepAssessmentResult = {};
+
+  const morningness = instrumentPoints("morningness", answers);
+  if (morningness) {
+    const score = sum(morningness);
+    const { category, chronotype } = bandFor(MORNINGNESS_CATEGORIES, score);
+    result.morningness = { score, category, chronotype };
+  }
+
+  const sleepQuality = instrumentPoints("sleepQuality", answers);
+  if (sleepQuality) {
+    const global = sum(sleepQuality);
+    result.sleepQuality = {
+      global,
+      poor: global > POOR_SLEEP_ABOVE,
+      components: SLEEP_INSTRUMENTS.sleepQuality.questions.map(
+        (question, index) => ({
+          component: PSQI_COMPONENTS[question.id],
+          score: sleepQuality[index],
+        }),
+      ),
+    };
+  }
+
+  const insomnia = instrumentPoints("insomnia", answers);
+  if (insomnia) {
+    const total = sum(insomnia);
+    result.insomnia = {
+      total,
+      severity: bandFor(INSOMNIA_SEVERITIES, total).severity,
+    };
+  }
+
+  // Each completed scale as a share of its best score, averaged
+  const shares = [
+    result.sleepQuality && 1 - result.sleepQuality.global / 21,
+    result.insomnia && 1 - result.insomnia.total / 28,
+  ].filter((share) => share !== undefined);
+  if (shares.length > 0) {
+    result.sleepScore = Math.max(
+      1,
+      Math.round((sum(shares) / shares.length) * 100),
+    );
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+const INSOMNIA_LABELS: Record<InsomniaScore["severity"], string> = {
+  none: "no clinically significant insomnia",
+  subthreshold: "subthreshold insomnia",
+  moderate: "moderate insomnia",
+  severe: "severe insomnia",
+};
+
+// What each sub-score means, one line each, for the PDFs
+export function describeSleepAssessment(
+  result: SleepAssessmentResult,
+): string[] {
+  const lines: string[] = [];
+  const { morningness, sleepQuality, insomnia } = result;
+
+  if (morningness) {
+    lines.push(
+      `Chronotype: ${morningness.category} (morningness ${morningness.score} of 25; 4-11 is an evening type, 18-25 a morning type). Your sleep-wake schedule is timed for it.`,
+    );
+  }
+  if (sleepQuality) {
+    const weakest = sleepQuality.components
+      .filter((component) => component.score >= 2)
+      .map((component) => component.component.toLowerCase());
+    lines.push(
+      `Sleep quality: ${sleepQuality.global} of 21 - ${
+        sleepQuality.poor ? "poor" : "good"
+      } (above ${POOR_SLEEP_ABOVE} means poor sleep).${
+        weakest.length > 0 ? ` Weakest areas: ${weakest.join(", ")}.` : ""
+      }`,
+    );
+  }
+  if (insomnia) {
+    lines.push(
+      `Insomnia severity: ${insomnia.total} of 28 - ${INSOMNIA_LABELS[insomnia.severity]} (0-7 none, 8-14 subthreshold, 15-21 moderate, 22-28 severe).`,
+    );
+    if (insomnia.severity === "moderate" || insomnia.severity === "severe") {
+      lines.push(
+        "Cognitive behavioural therapy for insomnia (CBT-I) is the first-line treatment and works better long-term than sleeping pills - ask your doctor for a referral.",
+      );
+    }
+  }
+  if (result.sleepScore !== undefined) {
+    lines.push(
+      `Your sleep score of ${result.sleepScore}/100 comes from these answers rather than from hours slept alone.`,
+    );
+  }
+  return lines;
+}
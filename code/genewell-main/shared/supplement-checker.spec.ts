@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { SupplementCheckRequestSchema } from "./api";
+import {
+  checkSupplements,
+  identifySupplement,
+  parseDailyDose,
+  reconcileSupplementStack,
+} from "./supplement-checker";
+
+const check = (request: Record<string, unknown>) =>
+  checkSupplements(SupplementCheckRequestSchema.parse(request));
+
+describe("identifySupplement", () => {
+  it("should resolve free text to the most specific entry", () => {
+    expect(identifySupplement("Omega-3 (EPA+DHA 2-3g daily)")).toBe("omega-3");
+    expect(identifySupplement("Algae oil omega-3 (EPA+DHA 2-3g daily)")).toBe(
+      "algae-omega-3",
+    );
+    expect(identifySupplement("Magnesium glycinate 200mg")).toBe("magnesium");
+    expect(identifySupplement("Iron supplementation")).toBe("iron");
+    expect(identifySupplement("Environment-friendly tea")).toBeUndefined();
+  });
+});
+
+describe("parseDailyDose", () => {
+  it("should take the top of a range and normalize units", () => {
+    expect(parseDailyDose("Vitamin D3 (2000-4000 IU daily)")).toEqual({
+      amount: 4000,
+      unit: "IU",
+    });
+    expect(parseDailyDose("Vitamin D3 5,000 IU")).toEqual({
+      amount: 5000,
+      unit: "IU",
+    });
+    expect(parseDailyDose("Omega-3 (EPA+DHA 2-3g daily)")).toEqual({
+      amount: 3,
+      unit: "g",
+    });
+    expect(parseDailyDose("Probiotics (10-50 billion CFU)")).toBeUndefined();
+  });
+});
+
+describe("checkSupplements", () => {
+  it("should merge duplicates and keep the highest dose", () => {
+    const { supplements, warnings } = check({
+      supplements: ["Magnesium glycinate 200mg", "Magnesium citrate 300mg"],
+    });
+
+    expect(supplements).toHaveLength(1);
+    expect(supplements[0]).toMatchObject({
+      id: "magnesium",
+      dose: { amount: 300, unit: "mg" },
+    });
+    expect(warnings.map((w) => w.type)).toEqual(["duplicate"]);
+  });
+
+  it("should count a multivitamin towards upper limits", () => {
+    const { warnings } = check({
+      supplements: ["Vitamin D3 100 mcg"],
+      supplementUsage: "multivitamin",
+    });
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        supplement: "Vitamin D3",
+        type: "upper-limit",
+        message: expect.stringContaining("4,600 IU a day"),
+      }),
+    ]);
+  });
+
+  it("should flag medication and condition interactions", () => {
+    const { warnings } = check({
+      supplements: ["Potassium citrate", "Iron 60mg"],
+      medications: ["Telmisartan 40mg"],
+      medicalConditions: ["thyroid"],
+    });
+
+    expect(warnings.map((w) => [w.supplement, w.type, w.severity])).toEqual([
+      ["Potassium", "medication", "avoid"],
+      ["Iron", "upper-limit", "caution"],
+      ["Iron", "condition", "caution"],
+    ]);
+  });
+
+  it("should offer alternatives for intolerances and diets", () => {
+    const { supplements, warnings } = check({
+      supplements: ["Fish oil 1g", "Whey protein", "Vitamin D3"],
+      foodIntolerances: ["seafood"],
+      dietaryPreference: "vegetarian",
+    });
+
+    expect(supplements.map((s) => s.alternative)).toEqual([
+      "Algae oil omega-3",
+      undefined,
+      undefined,
+    ]);
+    expect(warnings).toEqual([
+      expect.objectContaining({ type: "intolerance", severity: "avoid" }),
+      expect.objectContaining({ type: "diet", severity: "avoid" }),
+    ]);
+  });
+
+  it("should judge animal sources by dietary pattern", () => {
+    const supplements = ["Fish oil 1g", "Whey protein", "Vitamin D3"];
+    const alternatives = (dietaryPreference: string) =>
+      check({ supplements, dietaryPreference }).supplements.map(
+        (s) => s.alternative,
+      );
+
+    expect(alternatives("pescatarian")).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    expect(alternatives("jain")).toEqual([
+      "Algae oil omega-3",
+      undefined,
+      undefined,
+    ]);
+    expect(alternatives("vegan")).toEqual([
+      "Algae oil omega-3",
+      "Pea or soy protein",
+      "Vegan vitamin D3 from lichen",
+    ]);
+  });
+
+  it("should report names it doesn't know", () => {
+    const { warnings } = check({ supplements: ["Shilajit resin"] });
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        supplement: "Shilajit resin",
+        type: "unrecognized",
+      }),
+    ]);
+  });
+});
+
+describe("reconcileSupplementStack", () => {
+  it("should dedupe and swap in alternatives before warning", () => {
+    const { stack, warnings } = reconcileSupplementStack(
+      [
+        "Omega-3 (EPA+DHA 2-3g daily - anti-inflammatory)",
+        "Magnesium glycinate (200-350mg daily - reduces cortisol)",
+        "Magnesium glycinate (200-350mg before bed)",
+      ],
+      { foodIntolerances: ["seafood"], medications: [] },
+    );
+
+    expect(stack).toEqual([
+      "Algae oil omega-3 (EPA+DHA 2-3g daily - anti-inflammatory)",
+      "Magnesium glycinate (200-350mg daily - reduces cortisol)",
+    ]);
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,325 @@
+// Supplement safety checker - resolves free-text supplement names against the knowledge base,
+// merges duplicates and flags upper limits, medication interactions, condition cautions,
+// food intolerances and diet conflicts.
+// Pure: the personalization engine runs its own stack through it and the API checks user lists.
+
+import type { CheckedSupplement, SupplementWarning } from "./api";
+import { findSupplementCaution, getConditionGuidance } from "./condition-rules";
+import {
+  answerOr,
+  DIET_EXCLUDED_SOURCES,
+  DietaryPreference,
+} from "./quiz-answers";
+import {
+  DoseUnit,
+  MEDICATION_GROUPS,
+  SUPPLEMENT_KNOWLEDGE,
+  SUPPLEMENT_USAGE_PRODUCTS,
+  SupplementId,
+  SupplementInfo,
+} from "./supplement-knowledge";
+
+export interface SupplementCheckResult {
+  supplements: CheckedSupplement[];
+  warnings: SupplementWarning[];
+}
+
+// A validated SupplementCheckRequest, or the engine's own answers from the quiz
+export interface SupplementCheckInput {
+  supplements?: string[];
+  medications?: string[];
+  medicalConditions?: readonly string[];
+  foodIntolerances?: readonly string[];
+  dietaryPreference?: DietaryPreference;
+  supplementUsage?: string;
+}
+
+export type SupplementContext = Omit<SupplementCheckInput, "supplements">;
+
+const MG_PER_UNIT: Partial<Record<DoseUnit, number>> = {
+  mcg: 0.001,
+  mg: 1,
+  g: 1000,
+};
+
+const SEVERITY_ORDER: Record<SupplementWarning["severity"], number> = {
+  avoid: 0,
+  caution: 1,
+  info: 2,
+};
+
+// Lower-case words separated by single spaces, padded so phrases match on word boundaries
+function normalize(text: string): string {
+  return ` ${text
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, " ")
+    .trim()} `;
+}
+
+function mentions(normalizedText: string, phrase: string): boolean {
+  return normalizedText.includes(` ${phrase} `);
+}
+
+/**
+ * The knowledge-base entry a free-text name refers to. The longest matching alias wins,
+ * so "algae oil omega-3" resolves to the algae entry rather than fish oil.
+ */
+export function identifySupplement(text: string): SupplementId | undefined {
+  const normalized = normalize(text);
+  let best: { id: SupplementId; length: number } | undefined;
+
+  for (const [id, info] of Object.entries(SUPPLEMENT_KNOWLEDGE)) {
+    for (const alias of info.aliases) {
+      if (
+        mentions(normalized, alias) &&
+        (!best || alias.length > best.length)
+      ) {
+        best = { id: id as SupplementId, length: alias.length };
+      }
+    }
+  }
+  return best?.id;
+}
+
+/**
+ * The daily dose written in the text, taking the top of a range ("300-400mg" is 400mg)
+ */
+export function parseDailyDose(
+  text: string,
+): { amount: number; unit: DoseUnit } | undefined {
+  const match = text.match(
+    /(\d[\d,]*(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d[\d,]*(?:\.\d+)?))?\s*(mcg|µg|ug|mg|g|iu)\b/i,
+  );
+  if (!match) return undefined;
+
+  const amount = parseFloat((match[2] || match[1]).replace(/,/g, ""));
+  const unit = match[3].toLowerCase();
+  return {
+    amount,
+    unit:
+      unit === "iu"
+        ? "IU"
+        : unit === "µg" || unit === "ug"
+          ? "mcg"
+          : (unit as DoseUnit),
+  };
+}
+
+// Converts a dose into the unit of the entry's upper limit, if the two are comparable
+function toLimitUnit(
+  dose: { amount: number; unit: DoseUnit },
+  info: SupplementInfo,
+): { amount: number; unit: DoseUnit } | undefined {
+  const target = info.upperLimit?.unit;
+  if (!target || dose.unit === target) return dose;
+
+  let mg: number | undefined;
+  if (dose.unit === "IU") {
+    mg = info.iuPerMcg ? (dose.amount / info.iuPerMcg) * 0.001 : undefined;
+  } else {
+    mg = dose.amount * MG_PER_UNIT[dose.unit];
+  }
+  if (mg === undefined) return undefined;
+
+  if (target === "IU") {
+    return info.iuPerMcg
+      ? { amount: Math.round(mg * 1000 * info.iuPerMcg), unit: "IU" }
+      : undefined;
+  }
+  return { amount: mg / MG_PER_UNIT[target], unit: target };
+}
+
+function formatDose({ amount, unit }: { amount: number; unit: string }) {
+  const value = Number.isInteger(amount)
+    ? amount.toLocaleString("en-IN")
+    : amount;
+  return unit === "IU" ? `${value} IU` : `${value}${unit}`;
+}
+
+/**
+ * Checks a supplement list against the user's medications, conditions, intolerances,
+ * diet and whatever they already take. Warnings come back most severe first.
+ */
+export function checkSupplements(
+  request: SupplementCheckInput,
+): SupplementCheckResult {
+  const {
+    supplements = [],
+    medications = [],
+    medicalConditions = [],
+    foodIntolerances = [],
+    dietaryPreference = "non-veg",
+    supplementUsage,
+  } = request;
+
+  // Merge pass - one entry per supplement, whatever it was called
+  const checked = new Map<string, CheckedSupplement>();
+  const add = (text: string, source: CheckedSupplement["source"]) => {
+    const id = identifySupplement(text);
+    const info = id && SUPPLEMENT_KNOWLEDGE[id];
+    const parsed = info && parseDailyDose(text);
+    const dose = parsed && toLimitUnit(parsed, info);
+    const key = id || normalize(text);
+
+    const existing = checked.get(key);
+    if (!existing) {
+      checked.set(key, {
+        id,
+        name: info ? info.name : text,
+        listedAs: source === "listed" ? [text] : [],
+        source,
+        dose,
+        upperLimit: info?.upperLimit,
+      });
+      return;
+    }
+    if (source === "listed") {
+      existing.listedAs.push(text);
+      existing.source = "listed";
+    }
+    if (dose && (!existing.dose || dose.amount > existing.dose.amount)) {
+      existing.dose = dose;
+    }
+  };
+
+  supplements.forEach((text) => add(text, "listed"));
+  SUPPLEMENT_USAGE_PRODUCTS[
+    answerOr(SUPPLEMENT_USAGE_PRODUCTS, supplementUsage, "none")
+  ].forEach((id) => add(SUPPLEMENT_KNOWLEDGE[id].name, "current"));
+
+  const medicationText = normalize(medications.join(" "));
+  const conditionGuidance = getConditionGuidance(medicalConditions);
+  const takesMultivitamin = checked.has("multivitamin");
+  const warnings: SupplementWarning[] = [];
+
+  checked.forEach((supplement) => {
+    const warn = (warning: Omit<SupplementWarning, "supplement">) =>
+      warnings.push({ supplement: supplement.name, ...warning });
+
+    if (!supplement.id) {
+      warn({
+        type: "unrecognized",
+        severity: "info",
+        message:
+          "Not in our supplement database - ask your pharmacist to check it against your medicines",
+      });
+      return;
+    }
+    const info = SUPPLEMENT_KNOWLEDGE[supplement.id as SupplementId];
+
+    if (supplement.listedAs.length > 1) {
+      warn({
+        type: "duplicate",
+        severity: "info",
+        message: `Listed ${supplement.listedAs.length} times - counted once at the highest dose. If these are separate products, their doses add up`,
+      });
+    }
+
+    const fromMultivitamin =
+      takesMultivitamin && supplement.id !== "multivitamin"
+        ? info.multivitaminAmount || 0
+        : 0;
+    const total = (supplement.dose?.amount || 0) + fromMultivitamin;
+    if (info.upperLimit && supplement.dose && total > info.upperLimit.amount) {
+      const { unit, basis } = info.upperLimit;
+      warn({
+        type: "upper-limit",
+        severity: "caution",
+        message: `${formatDose({ amount: total, unit })} a day${
+          fromMultivitamin
+            ? ` (including about ${formatDose({ amount: fromMultivitamin, unit })} from your multivitamin)`
+            : ""
+        } is above the safe upper limit of ${formatDose(info.upperLimit)} (${basis}) - lower the dose`,
+      });
+    }
+
+    info.interactions.forEach(({ medication, severity, message }) => {
+      const group = MEDICATION_GROUPS[medication];
+      if (group.keywords.some((word) => mentions(medicationText, word))) {
+        warn({
+          type: "medication",
+          severity,
+          message: `With ${group.label}: ${message}`,
+        });
+      }
+    });
+
+    const conditionCaution = findSupplementCaution(
+      [supplement.name, ...supplement.listedAs].join(" "),
+      conditionGuidance,
+    );
+    if (conditionCaution) {
+      warn({
+        type: "condition",
+        severity: "caution",
+        message: conditionCaution,
+      });
+    }
+
+    const alternative = info.alternative
+      ? SUPPLEMENT_KNOWLEDGE[info.alternative].name
+      : undefined;
+    const intolerances = (info.intolerances || []).filter((intolerance) =>
+      foodIntolerances.includes(intolerance),
+    );
+    if (intolerances.length > 0) {
+      supplement.alternative = alternative;
+      warn({
+        type: "intolerance",
+        severity: "avoid",
+        message: `Conflicts with your ${intolerances.join(" and ")} intolerance`,
+        alternative,
+      });
+    }
+
+    const excludedSources =
+      DIET_EXCLUDED_SOURCES[
+        answerOr(DIET_EXCLUDED_SOURCES, dietaryPreference, "non-veg")
+      ];
+    if (
+      (info.sources || []).some((source) => excludedSources.includes(source))
+    ) {
+      supplement.alternative = alternative;
+      warn({
+        type: "diet",
+        severity: "avoid",
+        message: `Animal-derived - not suitable for a ${dietaryPreference} diet`,
+        alternative,
+      });
+    }
+  });
+
+  return {
+    supplements: Array.from(checked.values()),
+    warnings: warnings.sort(
+      (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity],
+    ),
+  };
+}
+
+/**
+ * Runs a recommended stack through the checker, drops duplicates and swaps in the
+ * alternative for anything the user's diet or intolerances rule out. The warnings
+ * describe the stack that comes back, not the one that went in.
+ */
+export function reconcileSupplementStack(
+  stack: string[],
+  context: SupplementContext,
+): { stack: string[]; warnings: SupplementWarning[] } {
+  const { supplements } = checkSupplements({ ...context, supplements: stack });
+
+  const reconciled = supplements
+    .filter((supplement) => supplement.source === "listed")
+    .map(({ listedAs: [text], alternative }) => {
+      if (!alternative) return text;
+      // Keep the dose and reason: "Omega-3 (EPA+DHA 2-3g ...)" -> "Algae oil omega-3 (EPA+DHA 2-3g ...)"
+      const details = text.indexOf(" (");
+      return details === -1 ? alternative : alternative + text.slice(details);
+    });
+
+  const { warnings } = checkSupplements({
+    ...context,
+    supplements: reconciled,
+  });
+  return { stack: reconciled, warnings };
+}
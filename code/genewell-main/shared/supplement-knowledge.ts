@@ -0,0 +1,401 @@
+// Supplement knowledge base - identities, safe upper limits, medication interactions and
+// diet/allergen-safe alternatives. All the knowledge lives here; supplement-checker.ts only
+// evaluates it. Condition-specific cautions stay in condition-rules.ts.
+
+import type { WellnessQuiz } from "./api";
+import type { FoodIntolerance, FoodSource } from "./quiz-answers";
+
+export type DoseUnit = "mg" | "mcg" | "g" | "IU";
+export type SupplementUsage = WellnessQuiz["supplementUsage"];
+
+export type SupplementId =
+  | "vitamin-d3"
+  | "vegan-vitamin-d"
+  | "omega-3"
+  | "algae-omega-3"
+  | "magnesium"
+  | "l-theanine"
+  | "probiotics"
+  | "vitamin-b12"
+  | "iron"
+  | "zinc"
+  | "calcium"
+  | "iodine"
+  | "biotin"
+  | "potassium"
+  | "multivitamin"
+  | "whey-protein"
+  | "plant-protein"
+  | "creatine"
+  | "ashwagandha"
+  | "berberine";
+
+export type MedicationGroup =
+  | "levothyroxine"
+  | "antibiotics"
+  | "bisphosphonates"
+  | "bloodThinners"
+  | "raasBlockers"
+  | "glucoseLowering"
+  | "thiazides"
+  | "immunosuppressants"
+  | "acidReducers"
+  | "sedatives";
+
+export interface MedicationInteraction {
+  medication: MedicationGroup;
+  severity: "caution" | "avoid";
+  message: string;
+}
+
+export interface SupplementInfo {
+  name: string;
+  aliases: string[]; // Lower-case phrases that identify it in free text; the longest match wins
+  upperLimit?: { amount: number; unit: DoseUnit; basis: string }; // Adult daily tolerable upper intake level
+  iuPerMcg?: number; // Vitamin D: 40 IU = 1 mcg
+  multivitaminAmount?: number; // Typical amount in a once-daily multivitamin, in upperLimit units
+  interactions: MedicationInteraction[];
+  intolerances?: FoodIntolerance[];
+  sources?: FoodSource[]; // Animal sources a diet may rule out; omitted means vegan
+  alternative?: SupplementId; // Substitute when the diet or an intolerance rules it out
+}
+
+export const MEDICATION_GROUPS: Record<
+  MedicationGroup,
+  { label: string; keywords: string[] }
+> = {
+  levothyroxine: {
+    label: "thyroid medication (levothyroxine)",
+    keywords: ["levothyroxine", "thyroxine", "eltroxin", "thyronorm"],
+  },
+  antibiotics: {
+    label: "quinolone or tetracycline antibiotics",
+    keywords: [
+      "ciprofloxacin",
+      "levofloxacin",
+      "ofloxacin",
+      "moxifloxacin",
+      "doxycycline",
+      "tetracycline",
+      "minocycline",
+    ],
+  },
+  bisphosphonates: {
+    label: "osteoporosis medication (bisphosphonates)",
+    keywords: ["alendronate", "risedronate", "ibandronate"],
+  },
+  bloodThinners: {
+    label: "blood thinners",
+    keywords: [
+      "warfarin",
+      "acitrom",
+      "acenocoumarol",
+      "apixaban",
+      "rivaroxaban",
+      "dabigatran",
+      "clopidogrel",
+      "aspirin",
+    ],
+  },
+  raasBlockers: {
+    label: "ACE inhibitors, ARBs or potassium-sparing diuretics",
+    keywords: [
+      "ramipril",
+      "enalapril",
+      "lisinopril",
+      "losartan",
+      "telmisartan",
+      "olmesartan",
+      "valsartan",
+      "spironolactone",
+      "eplerenone",
+      "amiloride",
+    ],
+  },
+  glucoseLowering: {
+    label: "diabetes medication",
+    keywords: [
+      "metformin",
+      "insulin",
+      "glimepiride",
+      "gliclazide",
+      "glipizide",
+      "sitagliptin",
+      "vildagliptin",
+    ],
+  },
+  thiazides: {
+    label: "thiazide diuretics",
+    keywords: ["hydrochlorothiazide", "chlorthalidone", "indapamide"],
+  },
+  immunosuppressants: {
+    label: "immunosuppressants",
+    keywords: [
+      "tacrolimus",
+      "cyclosporine",
+      "ciclosporin",
+      "mycophenolate",
+      "azathioprine",
+    ],
+  },
+  acidReducers: {
+    label: "acid reducers (PPIs)",
+    keywords: [
+      "omeprazole",
+      "pantoprazole",
+      "esomeprazole",
+      "rabeprazole",
+      "lansoprazole",
+    ],
+  },
+  sedatives: {
+    label: "sedatives or sleeping pills",
+    keywords: ["alprazolam", "clonazepam", "lorazepam", "zolpidem"],
+  },
+};
+
+const SEPARATE_FROM_THYROID_DOSE: MedicationInteraction = {
+  medication: "levothyroxine",
+  severity: "caution",
+  message: "Blocks absorption - take it at least 4 hours apart from your dose",
+};
+
+const SEPARATE_FROM_ANTIBIOTICS: MedicationInteraction = {
+  medication: "antibiotics",
+  severity: "caution",
+  message:
+    "Binds the antibiotic in the gut - take it 2 hours before or 6 hours after",
+};
+
+const OMEGA_3_BLEEDING: MedicationInteraction = {
+  medication: "bloodThinners",
+  severity: "caution",
+  message:
+    "Above 3g a day it adds to bleeding risk - tell your doctor before starting",
+};
+
+// Sources: NIH Office of Dietary Supplements fact sheets, EFSA, ICMR-NIN 2020
+export const SUPPLEMENT_KNOWLEDGE: Record<SupplementId, SupplementInfo> = {
+  "vitamin-d3": {
+    name: "Vitamin D3",
+    aliases: ["vitamin d3", "vitamin d", "cholecalciferol"],
+    upperLimit: { amount: 4000, unit: "IU", basis: "NIH adult UL, 100 mcg" },
+    iuPerMcg: 40,
+    multivitaminAmount: 600,
+    interactions: [
+      {
+        medication: "thiazides",
+        severity: "caution",
+        message: "Together they can raise blood calcium - check levels yearly",
+      },
+    ],
+    sources: ["lanolin"],
+    alternative: "vegan-vitamin-d",
+  },
+  "vegan-vitamin-d": {
+    name: "Vegan vitamin D3 from lichen",
+    aliases: ["lichen", "vegan vitamin d3", "vitamin d2", "ergocalciferol"],
+    upperLimit: { amount: 4000, unit: "IU", basis: "NIH adult UL, 100 mcg" },
+    iuPerMcg: 40,
+    interactions: [],
+  },
+  "omega-3": {
+    name: "Omega-3 (fish oil)",
+    aliases: ["omega-3", "omega 3", "fish oil", "cod liver oil", "epa", "dha"],
+    upperLimit: { amount: 5, unit: "g", basis: "EFSA, EPA+DHA combined" },
+    interactions: [OMEGA_3_BLEEDING],
+    intolerances: ["seafood"],
+    sources: ["fish"],
+    alternative: "algae-omega-3",
+  },
+  "algae-omega-3": {
+    name: "Algae oil omega-3",
+    aliases: ["algae oil", "algal oil", "algae omega-3", "algal omega-3"],
+    upperLimit: { amount: 5, unit: "g", basis: "EFSA, EPA+DHA combined" },
+    interactions: [OMEGA_3_BLEEDING],
+  },
+  magnesium: {
+    name: "Magnesium",
+    aliases: ["magnesium", "magnesium glycinate", "magnesium citrate"],
+    upperLimit: {
+      amount: 350,
+      unit: "mg",
+      basis: "NIH UL for supplemental magnesium",
+    },
+    multivitaminAmount: 100,
+    interactions: [SEPARATE_FROM_THYROID_DOSE, SEPARATE_FROM_ANTIBIOTICS],
+  },
+  "l-theanine": {
+    name: "L-Theanine",
+    aliases: ["l-theanine", "theanine"],
+    interactions: [
+      {
+        medication: "sedatives",
+        severity: "caution",
+        message: "Can add to the sedative effect - check with your doctor",
+      },
+    ],
+  },
+  probiotics: {
+    name: "Probiotics",
+    aliases: ["probiotic", "probiotics"],
+    interactions: [
+      {
+        medication: "immunosuppressants",
+        severity: "avoid",
+        message:
+          "Live bacteria can cause infections when immunity is suppressed",
+      },
+    ],
+  },
+  "vitamin-b12": {
+    name: "Vitamin B12",
+    aliases: ["vitamin b12", "b12", "methylcobalamin", "cyanocobalamin"],
+    interactions: [],
+  },
+  iron: {
+    name: "Iron",
+    aliases: ["iron", "ferrous sulphate", "ferrous fumarate", "ferrous"],
+    upperLimit: { amount: 45, unit: "mg", basis: "NIH adult UL" },
+    multivitaminAmount: 18,
+    interactions: [
+      SEPARATE_FROM_THYROID_DOSE,
+      SEPARATE_FROM_ANTIBIOTICS,
+      {
+        medication: "acidReducers",
+        severity: "caution",
+        message:
+          "Stomach acid is needed to absorb iron - recheck ferritin after 3 months",
+      },
+    ],
+  },
+  zinc: {
+    name: "Zinc",
+    aliases: ["zinc"],
+    upperLimit: { amount: 40, unit: "mg", basis: "NIH adult UL" },
+    multivitaminAmount: 11,
+    interactions: [SEPARATE_FROM_ANTIBIOTICS],
+  },
+  calcium: {
+    name: "Calcium",
+    aliases: ["calcium"],
+    upperLimit: { amount: 2500, unit: "mg", basis: "NIH UL, adults 19-50" },
+    multivitaminAmount: 200,
+    interactions: [
+      SEPARATE_FROM_THYROID_DOSE,
+      SEPARATE_FROM_ANTIBIOTICS,
+      {
+        medication: "bisphosphonates",
+        severity: "caution",
+        message: "Take it at least 30 minutes after your bisphosphonate",
+      },
+      {
+        medication: "thiazides",
+        severity: "caution",
+        message: "Together they can raise blood calcium - check levels yearly",
+      },
+    ],
+  },
+  iodine: {
+    name: "Iodine",
+    aliases: ["iodine", "kelp"],
+    upperLimit: { amount: 1100, unit: "mcg", basis: "NIH adult UL" },
+    multivitaminAmount: 150,
+    interactions: [],
+  },
+  biotin: {
+    name: "Biotin",
+    aliases: ["biotin", "vitamin b7"],
+    interactions: [],
+  },
+  potassium: {
+    name: "Potassium",
+    aliases: ["potassium"],
+    interactions: [
+      {
+        medication: "raasBlockers",
+        severity: "avoid",
+        message:
+          "Can push blood potassium dangerously high - get it from food unless prescribed",
+      },
+    ],
+  },
+  multivitamin: {
+    name: "Multivitamin",
+    aliases: ["multivitamin", "multi-vitamin", "multi vitamin"],
+    interactions: [SEPARATE_FROM_THYROID_DOSE, SEPARATE_FROM_ANTIBIOTICS],
+  },
+  "whey-protein": {
+    name: "Whey protein",
+    aliases: ["whey", "whey protein", "protein powder"],
+    interactions: [],
+    intolerances: ["lactose"],
+    sources: ["dairy"],
+    alternative: "plant-protein",
+  },
+  "plant-protein": {
+    name: "Pea or soy protein",
+    aliases: [
+      "pea or soy protein",
+      "pea protein",
+      "soy protein",
+      "plant protein",
+    ],
+    interactions: [],
+  },
+  creatine: {
+    name: "Creatine monohydrate",
+    aliases: ["creatine"],
+    interactions: [],
+  },
+  ashwagandha: {
+    name: "Ashwagandha",
+    aliases: ["ashwagandha"],
+    interactions: [
+      {
+        medication: "levothyroxine",
+        severity: "caution",
+        message: "Can raise thyroid hormone levels - recheck TSH after 6 weeks",
+      },
+      {
+        medication: "sedatives",
+        severity: "caution",
+        message: "Can add to the sedative effect - check with your doctor",
+      },
+      {
+        medication: "immunosuppressants",
+        severity: "avoid",
+        message: "Stimulates the immune system and can counteract them",
+      },
+    ],
+  },
+  berberine: {
+    name: "Berberine",
+    aliases: ["berberine"],
+    interactions: [
+      {
+        medication: "glucoseLowering",
+        severity: "caution",
+        message:
+          "Adds to the glucose-lowering effect and can cause hypoglycaemia",
+      },
+      {
+        medication: "immunosuppressants",
+        severity: "avoid",
+        message: "Raises cyclosporine and tacrolimus blood levels",
+      },
+    ],
+  },
+};
+
+// What the quiz's "current supplements" answer tells us the user already takes
+export const SUPPLEMENT_USAGE_PRODUCTS: Record<
+  SupplementUsage,
+  SupplementId[]
+> = {
+  none: [],
+  multivitamin: ["multivitamin"],
+  protein: ["whey-protein"],
+  "specific-deficiency": [], // Unknown which - the report asks them to check their list
+  multiple: ["multivitamin"], // A multivitamin is almost always part of the mix
+};
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { EXERCISE_LIBRARY } from "./exercise-library";
+import { PREFERENCE_SESSIONS } from "./quiz-answers";
+import {
+  generateTrainingProgram,
+  programProgression,
+  TrainingProfile,
+  TrainingProgram,
+} from "./training-program";
+
+const baseProfile: TrainingProfile = {
+  age: 30,
+  activityScore: 65,
+  exerciseIntensity: "moderate",
+  exercisePreference: ["strength"],
+  exerciseEquipment: "gym",
+};
+
+const find = (name: string) =>
+  EXERCISE_LIBRARY.find((exercise) => exercise.name === name);
+const allExercises = (program: TrainingProgram) =>
+  program.weeks.flatMap((week) =>
+    week.sessions.flatMap((session) => session.exercises),
+  );
+
+describe("generateTrainingProgram", () => {
+  it("should build for three weeks and deload in the fourth of each block", () => {
+    const progression = programProgression(
+      generateTrainingProgram(baseProfile),
+    );
+
+    expect(progression).toHaveLength(12);
+    expect(
+      progression.filter((week) => week.deload).map((week) => week.week),
+    ).toEqual([4, 8, 12]);
+    expect(progression.slice(0, 4)).toEqual([
+      {
+        week: 1,
+        phase: "Foundation",
+        deload: false,
+        sets: 3,
+        reps: "12-15 reps",
+        rpe: 6,
+      },
+      {
+        week: 2,
+        phase: "Foundation",
+        deload: false,
+        sets: 3,
+        reps: "12-15 reps",
+        rpe: 6.5,
+      },
+      {
+        week: 3,
+        phase: "Foundation",
+        deload: false,
+        sets: 4,
+        reps: "12-15 reps",
+        rpe: 7,
+      },
+      {
+        week: 4,
+        phase: "Foundation",
+        deload: true,
+        sets: 2,
+        reps: "12-15 reps",
+        rpe: 5,
+      },
+    ]);
+    expect(progression[8]).toMatchObject({
+      phase: "Strength",
+      reps: "6-8 reps",
+    });
+  });
+
+  it.each(Object.keys(PREFERENCE_SESSIONS))(
+    "should train strength at least twice a week for %s",
+    (preference) => {
+      (["low", "moderate", "high"] as const).forEach((exerciseIntensity) => {
+        const program = generateTrainingProgram({
+          ...baseProfile,
+          exercisePreference: [preference],
+          exerciseIntensity,
+        });
+
+        expect(program.daysPerWeek).toBe(
+          { low: 3, moderate: 4, high: 5 }[exerciseIntensity],
+        );
+        program.weeks.forEach((week) => {
+          expect(week.sessions).toHaveLength(program.daysPerWeek);
+          expect(
+            week.sessions.filter((session) => session.type === "strength")
+              .length,
+          ).toBeGreaterThanOrEqual(2);
+        });
+      });
+    },
+  );
+
+  it("should only use equipment the user has and offer the other setting's version", () => {
+    const atHome = generateTrainingProgram({
+      ...baseProfile,
+      exerciseEquipment: "none",
+    });
+    allExercises(atHome).forEach((exercise) => {
+      expect(find(exercise.name).equipment).toBe("none");
+    });
+    expect(allExercises(atHome)[0]).toMatchObject({
+      name: "Bodyweight squat",
+      substitute: "Barbell back squat",
+    });
+
+    const gym = generateTrainingProgram(baseProfile);
+    expect(allExercises(gym)[0]).toMatchObject({
+      name: "Barbell back squat",
+      substitute: "Goblet squat",
+    });
+  });
+
+  it("should keep older users low-impact and further from failure", () => {
+    const program = generateTrainingProgram({
+      ...baseProfile,
+      age: 65,
+      exercisePreference: ["sports"],
+      exerciseEquipment: "home-basics",
+      exerciseIntensity: "high",
+    });
+
+    allExercises(program).forEach((exercise) => {
+      expect(find(exercise.name).highImpact).toBeFalsy();
+      expect(exercise.rpe).toBeLessThanOrEqual(7);
+    });
+  });
+
+  it("should fall back for unknown preferences and equipment", () => {
+    expect(
+      generateTrainingProgram({
+        ...baseProfile,
+        exercisePreference: ["gym"],
+        exerciseEquipment: undefined,
+      }),
+    ).toEqual(
+      generateTrainingProgram({
+        ...baseProfile,
+        exercisePreference: ["walking"],
+        exerciseEquipment: "none",
+      }),
+    );
+  });
+});
@@ -0,0 +1,394 @@
+// Training program - a 12-week periodized plan from the user's exercise preference,
+// intensity, activity level, age and equipment. Three 4-week blocks each build for three
+// weeks and deload in the fourth; reps drop and effort rises from block to block.
+// Pure and browser-safe: the blueprint and both PDF generators call it.
+
+import {
+  Exercise,
+  EXERCISE_LIBRARY,
+  MovementPattern,
+} from "./exercise-library";
+import type { UserProfile } from "./personalization-engine";
+import {
+  answerOr,
+  EQUIPMENT_LEVELS,
+  ExerciseEquipment,
+  PREFERENCE_SESSIONS,
+  SessionType,
+} from "./quiz-answers";
+
+export type TrainingProfile = Pick<
+  UserProfile,
+  | "age"
+  | "activityScore"
+  | "exerciseIntensity"
+  | "exercisePreference"
+  | "exerciseEquipment"
+>;
+
+type Intensity = UserProfile["exerciseIntensity"];
+
+export interface PrescribedExercise {
+  name: string;
+  pattern: MovementPattern;
+  sets: number; // Rounds for intervals
+  reps: string; // "8-12 reps", "30-45 s", "25 min"
+  rpe: number; // Rate of perceived exertion, 1-10
+  cues: string[];
+  substitute?: string; // The home version of a gym lift, or the gym version of a home one
+}
+
+export interface TrainingSession {
+  day: string;
+  type: SessionType;
+  title: string;
+  durationMin: number;
+  intensity: Intensity;
+  exercises: PrescribedExercise[];
+}
+
+export interface TrainingWeek {
+  week: number;
+  phase: string;
+  deload: boolean;
+  sessions: TrainingSession[];
+}
+
+export interface TrainingProgram {
+  daysPerWeek: number;
+  sessionMinutes: number;
+  equipment: ExerciseEquipment;
+  weeks: TrainingWeek[];
+}
+
+// The main lifts' prescription for one week
+export interface WeeklyProgression {
+  week: number;
+  phase: string;
+  deload: boolean;
+  sets: number;
+  reps: string;
+  rpe: number;
+}
+
+export const PROGRAM_WEEKS = 12;
+const BLOCK_WEEKS = 4; // Three build weeks, then a deload
+
+interface Phase {
+  name: string;
+  reps: string;
+  holdSeconds: string; // Planks and other holds
+  rpe: number; // In the block's first week
+  interval: string;
+}
+
+const PHASES: Phase[] = [
+  {
+    name: "Foundation",
+    reps: "12-15",
+    holdSeconds: "20-30",
+    rpe: 6,
+    interval: "30 s hard / 90 s easy",
+  },
+  {
+    name: "Build",
+    reps: "8-12",
+    holdSeconds: "30-45",
+    rpe: 7,
+    interval: "30 s hard / 60 s easy",
+  },
+  {
+    name: "Strength",
+    reps: "6-8",
+    holdSeconds: "45-60",
+    rpe: 7.5,
+    interval: "40 s hard / 60 s easy",
+  },
+];
+
+const TRAINING_DAYS: Record<Intensity, string[]> = {
+  low: ["Monday", "Wednesday", "Friday"],
+  moderate: ["Monday", "Tuesday", "Thursday", "Saturday"],
+  high: ["Monday", "Tuesday", "Wednesday", "Friday", "Saturday"],
+};
+
+const SESSION_MINUTES: Record<Intensity, number> = {
+  low: 30,
+  moderate: 40,
+  high: 50,
+};
+
+const BASE_SETS: Record<Intensity, number> = { low: 2, moderate: 3, high: 3 };
+
+// Strength days alternate so every pattern is trained each week
+const STRENGTH_SESSIONS: Array<{ title: string; patterns: MovementPattern[] }> =
+  [
+    {
+      title: "Full-body strength A",
+      patterns: ["squat", "push", "pull", "core"],
+    },
+    {
+      title: "Full-body strength B",
+      patterns: ["hinge", "lunge", "overhead-press", "pull", "core"],
+    },
+  ];
+
+const SESSION_TITLES: Record<Exclude<SessionType, "strength">, string> = {
+  "zone-2": "Zone 2 cardio (conversational pace)",
+  intervals: "Interval cardio",
+  mobility: "Yoga & mobility",
+  dance: "Dance cardio",
+  sport: "Sport or game",
+};
+
+// Steady cardio is a walk unless there's a bike; intervals go as hard as the joints allow
+const ZONE_2_CARDIO: Record<ExerciseEquipment, string> = {
+  none: "Brisk walk",
+  "home-basics": "Brisk walk",
+  gym: "Stationary bike",
+};
+const INTERVAL_CARDIO: Record<ExerciseEquipment, string> = {
+  none: "Jog",
+  "home-basics": "Skipping rope",
+  gym: "Stationary bike",
+};
+const LOW_IMPACT_INTERVAL_CARDIO: Record<ExerciseEquipment, string> = {
+  none: "Brisk walk",
+  "home-basics": "Step-ups",
+  gym: "Stationary bike",
+};
+
+const LOW_IMPACT_FROM_AGE = 50;
+
+const byName = (name: string) =>
+  EXERCISE_LIBRARY.find((exercise) => exercise.name === name);
+
+/**
+ * The version of a movement that makes the most of the equipment available; the library
+ * order breaks ties
+ */
+export function exerciseFor(
+  pattern: MovementPattern,
+  equipment: ExerciseEquipment,
+): Exercise {
+  return EXERCISE_LIBRARY.filter(
+    (exercise) =>
+      exercise.pattern === pattern &&
+      EQUIPMENT_LEVELS[exercise.equipment] <= EQUIPMENT_LEVELS[equipment],
+  ).reduce<Exercise | undefined>(
+    (best, exercise) =>
+      !best ||
+      EQUIPMENT_LEVELS[exercise.equipment] > EQUIPMENT_LEVELS[best.equipment]
+        ? exercise
+        : best,
+    undefined,
+  );
+}
+
+// Older trainees and those easing in stop further from failure
+function maxRpe({ age, exerciseIntensity }: TrainingProfile): number {
+  if (age >= 60) return 7;
+  if (age >= LOW_IMPACT_FROM_AGE || exerciseIntensity === "low") return 8;
+  return 9;
+}
+
+/**
+ * A 12-week program: the preferred sessions for as many days as the user's intensity
+ * allows, with full-body strength at least twice a week. Strength work progresses by RPE
+ * within a block and adds a set in its third week; cardio adds minutes or rounds.
+ */
+export function generateTrainingProgram(
+  profile: TrainingProfile,
+): TrainingProgram {
+  const intensity = profile.exerciseIntensity;
+  const equipment = answerOr(
+    EQUIPMENT_LEVELS,
+    profile.exerciseEquipment,
+    "none",
+  );
+  const preference = answerOr(
+    PREFERENCE_SESSIONS,
+    profile.exercisePreference[0],
+    "walking",
+  );
+  const days = TRAINING_DAYS[intensity];
+  const sessionMinutes = SESSION_MINUTES[intensity];
+  const sessionTypes = PREFERENCE_SESSIONS[preference].slice(0, days.length);
+  const rpeCap = maxRpe(profile);
+  const lowImpact = profile.age >= LOW_IMPACT_FROM_AGE;
+  const novice = profile.activityScore < 30;
+  const atHome = EQUIPMENT_LEVELS[equipment] < EQUIPMENT_LEVELS.gym;
+
+  const prescribe = (
+    exercise: Exercise,
+    prescription: Omit<PrescribedExercise, "name" | "pattern" | "cues">,
+  ): PrescribedExercise => ({
+    name: exercise.name,
+    pattern: exercise.pattern,
+    cues: exercise.cues,
+    ...prescription,
+    rpe: Math.min(prescription.rpe, rpeCap),
+  });
+
+  const weeks = Array.from({ length: PROGRAM_WEEKS }, (_, index) => {
+    const block = Math.floor(index / BLOCK_WEEKS);
+    const weekInBlock = index % BLOCK_WEEKS;
+    const deload = weekInBlock === BLOCK_WEEKS - 1;
+    const phase = PHASES[block];
+
+    const strengthSets = deload
+      ? Math.max(1, BASE_SETS[intensity] - 1)
+      : BASE_SETS[intensity] + (weekInBlock === 2 ? 1 : 0);
+    const strengthRpe = deload
+      ? phase.rpe - 1
+      : phase.rpe + weekInBlock * 0.5 - (novice && block === 0 ? 1 : 0);
+    const cardioMinutes = deload
+      ? sessionMinutes - 15
+      : sessionMinutes - 10 + 5 * block + (weekInBlock === 2 ? 5 : 0);
+
+    let strengthCount = 0;
+    const sessions = sessionTypes.map((type, dayIndex): TrainingSession => {
+      const day = days[dayIndex];
+
+      if (type === "strength") {
+        const { title, patterns } =
+          STRENGTH_SESSIONS[strengthCount++ % STRENGTH_SESSIONS.length];
+        return {
+          day,
+          type,
+          title,
+          durationMin: deload ? sessionMinutes - 10 : sessionMinutes,
+          intensity,
+          exercises: patterns.map((pattern) => {
+            const exercise = exerciseFor(pattern, equipment);
+            const substitute = exerciseFor(
+              pattern,
+              atHome ? "gym" : "home-basics",
+            );
+            return prescribe(exercise, {
+              sets: strengthSets,
+              reps:
+                exercise.unit === "seconds"
+                  ? `${phase.holdSeconds} s`
+                  : `${phase.reps} reps`,
+              rpe: strengthRpe,
+              substitute:
+                substitute.name !== exercise.name ? substitute.name : undefined,
+            });
+          }),
+        };
+      }
+
+      if (type === "intervals") {
+        const rounds = deload ? 4 : 6 + 2 * block + (weekInBlock === 2 ? 1 : 0);
+        const cardio = lowImpact ? LOW_IMPACT_INTERVAL_CARDIO : INTERVAL_CARDIO;
+        return {
+          day,
+          type,
+          title: SESSION_TITLES[type],
+          durationMin: rounds * 2 + 10, // Warm-up and cool-down included
+          intensity: "high",
+          exercises: [
+            prescribe(byName(cardio[equipment]), {
+              sets: rounds,
+              reps: phase.interval,
+              rpe: deload ? 7 : 8,
+            }),
+          ],
+        };
+      }
+
+      if (type === "mobility") {
+        return {
+          day,
+          type,
+          title: SESSION_TITLES[type],
+          durationMin: sessionMinutes - 10,
+          intensity: "low",
+          exercises: EXERCISE_LIBRARY.filter(
+            (exercise) => exercise.pattern === "mobility",
+          ).map((exercise) =>
+            prescribe(exercise, {
+              sets: deload ? 1 : 2 + (block === 2 ? 1 : 0),
+              reps: "5-8 slow reps",
+              rpe: 3,
+            }),
+          ),
+        };
+      }
+
+      // Steady work: zone 2, dance or sport
+      const exercise =
+        type === "zone-2"
+          ? byName(ZONE_2_CARDIO[equipment])
+          : exerciseFor(type, equipment);
+      return {
+        day,
+        type,
+        title: SESSION_TITLES[type],
+        durationMin: cardioMinutes + 5,
+        intensity: type === "zone-2" ? "low" : "moderate",
+        exercises: [
+          prescribe(exercise, {
+            sets: 1,
+            reps: `${cardioMinutes} min`,
+            rpe: type === "zone-2" ? 4 : 6 + block * 0.5,
+          }),
+        ],
+      };
+    });
+
+    return { week: index + 1, phase: phase.name, deload, sessions };
+  });
+
+  return {
+    daysPerWeek: days.length,
+    sessionMinutes,
+    equipment,
+    weeks,
+  };
+}
+
+/**
+ * Week-by-week prescription for the main lifts - the first rep-counted exercise of the
+ * week's first strength session
+ */
+export function programProgression(
+  program: TrainingProgram,
+): WeeklyProgression[] {
+  return program.weeks.map(({ week, phase, deload, sessions }) => {
+    const lift = sessions
+      .find((session) => session.type === "strength")
+      .exercises.find((exercise) => exercise.reps.endsWith("reps"));
+    return {
+      week,
+      phase,
+      deload,
+      sets: lift.sets,
+      reps: lift.reps,
+      rpe: lift.rpe,
+    };
+  });
+}
+
+// "Goblet squat: 3 x 12-15 reps @ RPE 6", "Brisk walk: 20 min @ RPE 4"
+export function formatPrescription({
+  name,
+  sets,
+  reps,
+  rpe,
+}: PrescribedExercise): string {
+  return `${name}: ${sets > 1 ? `${sets} x ` : ""}${reps} @ RPE ${rpe}`;
+}
+
+// Every distinct exercise in the week, in order of first appearance
+export function weekExercises(week: TrainingWeek): PrescribedExercise[] {
+  const byExercise = new Map<string, PrescribedExercise>();
+  week.sessions.forEach((session) =>
+    session.exercises.forEach((exercise) => {
+      if (!byExercise.has(exercise.name))
+        byExercise.set(exercise.name, exercise);
+    }),
+  );
+  return [...byExercise.values()];
+}